@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Bug, CircleDot, FastForward, StepForward, X } from 'lucide-react';
+import { useWorkflowStore } from '@/store/workflow';
+import { debugApi, RunDebugSession } from '@/lib/api';
+
+interface DebugPanelProps {
+  runId: string | null;
+  onClose: () => void;
+}
+
+// Variables the engine keeps for itself, which debug sessions can't edit
+const isSystemVariable = (name: string) => name.startsWith('system.');
+
+const editableVariables = (variables: Record<string, any>) =>
+  Object.fromEntries(Object.entries(variables).filter(([name]) => !isSystemVariable(name)));
+
+export function DebugPanel({ runId, onClose }: DebugPanelProps) {
+  const queryClient = useQueryClient();
+  const { breakpoints, selectNode } = useWorkflowStore();
+  const [variablesText, setVariablesText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: session } = useQuery({
+    queryKey: ['debug-session', runId],
+    queryFn: () => debugApi.getSession(runId!).then((response) => response.data.data),
+    enabled: Boolean(runId),
+    // Poll while the run works towards its next breakpoint
+    refetchInterval: (query) =>
+      ['PENDING', 'RUNNING', undefined].includes(query.state.data?.status) ? 2000 : false,
+  });
+
+  const isPaused = session?.status === 'PAUSED';
+
+  // Reset the editor whenever the run pauses again
+  useEffect(() => {
+    if (session && isPaused) {
+      setVariablesText(JSON.stringify(editableVariables(session.variables), null, 2));
+    }
+  }, [session?.pausedBefore, isPaused]);
+
+  const onSession = (updated: RunDebugSession) => {
+    setError(null);
+    queryClient.setQueryData(['debug-session', runId], updated);
+  };
+  const onError = (err: any) => setError(err.response?.data?.error || err.message);
+
+  // Breakpoints toggled on the canvas apply to the running session too
+  useEffect(() => {
+    if (session && breakpoints.join() !== session.breakpoints.join()) {
+      debugApi
+        .setBreakpoints(session.runId, breakpoints)
+        .then((response) => onSession(response.data.data))
+        .catch(onError);
+    }
+  }, [breakpoints]);
+
+  const variablesMutation = useMutation({
+    mutationFn: () =>
+      debugApi.updateVariables(runId!, JSON.parse(variablesText)).then((r) => r.data.data),
+    onSuccess: onSession,
+    onError,
+  });
+
+  const stepMutation = useMutation({
+    mutationFn: () => debugApi.step(runId!).then((response) => response.data.data),
+    onSuccess: onSession,
+    onError,
+  });
+
+  const continueMutation = useMutation({
+    mutationFn: () => debugApi.continue(runId!).then((response) => response.data.data),
+    onSuccess: onSession,
+    onError,
+  });
+
+  const handleSaveVariables = () => {
+    try {
+      JSON.parse(variablesText);
+    } catch {
+      setError('Variables must be valid JSON');
+      return;
+    }
+    variablesMutation.mutate();
+  };
+
+  if (!runId) return null;
+
+  const isBusy =
+    variablesMutation.isPending || stepMutation.isPending || continueMutation.isPending;
+
+  return (
+    <div className="fixed bottom-4 right-4 w-[28rem] bg-white border border-gray-200 rounded-lg shadow-lg z-40 max-h-[32rem] overflow-hidden flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <Bug className="h-5 w-5 text-orange-500" />
+          <h3 className="font-medium text-gray-900">Debug Run</h3>
+          {session && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+              {session.status.toLowerCase()}
+            </span>
+          )}
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-4 space-y-4">
+        {error && (
+          <div className="p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded">
+            {error}
+          </div>
+        )}
+
+        {!session ? (
+          <p className="text-sm text-gray-600">Starting debug run...</p>
+        ) : !isPaused ? (
+          <p className="text-sm text-gray-600">
+            {session.status === 'RUNNING'
+              ? 'Running until the next breakpoint...'
+              : `Run ended: ${session.status.toLowerCase()}`}
+          </p>
+        ) : (
+          <>
+            <div>
+              <h4 className="text-sm font-medium text-gray-800 mb-2 flex items-center">
+                <CircleDot className="h-4 w-4 mr-1 text-red-500" />
+                Paused before
+              </h4>
+              <div className="space-y-2">
+                {session.pausedBefore.map((node) => (
+                  <div
+                    key={node.nodeId}
+                    className="p-2 bg-orange-50 border border-orange-200 rounded cursor-pointer hover:bg-orange-100"
+                    onClick={() => selectNode(node.nodeId)}
+                  >
+                    <p className="text-sm font-medium text-orange-800">{node.nodeName}</p>
+                    <pre className="mt-1 text-xs text-gray-700 overflow-x-auto">
+                      {JSON.stringify(node.input, null, 2)}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-800 mb-2">Context variables</h4>
+              <textarea
+                value={variablesText}
+                onChange={(e) => setVariablesText(e.target.value)}
+                rows={6}
+                className="w-full px-2 py-1.5 text-xs font-mono border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                onClick={handleSaveVariables}
+                disabled={isBusy}
+                className="mt-2 px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+              >
+                Apply variables
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-2 p-4 border-t border-gray-200">
+        <button
+          onClick={() => stepMutation.mutate()}
+          disabled={!isPaused || isBusy}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border-2 border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          title="Run the paused nodes, then pause before the next ones"
+        >
+          <StepForward className="h-4 w-4 mr-1" />
+          Step
+        </button>
+        <button
+          onClick={() => continueMutation.mutate()}
+          disabled={!isPaused || isBusy}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-orange-500 rounded-lg hover:bg-orange-600 disabled:opacity-50"
+          title="Run until the next breakpoint"
+        >
+          <FastForward className="h-4 w-4 mr-1" />
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+}
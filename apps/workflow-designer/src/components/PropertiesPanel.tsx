@@ -1,9 +1,26 @@
 import { useCallback } from 'react';
-import { X, Trash2, AlertTriangle } from 'lucide-react';
+import { X, Trash2, AlertTriangle, Plus, CircleDot } from 'lucide-react';
 import { useWorkflowStore } from '@/store/workflow';
+import {
+  TriggerFilter,
+  TriggerFilterOperator,
+  triggerFilterOperators,
+  getTriggerFilterFields,
+  isKnownTriggerFilterField,
+  isListOperator,
+  takesValue,
+} from '@/lib/trigger-filters';
 
 export function PropertiesPanel() {
-  const { nodes, selectedNodeId, selectNode, updateNode, deleteNode } = useWorkflowStore();
+  const {
+    nodes,
+    selectedNodeId,
+    selectNode,
+    updateNode,
+    deleteNode,
+    breakpoints,
+    toggleBreakpoint,
+  } = useWorkflowStore();
 
   const selectedNode = nodes.find((node) => node.id === selectedNodeId);
 
@@ -42,6 +59,31 @@ export function PropertiesPanel() {
     [selectedNodeId, selectedNode, updateNode]
   );
 
+  const handleFilterChange = useCallback(
+    (index: number, changes: Partial<TriggerFilter>) => {
+      const filters: TriggerFilter[] = selectedNode?.data.params.filters || [];
+      handleParamChange(
+        'filters',
+        filters.map((filter, i) => (i === index ? { ...filter, ...changes } : filter))
+      );
+    },
+    [selectedNode, handleParamChange]
+  );
+
+  const handleFilterOperatorChange = useCallback(
+    (index: number, filter: TriggerFilter, operator: TriggerFilterOperator) => {
+      // Carry the value over between single values and lists
+      let value = filter.value;
+      if (isListOperator(operator) && !Array.isArray(value)) {
+        value = value ? [value] : [];
+      } else if (!isListOperator(operator) && Array.isArray(value)) {
+        value = value[0] ?? '';
+      }
+      handleFilterChange(index, { operator, value });
+    },
+    [handleFilterChange]
+  );
+
   const handleRetryPolicyChange = useCallback(
     (field: string, value: number) => {
       if (selectedNodeId) {
@@ -67,6 +109,15 @@ export function PropertiesPanel() {
     const { type, data } = selectedNode;
 
     switch (type) {
+      case 'trigger':
+        (data.params.filters || []).forEach((filter: TriggerFilter) => {
+          if (
+            !isKnownTriggerFilterField(filter.field, data.params.eventType || 'employee.onboard')
+          ) {
+            errors.push(`Unknown filter field: ${filter.field}`);
+          }
+        });
+        break;
       case 'email':
         if (!data.params.recipients) {
           errors.push('Recipients field is required');
@@ -91,13 +142,17 @@ export function PropertiesPanel() {
 
   const renderNodeProperties = () => {
     switch (selectedNode.type) {
-      case 'trigger':
+      case 'trigger': {
+        const eventType = selectedNode.data.params.eventType || 'employee.onboard';
+        const filters: TriggerFilter[] = selectedNode.data.params.filters || [];
+        const filterFields = getTriggerFilterFields(eventType);
+
         return (
           <div className="space-y-3">
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1.5">Event Type</label>
               <select
-                value={selectedNode.data.params.eventType || 'employee.onboard'}
+                value={eventType}
                 onChange={(e) => handleParamChange('eventType', e.target.value)}
                 className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-white"
               >
@@ -107,8 +162,99 @@ export function PropertiesPanel() {
                 <option value="employee.update">Employee Update</option>
               </select>
             </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1.5">Filters</label>
+              <p className="text-xs text-gray-500 mb-2">
+                Only events matching all filters start the workflow
+              </p>
+              <div className="space-y-2">
+                {filters.map((filter, index) => (
+                  <div key={index} className="p-2 border border-gray-200 rounded-lg space-y-2">
+                    <div className="flex space-x-2">
+                      <select
+                        value={filter.field}
+                        onChange={(e) => handleFilterChange(index, { field: e.target.value })}
+                        className="flex-1 min-w-0 px-2 py-1.5 text-sm border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-white"
+                      >
+                        {!filterFields.includes(filter.field) && (
+                          <option value={filter.field}>{filter.field}</option>
+                        )}
+                        {filterFields.map((field) => (
+                          <option key={field} value={field}>
+                            {field}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() =>
+                          handleParamChange(
+                            'filters',
+                            filters.filter((_, i) => i !== index)
+                          )
+                        }
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                        title="Remove Filter"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <select
+                      value={filter.operator}
+                      onChange={(e) =>
+                        handleFilterOperatorChange(
+                          index,
+                          filter,
+                          e.target.value as TriggerFilterOperator
+                        )
+                      }
+                      className="w-full px-2 py-1.5 text-sm border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-white"
+                    >
+                      {triggerFilterOperators.map((operator) => (
+                        <option key={operator.value} value={operator.value}>
+                          {operator.label}
+                        </option>
+                      ))}
+                    </select>
+                    {takesValue(filter.operator) && (
+                      <input
+                        type="text"
+                        value={
+                          isListOperator(filter.operator)
+                            ? (filter.value || []).join(', ')
+                            : (filter.value ?? '')
+                        }
+                        onChange={(e) =>
+                          handleFilterChange(index, {
+                            value: isListOperator(filter.operator)
+                              ? e.target.value.split(',').map((value) => value.trim())
+                              : e.target.value,
+                          })
+                        }
+                        className="w-full px-2 py-1.5 text-sm border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                        placeholder={
+                          isListOperator(filter.operator) ? 'e.g., Engineering, Data' : 'Value'
+                        }
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() =>
+                  handleParamChange('filters', [
+                    ...filters,
+                    { field: filterFields[0], operator: 'equals', value: '' },
+                  ])
+                }
+                className="mt-2 flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                <Plus className="h-4 w-4" />
+                Add Filter
+              </button>
+            </div>
           </div>
         );
+      }
 
       case 'identity':
         return (
@@ -263,6 +409,17 @@ export function PropertiesPanel() {
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-xl font-bold text-gray-900">Properties</h3>
           <div className="flex items-center space-x-2">
+            <button
+              onClick={() => toggleBreakpoint(selectedNode.id)}
+              className={`p-2 rounded-lg transition-all ${
+                breakpoints.includes(selectedNode.id)
+                  ? 'text-red-600 bg-red-50 hover:bg-red-100'
+                  : 'text-gray-400 hover:text-red-600 hover:bg-red-50'
+              }`}
+              title={breakpoints.includes(selectedNode.id) ? 'Remove Breakpoint' : 'Add Breakpoint'}
+            >
+              <CircleDot className="h-5 w-5" />
+            </button>
             <button
               onClick={handleDelete}
               className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-lg transition-all"
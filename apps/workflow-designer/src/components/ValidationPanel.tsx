@@ -1,7 +1,9 @@
 import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { AlertTriangle, AlertCircle, CheckCircle, X } from 'lucide-react';
 import { useWorkflowStore } from '@/store/workflow';
 import { validateWorkflow, ValidationError } from '@/lib/validation';
+import { workflowApi } from '@/lib/api';
 
 interface ValidationPanelProps {
   isOpen: boolean;
@@ -9,11 +11,34 @@ interface ValidationPanelProps {
 }
 
 export function ValidationPanel({ isOpen, onClose }: ValidationPanelProps) {
-  const { nodes, edges, selectNode } = useWorkflowStore();
+  const { nodes, edges, selectNode, currentWorkflow, isDirty } = useWorkflowStore();
+
+  // The engine type-checks the saved workflow against the schemas of its node types
+  const { data: typeCheck } = useQuery({
+    queryKey: ['workflow-type-check', currentWorkflow?.id, currentWorkflow?.updatedAt],
+    queryFn: () =>
+      workflowApi.typeCheckWorkflow(currentWorkflow!.id).then((response) => response.data.data),
+    enabled: isOpen && Boolean(currentWorkflow?.id),
+  });
 
   const validationResult = useMemo(() => {
-    return validateWorkflow(nodes, edges);
-  }, [nodes, edges]);
+    const result = validateWorkflow(nodes, edges);
+    const diagnostics: ValidationError[] = (typeCheck?.diagnostics || []).map(
+      (diagnostic, index) => ({
+        id: `type-check-${index}`,
+        type: diagnostic.severity,
+        message: diagnostic.message,
+        nodeId: diagnostic.nodeId,
+        edgeId: diagnostic.edgeId,
+      })
+    );
+
+    return {
+      isValid: result.isValid && (typeCheck?.valid ?? true),
+      errors: [...result.errors, ...diagnostics.filter((d) => d.type === 'error')],
+      warnings: [...result.warnings, ...diagnostics.filter((d) => d.type === 'warning')],
+    };
+  }, [nodes, edges, typeCheck]);
 
   const handleErrorClick = (error: ValidationError) => {
     if (error.nodeId) {
@@ -112,6 +137,9 @@ export function ValidationPanel({ isOpen, onClose }: ValidationPanelProps) {
             {validationResult.errors.length} errors, {validationResult.warnings.length} warnings
           </span>
         </div>
+        {typeCheck && isDirty && (
+          <p className="mt-1 text-gray-500">Schema checks reflect the last saved version.</p>
+        )}
       </div>
     </div>
   );
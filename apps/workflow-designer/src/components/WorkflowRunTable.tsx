@@ -1,3 +1,4 @@
+import { Fragment, useState } from 'react';
 import {
   Play,
   Pause,
@@ -8,6 +9,7 @@ import {
   XCircle,
   AlertTriangle,
   Eye,
+  RotateCcw,
 } from 'lucide-react';
 import { WorkflowRun } from '../lib/api';
 
@@ -15,9 +17,18 @@ interface WorkflowRunTableProps {
   runs: WorkflowRun[];
   onSelectRun: (run: WorkflowRun) => void;
   onRunAction: (runId: string, action: 'pause' | 'resume' | 'cancel' | 'retry') => void;
+  onRerun: (runId: string, fromNodeId?: string) => void;
 }
 
-export function WorkflowRunTable({ runs, onSelectRun, onRunAction }: WorkflowRunTableProps) {
+export function WorkflowRunTable({
+  runs,
+  onSelectRun,
+  onRunAction,
+  onRerun,
+}: WorkflowRunTableProps) {
+  const [rerunRunId, setRerunRunId] = useState<string | null>(null);
+  const [rerunFromNodeId, setRerunFromNodeId] = useState('');
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'RUNNING':
@@ -69,7 +80,7 @@ export function WorkflowRunTable({ runs, onSelectRun, onRunAction }: WorkflowRun
       case 'PENDING':
         return ['cancel'];
       case 'FAILED':
-        return ['retry'];
+        return ['retry', 'rerun'];
       default:
         return [];
     }
@@ -109,55 +120,109 @@ export function WorkflowRunTable({ runs, onSelectRun, onRunAction }: WorkflowRun
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {runs.map((run) => (
-                <tr key={run.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                    {run.id.slice(0, 8)}...
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {run.context.workflowName || 'Unknown Workflow'}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {run.context.employeeName || 'N/A'}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span
-                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(run.status)}`}
-                    >
-                      {getStatusIcon(run.status)}
-                      <span className="ml-1">{run.status}</span>
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {formatDuration(run.startedAt, run.endedAt)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {new Date(run.startedAt).toLocaleString()}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <div className="flex items-center justify-end space-x-2">
-                      <button
-                        onClick={() => onSelectRun(run)}
-                        className="text-blue-600 hover:text-blue-900"
-                        title="View Timeline"
+                <Fragment key={run.id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {run.id.slice(0, 8)}...
+                      {run.rerunOfRunId && (
+                        <div className="text-xs font-normal text-gray-500">
+                          Re-run of {run.rerunOfRunId.slice(0, 8)}...
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {run.context.workflowName || 'Unknown Workflow'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {run.context.employeeName || 'N/A'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(run.status)}`}
                       >
-                        <Eye className="h-4 w-4" />
-                      </button>
-
-                      {getAvailableActions(run.status).map((action) => (
+                        {getStatusIcon(run.status)}
+                        <span className="ml-1">{run.status}</span>
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDuration(run.startedAt, run.endedAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(run.startedAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex items-center justify-end space-x-2">
                         <button
-                          key={action}
-                          onClick={() => onRunAction(run.id, action as any)}
-                          className="text-gray-600 hover:text-gray-900"
-                          title={action.charAt(0).toUpperCase() + action.slice(1)}
+                          onClick={() => onSelectRun(run)}
+                          className="text-blue-600 hover:text-blue-900"
+                          title="View Timeline"
                         >
-                          {action === 'pause' && <Pause className="h-4 w-4" />}
-                          {action === 'cancel' && <Square className="h-4 w-4" />}
-                          {action === 'retry' && <RefreshCw className="h-4 w-4" />}
+                          <Eye className="h-4 w-4" />
                         </button>
-                      ))}
-                    </div>
-                  </td>
-                </tr>
+
+                        {getAvailableActions(run.status).map((action) => (
+                          <button
+                            key={action}
+                            onClick={() => {
+                              if (action === 'rerun') {
+                                setRerunRunId(rerunRunId === run.id ? null : run.id);
+                                setRerunFromNodeId('');
+                              } else {
+                                onRunAction(run.id, action as any);
+                              }
+                            }}
+                            className="text-gray-600 hover:text-gray-900"
+                            title={
+                              action === 'rerun'
+                                ? 'Re-run from node'
+                                : action.charAt(0).toUpperCase() + action.slice(1)
+                            }
+                          >
+                            {action === 'pause' && <Pause className="h-4 w-4" />}
+                            {action === 'cancel' && <Square className="h-4 w-4" />}
+                            {action === 'retry' && <RefreshCw className="h-4 w-4" />}
+                            {action === 'rerun' && <RotateCcw className="h-4 w-4" />}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                  {rerunRunId === run.id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={7} className="px-6 py-3">
+                        <div className="flex items-center justify-end space-x-3 text-sm">
+                          <label htmlFor={`rerun-from-${run.id}`} className="text-gray-700">
+                            Re-run from
+                          </label>
+                          <select
+                            id={`rerun-from-${run.id}`}
+                            value={rerunFromNodeId}
+                            onChange={(e) => setRerunFromNodeId(e.target.value)}
+                            className="rounded-md border-gray-300 text-sm"
+                          >
+                            <option value="">All failed nodes</option>
+                            {Array.from(new Set(run.nodeRuns.map((nodeRun) => nodeRun.nodeId))).map(
+                              (nodeId) => (
+                                <option key={nodeId} value={nodeId}>
+                                  {nodeId}
+                                </option>
+                              )
+                            )}
+                          </select>
+                          <button
+                            onClick={() => {
+                              onRerun(run.id, rerunFromNodeId || undefined);
+                              setRerunRunId(null);
+                            }}
+                            className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+                          >
+                            Re-run
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
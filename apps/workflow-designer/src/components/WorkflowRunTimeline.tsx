@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { X, Clock, CheckCircle, XCircle, Play, Pause, AlertTriangle } from 'lucide-react';
-import { WorkflowRun, monitoringApi } from '../lib/api';
+import { WorkflowRun, RunEvent, monitoringApi } from '../lib/api';
+
+const EVENTS_PAGE_SIZE = 100;
 
 interface WorkflowRunTimelineProps {
   run: WorkflowRun;
@@ -8,24 +10,41 @@ interface WorkflowRunTimelineProps {
 }
 
 export function WorkflowRunTimeline({ run, onClose }: WorkflowRunTimelineProps) {
-  const [detailedRun, setDetailedRun] = useState<WorkflowRun | null>(null);
+  const [events, setEvents] = useState<RunEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
 
   useEffect(() => {
-    loadDetailedRun();
+    setEvents([]);
+    setLoading(true);
+    loadEvents();
   }, [run.id]);
 
-  const loadDetailedRun = async () => {
+  // The run's event log, a page at a time; `after` continues from the last page
+  const loadEvents = async (after?: number) => {
     try {
-      const response = await monitoringApi.getWorkflowRun(run.id);
-      setDetailedRun(response.data);
+      const response = await monitoringApi.getWorkflowRunEvents(run.id, after, EVENTS_PAGE_SIZE);
+      const page = response.data.data;
+      setEvents((loaded) => (after ? [...loaded, ...page.events] : page.events));
+      setNextCursor(page.nextCursor);
+      setLoadFailed(false);
     } catch (error) {
-      console.error('Failed to load detailed run:', error);
+      console.error('Failed to load run events:', error);
+      setLoadFailed(true);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  const loadMoreEvents = () => {
+    if (nextCursor === null) return;
+    setLoadingMore(true);
+    loadEvents(nextCursor);
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'RUNNING':
@@ -37,6 +56,7 @@ export function WorkflowRunTimeline({ run, onClose }: WorkflowRunTimelineProps)
       case 'QUEUED':
         return <Clock className="h-4 w-4 text-yellow-500" />;
       case 'RETRYING':
+      case 'COMPENSATING':
         return <AlertTriangle className="h-4 w-4 text-orange-500" />;
       default:
         return <Pause className="h-4 w-4 text-gray-500" />;
@@ -54,6 +74,7 @@ export function WorkflowRunTimeline({ run, onClose }: WorkflowRunTimelineProps)
       case 'QUEUED':
         return 'bg-yellow-100 text-yellow-800';
       case 'RETRYING':
+      case 'COMPENSATING':
         return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
@@ -73,6 +94,66 @@ export function WorkflowRunTimeline({ run, onClose }: WorkflowRunTimelineProps)
     return `${(duration / 60000).toFixed(1)}m`;
   };
 
+  // Status an event's icon and badge show
+  const getEventStatus = (event: RunEvent) => {
+    switch (event.type) {
+      case 'node.result':
+        return event.data.status === 'success' ? 'COMPLETED' : 'FAILED';
+      case 'node.retry_scheduled':
+        return 'RETRYING';
+      default:
+        return event.toStatus || 'QUEUED';
+    }
+  };
+
+  const describeEvent = (event: RunEvent) => {
+    const node = `Node ${event.nodeId}`;
+    const change = [event.fromStatus, event.toStatus]
+      .filter(Boolean)
+      .map((status) => status!.toLowerCase())
+      .join(' → ');
+    switch (event.type) {
+      case 'run.created':
+        return 'Run created';
+      case 'run.status_changed':
+        return event.data.breakpoint ? `Run ${change} at a breakpoint` : `Run ${change}`;
+      case 'node.status_changed':
+        return `${node} ${change}`;
+      case 'node.dispatched':
+        return `${node} dispatched`;
+      case 'node.result':
+        return event.data.ignored
+          ? `${node} reported ${event.data.status} too late; ignored`
+          : `${node} reported ${event.data.status}`;
+      case 'node.retry_scheduled':
+        return `${node} retry scheduled for ${new Date(event.data.retryAt).toLocaleTimeString()}`;
+      case 'run.variables_changed':
+        return `Variables edited: ${event.data.variables?.join(', ')}`;
+      case 'compensation.step':
+        return `Compensation ${event.nodeId} ${event.toStatus?.toLowerCase()}`;
+      default:
+        return event.type;
+    }
+  };
+
+  const describeActor = (actor: RunEvent['actor']) => {
+    switch (actor.type) {
+      case 'user':
+        return `by user ${actor.id}`;
+      case 'schedule':
+        return `by schedule ${actor.id}`;
+      case 'event':
+        return `by event ${actor.id}`;
+      default:
+        return 'by the engine';
+    }
+  };
+
+  const getEventError = (event: RunEvent) => {
+    const { error } = event.data;
+    return typeof error === 'string' ? error : error?.message;
+  };
+
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
       <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-4xl shadow-lg rounded-md bg-white">
@@ -87,7 +168,7 @@ export function WorkflowRunTimeline({ run, onClose }: WorkflowRunTimelineProps)
           <div className="flex items-center justify-center h-32">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           </div>
-        ) : detailedRun ? (
+        ) : !loadFailed || events.length > 0 ? (
           <div className="space-y-6">
             {/* Run Overview */}
             <div className="bg-gray-50 rounded-lg p-4">
@@ -95,42 +176,43 @@ export function WorkflowRunTimeline({ run, onClose }: WorkflowRunTimelineProps)
                 <div>
                   <p className="text-sm font-medium text-gray-500">Status</p>
                   <span
-                    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(detailedRun.status)}`}
+                    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(run.status)}`}
                   >
-                    {getStatusIcon(detailedRun.status)}
-                    <span className="ml-1">{detailedRun.status}</span>
+                    {getStatusIcon(run.status)}
+                    <span className="ml-1">{run.status}</span>
                   </span>
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Duration</p>
                   <p className="text-sm text-gray-900">
-                    {formatDuration(detailedRun.startedAt, detailedRun.endedAt)}
+                    {formatDuration(run.startedAt, run.endedAt)}
                   </p>
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Started</p>
                   <p className="text-sm text-gray-900">
-                    {new Date(detailedRun.startedAt).toLocaleString()}
+                    {new Date(run.startedAt).toLocaleString()}
                   </p>
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Employee</p>
-                  <p className="text-sm text-gray-900">
-                    {detailedRun.context.employeeName || 'N/A'}
-                  </p>
+                  <p className="text-sm text-gray-900">{run.context.employeeName || 'N/A'}</p>
                 </div>
               </div>
             </div>
 
-            {/* Node Timeline */}
+            {/* Event Timeline */}
             <div>
-              <h4 className="text-md font-medium text-gray-900 mb-4">Node Execution Timeline</h4>
+              <h4 className="text-md font-medium text-gray-900 mb-4">Run Timeline</h4>
+              {events.length === 0 && (
+                <p className="text-sm text-gray-500">No events recorded for this run</p>
+              )}
               <div className="flow-root">
                 <ul className="-mb-8">
-                  {detailedRun.nodeRuns.map((nodeRun, nodeIdx) => (
-                    <li key={nodeRun.id}>
+                  {events.map((event, eventIdx) => (
+                    <li key={event.id}>
                       <div className="relative pb-8">
-                        {nodeIdx !== detailedRun.nodeRuns.length - 1 ? (
+                        {eventIdx !== events.length - 1 ? (
                           <span
                             className="absolute top-4 left-4 -ml-px h-full w-0.5 bg-gray-200"
                             aria-hidden="true"
@@ -139,43 +221,44 @@ export function WorkflowRunTimeline({ run, onClose }: WorkflowRunTimelineProps)
                         <div className="relative flex space-x-3">
                           <div>
                             <span className="h-8 w-8 rounded-full bg-white flex items-center justify-center ring-8 ring-white">
-                              {getStatusIcon(nodeRun.status)}
+                              {getStatusIcon(getEventStatus(event))}
                             </span>
                           </div>
                           <div className="min-w-0 flex-1 pt-1.5">
                             <div className="flex items-center justify-between">
                               <div>
                                 <p className="text-sm font-medium text-gray-900">
-                                  Node {nodeRun.nodeId}
+                                  {describeEvent(event)}
                                 </p>
                                 <p className="text-xs text-gray-500">
-                                  Attempt {nodeRun.attempt} •{' '}
-                                  {formatDuration(nodeRun.startedAt, nodeRun.endedAt)}
+                                  {new Date(event.createdAt).toLocaleString()}
+                                  {event.attempt ? ` • Attempt ${event.attempt}` : ''} •{' '}
+                                  {describeActor(event.actor)}
                                 </p>
                               </div>
                               <div className="text-right">
                                 <span
-                                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(nodeRun.status)}`}
+                                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(getEventStatus(event))}`}
                                 >
-                                  {nodeRun.status}
+                                  {getEventStatus(event)}
                                 </span>
                               </div>
                             </div>
 
-                            {nodeRun.error && (
+                            {getEventError(event) && (
                               <div className="mt-2 p-3 bg-red-50 rounded-md">
-                                <p className="text-sm text-red-800">{nodeRun.error}</p>
+                                <p className="text-sm text-red-800">{getEventError(event)}</p>
                               </div>
                             )}
 
-                            {nodeRun.output && Object.keys(nodeRun.output).length > 0 && (
+                            {Object.keys(event.data).length > 0 && (
                               <div className="mt-2">
                                 <details className="group">
                                   <summary className="text-xs text-gray-500 cursor-pointer hover:text-gray-700">
-                                    View output
+                                    View details
                                   </summary>
                                   <pre className="mt-2 text-xs bg-gray-100 p-2 rounded overflow-x-auto">
-                                    {JSON.stringify(nodeRun.output, null, 2)}
+                                    {JSON.stringify(event.data, null, 2)}
                                   </pre>
                                 </details>
                               </div>
@@ -187,11 +270,22 @@ export function WorkflowRunTimeline({ run, onClose }: WorkflowRunTimelineProps)
                   ))}
                 </ul>
               </div>
+              {nextCursor !== null && (
+                <div className="mt-4 text-center">
+                  <button
+                    onClick={loadMoreEvents}
+                    disabled={loadingMore}
+                    className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load more events'}
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         ) : (
           <div className="text-center py-8">
-            <p className="text-gray-500">Failed to load workflow run details</p>
+            <p className="text-gray-500">Failed to load the run timeline</p>
           </div>
         )}
       </div>
@@ -1,6 +1,7 @@
 import { ReactNode } from 'react';
-import { Handle, Position } from 'reactflow';
+import { Handle, Position, useNodeId } from 'reactflow';
 import { cn } from '@/lib/utils';
+import { useWorkflowStore } from '@/store/workflow';
 
 interface BaseNodeProps {
   data: {
@@ -27,16 +28,28 @@ export function BaseNode({
   color = 'bg-blue-500',
   handles = { top: true, bottom: true },
 }: BaseNodeProps) {
+  const nodeId = useNodeId();
+  const hasBreakpoint = useWorkflowStore((state) =>
+    nodeId ? state.breakpoints.includes(nodeId) : false
+  );
+
   return (
     <div
       className={cn(
-        'min-w-[220px] bg-white rounded-xl shadow-lg transition-all duration-200',
+        'relative min-w-[220px] bg-white rounded-xl shadow-lg transition-all duration-200',
         'border-2 hover:shadow-xl',
         selected
           ? 'border-blue-500 shadow-blue-100 ring-2 ring-blue-200'
           : 'border-gray-200 hover:border-gray-300'
       )}
     >
+      {hasBreakpoint && (
+        <div
+          className="absolute -top-1.5 -left-1.5 w-3.5 h-3.5 rounded-full bg-red-500 border-2 border-white shadow"
+          title="Debug runs pause before this node"
+        />
+      )}
+
       {handles.top && (
         <Handle
           type="target"
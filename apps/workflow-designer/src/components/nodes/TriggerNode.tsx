@@ -4,6 +4,7 @@ import { BaseNode } from './BaseNode';
 
 export function TriggerNode({ data, selected }: NodeProps) {
   const eventType = data.params?.eventType || 'employee.onboard';
+  const filterCount = data.params?.filters?.length || 0;
 
   return (
     <BaseNode
@@ -14,6 +15,11 @@ export function TriggerNode({ data, selected }: NodeProps) {
       handles={{ bottom: true }}
     >
       <div>Event: {eventType}</div>
+      {filterCount > 0 && (
+        <div>
+          {filterCount} {filterCount === 1 ? 'filter' : 'filters'}
+        </div>
+      )}
     </BaseNode>
   );
 }
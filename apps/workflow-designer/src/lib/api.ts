@@ -87,6 +87,8 @@ export interface WorkflowRun {
   endedAt?: string;
   context: Record<string, any>;
   nodeRuns: NodeRun[];
+  rerunOfRunId?: string;
+  rerunFromNodeId?: string;
 }
 
 export interface NodeRun {
@@ -101,6 +103,67 @@ export interface NodeRun {
   error?: string;
 }
 
+export type RunEventType =
+  | 'run.created'
+  | 'run.status_changed'
+  | 'node.status_changed'
+  | 'node.dispatched'
+  | 'node.result'
+  | 'node.retry_scheduled'
+  | 'run.variables_changed'
+  | 'compensation.step';
+
+export interface RunEvent {
+  id: string;
+  sequence: number;
+  runId: string;
+  type: RunEventType;
+  nodeId?: string;
+  attempt?: number;
+  fromStatus?: string;
+  toStatus?: string;
+  actor: { type: 'system' | 'user' | 'event' | 'schedule'; id?: string };
+  data: Record<string, any>;
+  createdAt: string;
+}
+
+export interface RunEventPage {
+  events: RunEvent[];
+  nextCursor: number | null;
+}
+
+// A debug run: nodes it paused before with their resolved input, and its context variables
+export interface RunDebugSession {
+  runId: string;
+  workflowId: string;
+  status: string;
+  breakpoints: string[];
+  stepping: boolean;
+  pausedBefore: Array<{
+    nodeId: string;
+    nodeName: string;
+    nodeType: string;
+    input: Record<string, any>;
+  }>;
+  variables: Record<string, any>;
+}
+
+// A type-check finding of the engine, located at a node or edge
+export interface WorkflowDiagnostic {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  nodeId?: string;
+  nodeName?: string;
+  edgeId?: string;
+  field?: string;
+}
+
+export interface WorkflowTypeCheckResult {
+  valid: boolean;
+  diagnostics: WorkflowDiagnostic[];
+}
+
 export interface WorkflowMetrics {
   totalRuns: number;
   runningRuns: number;
@@ -236,6 +299,19 @@ export const workflowApi = {
     }),
   getWorkflowRuns: (workflowId: string) =>
     apiClient.get<WorkflowRun[]>(`/workflows/${workflowId}/runs`),
+  debugWorkflow: (
+    id: string,
+    options: {
+      breakpoints?: string[];
+      stepping?: boolean;
+      context?: { employeeId?: string; variables?: Record<string, any> };
+    }
+  ) => apiClient.post<{ success: boolean; data: WorkflowRun }>(`/workflows/${id}/debug`, options),
+  typeCheckWorkflow: (workflowId: string, version?: number) =>
+    apiClient.post<{ success: boolean; data: WorkflowTypeCheckResult }>('/workflows/type-check', {
+      workflowId,
+      version,
+    }),
 };
 
 export const monitoringApi = {
@@ -251,6 +327,35 @@ export const monitoringApi = {
   resumeWorkflowRun: (runId: string) => apiClient.post(`/monitoring/runs/${runId}/resume`),
   cancelWorkflowRun: (runId: string) => apiClient.post(`/monitoring/runs/${runId}/cancel`),
   retryWorkflowRun: (runId: string) => apiClient.post(`/monitoring/runs/${runId}/retry`),
+  rerunWorkflowRun: (runId: string, fromNodeId?: string) =>
+    apiClient.post<WorkflowRun>(`/workflow-runs/${runId}/rerun`, { fromNodeId }),
+  getWorkflowRunEvents: (runId: string, after?: number, limit?: number) =>
+    apiClient.get<{ success: boolean; data: RunEventPage }>(`/workflow-runs/${runId}/events`, {
+      params: { after, limit },
+    }),
+};
+
+export const debugApi = {
+  getSession: (runId: string) =>
+    apiClient.get<{ success: boolean; data: RunDebugSession }>(`/workflow-runs/${runId}/debug`),
+  setBreakpoints: (runId: string, nodeIds: string[]) =>
+    apiClient.put<{ success: boolean; data: RunDebugSession }>(
+      `/workflow-runs/${runId}/debug/breakpoints`,
+      { nodeIds }
+    ),
+  updateVariables: (runId: string, variables: Record<string, any>) =>
+    apiClient.patch<{ success: boolean; data: RunDebugSession }>(
+      `/workflow-runs/${runId}/debug/variables`,
+      { variables }
+    ),
+  step: (runId: string) =>
+    apiClient.post<{ success: boolean; data: RunDebugSession }>(
+      `/workflow-runs/${runId}/debug/step`
+    ),
+  continue: (runId: string) =>
+    apiClient.post<{ success: boolean; data: RunDebugSession }>(
+      `/workflow-runs/${runId}/debug/continue`
+    ),
 };
 
 export const adminApi = {
@@ -0,0 +1,92 @@
+export interface TriggerFilter {
+  field: string;
+  operator: TriggerFilterOperator;
+  value?: any;
+}
+
+export type TriggerFilterOperator =
+  'equals' | 'not_equals' | 'in' | 'not_in' | 'starts_with' | 'contains' | 'exists' | 'not_exists';
+
+export const triggerFilterOperators: { value: TriggerFilterOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'in', label: 'is one of' },
+  { value: 'not_in', label: 'is not one of' },
+  { value: 'starts_with', label: 'starts with' },
+  { value: 'contains', label: 'contains' },
+  { value: 'exists', label: 'is set' },
+  { value: 'not_exists', label: 'is not set' },
+];
+
+// Payload fields of each event type, mirroring the workflow engine's catalog
+const eventFields: Record<string, string[]> = {
+  'employee.onboard': [
+    'firstName',
+    'lastName',
+    'email',
+    'department',
+    'role',
+    'managerId',
+    'startDate',
+    'location',
+    'employeeType',
+  ],
+  'employee.exit': ['exitDate', 'exitType', 'reason', 'lastWorkingDay'],
+  'employee.transfer': [
+    'fromDepartment',
+    'toDepartment',
+    'fromRole',
+    'toRole',
+    'fromManagerId',
+    'toManagerId',
+    'effectiveDate',
+  ],
+};
+
+const employeeFields = [
+  'employee_number',
+  'email',
+  'first_name',
+  'last_name',
+  'department',
+  'job_title',
+  'manager_id',
+  'hire_date',
+  'termination_date',
+  'status',
+];
+
+/**
+ * Fields a trigger of the given event type can filter on
+ */
+export function getTriggerFilterFields(eventType: string): string[] {
+  return [
+    ...(eventFields[eventType] || []).map((field) => `event.${field}`),
+    ...employeeFields.map((field) => `employee.${field}`),
+  ];
+}
+
+/**
+ * Whether a filter references a field known for the event type. Custom employee
+ * profile fields are accepted as `employee.profile_data.<key>`.
+ */
+export function isKnownTriggerFilterField(field: string, eventType: string): boolean {
+  return (
+    getTriggerFilterFields(eventType).includes(field) ||
+    /^employee\.profile_data\.[^.]+$/.test(field)
+  );
+}
+
+/**
+ * Whether the operator compares against a list of values
+ */
+export function isListOperator(operator: TriggerFilterOperator): boolean {
+  return operator === 'in' || operator === 'not_in';
+}
+
+/**
+ * Whether the operator takes a value at all
+ */
+export function takesValue(operator: TriggerFilterOperator): boolean {
+  return operator !== 'exists' && operator !== 'not_exists';
+}
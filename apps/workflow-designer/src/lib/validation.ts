@@ -1,4 +1,10 @@
 import { Node, Edge } from 'reactflow';
+import {
+  TriggerFilter,
+  isKnownTriggerFilterField,
+  isListOperator,
+  takesValue,
+} from './trigger-filters';
 
 export interface ValidationError {
   id: string;
@@ -118,6 +124,35 @@ function validateNode(node: Node): ValidationError[] {
 
   // Type-specific validations
   switch (type) {
+    case 'trigger': {
+      const eventType = data.params?.eventType || 'employee.onboard';
+      const filters: TriggerFilter[] = data.params?.filters || [];
+
+      filters.forEach((filter, index) => {
+        if (!isKnownTriggerFilterField(filter.field, eventType)) {
+          errors.push({
+            id: `trigger-unknown-filter-field-${node.id}-${index}`,
+            type: 'error',
+            message: `Trigger "${data.label}" filters on unknown field "${filter.field}" for ${eventType} events`,
+            nodeId: node.id,
+          });
+        } else if (
+          takesValue(filter.operator) &&
+          (isListOperator(filter.operator)
+            ? !Array.isArray(filter.value) || filter.value.length === 0
+            : filter.value === undefined || filter.value === '')
+        ) {
+          errors.push({
+            id: `trigger-filter-no-value-${node.id}-${index}`,
+            type: 'error',
+            message: `Trigger "${data.label}" filter on "${filter.field}" has no value`,
+            nodeId: node.id,
+          });
+        }
+      });
+      break;
+    }
+
     case 'email':
       if (!data.params?.recipients) {
         errors.push({
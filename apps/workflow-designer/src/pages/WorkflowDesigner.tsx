@@ -17,9 +17,10 @@ import { WorkflowToolbar } from '@/components/WorkflowToolbar';
 import { NodeSidebar } from '@/components/NodeSidebar';
 import { PropertiesPanel } from '@/components/PropertiesPanel';
 import { nodeTypes } from '@/components/nodes';
-import { Save, Play, ArrowLeft, FileText, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Save, Play, Bug, ArrowLeft, FileText, AlertTriangle, CheckCircle } from 'lucide-react';
 import { TemplateGallery } from '@/components/TemplateGallery';
 import { ValidationPanel } from '@/components/ValidationPanel';
+import { DebugPanel } from '@/components/DebugPanel';
 import { WorkflowTemplate } from '@/lib/templates';
 import { validateWorkflow } from '@/lib/validation';
 
@@ -46,10 +47,12 @@ export function WorkflowDesigner() {
     loadWorkflowDefinition,
     getWorkflowDefinition,
     setDirty,
+    breakpoints,
   } = useWorkflowStore();
 
   const [showTemplateGallery, setShowTemplateGallery] = useState(false);
   const [showValidationPanel, setShowValidationPanel] = useState(false);
+  const [debugRunId, setDebugRunId] = useState<string | null>(null);
   const [showMetadataEditor, setShowMetadataEditor] = useState(!isEditing); // Show on new workflow
   const [workflowMetadata, setWorkflowMetadata] = useState({
     name: '',
@@ -263,6 +266,30 @@ export function WorkflowDesigner() {
     }
   }, [currentWorkflow, validationResult, setLoading, navigate, setShowMetadataEditor]);
 
+  // Debug runs pause before breakpoint nodes, or before every node when none are set
+  const handleDebugRun = useCallback(async () => {
+    if (!currentWorkflow?.id) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await workflowApi.debugWorkflow(currentWorkflow.id, {
+        breakpoints,
+        stepping: breakpoints.length === 0,
+        context: { variables: { testRun: true } },
+      });
+      setShowValidationPanel(false);
+      setDebugRunId(response.data.data.id);
+    } catch (error: any) {
+      console.error('Failed to start debug run:', error);
+      const errorMessage = error.response?.data?.error || error.message || 'Unknown error';
+      alert(`❌ Failed to start debug run.\n\nError: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentWorkflow, breakpoints, setLoading]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -516,6 +543,19 @@ export function WorkflowDesigner() {
               <Play className="h-4 w-4 mr-2" />
               Test Run
             </button>
+            <button
+              onClick={handleDebugRun}
+              disabled={isLoading || !currentWorkflow?.id}
+              className="inline-flex items-center px-4 py-2 border-2 border-orange-300 rounded-xl text-sm font-medium text-orange-700 bg-orange-50 hover:bg-orange-100 hover:border-orange-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
+              title={
+                breakpoints.length > 0
+                  ? '🐞 Run workflow in debug mode, pausing at breakpoints'
+                  : '🐞 Run workflow in debug mode, pausing before every node'
+              }
+            >
+              <Bug className="h-4 w-4 mr-2" />
+              Debug
+            </button>
           </div>
         </div>
 
@@ -592,6 +632,9 @@ export function WorkflowDesigner() {
           onClose={() => setShowValidationPanel(false)}
         />
 
+        {/* Debug Panel */}
+        <DebugPanel runId={debugRunId} onClose={() => setDebugRunId(null)} />
+
         {/* Workflow Metadata Editor */}
         {showMetadataEditor && (
           <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -17,6 +17,9 @@ export interface WorkflowStore {
   isLoading: boolean;
   isDirty: boolean;
 
+  // Nodes debug runs pause before; not part of the workflow
+  breakpoints: string[];
+
   // Actions
   setCurrentWorkflow: (workflow: Workflow | null) => void;
   setNodes: (nodes: Node[]) => void;
@@ -28,6 +31,7 @@ export interface WorkflowStore {
   updateNode: (nodeId: string, data: any) => void;
   deleteNode: (nodeId: string) => void;
   selectNode: (nodeId: string | null) => void;
+  toggleBreakpoint: (nodeId: string) => void;
   loadWorkflowDefinition: (definition: WorkflowDefinition) => void;
   getWorkflowDefinition: () => WorkflowDefinition;
   setLoading: (loading: boolean) => void;
@@ -42,6 +46,7 @@ const initialState = {
   selectedNodeId: null,
   isLoading: false,
   isDirty: false,
+  breakpoints: [],
 };
 
 export const useWorkflowStore = create<WorkflowStore>()(
@@ -100,6 +105,7 @@ export const useWorkflowStore = create<WorkflowStore>()(
       deleteNode: (nodeId) => {
         set({
           nodes: get().nodes.filter((node) => node.id !== nodeId),
+          breakpoints: get().breakpoints.filter((id) => id !== nodeId),
           edges: get().edges.filter((edge) => edge.source !== nodeId && edge.target !== nodeId),
           selectedNodeId: get().selectedNodeId === nodeId ? null : get().selectedNodeId,
           isDirty: true,
@@ -108,6 +114,15 @@ export const useWorkflowStore = create<WorkflowStore>()(
 
       selectNode: (nodeId) => set({ selectedNodeId: nodeId }),
 
+      toggleBreakpoint: (nodeId) => {
+        const { breakpoints } = get();
+        set({
+          breakpoints: breakpoints.includes(nodeId)
+            ? breakpoints.filter((id) => id !== nodeId)
+            : [...breakpoints, nodeId],
+        });
+      },
+
       loadWorkflowDefinition: (definition) => {
         const nodes = definition.nodes.map((node) => ({
           id: node.id,
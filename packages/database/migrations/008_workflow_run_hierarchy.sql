@@ -0,0 +1,8 @@
+-- Sub-workflow run linkage
+-- Migration 008: parent/child workflow runs started by workflow.invoke nodes
+
+ALTER TABLE workflow_runs
+    ADD COLUMN parent_run_id UUID REFERENCES workflow_runs(run_id) ON DELETE SET NULL,
+    ADD COLUMN parent_node_id UUID;
+
+CREATE INDEX idx_workflow_runs_parent_run_id ON workflow_runs(parent_run_id);
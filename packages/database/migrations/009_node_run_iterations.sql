@@ -0,0 +1,7 @@
+-- For-each iteration tracking
+-- Migration 009: iterations of a foreach node are recorded as node runs of that node
+
+ALTER TABLE node_runs ADD COLUMN iteration_index INTEGER;
+
+CREATE INDEX idx_node_runs_iterations ON node_runs(run_id, node_id, iteration_index)
+    WHERE iteration_index IS NOT NULL;
@@ -0,0 +1,8 @@
+-- Workflow run re-runs
+-- Migration 010: lineage between a failed run and the runs that re-ran it from a node
+
+ALTER TABLE workflow_runs
+    ADD COLUMN rerun_of_run_id UUID REFERENCES workflow_runs(run_id) ON DELETE SET NULL,
+    ADD COLUMN rerun_from_node_id UUID;
+
+CREATE INDEX idx_workflow_runs_rerun_of_run_id ON workflow_runs(rerun_of_run_id);
@@ -0,0 +1,27 @@
+-- Workflow versions
+-- Migration 011: immutable definition snapshots per workflow version, and the
+-- version each run executes
+
+CREATE TABLE workflow_versions (
+    workflow_id UUID NOT NULL REFERENCES workflows(workflow_id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    event_trigger VARCHAR(100) NOT NULL,
+    definition JSONB NOT NULL,
+    created_by UUID REFERENCES users(user_id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (workflow_id, version)
+);
+
+INSERT INTO workflow_versions (workflow_id, version, name, description, event_trigger, definition, created_by, created_at)
+SELECT workflow_id, version, name, description, event_trigger, definition, created_by, updated_at
+FROM workflows;
+
+ALTER TABLE workflow_runs
+    ADD COLUMN workflow_version INTEGER;
+
+UPDATE workflow_runs
+SET workflow_version = workflows.version
+FROM workflows
+WHERE workflow_runs.workflow_id = workflows.workflow_id;
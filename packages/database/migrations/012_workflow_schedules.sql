@@ -0,0 +1,36 @@
+-- Workflow schedules
+-- Migration 012: cron and employee-date triggers that start workflows on a schedule
+
+CREATE TABLE workflow_schedules (
+    schedule_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(org_id) ON DELETE CASCADE,
+    workflow_id UUID NOT NULL REFERENCES workflows(workflow_id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    schedule_type VARCHAR(50) NOT NULL CHECK (schedule_type IN ('cron', 'employee_date')),
+    cron_expression VARCHAR(100) NOT NULL,
+    timezone VARCHAR(100) NOT NULL DEFAULT 'UTC',
+    date_field VARCHAR(50) CHECK (date_field IN ('hire_date', 'termination_date')),
+    offset_days INTEGER,
+    misfire_policy VARCHAR(50) NOT NULL DEFAULT 'fire_once'
+        CHECK (misfire_policy IN ('fire_once', 'skip')),
+    variables JSONB DEFAULT '{}',
+    is_active BOOLEAN DEFAULT true,
+    next_run_at TIMESTAMP WITH TIME ZONE,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(user_id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (schedule_type = 'cron' OR date_field IS NOT NULL)
+);
+
+CREATE INDEX idx_workflow_schedules_org_id ON workflow_schedules(org_id);
+CREATE INDEX idx_workflow_schedules_workflow_id ON workflow_schedules(workflow_id);
+CREATE INDEX idx_workflow_schedules_due ON workflow_schedules(next_run_at) WHERE is_active = true;
+
+-- Employee-date schedules look up employees by date
+CREATE INDEX idx_employees_hire_date ON employees(org_id, hire_date);
+CREATE INDEX idx_employees_termination_date ON employees(org_id, termination_date);
+
+CREATE TRIGGER update_workflow_schedules_updated_at
+    BEFORE UPDATE ON workflow_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
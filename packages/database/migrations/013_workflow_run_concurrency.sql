@@ -0,0 +1,6 @@
+-- Workflow run concurrency
+-- Migration 013: look up a workflow's runs for an employee by status, used to
+-- enforce per-employee concurrency policies and to start queued runs
+
+CREATE INDEX idx_workflow_runs_workflow_employee_status
+    ON workflow_runs(workflow_id, employee_id, status);
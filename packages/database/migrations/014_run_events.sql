@@ -0,0 +1,33 @@
+-- Run events
+-- Migration 014: append-only log of everything that happened to a workflow run, served
+-- as the run's timeline
+
+CREATE TABLE run_events (
+    event_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sequence BIGSERIAL NOT NULL UNIQUE,
+    run_id UUID NOT NULL REFERENCES workflow_runs(run_id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL,
+    node_id VARCHAR(255), -- not a node reference: foreach iterations are logged as <node>#<index>
+    attempt INTEGER,
+    from_status VARCHAR(50),
+    to_status VARCHAR(50),
+    actor_type VARCHAR(50) NOT NULL DEFAULT 'system'
+        CHECK (actor_type IN ('system', 'user', 'event', 'schedule')),
+    actor_id VARCHAR(255),
+    data JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_run_events_run_id_sequence ON run_events(run_id, sequence);
+
+-- Events are never changed once written; rows only go away with their run
+CREATE OR REPLACE FUNCTION prevent_run_event_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'run_events is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_run_events_update
+    BEFORE UPDATE ON run_events
+    FOR EACH ROW EXECUTE FUNCTION prevent_run_event_update();
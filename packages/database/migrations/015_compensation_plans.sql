@@ -0,0 +1,24 @@
+-- Compensation plans
+-- Migration 015: the undo steps of a workflow run and the status of each, so compensation
+-- can be inspected, retried, skipped or started by hand
+
+CREATE TABLE compensation_plans (
+    plan_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL UNIQUE REFERENCES workflow_runs(run_id) ON DELETE CASCADE,
+    workflow_id UUID NOT NULL REFERENCES workflows(workflow_id) ON DELETE CASCADE,
+    org_id UUID NOT NULL REFERENCES organizations(org_id) ON DELETE CASCADE,
+    trigger_type VARCHAR(50) NOT NULL CHECK (trigger_type IN ('failure', 'timeout', 'manual')),
+    status VARCHAR(50) NOT NULL DEFAULT 'PENDING'
+        CHECK (status IN ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED')),
+    reason TEXT,
+    requested_by VARCHAR(255),
+    steps JSONB NOT NULL DEFAULT '[]', -- in execution order, with the status of each step
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_compensation_plans_org_id_status ON compensation_plans(org_id, status);
+
+CREATE TRIGGER update_compensation_plans_updated_at
+    BEFORE UPDATE ON compensation_plans
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
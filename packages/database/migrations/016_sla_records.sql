@@ -0,0 +1,28 @@
+-- SLA records
+-- Migration 016: the SLA targets of workflow runs and nodes, measured from run and node
+-- timestamps, for breach alerting and compliance reporting
+
+CREATE TABLE sla_records (
+    sla_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL REFERENCES workflow_runs(run_id) ON DELETE CASCADE,
+    workflow_id UUID NOT NULL REFERENCES workflows(workflow_id) ON DELETE CASCADE,
+    org_id UUID NOT NULL REFERENCES organizations(org_id) ON DELETE CASCADE,
+    node_id UUID, -- NULL for the SLA of the whole run
+    target_ms BIGINT NOT NULL CHECK (target_ms > 0),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    warn_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(50) NOT NULL DEFAULT 'OPEN'
+        CHECK (status IN ('OPEN', 'MET', 'BREACHED', 'CANCELLED')),
+    warned_at TIMESTAMP WITH TIME ZONE,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_sla_records_org_id_started_at ON sla_records(org_id, started_at);
+CREATE INDEX idx_sla_records_run_id ON sla_records(run_id);
+
+CREATE TRIGGER update_sla_records_updated_at
+    BEFORE UPDATE ON sla_records
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
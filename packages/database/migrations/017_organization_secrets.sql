@@ -0,0 +1,18 @@
+-- Organization secrets
+-- Migration 017: secrets that node params reference as {{secret:<name>}}, encrypted with a key
+-- of their organization and only decrypted as nodes are dispatched to executors
+
+CREATE TABLE organization_secrets (
+    secret_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(org_id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    encrypted_value TEXT NOT NULL,
+    created_by UUID REFERENCES users(user_id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (org_id, name)
+);
+
+CREATE TRIGGER update_organization_secrets_updated_at
+    BEFORE UPDATE ON organization_secrets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
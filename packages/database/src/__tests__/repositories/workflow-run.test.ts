@@ -285,6 +285,48 @@ describe('WorkflowRunRepository', () => {
     });
   });
 
+  describe('findChildRuns and findRunTree', () => {
+    it('should link child runs to their parent and return the run tree', async () => {
+      const root = await repository.create(
+        createTestWorkflowRun(testOrgId, testWorkflowId, testEmployeeId)
+      );
+      const child = await repository.create({
+        ...createTestWorkflowRun(testOrgId, testWorkflowId, testEmployeeId),
+        parent_run_id: root.run_id,
+      });
+      const grandchild = await repository.create({
+        ...createTestWorkflowRun(testOrgId, testWorkflowId, testEmployeeId),
+        parent_run_id: child.run_id,
+      });
+      createdRunIds.push(grandchild.run_id, child.run_id, root.run_id);
+
+      const children = await repository.findChildRuns(root.run_id);
+      expect(children.map((r) => r.run_id)).toEqual([child.run_id]);
+
+      const tree = await repository.findRunTree(root.run_id);
+      expect(tree.map((r) => r.run_id).sort()).toEqual(
+        [root.run_id, child.run_id, grandchild.run_id].sort()
+      );
+    });
+  });
+
+  describe('findReruns', () => {
+    it('should return the runs that re-ran a failed run', async () => {
+      const failed = await repository.create({
+        ...createTestWorkflowRun(testOrgId, testWorkflowId, testEmployeeId),
+        status: 'FAILED',
+      });
+      const rerun = await repository.create({
+        ...createTestWorkflowRun(testOrgId, testWorkflowId, testEmployeeId),
+        rerun_of_run_id: failed.run_id,
+      });
+      createdRunIds.push(rerun.run_id, failed.run_id);
+
+      const reruns = await repository.findReruns(failed.run_id);
+      expect(reruns.map((r) => r.run_id)).toEqual([rerun.run_id]);
+    });
+  });
+
   describe('updateStatus', () => {
     it('should update status and set end time for terminal states', async () => {
       const runData = createTestWorkflowRun(testOrgId, testWorkflowId, testEmployeeId);
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for WorkflowRepository versioning (without database connection)
+ */
+
+import { WorkflowRepositoryImpl } from '../../repositories/workflow';
+
+// Mock the database connection
+jest.mock('../../connection', () => ({
+  db: {
+    getPool: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('WorkflowRepository Unit Tests', () => {
+  const workflowId = '123e4567-e89b-12d3-a456-426614174000';
+  const definition = {
+    nodes: [{ id: 'start', type: 'trigger' }],
+    edges: [],
+    metadata: { version: '1.0.0' },
+  };
+
+  let mockPool: any;
+  let repository: WorkflowRepositoryImpl;
+  let current: Record<string, any>;
+
+  const queriesOf = (sql: string) =>
+    mockPool.query.mock.calls.filter(([query]: [string]) => query.includes(sql));
+
+  beforeEach(() => {
+    current = {
+      workflow_id: workflowId,
+      org_id: '123e4567-e89b-12d3-a456-426614174001',
+      name: 'Onboarding',
+      event_trigger: 'employee.onboard',
+      version: 1,
+      is_active: true,
+      definition,
+    };
+
+    mockPool = {
+      query: jest.fn().mockImplementation(async (query: string, params: any[] = []) => {
+        if (query.includes('UPDATE workflows')) {
+          const version = params.find((param) => typeof param === 'number');
+          return { rows: [{ ...current, version }] };
+        }
+        if (query.includes('FROM workflows')) {
+          return { rows: [current] };
+        }
+        return { rows: [] };
+      }),
+    };
+    repository = new WorkflowRepositoryImpl();
+    (repository as any).pool = mockPool;
+  });
+
+  it('should save a changed definition as a new version', async () => {
+    const updated = await repository.update(workflowId, {
+      definition: { ...definition, nodes: [] },
+    });
+
+    expect(updated?.version).toBe(2);
+    const [[, params]] = queriesOf('INSERT INTO workflow_versions');
+    expect(params[1]).toBe(2);
+  });
+
+  it('should keep the version when the definition is unchanged', async () => {
+    const updated = await repository.update(workflowId, {
+      name: 'Renamed',
+      definition: JSON.parse(JSON.stringify(definition)),
+    });
+
+    expect(updated?.version).toBe(1);
+    expect(queriesOf('INSERT INTO workflow_versions')).toHaveLength(0);
+  });
+
+  it('should look up version snapshots of a workflow', async () => {
+    await repository.findVersion(workflowId, 1);
+    await repository.findVersions(workflowId);
+
+    expect(mockPool.query).toHaveBeenCalledWith(
+      'SELECT * FROM workflow_versions WHERE workflow_id = $1 AND version = $2',
+      [workflowId, 1]
+    );
+    expect(mockPool.query).toHaveBeenCalledWith(
+      'SELECT * FROM workflow_versions WHERE workflow_id = $1 ORDER BY version DESC',
+      [workflowId]
+    );
+  });
+});
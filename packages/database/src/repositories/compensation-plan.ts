@@ -0,0 +1,81 @@
+/**
+ * Compensation plan repository implementation
+ */
+
+import {
+  CompensationPlanEntity,
+  CompensationPlanRepository,
+  CompensationPlanStatus,
+  CompensationStep,
+  UUID,
+} from '@officeflow/types';
+import { BaseRepository } from './base';
+import { createCompensationPlanSchema, updateCompensationPlanSchema } from '../validation/schemas';
+
+export class CompensationPlanRepositoryImpl
+  extends BaseRepository<CompensationPlanEntity>
+  implements CompensationPlanRepository
+{
+  constructor() {
+    super(
+      'compensation_plans',
+      'plan_id',
+      createCompensationPlanSchema,
+      updateCompensationPlanSchema
+    );
+  }
+
+  /**
+   * Create a run's plan. Steps are written as JSON text, since pg sends arrays
+   * as Postgres arrays rather than JSONB.
+   */
+  async create(
+    plan: Omit<CompensationPlanEntity, 'plan_id' | 'created_at' | 'updated_at'>
+  ): Promise<CompensationPlanEntity> {
+    const data = this.createSchema.parse(plan);
+    const query = `
+      INSERT INTO compensation_plans
+        (run_id, workflow_id, org_id, trigger_type, status, reason, requested_by, steps)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [
+      data.run_id,
+      data.workflow_id,
+      data.org_id,
+      data.trigger_type,
+      data.status,
+      data.reason,
+      data.requested_by,
+      JSON.stringify(data.steps),
+    ]);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  /**
+   * Find the compensation plan of a run
+   */
+  async findByRun(runId: UUID): Promise<CompensationPlanEntity | null> {
+    const [plan] = await this.findAll({ run_id: runId });
+    return plan || null;
+  }
+
+  /**
+   * Save the status of a plan and its steps
+   */
+  async updateProgress(
+    planId: UUID,
+    status: CompensationPlanStatus,
+    steps: CompensationStep[]
+  ): Promise<CompensationPlanEntity | null> {
+    const data = this.updateSchema.parse({ status, steps });
+    const query = `
+      UPDATE compensation_plans
+      SET status = $2, steps = $3
+      WHERE plan_id = $1
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [planId, data.status, JSON.stringify(data.steps)]);
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+}
@@ -2,7 +2,7 @@
  * Employee repository implementation
  */
 
-import { EmployeeEntity, EmployeeRepository, UUID } from '@officeflow/types';
+import { EmployeeEntity, EmployeeRepository, EmployeeDateField, UUID } from '@officeflow/types';
 import { BaseRepository } from './base';
 import { employeeSchema, createEmployeeSchema, updateEmployeeSchema } from '../validation/schemas';
 
@@ -113,6 +113,32 @@ export class EmployeeRepositoryImpl
     return result.rows.map((row) => this.mapRowToEntity(row));
   }
 
+  /**
+   * Find employees whose hire or termination date falls within an inclusive
+   * range of calendar dates (YYYY-MM-DD)
+   */
+  async findByDateRange(
+    orgId: UUID,
+    field: EmployeeDateField,
+    startDate: string,
+    endDate: string
+  ): Promise<EmployeeEntity[]> {
+    if (field !== 'hire_date' && field !== 'termination_date') {
+      throw new Error(`Unsupported employee date field: ${field}`);
+    }
+
+    const query = `
+      SELECT * FROM employees
+      WHERE org_id = $1
+        AND ${field} >= $2::date
+        AND ${field} <= $3::date
+      ORDER BY ${field} ASC
+    `;
+
+    const result = await this.pool.query(query, [orgId, startDate, endDate]);
+    return result.rows.map((row) => this.mapRowToEntity(row));
+  }
+
   /**
    * Get department statistics
    */
@@ -11,6 +11,11 @@ export { WorkflowRunRepositoryImpl } from './workflow-run';
 export { NodeRunRepositoryImpl } from './node-run';
 export { AuditLogRepositoryImpl } from './audit-log';
 export { IntegrationAccountRepositoryImpl } from './integration-account';
+export { WorkflowScheduleRepositoryImpl } from './workflow-schedule';
+export { RunEventRepositoryImpl } from './run-event';
+export { CompensationPlanRepositoryImpl } from './compensation-plan';
+export { SlaRecordRepositoryImpl } from './sla-record';
+export { OrganizationSecretRepositoryImpl } from './organization-secret';
 
 import {
   OrganizationRepository,
@@ -21,6 +26,11 @@ import {
   NodeRunRepository,
   AuditLogRepository,
   IntegrationAccountRepository,
+  WorkflowScheduleRepository,
+  RunEventRepository,
+  CompensationPlanRepository,
+  SlaRecordRepository,
+  OrganizationSecretRepository,
 } from '@officeflow/types';
 
 import { OrganizationRepositoryImpl } from './organization';
@@ -31,6 +41,11 @@ import { WorkflowRunRepositoryImpl } from './workflow-run';
 import { NodeRunRepositoryImpl } from './node-run';
 import { AuditLogRepositoryImpl } from './audit-log';
 import { IntegrationAccountRepositoryImpl } from './integration-account';
+import { WorkflowScheduleRepositoryImpl } from './workflow-schedule';
+import { RunEventRepositoryImpl } from './run-event';
+import { CompensationPlanRepositoryImpl } from './compensation-plan';
+import { SlaRecordRepositoryImpl } from './sla-record';
+import { OrganizationSecretRepositoryImpl } from './organization-secret';
 
 /**
  * Repository factory for dependency injection
@@ -46,6 +61,11 @@ export class RepositoryFactory {
   private nodeRunRepo: NodeRunRepository;
   private auditLogRepo: AuditLogRepository;
   private integrationAccountRepo: IntegrationAccountRepository;
+  private workflowScheduleRepo: WorkflowScheduleRepository;
+  private runEventRepo: RunEventRepository;
+  private compensationPlanRepo: CompensationPlanRepository;
+  private slaRecordRepo: SlaRecordRepository;
+  private organizationSecretRepo: OrganizationSecretRepository;
 
   private constructor() {
     this.organizationRepo = new OrganizationRepositoryImpl();
@@ -56,6 +76,11 @@ export class RepositoryFactory {
     this.nodeRunRepo = new NodeRunRepositoryImpl();
     this.auditLogRepo = new AuditLogRepositoryImpl();
     this.integrationAccountRepo = new IntegrationAccountRepositoryImpl();
+    this.workflowScheduleRepo = new WorkflowScheduleRepositoryImpl();
+    this.runEventRepo = new RunEventRepositoryImpl();
+    this.compensationPlanRepo = new CompensationPlanRepositoryImpl();
+    this.slaRecordRepo = new SlaRecordRepositoryImpl();
+    this.organizationSecretRepo = new OrganizationSecretRepositoryImpl();
   }
 
   public static getInstance(): RepositoryFactory {
@@ -96,6 +121,26 @@ export class RepositoryFactory {
   public getIntegrationAccountRepository(): IntegrationAccountRepository {
     return this.integrationAccountRepo;
   }
+
+  public getWorkflowScheduleRepository(): WorkflowScheduleRepository {
+    return this.workflowScheduleRepo;
+  }
+
+  public getRunEventRepository(): RunEventRepository {
+    return this.runEventRepo;
+  }
+
+  public getCompensationPlanRepository(): CompensationPlanRepository {
+    return this.compensationPlanRepo;
+  }
+
+  public getSlaRecordRepository(): SlaRecordRepository {
+    return this.slaRecordRepo;
+  }
+
+  public getOrganizationSecretRepository(): OrganizationSecretRepository {
+    return this.organizationSecretRepo;
+  }
 }
 
 // Export singleton instance
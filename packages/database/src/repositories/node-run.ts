@@ -54,6 +54,19 @@ export class NodeRunRepositoryImpl
     return this.mapRowToEntity(result.rows[0]);
   }
 
+  /**
+   * Find the recorded iterations of a foreach node, oldest attempt first
+   */
+  async findIterations(runId: UUID, nodeId: UUID): Promise<NodeRunEntity[]> {
+    const query = `
+      SELECT * FROM node_runs
+      WHERE run_id = $1 AND node_id = $2 AND iteration_index IS NOT NULL
+      ORDER BY iteration_index ASC, created_at ASC
+    `;
+    const result = await this.pool.query(query, [runId, nodeId]);
+    return result.rows.map((row) => this.mapRowToEntity(row));
+  }
+
   /**
    * Find queued node runs ready for execution
    */
@@ -0,0 +1,75 @@
+/**
+ * Organization secret repository implementation
+ */
+
+import { OrganizationSecretEntity, OrganizationSecretRepository, UUID } from '@officeflow/types';
+import { BaseRepository } from './base';
+import {
+  createOrganizationSecretSchema,
+  updateOrganizationSecretSchema,
+} from '../validation/schemas';
+
+export class OrganizationSecretRepositoryImpl
+  extends BaseRepository<OrganizationSecretEntity>
+  implements OrganizationSecretRepository
+{
+  constructor() {
+    super(
+      'organization_secrets',
+      'secret_id',
+      createOrganizationSecretSchema,
+      updateOrganizationSecretSchema
+    );
+  }
+
+  /**
+   * Save a secret, replacing the value of an existing secret of the same name
+   */
+  async upsert(
+    secret: Omit<OrganizationSecretEntity, 'secret_id' | 'created_at' | 'updated_at'>
+  ): Promise<OrganizationSecretEntity> {
+    const data = this.createSchema.parse(secret);
+    const query = `
+      INSERT INTO organization_secrets (org_id, name, encrypted_value, created_by)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (org_id, name)
+      DO UPDATE SET encrypted_value = EXCLUDED.encrypted_value
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [
+      data.org_id,
+      data.name,
+      data.encrypted_value,
+      data.created_by,
+    ]);
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  /**
+   * Find the secrets of an organization with the given names
+   */
+  async findByNames(orgId: UUID, names: string[]): Promise<OrganizationSecretEntity[]> {
+    if (names.length === 0) {
+      return [];
+    }
+    return this.findAll({ org_id: orgId, name: names });
+  }
+
+  /**
+   * Find all secrets of an organization, by name
+   */
+  async findByOrganization(orgId: UUID): Promise<OrganizationSecretEntity[]> {
+    return this.findAll({ org_id: orgId }, { orderBy: 'name' });
+  }
+
+  /**
+   * Delete a secret of an organization by name
+   */
+  async deleteByName(orgId: UUID, name: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM organization_secrets WHERE org_id = $1 AND name = $2',
+      [orgId, name]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Run event repository implementation
+ */
+
+import { RunEventEntity, RunEventRepository, UUID } from '@officeflow/types';
+import { BaseRepository } from './base';
+import { createRunEventSchema } from '../validation/schemas';
+
+export class RunEventRepositoryImpl
+  extends BaseRepository<RunEventEntity>
+  implements RunEventRepository
+{
+  constructor() {
+    super(
+      'run_events',
+      'event_id',
+      createRunEventSchema,
+      createRunEventSchema // Run events are append-only, no updates
+    );
+  }
+
+  /**
+   * Append an event to its run's log; the database assigns the sequence
+   */
+  async append(
+    event: Omit<RunEventEntity, 'event_id' | 'sequence' | 'created_at'>
+  ): Promise<RunEventEntity> {
+    return this.create(event as Omit<RunEventEntity, 'created_at'>);
+  }
+
+  /**
+   * Find the events of a run in the order they were appended, after a sequence
+   */
+  async findByRun(
+    runId: UUID,
+    afterSequence: number = 0,
+    limit: number = 100
+  ): Promise<RunEventEntity[]> {
+    const query = `
+      SELECT * FROM run_events
+      WHERE run_id = $1 AND sequence > $2
+      ORDER BY sequence ASC
+      LIMIT $3
+    `;
+    const result = await this.pool.query(query, [runId, afterSequence, limit]);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  protected mapRowToEntity(row: any): RunEventEntity {
+    // BIGSERIAL values come back from pg as strings
+    return super.mapRowToEntity({ ...row, sequence: Number(row.sequence) });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * SLA record repository implementation
+ */
+
+import {
+  SlaRecordEntity,
+  SlaRecordRepository,
+  UUID,
+  WorkflowSlaCompliance,
+} from '@officeflow/types';
+import { BaseRepository } from './base';
+import { createSlaRecordSchema, updateSlaRecordSchema } from '../validation/schemas';
+
+export class SlaRecordRepositoryImpl
+  extends BaseRepository<SlaRecordEntity>
+  implements SlaRecordRepository
+{
+  constructor() {
+    super('sla_records', 'sla_id', createSlaRecordSchema, updateSlaRecordSchema);
+  }
+
+  /**
+   * Record the SLA target of a run or node as it starts being measured
+   */
+  async create(
+    record: Omit<SlaRecordEntity, 'sla_id' | 'created_at' | 'updated_at'>
+  ): Promise<SlaRecordEntity> {
+    return super.create(record as Omit<SlaRecordEntity, 'created_at' | 'updated_at'>);
+  }
+
+  /**
+   * Count met, breached and open SLA records per workflow for records started
+   * since a time. Cancelled records don't count.
+   */
+  async getComplianceByWorkflow(since: Date, orgId?: UUID): Promise<WorkflowSlaCompliance[]> {
+    const query = `
+      SELECT
+        workflow_id,
+        org_id,
+        COUNT(CASE WHEN status = 'MET' THEN 1 END) as met,
+        COUNT(CASE WHEN status = 'BREACHED' THEN 1 END) as breached,
+        COUNT(CASE WHEN status = 'OPEN' THEN 1 END) as open
+      FROM sla_records
+      WHERE started_at >= $1
+        AND ($2::uuid IS NULL OR org_id = $2)
+        AND status <> 'CANCELLED'
+      GROUP BY workflow_id, org_id
+      ORDER BY org_id, workflow_id
+    `;
+
+    const result = await this.pool.query(query, [since, orgId ?? null]);
+    return result.rows.map(row => {
+      const met = parseInt(row.met, 10);
+      const breached = parseInt(row.breached, 10);
+      const total = met + breached;
+
+      return {
+        workflowId: row.workflow_id,
+        organizationId: row.org_id,
+        total,
+        met,
+        breached,
+        open: parseInt(row.open, 10),
+        complianceRate: total > 0 ? met / total : null,
+      };
+    });
+  }
+}
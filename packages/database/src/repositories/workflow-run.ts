@@ -89,6 +89,72 @@ export class WorkflowRunRepositoryImpl
     return result.rows.map((row) => this.mapRowToEntity(row));
   }
 
+  /**
+   * Find runs started by workflow.invoke nodes of a parent run
+   */
+  async findChildRuns(parentRunId: UUID): Promise<WorkflowRunEntity[]> {
+    return this.findAll(
+      { parent_run_id: parentRunId },
+      {
+        orderBy: 'started_at',
+        orderDirection: 'ASC',
+      }
+    );
+  }
+
+  /**
+   * Find the runs that re-ran a failed run
+   */
+  async findReruns(runId: UUID): Promise<WorkflowRunEntity[]> {
+    return this.findAll(
+      { rerun_of_run_id: runId },
+      {
+        orderBy: 'started_at',
+        orderDirection: 'ASC',
+      }
+    );
+  }
+
+  /**
+   * Find runs of a workflow for an employee in the given statuses, oldest first.
+   * Runs without an employee match when no employee is given.
+   */
+  async findByWorkflowAndEmployee(
+    workflowId: UUID,
+    employeeId: UUID | undefined,
+    statuses: WorkflowRunStatus[]
+  ): Promise<WorkflowRunEntity[]> {
+    const query = `
+      SELECT * FROM workflow_runs
+      WHERE workflow_id = $1
+        AND employee_id IS NOT DISTINCT FROM $2
+        AND status = ANY($3)
+      ORDER BY started_at ASC
+    `;
+
+    const result = await this.pool.query(query, [workflowId, employeeId || null, statuses]);
+    return result.rows.map((row) => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Find a run and all of its descendant runs
+   */
+  async findRunTree(rootRunId: UUID): Promise<WorkflowRunEntity[]> {
+    const query = `
+      WITH RECURSIVE run_tree AS (
+        SELECT * FROM workflow_runs WHERE run_id = $1
+        UNION ALL
+        SELECT child.* FROM workflow_runs child
+        JOIN run_tree parent ON child.parent_run_id = parent.run_id
+      )
+      SELECT * FROM run_tree
+      ORDER BY started_at ASC
+    `;
+
+    const result = await this.pool.query(query, [rootRunId]);
+    return result.rows.map((row) => this.mapRowToEntity(row));
+  }
+
   /**
    * Find stalled workflow runs (running for too long)
    */
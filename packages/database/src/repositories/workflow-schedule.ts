@@ -0,0 +1,85 @@
+/**
+ * Workflow schedule repository implementation
+ */
+
+import { WorkflowScheduleEntity, WorkflowScheduleRepository, UUID } from '@officeflow/types';
+import { BaseRepository } from './base';
+import { createWorkflowScheduleSchema, updateWorkflowScheduleSchema } from '../validation/schemas';
+
+export class WorkflowScheduleRepositoryImpl
+  extends BaseRepository<WorkflowScheduleEntity>
+  implements WorkflowScheduleRepository
+{
+  constructor() {
+    super(
+      'workflow_schedules',
+      'schedule_id',
+      createWorkflowScheduleSchema,
+      updateWorkflowScheduleSchema
+    );
+  }
+
+  /**
+   * Find schedules by organization
+   */
+  async findByOrganization(orgId: UUID): Promise<WorkflowScheduleEntity[]> {
+    return this.findAll(
+      { org_id: orgId },
+      {
+        orderBy: 'created_at',
+        orderDirection: 'ASC',
+      }
+    );
+  }
+
+  /**
+   * Find schedules of a workflow
+   */
+  async findByWorkflow(workflowId: UUID): Promise<WorkflowScheduleEntity[]> {
+    return this.findAll(
+      { workflow_id: workflowId },
+      {
+        orderBy: 'created_at',
+        orderDirection: 'ASC',
+      }
+    );
+  }
+
+  /**
+   * Find active schedules whose next run is due, most overdue first
+   */
+  async findDue(now: Date, limit: number = 100): Promise<WorkflowScheduleEntity[]> {
+    const query = `
+      SELECT * FROM workflow_schedules
+      WHERE is_active = true AND next_run_at <= $1
+      ORDER BY next_run_at ASC
+      LIMIT $2
+    `;
+    const result = await this.pool.query(query, [now, limit]);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Move a schedule on to its next run. Only succeeds while the schedule is still
+   * due at expectedNextRunAt, so a fire is never taken twice.
+   */
+  async advance(
+    scheduleId: UUID,
+    expectedNextRunAt: Date,
+    nextRunAt: Date,
+    lastRunAt: Date
+  ): Promise<boolean> {
+    const query = `
+      UPDATE workflow_schedules
+      SET next_run_at = $3, last_run_at = $4
+      WHERE schedule_id = $1 AND next_run_at = $2 AND is_active = true
+    `;
+    const result = await this.pool.query(query, [
+      scheduleId,
+      expectedNextRunAt,
+      nextRunAt,
+      lastRunAt,
+    ]);
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -2,7 +2,7 @@
  * Workflow repository implementation
  */
 
-import { WorkflowEntity, WorkflowRepository, UUID } from '@officeflow/types';
+import { WorkflowEntity, WorkflowVersionEntity, WorkflowRepository, UUID } from '@officeflow/types';
 import { BaseRepository } from './base';
 import { workflowSchema, createWorkflowSchema, updateWorkflowSchema } from '../validation/schemas';
 
@@ -14,6 +14,64 @@ export class WorkflowRepositoryImpl
     super('workflows', 'workflow_id', createWorkflowSchema, updateWorkflowSchema);
   }
 
+  /**
+   * Create a workflow and record its first version
+   */
+  async create(data: Omit<WorkflowEntity, 'created_at' | 'updated_at'>): Promise<WorkflowEntity> {
+    const workflow = await super.create(data);
+    await this.saveVersion(workflow);
+    return workflow;
+  }
+
+  /**
+   * Update a workflow. A changed definition is saved as a new version, so runs
+   * pinned to earlier versions keep executing the DAG they started on.
+   */
+  async update(id: UUID, updates: Partial<WorkflowEntity>): Promise<WorkflowEntity | null> {
+    if (updates.definition === undefined) {
+      return super.update(id, updates);
+    }
+
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+    if (JSON.stringify(updates.definition) === JSON.stringify(current.definition)) {
+      return super.update(id, { ...updates, version: current.version });
+    }
+
+    const workflow = await super.update(id, {
+      ...updates,
+      version: Math.max(updates.version ?? 0, current.version + 1),
+    });
+    if (workflow) {
+      await this.saveVersion(workflow);
+    }
+    return workflow;
+  }
+
+  /**
+   * Find the definition snapshot of a workflow version
+   */
+  async findVersion(workflowId: UUID, version: number): Promise<WorkflowVersionEntity | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM workflow_versions WHERE workflow_id = $1 AND version = $2',
+      [workflowId, version]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find all versions of a workflow, newest first
+   */
+  async findVersions(workflowId: UUID): Promise<WorkflowVersionEntity[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM workflow_versions WHERE workflow_id = $1 ORDER BY version DESC',
+      [workflowId]
+    );
+    return result.rows;
+  }
+
   /**
    * Find workflows by organization
    */
@@ -226,4 +284,27 @@ export class WorkflowRepositoryImpl
     const result = await this.pool.query(query, [orgId, searchPattern, limit]);
     return result.rows.map((row) => this.mapRowToEntity(row));
   }
+
+  /**
+   * Snapshot the current definition of a workflow as its version
+   */
+  private async saveVersion(workflow: WorkflowEntity): Promise<void> {
+    await this.pool.query(
+      `
+      INSERT INTO workflow_versions (
+        workflow_id, version, name, description, event_trigger, definition, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (workflow_id, version) DO NOTHING
+    `,
+      [
+        workflow.workflow_id,
+        workflow.version,
+        workflow.name,
+        workflow.description,
+        workflow.event_trigger,
+        workflow.definition,
+        workflow.created_by,
+      ]
+    );
+  }
 }
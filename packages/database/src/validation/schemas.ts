@@ -167,6 +167,7 @@ export const createWorkflowEdgeSchema = workflowEdgeSchema.omit({
 
 // Workflow run schemas
 export const workflowRunStatusSchema = z.enum([
+  'QUEUED',
   'PENDING',
   'RUNNING',
   'PAUSED',
@@ -188,12 +189,21 @@ export const workflowRunSchema = z.object({
   started_at: timestampSchema,
   ended_at: timestampSchema.optional(),
   created_at: timestampSchema,
+  parent_run_id: uuidSchema.optional(),
+  parent_node_id: uuidSchema.optional(),
+  rerun_of_run_id: uuidSchema.optional(),
+  rerun_from_node_id: uuidSchema.optional(),
+  workflow_version: z.number().int().min(1).optional(),
 });
 
-export const createWorkflowRunSchema = workflowRunSchema.omit({
-  run_id: true,
-  created_at: true,
-});
+// The engine assigns run IDs up front so Redis state and child runs can reference them
+export const createWorkflowRunSchema = workflowRunSchema
+  .omit({
+    created_at: true,
+  })
+  .partial({
+    run_id: true,
+  });
 
 export const updateWorkflowRunSchema = workflowRunSchema.partial().omit({
   run_id: true,
@@ -221,6 +231,7 @@ export const nodeRunSchema = z.object({
   output: jsonSchema.optional(),
   error_details: jsonSchema.optional(),
   idempotency_key: z.string().max(255).optional(),
+  iteration_index: z.number().int().min(0).optional(),
   started_at: timestampSchema.optional(),
   ended_at: timestampSchema.optional(),
   created_at: timestampSchema,
@@ -257,6 +268,133 @@ export const createAuditLogSchema = auditLogSchema.omit({
   created_at: true,
 });
 
+// Run event schemas
+export const runEventSchema = z.object({
+  event_id: uuidSchema,
+  sequence: z.number().int().positive(),
+  run_id: uuidSchema,
+  event_type: z.enum([
+    'run.created',
+    'run.status_changed',
+    'node.status_changed',
+    'node.dispatched',
+    'node.result',
+    'node.retry_scheduled',
+    'compensation.step',
+    'run.variables_changed',
+  ]),
+  node_id: z.string().min(1).max(255).optional(),
+  attempt: z.number().int().min(0).optional(),
+  from_status: z.string().max(50).optional(),
+  to_status: z.string().max(50).optional(),
+  actor_type: z.enum(['system', 'user', 'event', 'schedule']).default('system'),
+  actor_id: z.string().max(255).optional(),
+  data: jsonSchema.default({}),
+  created_at: timestampSchema,
+});
+
+export const createRunEventSchema = runEventSchema.omit({
+  event_id: true,
+  sequence: true,
+  created_at: true,
+});
+
+// Compensation plan schemas
+export const compensationStepSchema = z.object({
+  nodeId: z.string().min(1),
+  nodeName: z.string(),
+  compensationType: z.enum(['rollback', 'cleanup', 'notification', 'custom']),
+  compensatesFor: z.array(z.string()),
+  status: z.enum(['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'SKIPPED']),
+  attempts: z.number().int().min(0),
+  error: z.string().optional(),
+  skipReason: z.string().optional(),
+  skippedBy: z.string().max(255).optional(),
+  startedAt: z.string().optional(),
+  endedAt: z.string().optional(),
+});
+
+export const compensationPlanSchema = z.object({
+  plan_id: uuidSchema,
+  run_id: uuidSchema,
+  workflow_id: uuidSchema,
+  org_id: uuidSchema,
+  trigger_type: z.enum(['failure', 'timeout', 'manual']),
+  status: z.enum(['PENDING', 'RUNNING', 'COMPLETED', 'FAILED']).default('PENDING'),
+  reason: z.string().optional(),
+  requested_by: z.string().max(255).optional(),
+  steps: z.array(compensationStepSchema),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+});
+
+export const createCompensationPlanSchema = compensationPlanSchema.omit({
+  plan_id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export const updateCompensationPlanSchema = compensationPlanSchema.pick({
+  status: true,
+  steps: true,
+});
+
+// SLA record schemas
+export const slaRecordSchema = z.object({
+  sla_id: uuidSchema,
+  run_id: uuidSchema,
+  workflow_id: uuidSchema,
+  org_id: uuidSchema,
+  node_id: uuidSchema.optional(),
+  target_ms: z.number().int().positive(),
+  started_at: timestampSchema,
+  warn_at: timestampSchema,
+  deadline: timestampSchema,
+  status: z.enum(['OPEN', 'MET', 'BREACHED', 'CANCELLED']).default('OPEN'),
+  warned_at: timestampSchema.optional(),
+  ended_at: timestampSchema.optional(),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+});
+
+export const createSlaRecordSchema = slaRecordSchema.omit({
+  sla_id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export const updateSlaRecordSchema = slaRecordSchema
+  .pick({
+    status: true,
+    warned_at: true,
+    ended_at: true,
+  })
+  .partial();
+
+// Organization secret schemas
+export const organizationSecretSchema = z.object({
+  secret_id: uuidSchema,
+  org_id: uuidSchema,
+  name: z
+    .string()
+    .regex(/^[A-Za-z0-9_.-]+$/)
+    .max(255),
+  encrypted_value: z.string().min(1),
+  created_by: uuidSchema.optional(),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+});
+
+export const createOrganizationSecretSchema = organizationSecretSchema.omit({
+  secret_id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export const updateOrganizationSecretSchema = organizationSecretSchema.pick({
+  encrypted_value: true,
+});
+
 // Integration account schemas
 export const integrationAccountSchema = z.object({
   account_id: uuidSchema,
@@ -284,3 +422,37 @@ export const updateIntegrationAccountSchema = integrationAccountSchema.partial()
   created_at: true,
   updated_at: true,
 });
+
+// Workflow schedule schemas
+export const workflowScheduleSchema = z.object({
+  schedule_id: uuidSchema,
+  org_id: uuidSchema,
+  workflow_id: uuidSchema,
+  name: z.string().min(1).max(255),
+  schedule_type: z.enum(['cron', 'employee_date']),
+  cron_expression: z.string().min(1).max(100),
+  timezone: z.string().min(1).max(100).default('UTC'),
+  date_field: z.enum(['hire_date', 'termination_date']).optional(),
+  offset_days: z.number().int().optional(),
+  misfire_policy: z.enum(['fire_once', 'skip']).default('fire_once'),
+  variables: jsonSchema.default({}),
+  is_active: z.boolean().default(true),
+  next_run_at: timestampSchema.optional(),
+  last_run_at: timestampSchema.optional(),
+  created_by: uuidSchema.optional(),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+});
+
+export const createWorkflowScheduleSchema = workflowScheduleSchema.omit({
+  schedule_id: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export const updateWorkflowScheduleSchema = workflowScheduleSchema.partial().omit({
+  schedule_id: true,
+  org_id: true,
+  created_at: true,
+  updated_at: true,
+});
@@ -179,6 +179,7 @@ export const CONSUMER_SUBSCRIPTIONS: Record<string, string[]> = {
     'workflow.run.pause',
     'workflow.run.resume',
     'workflow.run.cancel',
+    'workflow.signal',
     'node.execute.result',
   ],
 
@@ -203,9 +204,7 @@ export const CONSUMER_SUBSCRIPTIONS: Record<string, string[]> = {
     'node.execute.result',
   ],
 
-  'webhook-gateway': [
-    // No subscriptions - this service produces events
-  ],
+  'webhook-gateway': ['webhook.call.request'],
 
   'scheduler-service': [
     // No subscriptions - this service produces scheduled events
@@ -89,6 +89,16 @@ export const WORKFLOW_CONTROL_TOPICS: Record<string, Omit<TopicConfig, 'topic'>>
       { name: 'min.insync.replicas', value: '2' },
     ],
   },
+  'workflow.signal': {
+    numPartitions: 12,
+    replicationFactor: 3,
+    configEntries: [
+      { name: 'retention.ms', value: '604800000' }, // 7 days
+      { name: 'cleanup.policy', value: 'delete' },
+      { name: 'compression.type', value: 'snappy' },
+      { name: 'min.insync.replicas', value: '2' },
+    ],
+  },
 };
 
 export const NODE_EXECUTION_TOPICS: Record<string, Omit<TopicConfig, 'topic'>> = {
@@ -185,6 +195,16 @@ export const INTEGRATION_EVENT_TOPICS: Record<string, Omit<TopicConfig, 'topic'>
       { name: 'min.insync.replicas', value: '2' },
     ],
   },
+  'webhook.call.request': {
+    numPartitions: 12,
+    replicationFactor: 3,
+    configEntries: [
+      { name: 'retention.ms', value: '86400000' }, // 1 day
+      { name: 'cleanup.policy', value: 'delete' },
+      { name: 'compression.type', value: 'snappy' },
+      { name: 'min.insync.replicas', value: '2' },
+    ],
+  },
 };
 
 export const OBSERVABILITY_TOPICS: Record<string, Omit<TopicConfig, 'topic'>> = {
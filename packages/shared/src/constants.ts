@@ -15,6 +15,7 @@ export const KAFKA_TOPICS = {
   WORKFLOW_RUN_PAUSE: 'workflow.run.pause',
   WORKFLOW_RUN_RESUME: 'workflow.run.resume',
   WORKFLOW_RUN_CANCEL: 'workflow.run.cancel',
+  WORKFLOW_SIGNAL: 'workflow.signal',
 
   // Node execution
   NODE_EXECUTE_REQUEST: 'node.execute.request',
@@ -28,6 +29,7 @@ export const KAFKA_TOPICS = {
   EMAIL_SEND_RESULT: 'email.send.result',
   CALENDAR_SCHEDULE_REQUEST: 'calendar.schedule.request',
   CALENDAR_SCHEDULE_RESULT: 'calendar.schedule.result',
+  WEBHOOK_CALL_REQUEST: 'webhook.call.request',
 
   // Observability
   AUDIT_EVENTS: 'audit.events',
@@ -133,6 +135,10 @@ export const NODE_TYPES = {
   DOCUMENT_DISTRIBUTE: 'document.distribute',
   AI_GENERATE_CONTENT: 'ai.generate_content',
   WEBHOOK_CALL: 'webhook.call',
+  WORKFLOW_INVOKE: 'workflow.invoke',
+  APPROVAL: 'approval',
+  WAIT_FOR_EVENT: 'wait_for_event',
+  FOREACH: 'foreach',
   DELAY: 'delay',
   CONDITION: 'condition',
   PARALLEL: 'parallel',
@@ -4,7 +4,20 @@
 
 import { BaseEntity, UUID, ExecutionMetadata, ErrorDetails } from './common';
 import { WorkflowDAG, RetryPolicy } from './workflow';
-import { WorkflowRunStatus, NodeRunStatus } from './execution';
+import {
+  WorkflowRunStatus,
+  NodeRunStatus,
+  ScheduleType,
+  ScheduleMisfirePolicy,
+  EmployeeDateField,
+  RunEventType,
+  RunEventActor,
+  CompensationTrigger,
+  CompensationPlanStatus,
+  CompensationStep,
+  SlaStatus,
+  WorkflowSlaCompliance,
+} from './execution';
 
 // Database entities matching the schema
 
@@ -64,6 +77,18 @@ export interface WorkflowEntity {
   updated_at: Date;
 }
 
+// Immutable snapshot of a workflow's definition at one version
+export interface WorkflowVersionEntity {
+  workflow_id: UUID;
+  version: number;
+  name: string;
+  description?: string;
+  event_trigger: string;
+  definition: WorkflowDAG;
+  created_by?: UUID;
+  created_at: Date;
+}
+
 export interface CreateWorkflowEntity
   extends Omit<WorkflowEntity, 'workflow_id' | 'created_at' | 'updated_at'> {
   workflow_id?: UUID;
@@ -96,6 +121,7 @@ export interface WorkflowRunEntity {
   run_id: UUID;
   org_id: UUID;
   workflow_id: UUID;
+  workflow_version?: number; // version the run executes; unset for runs started before pinning
   employee_id?: UUID;
   trigger_event: string;
   status: WorkflowRunStatus;
@@ -104,6 +130,10 @@ export interface WorkflowRunEntity {
   started_at: Date;
   ended_at?: Date;
   created_at: Date;
+  parent_run_id?: UUID;
+  parent_node_id?: UUID;
+  rerun_of_run_id?: UUID;
+  rerun_from_node_id?: UUID; // unset when all failed nodes were re-run
 }
 
 export interface NodeRunEntity {
@@ -116,11 +146,88 @@ export interface NodeRunEntity {
   output?: Record<string, any>;
   error_details?: ErrorDetails;
   idempotency_key?: string;
+  iteration_index?: number; // set on iterations of a foreach node
   started_at?: Date;
   ended_at?: Date;
   created_at: Date;
 }
 
+export interface WorkflowScheduleEntity {
+  schedule_id: UUID;
+  org_id: UUID;
+  workflow_id: UUID;
+  name: string;
+  schedule_type: ScheduleType;
+  cron_expression: string; // for employee_date schedules, the daily time the dates are checked
+  timezone: string; // IANA time zone the cron expression and dates are evaluated in
+  date_field?: EmployeeDateField;
+  offset_days?: number; // negative fires before the date, e.g. -7 for a week before hire_date
+  misfire_policy: ScheduleMisfirePolicy;
+  variables: Record<string, any>;
+  is_active: boolean;
+  next_run_at?: Date;
+  last_run_at?: Date; // scheduled time of the latest fire taken
+  created_by?: UUID;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RunEventEntity {
+  event_id: UUID;
+  sequence: number;
+  run_id: UUID;
+  event_type: RunEventType;
+  node_id?: string; // foreach iterations use `${nodeId}#${index}`
+  attempt?: number;
+  from_status?: string;
+  to_status?: string;
+  actor_type: RunEventActor['type'];
+  actor_id?: string;
+  data: Record<string, any>;
+  created_at: Date;
+}
+
+export interface CompensationPlanEntity {
+  plan_id: UUID;
+  run_id: UUID;
+  workflow_id: UUID;
+  org_id: UUID;
+  trigger_type: CompensationTrigger;
+  status: CompensationPlanStatus;
+  reason?: string;
+  requested_by?: string;
+  steps: CompensationStep[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SlaRecordEntity {
+  sla_id: UUID;
+  run_id: UUID;
+  workflow_id: UUID;
+  org_id: UUID;
+  node_id?: UUID; // unset for the SLA of the whole run
+  target_ms: number;
+  started_at: Date; // what the target is measured from
+  warn_at: Date;
+  deadline: Date;
+  status: SlaStatus;
+  warned_at?: Date;
+  ended_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface OrganizationSecretEntity {
+  secret_id: UUID;
+  org_id: UUID;
+  name: string; // referenced from node params as {{secret:<name>}}
+  encrypted_value: string; // encrypted with a key of the organization, never the plain value
+  created_by?: UUID;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface AuditLogEntity {
   audit_id: UUID;
   org_id: UUID;
@@ -180,12 +287,20 @@ export interface EmployeeRepository extends Repository<EmployeeEntity> {
   findByOrganization(orgId: UUID): Promise<EmployeeEntity[]>;
   findByManager(managerId: UUID): Promise<EmployeeEntity[]>;
   findByStatus(status: string): Promise<EmployeeEntity[]>;
+  findByDateRange(
+    orgId: UUID,
+    field: EmployeeDateField,
+    startDate: string,
+    endDate: string
+  ): Promise<EmployeeEntity[]>;
 }
 
 export interface WorkflowRepository extends Repository<WorkflowEntity> {
   findByOrganization(orgId: UUID): Promise<WorkflowEntity[]>;
   findByEventTrigger(eventTrigger: string): Promise<WorkflowEntity[]>;
   findActiveByTrigger(orgId: UUID, eventTrigger: string): Promise<WorkflowEntity[]>;
+  findVersion(workflowId: UUID, version: number): Promise<WorkflowVersionEntity | null>;
+  findVersions(workflowId: UUID): Promise<WorkflowVersionEntity[]>;
 }
 
 export interface WorkflowRunRepository extends Repository<WorkflowRunEntity> {
@@ -194,6 +309,15 @@ export interface WorkflowRunRepository extends Repository<WorkflowRunEntity> {
   findByEmployee(employeeId: UUID): Promise<WorkflowRunEntity[]>;
   findByStatus(status: WorkflowRunStatus): Promise<WorkflowRunEntity[]>;
   findActiveRuns(): Promise<WorkflowRunEntity[]>;
+  findStalledRuns(timeoutMinutes?: number): Promise<WorkflowRunEntity[]>;
+  findChildRuns(parentRunId: UUID): Promise<WorkflowRunEntity[]>;
+  findRunTree(rootRunId: UUID): Promise<WorkflowRunEntity[]>;
+  findReruns(runId: UUID): Promise<WorkflowRunEntity[]>;
+  findByWorkflowAndEmployee(
+    workflowId: UUID,
+    employeeId: UUID | undefined,
+    statuses: WorkflowRunStatus[]
+  ): Promise<WorkflowRunEntity[]>;
   updateStatus(
     runId: UUID,
     status: WorkflowRunStatus,
@@ -205,6 +329,69 @@ export interface NodeRunRepository extends Repository<NodeRunEntity> {
   findByWorkflowRun(runId: UUID): Promise<NodeRunEntity[]>;
   findByStatus(status: NodeRunStatus): Promise<NodeRunEntity[]>;
   findByIdempotencyKey(key: string): Promise<NodeRunEntity | null>;
+  findIterations(runId: UUID, nodeId: UUID): Promise<NodeRunEntity[]>;
+  updateStatus(
+    nodeRunId: UUID,
+    status: NodeRunStatus,
+    output?: any,
+    errorDetails?: any
+  ): Promise<NodeRunEntity | null>;
+}
+
+export interface WorkflowScheduleRepository extends Repository<WorkflowScheduleEntity> {
+  findByOrganization(orgId: UUID): Promise<WorkflowScheduleEntity[]>;
+  findByWorkflow(workflowId: UUID): Promise<WorkflowScheduleEntity[]>;
+  findDue(now: Date, limit?: number): Promise<WorkflowScheduleEntity[]>;
+  advance(
+    scheduleId: UUID,
+    expectedNextRunAt: Date,
+    nextRunAt: Date,
+    lastRunAt: Date
+  ): Promise<boolean>;
+}
+
+// Run events are append-only: there is no update or delete
+export interface RunEventRepository {
+  append(
+    event: Omit<RunEventEntity, 'event_id' | 'sequence' | 'created_at'>
+  ): Promise<RunEventEntity>;
+  findByRun(runId: UUID, afterSequence?: number, limit?: number): Promise<RunEventEntity[]>;
+}
+
+// A run has at most one compensation plan, whose steps are updated as they run
+export interface CompensationPlanRepository {
+  create(
+    plan: Omit<CompensationPlanEntity, 'plan_id' | 'created_at' | 'updated_at'>
+  ): Promise<CompensationPlanEntity>;
+  findByRun(runId: UUID): Promise<CompensationPlanEntity | null>;
+  updateProgress(
+    planId: UUID,
+    status: CompensationPlanStatus,
+    steps: CompensationStep[]
+  ): Promise<CompensationPlanEntity | null>;
+}
+
+// One record per SLA target a run reached; compliance counts records by workflow
+export interface SlaRecordRepository {
+  create(
+    record: Omit<SlaRecordEntity, 'sla_id' | 'created_at' | 'updated_at'>
+  ): Promise<SlaRecordEntity>;
+  findById(slaId: UUID): Promise<SlaRecordEntity | null>;
+  update(
+    slaId: UUID,
+    updates: Partial<Pick<SlaRecordEntity, 'status' | 'warned_at' | 'ended_at'>>
+  ): Promise<SlaRecordEntity | null>;
+  getComplianceByWorkflow(since: Date, orgId?: UUID): Promise<WorkflowSlaCompliance[]>;
+}
+
+// Secrets are looked up by name within their organization; saving a name again replaces its value
+export interface OrganizationSecretRepository {
+  upsert(
+    secret: Omit<OrganizationSecretEntity, 'secret_id' | 'created_at' | 'updated_at'>
+  ): Promise<OrganizationSecretEntity>;
+  findByNames(orgId: UUID, names: string[]): Promise<OrganizationSecretEntity[]>;
+  findByOrganization(orgId: UUID): Promise<OrganizationSecretEntity[]>;
+  deleteByName(orgId: UUID, name: string): Promise<boolean>;
 }
 
 export interface AuditLogRepository extends Repository<AuditLogEntity> {
@@ -6,6 +6,7 @@ import { BaseEntity, UUID, ErrorDetails, ExecutionMetadata } from './common';
 import { LifecycleEventType } from './events';
 
 export type WorkflowRunStatus =
+  | 'QUEUED'
   | 'PENDING'
   | 'RUNNING'
   | 'PAUSED'
@@ -28,6 +29,7 @@ export type NodeRunStatus =
 export interface WorkflowRun extends BaseEntity {
   organizationId: UUID;
   workflowId: UUID;
+  workflowVersion?: number;
   employeeId: UUID;
   triggerEvent: LifecycleEventType;
   status: WorkflowRunStatus;
@@ -37,6 +39,9 @@ export interface WorkflowRun extends BaseEntity {
   errorDetails?: ErrorDetails;
   correlationId: UUID;
   parentRunId?: UUID;
+  parentNodeId?: UUID; // workflow.invoke node in the parent run that started this run
+  rerunOfRunId?: UUID; // failed run this run re-ran
+  rerunFromNodeId?: UUID;
 }
 
 export interface NodeRun extends BaseEntity {
@@ -53,6 +58,88 @@ export interface NodeRun extends BaseEntity {
   metadata: ExecutionMetadata;
 }
 
+// Entries of a run's append-only event log
+export type RunEventType =
+  | 'run.created'
+  | 'run.status_changed'
+  | 'node.status_changed'
+  | 'node.dispatched'
+  | 'node.result'
+  | 'node.retry_scheduled'
+  | 'compensation.step'
+  | 'run.variables_changed';
+
+// Who caused a run event: the engine itself, a user, a lifecycle event or a schedule
+export interface RunEventActor {
+  type: 'system' | 'user' | 'event' | 'schedule';
+  id?: string;
+}
+
+export interface RunEvent {
+  id: UUID;
+  sequence: number; // increases with every event appended, across runs
+  runId: UUID;
+  type: RunEventType;
+  nodeId?: string;
+  attempt?: number;
+  fromStatus?: string;
+  toStatus?: string;
+  actor: RunEventActor;
+  data: Record<string, any>;
+  createdAt: Date;
+}
+
+// Compensation plans: the undo steps of a run, persisted so they can be inspected and re-driven
+export type CompensationTrigger = 'failure' | 'timeout' | 'manual';
+
+export type CompensationPlanStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export type CompensationStepStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'SKIPPED';
+
+export interface CompensationStep {
+  nodeId: UUID; // compensation node that performs the step
+  nodeName: string;
+  compensationType: 'rollback' | 'cleanup' | 'notification' | 'custom';
+  compensatesFor: UUID[];
+  status: CompensationStepStatus;
+  attempts: number;
+  error?: string;
+  skipReason?: string; // justification given when the step was skipped
+  skippedBy?: string;
+  startedAt?: string; // ISO time of the last attempt
+  endedAt?: string;
+}
+
+export interface RunCompensationPlan {
+  id: UUID;
+  runId: UUID;
+  workflowId: UUID;
+  organizationId: UUID;
+  trigger: CompensationTrigger;
+  status: CompensationPlanStatus;
+  reason?: string; // why compensation was requested manually
+  requestedBy?: string;
+  steps: CompensationStep[]; // in execution order
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// SLA records: the SLA targets of runs and nodes and whether they were met
+export type SlaStatus = 'OPEN' | 'MET' | 'BREACHED' | 'CANCELLED';
+
+export interface SlaCompliance {
+  total: number; // records that ended, met or breached
+  met: number;
+  breached: number;
+  open: number;
+  complianceRate: number | null; // met / total, null before any record ended
+}
+
+export interface WorkflowSlaCompliance extends SlaCompliance {
+  workflowId: UUID;
+  organizationId: UUID;
+}
+
 export interface ExecutionContext {
   organizationId: UUID;
   employeeId: UUID;
@@ -64,31 +151,68 @@ export interface ExecutionContext {
 }
 
 export interface WorkflowEngine {
-  processLifecycleEvent(event: any): Promise<WorkflowRun>;
+  processLifecycleEvent(event: any): Promise<WorkflowRun[]>;
   executeWorkflow(workflowId: UUID, context: ExecutionContext): Promise<WorkflowRun>;
-  pauseWorkflow(runId: UUID): Promise<void>;
-  resumeWorkflow(runId: UUID): Promise<void>;
-  cancelWorkflow(runId: UUID): Promise<void>;
+  pauseWorkflow(runId: UUID, actor?: RunEventActor): Promise<void>;
+  resumeWorkflow(runId: UUID, actor?: RunEventActor): Promise<void>;
+  cancelWorkflow(runId: UUID, actor?: RunEventActor): Promise<void>;
   getWorkflowRun(runId: UUID): Promise<WorkflowRun | null>;
   getWorkflowRunHistory(workflowId: UUID, limit?: number): Promise<WorkflowRun[]>;
 }
 
 export interface WorkflowScheduler {
-  scheduleWorkflow(
-    workflowId: UUID,
-    cronExpression: string,
-    context: ExecutionContext
-  ): Promise<void>;
-  unscheduleWorkflow(workflowId: UUID): Promise<void>;
+  createSchedule(schedule: ScheduledWorkflowInput): Promise<ScheduledWorkflow>;
+  updateSchedule(
+    scheduleId: UUID,
+    updates: Partial<ScheduledWorkflowInput>
+  ): Promise<ScheduledWorkflow | null>;
+  deleteSchedule(scheduleId: UUID): Promise<boolean>;
+  getSchedule(scheduleId: UUID): Promise<ScheduledWorkflow | null>;
   getScheduledWorkflows(organizationId: UUID): Promise<ScheduledWorkflow[]>;
 }
 
+export type ScheduleType = 'cron' | 'employee_date';
+
+// What to do when a schedule was due while no engine instance was leading:
+// fire_once runs once for all missed fires, skip waits for the next fire time
+export type ScheduleMisfirePolicy = 'fire_once' | 'skip';
+
+export type EmployeeDateField = 'hire_date' | 'termination_date';
+
 export interface ScheduledWorkflow {
   id: UUID;
   workflowId: UUID;
   organizationId: UUID;
+  name: string;
+  type: ScheduleType;
   cronExpression: string;
-  nextRunTime: Date;
+  timezone: string;
+  dateField?: EmployeeDateField;
+  offsetDays?: number;
+  misfirePolicy: ScheduleMisfirePolicy;
+  variables: Record<string, any>;
+  nextRunTime?: Date;
+  lastRunTime?: Date;
   isActive: boolean;
-  context: ExecutionContext;
+  createdBy?: UUID;
+  createdAt: Date;
+  updatedAt: Date;
 }
+
+// timezone defaults to UTC, misfirePolicy to fire_once; schedules start active
+export type ScheduledWorkflowInput = Pick<
+  ScheduledWorkflow,
+  'workflowId' | 'organizationId' | 'name' | 'type' | 'cronExpression'
+> &
+  Partial<
+    Pick<
+      ScheduledWorkflow,
+      | 'timezone'
+      | 'dateField'
+      | 'offsetDays'
+      | 'misfirePolicy'
+      | 'variables'
+      | 'isActive'
+      | 'createdBy'
+    >
+  >;
@@ -20,6 +20,13 @@ export interface OrganizationSettings {
   integrations: IntegrationSettings;
   security: SecuritySettings;
   notifications: NotificationSettings;
+  executionQuota?: Partial<ExecutionQuota>; // overrides the limits of the plan
+}
+
+export interface ExecutionQuota {
+  maxConcurrentRuns: number;
+  maxConcurrentNodes: number;
+  weight: number; // share of node dispatch while organizations compete for capacity
 }
 
 export interface WorkingHours {
@@ -24,6 +24,10 @@ export interface WorkflowDAG {
     version: string;
     description?: string;
     timeout?: number;
+    triggerFilters?: TriggerFilter[]; // all must match for an event to start a run
+    runPolicy?: WorkflowRunPolicy;
+    allowDebugRuns?: boolean; // allow debug runs where the engine disallows them by default
+    sla?: SlaTarget; // for the whole run, measured from its start
   };
 }
 
@@ -37,6 +41,15 @@ export interface WorkflowNode {
   timeoutMs: number;
   position: NodePosition;
   conditions?: ExecutionCondition[];
+  parameterMappings?: ParameterMapping[];
+  sla?: SlaTarget;
+}
+
+// Time by which a run or node should finish; warnings go out as it approaches
+export interface SlaTarget {
+  target: number | string; // hours, or a duration such as '4h' or '1d 12h'
+  warnAt?: number; // fraction of the target after which to warn, 0.8 by default
+  from?: 'run' | 'node'; // nodes only: measure from the run's start instead of the node's
 }
 
 export interface WorkflowEdge {
@@ -47,6 +60,14 @@ export interface WorkflowEdge {
   label?: string;
 }
 
+export interface ParameterMapping {
+  sourceType: 'context' | 'node_output' | 'static' | 'expression';
+  sourcePath: string; // context path, `<nodeId|nodeName>.<outputPath>`, literal or expression
+  targetPath: string; // dotted path in the node input
+  defaultValue?: any;
+  required?: boolean;
+}
+
 export interface NodePosition {
   x: number;
   y: number;
@@ -67,6 +88,35 @@ export interface ExecutionCondition {
   logicalOperator?: 'AND' | 'OR';
 }
 
+export interface TriggerFilter {
+  field: string; // `event.<payload field>` or `employee.<employee record field>`
+  operator: TriggerFilterOperator;
+  value?: any; // a list for `in` and `not_in`, unused for `exists` and `not_exists`
+}
+
+export type TriggerFilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'starts_with'
+  | 'contains'
+  | 'exists'
+  | 'not_exists';
+
+export interface WorkflowRunPolicy {
+  dedupe?: RunDedupePolicy;
+  concurrency?: RunConcurrencyPolicy; // among runs for the same employee, defaults to 'allow'
+}
+
+export interface RunDedupePolicy {
+  // employee_event: same employee and event type; correlation_id: same event correlation ID
+  key: 'employee_event' | 'correlation_id';
+  windowSeconds?: number;
+}
+
+export type RunConcurrencyPolicy = 'allow' | 'queue' | 'reject' | 'cancel_previous';
+
 export type NodeType =
   | 'identity.provision'
   | 'identity.deprovision'
@@ -77,6 +127,10 @@ export type NodeType =
   | 'document.distribute'
   | 'ai.generate_content'
   | 'webhook.call'
+  | 'workflow.invoke'
+  | 'approval'
+  | 'wait_for_event'
+  | 'foreach'
   | 'delay'
   | 'condition'
   | 'parallel'
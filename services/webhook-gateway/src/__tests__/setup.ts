@@ -1,10 +1,23 @@
 // Test setup file for webhook gateway service
-import { logger } from '../utils/logger';
+
+// Config is read from the environment as it loads, so tests use a fixed one
+jest.mock('../config/webhook-config', () => ({
+  webhookConfig: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    webhookSecretKey: 'test-webhook-secret',
+  },
+}));
 
 // Suppress logs during testing
-logger.transports.forEach((transport) => {
-  transport.silent = true;
-});
+jest.mock('../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
 
 // Set test environment
 process.env.NODE_ENV = 'test';
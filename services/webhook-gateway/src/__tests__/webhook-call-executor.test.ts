@@ -0,0 +1,193 @@
+import { WebhookCallExecutor } from '../services/webhook-call-executor';
+import { SignatureVerifier } from '../utils/signature-verifier';
+import { JsonPath } from '../utils/json-path';
+import { NodeExecutionRequest } from '../types/webhook-types';
+
+describe('WebhookCallExecutor', () => {
+  let executor: WebhookCallExecutor;
+  let mockProducer: any;
+  let mockIntegrationAccountRepo: any;
+  let mockHttpClient: any;
+
+  const createRequest = (input: Record<string, any>): NodeExecutionRequest => ({
+    runId: 'run-1',
+    nodeId: 'node-1',
+    organizationId: 'org-1',
+    employeeId: 'emp-1',
+    nodeType: 'webhook.call',
+    input: {
+      ...input,
+      context: {
+        'event.payload': { employee: { id: 'emp-1', email: 'new.hire@example.com' } },
+      },
+    },
+    context: {},
+    idempotencyKey: 'run-1:node-1:1',
+    retryAttempt: 1,
+    timeoutMs: 10000,
+  });
+
+  beforeEach(() => {
+    mockProducer = { sendMessage: jest.fn() };
+    mockIntegrationAccountRepo = { findById: jest.fn() };
+    mockHttpClient = { request: jest.fn(), post: jest.fn() };
+    executor = new WebhookCallExecutor(mockProducer, mockIntegrationAccountRepo, mockHttpClient);
+  });
+
+  it('should render templates, sign the body and map response fields', async () => {
+    mockHttpClient.request.mockResolvedValue({
+      status: 201,
+      headers: {},
+      data: { ticket: { id: 'T-42' }, assignees: [{ name: 'ann' }, { name: 'bob' }] },
+    });
+
+    const result = await executor.execute(
+      createRequest({
+        url: 'https://itsm.example.com/employees/{{event.payload.employee.id}}/tickets',
+        headers: { 'X-Requester': '{{event.payload.employee.email}}' },
+        body: { employee: '{{event.payload.employee}}', summary: 'Laptop for {{input.team}}' },
+        team: 'Platform',
+        auth: { type: 'hmac', secret: 'shh' },
+        responseMapping: { ticketId: '$.ticket.id', assignees: '$.assignees[*].name' },
+      })
+    );
+
+    const call = mockHttpClient.request.mock.calls[0][0];
+    expect(call.url).toBe('https://itsm.example.com/employees/emp-1/tickets');
+    expect(JSON.parse(call.data)).toEqual({
+      employee: { id: 'emp-1', email: 'new.hire@example.com' },
+      summary: 'Laptop for Platform',
+    });
+    expect(call.headers).toEqual(
+      expect.objectContaining({
+        'X-Requester': 'new.hire@example.com',
+        'Idempotency-Key': 'run-1:node-1:1',
+        'X-Signature': `sha256=${SignatureVerifier.generateSignature(call.data, 'shh')}`,
+      })
+    );
+    expect(result).toEqual(
+      expect.objectContaining({
+        status: 'success',
+        output: expect.objectContaining({
+          statusCode: 201,
+          ticketId: 'T-42',
+          assignees: ['ann', 'bob'],
+        }),
+      })
+    );
+  });
+
+  it('should classify status codes and pass on Retry-After', async () => {
+    mockHttpClient.request
+      .mockResolvedValueOnce({ status: 429, headers: { 'retry-after': '30' }, data: {} })
+      .mockResolvedValueOnce({ status: 404, headers: {}, data: {} })
+      .mockResolvedValueOnce({ status: 404, headers: {}, data: {} });
+
+    const rateLimited = await executor.execute(createRequest({ url: 'https://api.example.com' }));
+    const notFound = await executor.execute(createRequest({ url: 'https://api.example.com' }));
+    const accepted = await executor.execute(
+      createRequest({ url: 'https://api.example.com', successStatusCodes: ['2xx', 404] })
+    );
+
+    expect(rateLimited).toEqual(
+      expect.objectContaining({
+        status: 'retry',
+        error: expect.objectContaining({
+          code: 'RATE_LIMIT_EXCEEDED',
+          details: expect.objectContaining({ statusCode: 429, retryAfterMs: 30000 }),
+        }),
+      })
+    );
+    expect(notFound).toEqual(
+      expect.objectContaining({
+        status: 'failed',
+        error: expect.objectContaining({ code: 'WEBHOOK_CALL_FAILED' }),
+      })
+    );
+    expect(accepted.status).toBe('success');
+  });
+
+  it('should authenticate with cached client credentials of an integration account', async () => {
+    mockIntegrationAccountRepo.findById.mockResolvedValue({
+      account_id: 'acct-1',
+      org_id: 'org-1',
+      is_active: true,
+      credentials: { clientId: 'client', clientSecret: 'secret' },
+      config: { tokenUrl: 'https://auth.example.com/token' },
+    });
+    mockHttpClient.post.mockResolvedValue({ data: { access_token: 'tok', expires_in: 3600 } });
+    mockHttpClient.request.mockResolvedValue({ status: 200, headers: {}, data: {} });
+    const request = createRequest({
+      url: 'https://api.example.com',
+      auth: { type: 'oauth2', integrationAccountId: 'acct-1' },
+    });
+
+    await executor.execute(request);
+    await executor.execute(request);
+
+    expect(mockHttpClient.post).toHaveBeenCalledTimes(1);
+    expect(mockHttpClient.post.mock.calls[0][1]).toContain('grant_type=client_credentials');
+    expect(mockHttpClient.request.mock.calls[1][0].headers.Authorization).toBe('Bearer tok');
+  });
+
+  it('should not hand a cached token to another organization', async () => {
+    mockIntegrationAccountRepo.findById.mockResolvedValue({
+      account_id: 'acct-1',
+      org_id: 'org-1',
+      is_active: true,
+      credentials: { clientId: 'client', clientSecret: 'secret' },
+      config: { tokenUrl: 'https://auth.example.com/token' },
+    });
+    mockHttpClient.post.mockResolvedValue({ data: { access_token: 'tok', expires_in: 3600 } });
+    mockHttpClient.request.mockResolvedValue({ status: 200, headers: {}, data: {} });
+    const input = {
+      url: 'https://api.example.com',
+      auth: { type: 'oauth2', integrationAccountId: 'acct-1' },
+    };
+
+    await executor.execute(createRequest(input));
+
+    await expect(
+      executor.execute({ ...createRequest(input), organizationId: 'org-2' })
+    ).rejects.toThrow('Integration account acct-1 is not available');
+    expect(mockHttpClient.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should publish the outcome as a node execution result', async () => {
+    await executor.handleRequest({
+      id: 'msg-1',
+      type: 'node.execute.request',
+      payload: createRequest({ url: 'ftp://files.example.com' }),
+      metadata: {
+        correlationId: 'corr-1',
+        timestamp: new Date(),
+        source: 'workflow-engine',
+        version: '1.0',
+      },
+    });
+
+    expect(mockProducer.sendMessage).toHaveBeenCalledWith(
+      'node.execute.result',
+      expect.objectContaining({
+        payload: expect.objectContaining({
+          runId: 'run-1',
+          status: 'failed',
+          error: expect.objectContaining({ code: 'WEBHOOK_CONFIG_INVALID' }),
+        }),
+      }),
+      undefined,
+      'run-1:node-1:1'
+    );
+  });
+});
+
+describe('JsonPath', () => {
+  it('should support property, index and wildcard segments', () => {
+    const data = { users: [{ id: 1, 'display name': 'Ann' }, { id: 2 }] };
+
+    expect(JsonPath.query(data, '$.users[0]["display name"]')).toBe('Ann');
+    expect(JsonPath.query(data, '$.users[*].id')).toEqual([1, 2]);
+    expect(JsonPath.query(data, '$.missing.id')).toBeUndefined();
+    expect(() => JsonPath.query(data, 'users')).toThrow("must start with '$'");
+  });
+});
@@ -1,9 +1,12 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import { OfficeFlowProducer } from '@officeflow/kafka';
+import { OfficeFlowProducer, OfficeFlowConsumer } from '@officeflow/kafka';
+import { IntegrationAccountRepositoryImpl, db } from '@officeflow/database';
 import { WebhookService } from './services/webhook-service';
 import { AdapterManager } from './services/adapter-manager';
+import { WebhookCallExecutor } from './services/webhook-call-executor';
+import { NodeExecutionRequest } from './types/webhook-types';
 import { createWebhookRoutes } from './api/webhook-routes';
 import { webhookConfig } from './config/webhook-config';
 import { logger } from './utils/logger';
@@ -11,8 +14,10 @@ import { logger } from './utils/logger';
 class WebhookGatewayServer {
   private app: express.Application;
   private kafkaProducer: OfficeFlowProducer;
+  private kafkaConsumer: OfficeFlowConsumer;
   private webhookService: WebhookService;
   private adapterManager: AdapterManager;
+  private webhookCallExecutor: WebhookCallExecutor;
 
   constructor() {
     this.app = express();
@@ -22,6 +27,17 @@ class WebhookGatewayServer {
     });
     this.webhookService = new WebhookService(this.kafkaProducer);
     this.adapterManager = new AdapterManager(this.kafkaProducer);
+    this.kafkaConsumer = new OfficeFlowConsumer(
+      {
+        clientId: webhookConfig.kafkaClientId,
+        brokers: webhookConfig.kafkaBrokers.split(','),
+      },
+      { groupId: 'webhook-gateway' }
+    );
+    this.webhookCallExecutor = new WebhookCallExecutor(
+      this.kafkaProducer,
+      new IntegrationAccountRepositoryImpl()
+    );
   }
 
   /**
@@ -39,6 +55,10 @@ class WebhookGatewayServer {
       await this.adapterManager.initialize();
       logger.info('HRMS adapters initialized');
 
+      // Execute outbound webhook.call nodes for the workflow engine
+      await this.startWebhookCallExecutor();
+      logger.info('Webhook call executor started');
+
       // Setup Express middleware
       this.setupMiddleware();
 
@@ -55,6 +75,25 @@ class WebhookGatewayServer {
     }
   }
 
+  /**
+   * Consume webhook.call node execution requests. Integration accounts used for
+   * OAuth client credentials are read from the database.
+   */
+  private async startWebhookCallExecutor(): Promise<void> {
+    await db.connect();
+    await this.kafkaConsumer.connect();
+    await this.kafkaConsumer.subscribe({ topics: ['webhook.call.request'] });
+
+    this.kafkaConsumer.registerHandler<NodeExecutionRequest>(
+      'node.execute.request',
+      async (message) => {
+        await this.webhookCallExecutor.handleRequest(message);
+      }
+    );
+
+    await this.kafkaConsumer.run();
+  }
+
   /**
    * Setup Express middleware
    */
@@ -293,6 +332,9 @@ class WebhookGatewayServer {
       // Stop HRMS adapters
       await this.adapterManager.shutdown();
 
+      // Stop consuming webhook.call requests
+      await this.kafkaConsumer.disconnect();
+
       // Disconnect Kafka producer
       await this.kafkaProducer.disconnect();
 
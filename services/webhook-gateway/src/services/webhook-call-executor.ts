@@ -0,0 +1,383 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { OfficeFlowProducer, OfficeFlowMessage } from '@officeflow/kafka';
+import { IntegrationAccountRepository } from '@officeflow/types';
+import {
+  WebhookCallParams,
+  WebhookAuthConfig,
+  StatusCodeRule,
+  NodeExecutionRequest,
+  NodeExecutionResult,
+} from '../types/webhook-types';
+import { SignatureVerifier } from '../utils/signature-verifier';
+import { JsonPath } from '../utils/json-path';
+import { logger } from '../utils/logger';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_SUCCESS_STATUS_CODES: StatusCodeRule[] = ['2xx'];
+const DEFAULT_RETRY_STATUS_CODES: StatusCodeRule[] = [408, 429, '5xx'];
+const TEMPLATE_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * Executes `webhook.call` nodes: makes the configured HTTP request and reports
+ * the outcome back to the workflow engine as a node execution result.
+ */
+export class WebhookCallExecutor {
+  private tokenCache: Map<string, CachedToken> = new Map();
+
+  constructor(
+    private kafkaProducer: OfficeFlowProducer,
+    private integrationAccountRepo: IntegrationAccountRepository,
+    private httpClient: AxiosInstance = axios.create()
+  ) {}
+
+  /**
+   * Handle a node execution request from the `webhook.call.request` topic
+   */
+  async handleRequest(message: OfficeFlowMessage<NodeExecutionRequest>): Promise<void> {
+    const request = message.payload;
+    const startedAt = Date.now();
+
+    let result: Omit<NodeExecutionResult, 'metadata'>;
+    try {
+      result = await this.execute(request);
+    } catch (error) {
+      result = {
+        runId: request.runId,
+        nodeId: request.nodeId,
+        status: 'failed',
+        error: {
+          code: 'WEBHOOK_CONFIG_INVALID',
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+
+    logger.info('Webhook call executed', {
+      runId: request.runId,
+      nodeId: request.nodeId,
+      status: result.status,
+      statusCode: result.output?.statusCode ?? result.error?.details?.statusCode,
+    });
+
+    await this.kafkaProducer.sendMessage(
+      'node.execute.result',
+      {
+        type: 'node.execute.result',
+        payload: {
+          ...result,
+          metadata: {
+            executionTimeMs: Date.now() - startedAt,
+            nodeType: request.nodeType,
+            attempt: request.retryAttempt,
+            timestamp: new Date(),
+          },
+        },
+        metadata: {
+          correlationId: message.metadata.correlationId,
+          organizationId: request.organizationId,
+          employeeId: request.employeeId,
+          source: 'webhook-gateway',
+          version: '1.0',
+        },
+      },
+      undefined,
+      request.idempotencyKey
+    );
+  }
+
+  /**
+   * Make the HTTP call for a request and classify its outcome. Configuration
+   * errors are thrown; HTTP and network failures are returned as results.
+   */
+  async execute(request: NodeExecutionRequest): Promise<Omit<NodeExecutionResult, 'metadata'>> {
+    const params = request.input as WebhookCallParams;
+    const scope = { ...request.input.context, input: request.input };
+
+    const url = new URL(this.renderTemplate(params.url, scope));
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error(`Unsupported webhook URL protocol: ${url.protocol}`);
+    }
+    for (const [key, value] of Object.entries(params.query || {})) {
+      url.searchParams.set(key, String(this.renderTemplate(value, scope)));
+    }
+
+    const method = params.method || 'POST';
+    const body =
+      params.body === undefined || method === 'GET'
+        ? undefined
+        : this.renderValue(params.body, scope);
+    const payload =
+      body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': request.idempotencyKey,
+    };
+    for (const [key, value] of Object.entries(params.headers || {})) {
+      headers[key] = String(this.renderTemplate(value, scope));
+    }
+
+    let response: AxiosResponse;
+    try {
+      Object.assign(
+        headers,
+        await this.getAuthHeaders(params.auth, request.organizationId, payload || '')
+      );
+      response = await this.httpClient.request({
+        url: url.toString(),
+        method,
+        headers,
+        data: payload,
+        timeout: params.timeoutMs || request.timeoutMs || DEFAULT_TIMEOUT_MS,
+        // Status codes are classified by the node's own rules
+        validateStatus: () => true,
+      });
+    } catch (error) {
+      // Unreachable endpoints, including token endpoints, are retried
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      return {
+        runId: request.runId,
+        nodeId: request.nodeId,
+        status: 'retry',
+        error: {
+          code: 'EXTERNAL_SERVICE_ERROR',
+          message: `Webhook call failed: ${error.message}`,
+        },
+      };
+    }
+
+    const successCodes = params.successStatusCodes || DEFAULT_SUCCESS_STATUS_CODES;
+    if (this.matchesStatus(response.status, successCodes)) {
+      return {
+        runId: request.runId,
+        nodeId: request.nodeId,
+        status: 'success',
+        output: {
+          statusCode: response.status,
+          body: response.data,
+          ...this.mapResponse(response.data, params.responseMapping),
+        },
+      };
+    }
+
+    const retryable = this.matchesStatus(
+      response.status,
+      params.retryStatusCodes || DEFAULT_RETRY_STATUS_CODES
+    );
+    return {
+      runId: request.runId,
+      nodeId: request.nodeId,
+      status: retryable ? 'retry' : 'failed',
+      error: {
+        // Only retryable codes are recognised by the engine's retry manager
+        code: !retryable
+          ? 'WEBHOOK_CALL_FAILED'
+          : response.status === 429
+            ? 'RATE_LIMIT_EXCEEDED'
+            : 'EXTERNAL_SERVICE_ERROR',
+        message: `Webhook call returned HTTP ${response.status}`,
+        details: {
+          statusCode: response.status,
+          body: response.data,
+          retryAfterMs: this.parseRetryAfter(response.headers?.['retry-after']),
+        },
+      },
+    };
+  }
+
+  /**
+   * Build the authentication headers for a request. HMAC signatures cover the
+   * exact request body that is sent.
+   */
+  private async getAuthHeaders(
+    auth: WebhookAuthConfig | undefined,
+    organizationId: string,
+    payload: string
+  ): Promise<Record<string, string>> {
+    switch (auth?.type) {
+      case undefined:
+      case 'none':
+        return {};
+      case 'bearer':
+        return { Authorization: `Bearer ${auth.token}` };
+      case 'basic': {
+        const credentials = Buffer.from(`${auth.username}:${auth.password}`).toString('base64');
+        return { Authorization: `Basic ${credentials}` };
+      }
+      case 'hmac': {
+        const algorithm = auth.algorithm || 'sha256';
+        const signature = SignatureVerifier.generateSignature(payload, auth.secret, algorithm);
+        return { [auth.header || 'X-Signature']: `${algorithm}=${signature}` };
+      }
+      case 'oauth2': {
+        const accessToken = await this.getClientCredentialsToken(organizationId, auth);
+        return { Authorization: `Bearer ${accessToken}` };
+      }
+      default:
+        throw new Error(`Unsupported webhook auth type: ${(auth as any).type}`);
+    }
+  }
+
+  /**
+   * Obtain an OAuth access token with the client credentials of an integration
+   * account. Tokens are cached until shortly before they expire.
+   */
+  private async getClientCredentialsToken(
+    organizationId: string,
+    auth: Extract<WebhookAuthConfig, { type: 'oauth2' }>
+  ): Promise<string> {
+    // Keyed by organization so a cached token is never handed to another tenant
+    const cacheKey = `${organizationId}:${auth.integrationAccountId}:${auth.scope || ''}`;
+    const cached = this.tokenCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const account = await this.integrationAccountRepo.findById(auth.integrationAccountId);
+    if (!account || account.org_id !== organizationId || !account.is_active) {
+      throw new Error(`Integration account ${auth.integrationAccountId} is not available`);
+    }
+
+    const tokenUrl = account.config.tokenUrl;
+    const { clientId, clientSecret } = account.credentials;
+    if (!tokenUrl || !clientId || !clientSecret) {
+      throw new Error(
+        `Integration account ${auth.integrationAccountId} has no client credentials configured`
+      );
+    }
+
+    const form = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: clientId,
+      client_secret: clientSecret,
+    });
+    const scope = auth.scope || account.config.scope;
+    if (scope) {
+      form.set('scope', scope);
+    }
+
+    const response = await this.httpClient.post(tokenUrl, form.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: DEFAULT_TIMEOUT_MS,
+    });
+
+    const accessToken = response.data?.access_token;
+    if (!accessToken) {
+      throw new Error(`Token endpoint of ${auth.integrationAccountId} returned no access token`);
+    }
+
+    // Refresh a minute early so in-flight calls don't use an expiring token
+    const expiresInMs = (response.data.expires_in || 3600) * 1000;
+    this.tokenCache.set(cacheKey, {
+      accessToken,
+      expiresAt: Date.now() + Math.max(0, expiresInMs - 60000),
+    });
+
+    return accessToken;
+  }
+
+  /**
+   * Extract response fields into the node output
+   */
+  private mapResponse(data: any, mapping?: Record<string, string>): Record<string, any> {
+    const output: Record<string, any> = {};
+    for (const [key, path] of Object.entries(mapping || {})) {
+      output[key] = JsonPath.query(data, path);
+    }
+    return output;
+  }
+
+  private matchesStatus(status: number, rules: StatusCodeRule[]): boolean {
+    return rules.some((rule) =>
+      typeof rule === 'number'
+        ? rule === status
+        : /^[1-5]xx$/i.test(rule) && Math.floor(status / 100) === Number(rule[0])
+    );
+  }
+
+  /**
+   * Parse a Retry-After header given in seconds or as an HTTP date
+   */
+  private parseRetryAfter(header: string | undefined): number | undefined {
+    if (!header) {
+      return undefined;
+    }
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Render `{{path}}` templates in strings nested anywhere in a value
+   */
+  private renderValue(value: any, scope: Record<string, any>): any {
+    if (typeof value === 'string') {
+      return this.renderTemplate(value, scope);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.renderValue(item, scope));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.renderValue(item, scope)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Render a template string. A string that is a single template keeps the type
+   * of the referenced value; otherwise references are interpolated as text.
+   */
+  private renderTemplate(template: string, scope: Record<string, any>): any {
+    const single = template.match(/^\{\{\s*([^}]+?)\s*\}\}$/);
+    if (single) {
+      return this.resolvePath(single[1], scope);
+    }
+
+    return template.replace(TEMPLATE_PATTERN, (_match, path: string) => {
+      const value = this.resolvePath(path, scope);
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+
+  /**
+   * Resolve a dotted path. Context variables use dotted keys such as
+   * `event.payload`, so the longest matching key is used before descending.
+   */
+  private resolvePath(path: string, scope: Record<string, any>): any {
+    const parts = path.split('.');
+
+    for (let length = parts.length; length > 0; length--) {
+      const key = parts.slice(0, length).join('.');
+      if (Object.prototype.hasOwnProperty.call(scope, key)) {
+        return parts
+          .slice(length)
+          .reduce(
+            (value, part) =>
+              value != null && Object.prototype.hasOwnProperty.call(value, part)
+                ? value[part]
+                : undefined,
+            scope[key]
+          );
+      }
+    }
+
+    return undefined;
+  }
+}
@@ -99,3 +99,63 @@ export interface WebhookDeliveryAttempt {
   processedAt?: Date;
   nextRetryAt?: Date;
 }
+
+export type WebhookAuthConfig =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | {
+      type: 'hmac';
+      secret: string;
+      header?: string; // defaults to X-Signature
+      algorithm?: 'sha256' | 'sha1';
+    }
+  | { type: 'oauth2'; integrationAccountId: string; scope?: string };
+
+// Status code or status class such as '2xx'
+export type StatusCodeRule = number | string;
+
+export interface WebhookCallParams {
+  url: string; // may contain {{path}} templates
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: any;
+  auth?: WebhookAuthConfig;
+  successStatusCodes?: StatusCodeRule[]; // defaults to ['2xx']
+  retryStatusCodes?: StatusCodeRule[]; // defaults to [408, 429, '5xx']
+  responseMapping?: Record<string, string>; // output key -> JSONPath into the response body
+  timeoutMs?: number;
+}
+
+// Node execution messages exchanged with the workflow engine
+export interface NodeExecutionRequest {
+  runId: string;
+  nodeId: string;
+  organizationId: string;
+  employeeId: string;
+  nodeType: string;
+  input: Record<string, any>;
+  context: Record<string, any>;
+  idempotencyKey: string;
+  retryAttempt: number;
+  timeoutMs: number;
+}
+
+export interface NodeExecutionResult {
+  runId: string;
+  nodeId: string;
+  status: 'success' | 'failed' | 'retry';
+  output?: Record<string, any>;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+  metadata: {
+    executionTimeMs: number;
+    nodeType: string;
+    attempt: number;
+    timestamp: Date;
+  };
+}
@@ -0,0 +1,63 @@
+type PathSegment = string | number | '*';
+
+export class JsonPath {
+  /**
+   * Evaluate a JSONPath expression against a value. Supports the common subset
+   * `$.a.b`, `$['a b']`, `$.items[0]` and `$.items[*].id`; wildcard paths return
+   * an array of matches, other paths the single match or undefined.
+   */
+  static query(data: any, path: string): any {
+    const segments = this.parse(path);
+    let matches: any[] = [data];
+
+    for (const segment of segments) {
+      const next: any[] = [];
+      for (const value of matches) {
+        if (value === null || typeof value !== 'object') {
+          continue;
+        }
+        if (segment === '*') {
+          next.push(...(Array.isArray(value) ? value : Object.values(value)));
+        } else if (Object.prototype.hasOwnProperty.call(value, segment)) {
+          next.push(value[segment]);
+        }
+      }
+      matches = next;
+    }
+
+    return segments.includes('*') ? matches : matches[0];
+  }
+
+  /**
+   * Split a JSONPath expression into property, index and wildcard segments
+   */
+  static parse(path: string): PathSegment[] {
+    if (!path.startsWith('$')) {
+      throw new Error(`JSONPath must start with '$': ${path}`);
+    }
+
+    const segments: PathSegment[] = [];
+    const pattern = /\.([A-Za-z_$][\w$-]*|\*)|\[(\d+|\*|'[^']*'|"[^"]*")\]/y;
+    let position = 1;
+
+    while (position < path.length) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(path);
+      if (!match) {
+        throw new Error(`Invalid JSONPath at position ${position}: ${path}`);
+      }
+
+      const token = match[1] ?? match[2];
+      if (token === '*') {
+        segments.push('*');
+      } else if (/^\d+$/.test(token) && match[2] !== undefined) {
+        segments.push(Number(token));
+      } else {
+        segments.push(token.replace(/^['"]|['"]$/g, ''));
+      }
+      position = pattern.lastIndex;
+    }
+
+    return segments;
+  }
+}
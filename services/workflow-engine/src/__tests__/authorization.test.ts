@@ -0,0 +1,79 @@
+/**
+ * API authorization tests: signed-in users and roles
+ */
+
+import { requireUser, requireRole, requireRunOfOrganization } from '../api/authorization';
+
+describe('API authorization', () => {
+  const createResponse = () => {
+    const res: any = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+  };
+
+  const request = (user?: Record<string, any>) => ({ user }) as any;
+  const admin = { userId: 'user-1', orgId: 'org-1', role: 'admin' };
+  const member = { userId: 'user-2', orgId: 'org-1', role: 'user' };
+
+  it('should reject requests without a signed-in user of an organization', () => {
+    for (const user of [undefined, { userId: 'user-1', role: 'admin' }]) {
+      const res = createResponse();
+      const next = jest.fn();
+
+      requireUser(request(user), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    }
+
+    const next = jest.fn();
+    requireUser(request(member), createResponse(), next);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should only let users with an allowed role through', () => {
+    const requireAdmin = requireRole(['admin']);
+
+    const memberResponse = createResponse();
+    const memberNext = jest.fn();
+    requireAdmin(request(member), memberResponse, memberNext);
+    expect(memberResponse.status).toHaveBeenCalledWith(403);
+    expect(memberResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'INSUFFICIENT_PERMISSIONS' })
+    );
+    expect(memberNext).not.toHaveBeenCalled();
+
+    const anonymousResponse = createResponse();
+    requireAdmin(request(), anonymousResponse, jest.fn());
+    expect(anonymousResponse.status).toHaveBeenCalledWith(401);
+
+    const adminNext = jest.fn();
+    requireAdmin(request(admin), createResponse(), adminNext);
+    expect(adminNext).toHaveBeenCalled();
+  });
+
+  it('should report runs of other organizations as not found', async () => {
+    const runs: Record<string, any> = {
+      'run-1': { organizationId: 'org-1' },
+      'run-2': { organizationId: 'org-2' },
+    };
+    const requireOwnRun = requireRunOfOrganization(async (runId) => runs[runId] || null);
+    const send = async (runId: string) => {
+      const res = createResponse();
+      const next = jest.fn();
+      requireOwnRun({ user: admin, params: { runId } } as any, res, next);
+      await new Promise(setImmediate);
+      return { res, next };
+    };
+
+    const own = await send('run-1');
+    expect(own.next).toHaveBeenCalled();
+
+    for (const runId of ['run-2', 'run-3']) {
+      const { res, next } = await send(runId);
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(next).not.toHaveBeenCalled();
+    }
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Expression language tests
+ */
+
+import { ExpressionEngine } from '../expressions';
+
+describe('ExpressionEngine', () => {
+  const now = new Date('2025-03-10T12:00:00.000Z');
+
+  const variables = {
+    'event.type': 'employee.onboard',
+    'event.payload': {
+      employeeType: 'contractor',
+      level: 4,
+      startDate: '2025-04-01T09:00:00.000Z',
+      tags: ['remote', 'engineering'],
+      manager: null,
+    },
+    'nodes.Provision Account.output': { accountId: 'acc-1', groups: ['eng', 'all'] },
+  };
+
+  const evaluate = (expression: string) =>
+    ExpressionEngine.evaluate(expression, variables, { now });
+
+  describe('evaluation', () => {
+    it('should keep ${path} references compatible with context variables', () => {
+      expect(evaluate('${event.payload.employeeType} == "contractor"')).toBe(true);
+      expect(evaluate('${nodes.Provision Account.output.accountId}')).toBe('acc-1');
+      expect(evaluate('${event.payload.missing} == null')).toBe(true);
+    });
+
+    it('should resolve bare paths and bracket access', () => {
+      expect(evaluate('event.payload.level >= 3 && event.type === "employee.onboard"')).toBe(true);
+      expect(evaluate('nodes["Provision Account"].output.groups[1]')).toBe('all');
+    });
+
+    it('should support null-safe access and defaults', () => {
+      expect(evaluate('event.payload.manager?.email ?? "hr@example.com"')).toBe('hr@example.com');
+      expect(() => evaluate('event.payload.manager.email')).toThrow("use '?.' for optional access");
+    });
+
+    it('should apply typed operators', () => {
+      expect(evaluate('event.payload.level * 2 + 1')).toBe(9);
+      expect(evaluate('"level-" + event.payload.level')).toBe('level-4');
+      expect(() => evaluate('event.payload.level > "3"')).toThrow(
+        "Operator '>' cannot compare number with string"
+      );
+      expect(() => evaluate('event.payload.tags - 1')).toThrow(
+        "Operator '-' is not defined for array and number"
+      );
+      expect(() => evaluate('1 / 0')).toThrow('Division by zero');
+    });
+
+    it('should evaluate date arithmetic and helpers deterministically', () => {
+      expect(evaluate('event.payload.startDate - 3d')).toBe('2025-03-29T09:00:00.000Z');
+      expect(evaluate('diffDays(date(event.payload.startDate), now())')).toBeCloseTo(21.875);
+      expect(evaluate('formatDate(addDays(now(), 1))')).toBe('2025-03-11');
+      expect(evaluate('date(event.payload.startDate) > now() + 2w')).toBe(true);
+      expect(evaluate('dayOfWeek(today())')).toBe(1);
+    });
+
+    it('should provide string and array functions', () => {
+      expect(evaluate('upper(substring(event.payload.employeeType, 0, 4))')).toBe('CONT');
+      expect(evaluate('contains(event.payload.tags, "remote")')).toBe(true);
+      expect(evaluate('join(split("a,b,c", ","), "-")')).toBe('a-b-c');
+      expect(evaluate('length(unique([1, 2, 2, 3]))')).toBe(3);
+      expect(evaluate('sum([1, 2, 3]) == 6 ? "ok" : "no"')).toBe('ok');
+    });
+  });
+
+  describe('sandboxing', () => {
+    it('should not expose prototypes or host functions', () => {
+      expect(() => evaluate('event.payload.__proto__')).toThrow(
+        "Access to property '__proto__' is not allowed"
+      );
+      expect(evaluate('event.payload.toString')).toBeUndefined();
+      expect(ExpressionEngine.validate('process.exit(1)')).toContain("Unexpected token '('");
+      expect(ExpressionEngine.validate('eval("1")')).toContain("Unknown function 'eval'");
+    });
+
+    it('should stop evaluations that exceed the step budget', () => {
+      expect(() =>
+        ExpressionEngine.evaluate('unique(split(lower("a,b,c,d"), ","))', variables, {
+          now,
+          limits: { maxSteps: 5 },
+        })
+      ).toThrow('exceeded the evaluation budget');
+    });
+
+    it('should cap string growth', () => {
+      expect(() =>
+        ExpressionEngine.evaluate('concat("abc", "def")', variables, {
+          now,
+          limits: { maxStringLength: 4 },
+        })
+      ).toThrow('string longer than 4 characters');
+    });
+  });
+
+  describe('validation', () => {
+    it('should report syntax errors with positions', () => {
+      expect(ExpressionEngine.validate('${event.type} == ')).toBe(
+        'Unexpected end of expression at position 17'
+      );
+      expect(ExpressionEngine.validate('"unterminated')).toBe(
+        'Unterminated string literal at position 0'
+      );
+      expect(ExpressionEngine.validate('addDays(now())')).toBe(
+        "Function 'addDays' expects 2 argument(s) but got 1 at position 0"
+      );
+    });
+
+    it('should reject deeply nested expressions', () => {
+      expect(ExpressionEngine.validate('('.repeat(40) + '1' + ')'.repeat(40))).toContain(
+        'maximum nesting depth'
+      );
+    });
+
+    it('should accept valid expressions', () => {
+      expect(ExpressionEngine.validate('a?.b ?? (c > 1 ? "x" : "y")')).toBeUndefined();
+    });
+  });
+
+  describe('analysis', () => {
+    it('should list the context paths an expression reads', () => {
+      expect(
+        ExpressionEngine.references(
+          '${event.payload.level} > 2 && nodes.approval.output.decision == "approved" || a[b].c'
+        )
+      ).toEqual(['event.payload.level', 'nodes.approval.output.decision', 'a', 'b']);
+    });
+
+    it('should tell constant expressions apart from ones that depend on the run', () => {
+      expect(ExpressionEngine.isConstant('1 > 2 || lower("A") == "b"')).toBe(true);
+      expect(ExpressionEngine.isConstant('now() > date("2020-01-01")')).toBe(false);
+      expect(ExpressionEngine.isConstant('${event.type} == "employee.onboard"')).toBe(false);
+    });
+  });
+});
@@ -311,6 +311,40 @@ describe('RedisStateManager', () => {
     });
   });
 
+  describe('Timer Scheduling', () => {
+    it('should schedule and retrieve due timers', async () => {
+      const runId = uuidv4();
+      const nodeId = uuidv4();
+
+      await stateManager.scheduleTimer(runId, nodeId, new Date(Date.now() + 60000));
+
+      const notDue = await stateManager.getDueTimers(10);
+      expect(notDue.find((t) => t.runId === runId && t.nodeId === nodeId)).toBeUndefined();
+
+      await stateManager.scheduleTimer(runId, nodeId, new Date(Date.now() - 1000));
+
+      const due = await stateManager.getDueTimers(10);
+      expect(due.find((t) => t.runId === runId && t.nodeId === nodeId)).toBeDefined();
+
+      await stateManager.removeTimer(runId, nodeId);
+    });
+
+    it('should allow only one instance to claim a timer', async () => {
+      const runId = uuidv4();
+      const nodeId = uuidv4();
+
+      await stateManager.scheduleTimer(runId, nodeId, new Date(Date.now() - 1000));
+
+      expect(await stateManager.claimTimer(runId, nodeId, 'instance-1')).toBe(true);
+      expect(await stateManager.claimTimer(runId, nodeId, 'instance-2')).toBe(false);
+
+      await stateManager.removeTimer(runId, nodeId);
+
+      const due = await stateManager.getDueTimers(10);
+      expect(due.find((t) => t.runId === runId && t.nodeId === nodeId)).toBeUndefined();
+    });
+  });
+
   describe('Health and Monitoring', () => {
     it('should get connection health', async () => {
       const health = await stateManager.getConnectionHealth();
@@ -0,0 +1,116 @@
+/**
+ * Run event log tests: recording, paging and trigger actors
+ */
+
+import { RunEventLog, triggerActor } from '../state/run-event-log';
+
+describe('RunEventLog', () => {
+  let mockRunEventRepo: any;
+  let runEventLog: RunEventLog;
+
+  const entity = (sequence: number) => ({
+    event_id: `event-${sequence}`,
+    sequence,
+    run_id: 'run-1',
+    event_type: 'node.dispatched',
+    node_id: 'node-1',
+    attempt: 1,
+    to_status: 'RUNNING',
+    actor_type: 'system',
+    data: { topic: 'email.send.request' },
+    created_at: new Date('2026-01-01T00:00:00Z'),
+  });
+
+  beforeEach(() => {
+    mockRunEventRepo = {
+      append: jest.fn(),
+      findByRun: jest.fn(),
+    };
+    runEventLog = new RunEventLog(mockRunEventRepo);
+  });
+
+  it('should append events as the engine unless an actor is given', async () => {
+    await runEventLog.record('run-1', {
+      type: 'run.status_changed',
+      fromStatus: 'RUNNING',
+      toStatus: 'PAUSED',
+      actor: { type: 'user', id: 'user-1' },
+      data: { trigger: 'pause' },
+    });
+    await runEventLog.record('run-1', { type: 'node.result', nodeId: 'node-1', attempt: 2 });
+
+    expect(mockRunEventRepo.append.mock.calls).toEqual([
+      [
+        expect.objectContaining({
+          run_id: 'run-1',
+          event_type: 'run.status_changed',
+          from_status: 'RUNNING',
+          to_status: 'PAUSED',
+          actor_type: 'user',
+          actor_id: 'user-1',
+          data: { trigger: 'pause' },
+        }),
+      ],
+      [
+        expect.objectContaining({
+          event_type: 'node.result',
+          node_id: 'node-1',
+          attempt: 2,
+          actor_type: 'system',
+          actor_id: undefined,
+          data: {},
+        }),
+      ],
+    ]);
+  });
+
+  it('should not fail the caller when an event cannot be stored', async () => {
+    mockRunEventRepo.append.mockRejectedValue(new Error('connection refused'));
+
+    await expect(
+      runEventLog.record('run-1', { type: 'run.created', toStatus: 'PENDING' })
+    ).resolves.toBeUndefined();
+  });
+
+  it('should page through events with a sequence cursor', async () => {
+    mockRunEventRepo.findByRun.mockResolvedValueOnce([entity(4), entity(7), entity(9)]);
+
+    const page = await runEventLog.getEvents('run-1', 3, 2);
+
+    expect(mockRunEventRepo.findByRun).toHaveBeenCalledWith('run-1', 3, 3);
+    expect(page.events.map((event) => event.sequence)).toEqual([4, 7]);
+    expect(page.events[0]).toEqual({
+      id: 'event-4',
+      sequence: 4,
+      runId: 'run-1',
+      type: 'node.dispatched',
+      nodeId: 'node-1',
+      attempt: 1,
+      fromStatus: undefined,
+      toStatus: 'RUNNING',
+      actor: { type: 'system' },
+      data: { topic: 'email.send.request' },
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+    });
+    expect(page.nextCursor).toBe(7);
+
+    mockRunEventRepo.findByRun.mockResolvedValueOnce([entity(9)]);
+    expect((await runEventLog.getEvents('run-1', 7, 2)).nextCursor).toBeNull();
+  });
+
+  it('should attribute runs to the schedule, user or event that started them', () => {
+    expect(triggerActor({ type: 'schedule.cron', payload: { scheduleId: 'schedule-1' } })).toEqual({
+      type: 'schedule',
+      id: 'schedule-1',
+    });
+    expect(triggerActor({ type: 'manual', triggeredBy: 'user-1' })).toEqual({
+      type: 'user',
+      id: 'user-1',
+    });
+    expect(triggerActor({ type: 'manual' })).toEqual({ type: 'system' });
+    expect(triggerActor({ type: 'employee.onboard', id: 'event-1' })).toEqual({
+      type: 'event',
+      id: 'event-1',
+    });
+  });
+});
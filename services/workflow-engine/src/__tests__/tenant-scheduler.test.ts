@@ -0,0 +1,207 @@
+/**
+ * Tenant scheduler tests: plan quotas, run slots and weighted fair node dispatch
+ */
+
+import { TenantScheduler } from '../execution/tenant-scheduler';
+
+// In-memory stand-in for the Redis slot sets and run queues
+const createSlotStore = () => {
+  const slots = new Map<string, Set<string>>();
+  const runQueues = new Map<string, string[]>();
+
+  const members = (key: string) => {
+    if (!slots.has(key)) {
+      slots.set(key, new Set());
+    }
+    return slots.get(key)!;
+  };
+  const queue = (orgId: string) => runQueues.get(orgId) || [];
+
+  return {
+    acquireTenantSlot: jest.fn(
+      async (
+        kind: string,
+        orgId: string,
+        member: string,
+        limit: number,
+        _expiresAt: number | null,
+        globalLimit: number = 0
+      ) => {
+        const tenantSlots = members(`${kind}:${orgId}`);
+        const engineSlots = members(kind);
+        if (!tenantSlots.has(member)) {
+          if (tenantSlots.size >= limit) return 'tenant_full';
+          if (globalLimit > 0 && engineSlots.size >= globalLimit) return 'engine_full';
+        }
+        tenantSlots.add(member);
+        engineSlots.add(member);
+        return 'acquired';
+      }
+    ),
+    releaseTenantSlot: jest.fn(async (kind: string, orgId: string, member: string) => {
+      members(`${kind}:${orgId}`).delete(member);
+      members(kind).delete(member);
+    }),
+    countTenantSlots: jest.fn(
+      async (kind: string, orgId?: string) => members(orgId ? `${kind}:${orgId}` : kind).size
+    ),
+    enqueueTenantRun: jest.fn(async (orgId: string, runId: string) => {
+      runQueues.set(orgId, [...queue(orgId), runId]);
+    }),
+    peekTenantRun: jest.fn(async (orgId: string) => queue(orgId)[0] || null),
+    removeTenantRun: jest.fn(async (orgId: string, runId: string) => {
+      const queued = queue(orgId).includes(runId);
+      runQueues.set(
+        orgId,
+        queue(orgId).filter((id) => id !== runId)
+      );
+      return queued;
+    }),
+    isTenantRunQueued: jest.fn(async (orgId: string, runId: string) =>
+      queue(orgId).includes(runId)
+    ),
+    countTenantQueuedRuns: jest.fn(async (orgId: string) => queue(orgId).length),
+  };
+};
+
+describe('TenantScheduler', () => {
+  let slotStore: ReturnType<typeof createSlotStore>;
+  let mockOrganizationRepo: any;
+  let scheduler: TenantScheduler;
+
+  const organizations: Record<string, any> = {
+    'org-starter': { org_id: 'org-starter', plan: 'starter', settings: {} },
+    'org-enterprise': { org_id: 'org-enterprise', plan: 'enterprise', settings: {} },
+    'org-limited': {
+      org_id: 'org-limited',
+      plan: 'basic',
+      settings: { executionQuota: { maxConcurrentRuns: 2, maxConcurrentNodes: 1, weight: 0 } },
+    },
+  };
+
+  const queueNode = (orgId: string, slotId: string, send: jest.Mock) =>
+    scheduler.queueNode(orgId, { slotId, timeoutMs: 30000, send });
+
+  beforeEach(() => {
+    slotStore = createSlotStore();
+    mockOrganizationRepo = {
+      findById: jest.fn(async (orgId: string) => organizations[orgId] || null),
+    };
+    scheduler = new TenantScheduler(
+      { maxConcurrentNodes: 5 },
+      mockOrganizationRepo,
+      slotStore as any
+    );
+  });
+
+  it('should take limits from the plan, overridden by organization settings', async () => {
+    expect(await scheduler.getQuota('org-enterprise')).toEqual({
+      maxConcurrentRuns: 500,
+      maxConcurrentNodes: 200,
+      weight: 4,
+    });
+    // Unknown plans get the starter limits; invalid overrides are ignored
+    expect(await scheduler.getQuota('org-limited')).toEqual({
+      maxConcurrentRuns: 2,
+      maxConcurrentNodes: 1,
+      weight: 1,
+    });
+    expect(await scheduler.getQuota('org-missing')).toEqual(
+      await scheduler.getQuota('org-starter')
+    );
+
+    await scheduler.getQuota('org-enterprise');
+    expect(mockOrganizationRepo.findById).toHaveBeenCalledTimes(4);
+  });
+
+  it('should queue runs beyond the run limit and start the oldest as slots free up', async () => {
+    const start = jest.fn().mockResolvedValue(true);
+
+    expect(await scheduler.acquireRunSlot('org-limited', 'run-1')).toBe(true);
+    expect(await scheduler.acquireRunSlot('org-limited', 'run-2')).toBe(true);
+    expect(await scheduler.acquireRunSlot('org-limited', 'run-3')).toBe(false);
+
+    await scheduler.queueRun('org-limited', 'run-3', start);
+    await scheduler.queueRun('org-limited', 'run-4', start);
+    expect(start).not.toHaveBeenCalled();
+
+    await scheduler.releaseRunSlot('org-limited', 'run-1');
+    await scheduler.startQueuedRuns('org-limited', start);
+
+    expect(start.mock.calls).toEqual([['run-3']]);
+    expect(await scheduler.isRunQueued('org-limited', 'run-4')).toBe(true);
+
+    // A run that is no longer waiting gives its slot back
+    start.mockResolvedValueOnce(false);
+    await scheduler.releaseRunSlot('org-limited', 'run-2');
+    await scheduler.startQueuedRuns('org-limited', start);
+
+    expect(start).toHaveBeenLastCalledWith('run-4');
+    expect(await slotStore.countTenantSlots('runs', 'org-limited')).toBe(1);
+    expect(await slotStore.countTenantQueuedRuns('org-limited')).toBe(0);
+  });
+
+  it('should hold node executions beyond the organization limit until a slot frees up', async () => {
+    const send = jest.fn().mockResolvedValue(true);
+
+    expect(await scheduler.acquireNodeSlot('org-limited', 'node-1', 30000)).toBe(true);
+    expect(await scheduler.acquireNodeSlot('org-limited', 'node-2', 30000)).toBe(false);
+    await queueNode('org-limited', 'node-2', send);
+    expect(send).not.toHaveBeenCalled();
+
+    // Executions queued here go first, even for other organizations
+    expect(await scheduler.acquireNodeSlot('org-starter', 'node-3', 30000)).toBe(false);
+
+    await scheduler.releaseNodeSlot('org-limited', 'node-1');
+
+    expect(send).toHaveBeenCalledTimes(1);
+    const metrics = await scheduler.getMetrics();
+    expect(metrics.organizations.find((org) => org.organizationId === 'org-limited')).toMatchObject(
+      { inFlightNodes: 1, queuedNodes: 0, throttledNodes: 1 }
+    );
+  });
+
+  it('should share engine capacity between organizations by weight', async () => {
+    // Another organization holds all engine-wide slots
+    for (let i = 0; i < 5; i++) {
+      await scheduler.acquireNodeSlot('org-busy', `busy-${i}`, 30000);
+    }
+
+    const sent: string[] = [];
+    for (let i = 0; i < 8; i++) {
+      await queueNode(
+        'org-starter',
+        `starter-${i}`,
+        jest.fn(async () => !!sent.push('starter'))
+      );
+      await queueNode(
+        'org-enterprise',
+        `enterprise-${i}`,
+        jest.fn(async () => !!sent.push('enterprise'))
+      );
+    }
+    expect(sent).toHaveLength(0);
+
+    for (let i = 0; i < 5; i++) {
+      await scheduler.releaseNodeSlot('org-busy', `busy-${i}`);
+    }
+
+    expect(sent.filter((org) => org === 'starter')).toHaveLength(1);
+    expect(sent.filter((org) => org === 'enterprise')).toHaveLength(4);
+  });
+
+  it('should drop queued executions that were released or cancelled while waiting', async () => {
+    await scheduler.acquireNodeSlot('org-limited', 'node-1', 30000);
+    const released = jest.fn().mockResolvedValue(true);
+    const cancelled = jest.fn().mockResolvedValue(false);
+    await queueNode('org-limited', 'node-2', released);
+    await queueNode('org-limited', 'node-3', cancelled);
+
+    await scheduler.releaseNodeSlot('org-limited', 'node-2');
+    await scheduler.releaseNodeSlot('org-limited', 'node-1');
+
+    expect(released).not.toHaveBeenCalled();
+    expect(cancelled).toHaveBeenCalledTimes(1);
+    expect(await slotStore.countTenantSlots('nodes', 'org-limited')).toBe(0);
+  });
+});
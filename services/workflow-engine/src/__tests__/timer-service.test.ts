@@ -0,0 +1,204 @@
+/**
+ * Delay timer service tests
+ */
+
+import { TimerService } from '../execution/timer-service';
+import { ExecutionContextManager } from '../execution/context-manager';
+import { ExecutionContext, WorkflowNode } from '@officeflow/types';
+
+describe('TimerService', () => {
+  let timerService: TimerService;
+  let mockStateManager: any;
+  const now = new Date('2025-03-10T12:00:00.000Z');
+
+  const context: ExecutionContext = {
+    organizationId: 'org-123',
+    employeeId: 'emp-123',
+    triggerEvent: { type: 'employee.onboard' },
+    variables: {
+      'event.payload': { startDate: '2025-04-01T09:00:00.000Z' },
+      'nodes.Provision Account.output': { completedAt: '2025-03-11T08:00:00.000Z' },
+    },
+    secrets: {},
+    correlationId: 'corr-123',
+  };
+
+  const createDelayNode = (params: Record<string, any>): WorkflowNode => ({
+    id: 'delay-node',
+    type: 'delay',
+    name: 'Wait',
+    params,
+    retryPolicy: {
+      maxRetries: 0,
+      backoffMs: 1000,
+      backoffMultiplier: 2,
+      maxBackoffMs: 30000,
+    },
+    timeoutMs: 300000,
+    position: { x: 0, y: 0 },
+  });
+
+  beforeEach(() => {
+    mockStateManager = {
+      setNodeState: jest.fn(),
+      getNodeState: jest.fn(),
+      scheduleTimer: jest.fn(),
+      getDueTimers: jest.fn().mockResolvedValue([]),
+      claimTimer: jest.fn().mockResolvedValue(true),
+      removeTimer: jest.fn(),
+    };
+
+    timerService = new TimerService(
+      mockStateManager,
+      new ExecutionContextManager(mockStateManager)
+    );
+  });
+
+  describe('resolveFireAt', () => {
+    it('should resolve relative durations with a unit', () => {
+      const fireAt = timerService.resolveFireAt({ duration: 2, unit: 'days' }, context, now);
+
+      expect(fireAt.toISOString()).toBe('2025-03-12T12:00:00.000Z');
+    });
+
+    it('should default numeric durations to hours', () => {
+      const fireAt = timerService.resolveFireAt({ duration: 3 }, context, now);
+
+      expect(fireAt.toISOString()).toBe('2025-03-10T15:00:00.000Z');
+    });
+
+    it('should resolve compound duration strings', () => {
+      const fireAt = timerService.resolveFireAt({ duration: '1d 2h 30m' }, context, now);
+
+      expect(fireAt.toISOString()).toBe('2025-03-11T14:30:00.000Z');
+    });
+
+    it('should resolve absolute timestamps', () => {
+      const fireAt = timerService.resolveFireAt(
+        { until: '2025-05-01T00:00:00.000Z' },
+        context,
+        now
+      );
+
+      expect(fireAt.toISOString()).toBe('2025-05-01T00:00:00.000Z');
+    });
+
+    it('should resolve expressions against trigger payload fields', () => {
+      const fireAt = timerService.resolveFireAt({ expression: 'startDate - 3d' }, context, now);
+
+      expect(fireAt.toISOString()).toBe('2025-03-29T09:00:00.000Z');
+    });
+
+    it('should resolve expressions against context references', () => {
+      const fireAt = timerService.resolveFireAt(
+        { expression: '${nodes.Provision Account.output.completedAt} + 1h' },
+        context,
+        now
+      );
+
+      expect(fireAt.toISOString()).toBe('2025-03-11T09:00:00.000Z');
+    });
+
+    it('should evaluate expressions with the functions of workflow expressions', () => {
+      const fireAt = timerService.resolveFireAt(
+        { expression: 'addDays(startDate, -7) + 9h' },
+        context,
+        now
+      );
+      expect(fireAt.toISOString()).toBe('2025-03-25T18:00:00.000Z');
+
+      expect(
+        timerService.resolveFireAt({ expression: 'now() + 30m' }, context, now).toISOString()
+      ).toBe('2025-03-10T12:30:00.000Z');
+    });
+
+    it('should reject unresolvable references', () => {
+      expect(() =>
+        timerService.resolveFireAt({ expression: 'endDate - 1d' }, context, now)
+      ).toThrow("Delay reference 'endDate' did not resolve to a value");
+    });
+
+    it('should reject invalid durations', () => {
+      expect(() => timerService.resolveFireAt({ duration: '3 fortnights' }, context, now)).toThrow(
+        'Invalid delay duration'
+      );
+    });
+
+    it('should require a delay configuration', () => {
+      expect(() => timerService.resolveFireAt({}, context, now)).toThrow(
+        'Delay node requires one of: duration, until or expression'
+      );
+    });
+  });
+
+  describe('timer lifecycle', () => {
+    it('should persist node state and schedule the timer', async () => {
+      const node = createDelayNode({ until: '2030-01-01T00:00:00.000Z' });
+
+      const fireAt = await timerService.startTimer('run-1', node, node.params, context);
+
+      expect(mockStateManager.setNodeState).toHaveBeenCalledWith(
+        expect.objectContaining({ nodeId: 'delay-node', status: 'RUNNING', wakeAt: fireAt })
+      );
+      expect(mockStateManager.scheduleTimer).toHaveBeenCalledWith('run-1', 'delay-node', fireAt);
+    });
+
+    it('should fire at the time of the resolved input, not the node params', async () => {
+      const node = createDelayNode({ duration: 1, unit: 'days' });
+
+      // e.g. a parameter mapping replaced the duration with one from the event
+      const fireAt = await timerService.startTimer(
+        'run-1',
+        node,
+        { ...node.params, duration: '2h' },
+        context
+      );
+
+      expect(fireAt.getTime() - Date.now()).toBeLessThanOrEqual(2 * 60 * 60 * 1000);
+      expect(fireAt.getTime() - Date.now()).toBeGreaterThan(60 * 60 * 1000);
+    });
+
+    it('should only return claimed timers whose node is still waiting', async () => {
+      mockStateManager.getDueTimers.mockResolvedValue([
+        { runId: 'run-1', nodeId: 'waiting' },
+        { runId: 'run-1', nodeId: 'cancelled' },
+        { runId: 'run-1', nodeId: 'claimed-elsewhere' },
+      ]);
+      mockStateManager.claimTimer.mockImplementation(
+        async (_runId: string, nodeId: string) => nodeId !== 'claimed-elsewhere'
+      );
+      mockStateManager.getNodeState.mockImplementation(async (runId: string, nodeId: string) => ({
+        runId,
+        nodeId,
+        attempt: 1,
+        status: nodeId === 'waiting' ? 'RUNNING' : 'CANCELLED',
+      }));
+
+      const fired = await timerService.claimDueTimers('instance-1');
+
+      expect(fired.map((timer) => timer.nodeId)).toEqual(['waiting']);
+      expect(mockStateManager.removeTimer).toHaveBeenCalledWith('run-1', 'cancelled');
+    });
+
+    it('should complete the node and remove the timer', async () => {
+      const timer = {
+        runId: 'run-1',
+        nodeId: 'delay-node',
+        nodeState: {
+          runId: 'run-1',
+          nodeId: 'delay-node',
+          status: 'RUNNING' as const,
+          attempt: 1,
+          wakeAt: now,
+        },
+      };
+
+      await timerService.completeTimer(timer, { firedAt: now.toISOString() });
+
+      expect(mockStateManager.setNodeState).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'COMPLETED', output: { firedAt: now.toISOString() } })
+      );
+      expect(mockStateManager.removeTimer).toHaveBeenCalledWith('run-1', 'delay-node');
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Workflow document tests: YAML/JSON export and import, and semantic diffs
+ */
+
+import * as yaml from 'js-yaml';
+import {
+  exportWorkflow,
+  importWorkflow,
+  diffWorkflows,
+  toWorkflowDocument,
+  WorkflowDocumentError,
+} from '../orchestrator/workflow-document';
+import { WorkflowParser } from '../orchestrator/workflow-parser';
+import { WorkflowDefinition, WorkflowNode } from '@officeflow/types';
+
+describe('Workflow documents', () => {
+  const createNode = (id: string, name: string, overrides: Partial<WorkflowNode> = {}) =>
+    ({
+      id,
+      type: 'email.send',
+      name,
+      params: {},
+      retryPolicy: { maxRetries: 3, backoffMs: 1000, backoffMultiplier: 2, maxBackoffMs: 30000 },
+      timeoutMs: 300000,
+      position: { x: 0, y: 0 },
+      ...overrides,
+    }) as WorkflowNode;
+
+  const createWorkflow = (): WorkflowDefinition => ({
+    id: 'workflow-1',
+    organizationId: 'org-1',
+    name: 'Onboarding',
+    description: 'New hire setup',
+    eventTrigger: 'employee.onboard',
+    version: 3,
+    isActive: true,
+    definition: {
+      nodes: [
+        createNode('node-1', 'Create account', {
+          type: 'identity.provision',
+          params: { provider: 'okta', startDate: '2024-01-01' },
+          position: { x: 120, y: 40 },
+        }),
+        createNode('node-2', 'Welcome email', {
+          position: { x: 120, y: 200 },
+          parameterMappings: [
+            { sourceType: 'node_output', sourcePath: 'node-1.user.email', targetPath: 'to' },
+            { sourceType: 'static', sourcePath: 'Welcome!', targetPath: 'subject' },
+          ],
+        }),
+        createNode('node-3', 'Remove account', {
+          type: 'compensation',
+          params: { compensatesFor: ['node-1'] },
+          position: { x: 400, y: 40 },
+        }),
+      ],
+      edges: [
+        {
+          id: 'edge-1',
+          fromNodeId: 'node-1',
+          toNodeId: 'node-2',
+          conditionExpression: '${event.payload.department} == "Engineering"',
+          label: 'created',
+        },
+      ],
+      metadata: {
+        version: '1.0.0',
+        triggerFilters: [{ field: 'event.location', operator: 'starts_with', value: 'EU-' }],
+      },
+    },
+    createdBy: 'user-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const target = { organizationId: 'org-2', createdBy: 'user-2' };
+
+  it('should export nodes and edges by name and import them back unchanged', () => {
+    const workflow = createWorkflow();
+
+    for (const format of ['yaml', 'json'] as const) {
+      const text = exportWorkflow(workflow, format);
+      expect(text).not.toMatch(/node-\d/);
+
+      const imported = importWorkflow(text, format, target);
+      expect(diffWorkflows(workflow, imported).identical).toBe(true);
+      expect(imported.definition.nodes[0].position).toEqual({ x: 120, y: 40 });
+      expect(imported.definition.nodes[0].params.startDate).toBe('2024-01-01');
+
+      const [account, email, compensation] = imported.definition.nodes;
+      expect(email.parameterMappings![0].sourcePath).toBe(`${account.id}.user.email`);
+      expect(compensation.params.compensatesFor).toEqual([account.id]);
+      expect(imported.definition.edges[0]).toMatchObject({
+        fromNodeId: account.id,
+        toNodeId: email.id,
+        label: 'created',
+      });
+    }
+
+    const document = yaml.load(exportWorkflow(workflow)) as any;
+    expect(document).toMatchObject({
+      apiVersion: 'officeflow.io/v1',
+      kind: 'Workflow',
+      edges: [{ from: 'Create account', to: 'Welcome email' }],
+    });
+    expect(document.nodes[1].parameterMappings[0]).toEqual({
+      sourceType: 'node_output',
+      sourceNode: 'Create account',
+      sourcePath: 'user.email',
+      targetPath: 'to',
+    });
+  });
+
+  it('should keep the IDs of existing nodes and edges when updating a workflow', () => {
+    const current = createWorkflow();
+    const document = toWorkflowDocument(current);
+    document.nodes.push({ ...document.nodes[1], name: 'Manager email' });
+    document.edges.push({ from: 'Create account', to: 'Manager email' });
+
+    const imported = importWorkflow(document, 'json', { ...target, current });
+
+    expect(imported.id).toBe('workflow-1');
+    expect(imported.definition.nodes.slice(0, 3).map((node) => node.id)).toEqual([
+      'node-1',
+      'node-2',
+      'node-3',
+    ]);
+    expect(imported.definition.nodes[3].id).not.toMatch(/^node-/);
+    expect(imported.definition.edges[0].id).toBe('edge-1');
+    expect(imported.definition.edges[1].toNodeId).toBe(imported.definition.nodes[3].id);
+  });
+
+  it('should reject documents that are malformed, reference unknown nodes or fail validation', () => {
+    const text = exportWorkflow(createWorkflow());
+    const importError = (source: any) => {
+      try {
+        importWorkflow(source, 'yaml', target);
+      } catch (error) {
+        return error as WorkflowDocumentError;
+      }
+      throw new Error('Import succeeded');
+    };
+
+    expect(importError('nodes: [').code).toBe('INVALID_DOCUMENT');
+    expect(importError(text.replace('officeflow.io/v1', 'officeflow.io/v9')).code).toBe(
+      'UNSUPPORTED_VERSION'
+    );
+    expect(importError(text.replace('to: Welcome email', 'to: Goodbye email')).code).toBe(
+      'UNKNOWN_NODE'
+    );
+
+    const validate = jest.spyOn(WorkflowParser, 'validateWorkflowDefinition');
+    const invalid = importError(text.replace('timeoutMs: 300000', 'timeoutMs: 10'));
+    expect(validate).toHaveBeenCalled();
+    expect(invalid.code).toBe('VALIDATION_FAILED');
+    expect(invalid.validationErrors.length).toBeGreaterThan(0);
+    validate.mockRestore();
+  });
+
+  it('should diff workflows by node name regardless of IDs and order', () => {
+    const before = createWorkflow();
+    const after = importWorkflow(exportWorkflow(before), 'yaml', target);
+    after.definition.nodes.reverse();
+    expect(diffWorkflows(before, after).identical).toBe(true);
+
+    const [compensation, email] = after.definition.nodes;
+    after.definition.nodes = [
+      ...after.definition.nodes.filter((node) => node !== compensation),
+      createNode('node-4', 'Slack welcome', { type: 'slack.message' }),
+    ];
+    email.position = { x: 300, y: 200 };
+    after.definition.edges[0].label = 'account created';
+    after.definition.edges.push({
+      id: 'edge-2',
+      fromNodeId: email.id,
+      toNodeId: 'node-4',
+    });
+    after.definition.metadata.runPolicy = { concurrency: 'queue' };
+
+    const diff = diffWorkflows(before, after);
+
+    expect(diff.identical).toBe(false);
+    expect(diff.changes).toEqual([{ path: 'metadata.runPolicy', after: { concurrency: 'queue' } }]);
+    expect(diff.nodes).toEqual({
+      added: ['Slack welcome'],
+      removed: ['Remove account'],
+      changed: [
+        {
+          name: 'Welcome email',
+          changes: [{ path: 'position.x', before: 120, after: 300 }],
+        },
+      ],
+    });
+    expect(diff.edges).toEqual({
+      added: [{ from: 'Welcome email', to: 'Slack welcome' }],
+      removed: [],
+      changed: [
+        {
+          from: 'Create account',
+          to: 'Welcome email',
+          changes: [{ path: 'label', before: 'created', after: 'account created' }],
+        },
+      ],
+    });
+  });
+});
@@ -8,6 +8,7 @@ import { WorkflowOrchestrator } from '../orchestrator/workflow-orchestrator';
 import { RedisStateManager } from '../state/redis-state-manager';
 import { ExecutionContextManager } from '../execution/context-manager';
 import { NodeDispatcher } from '../execution/node-dispatcher';
+import { SecretVault, SecretError, REDACTED } from '../execution/secret-vault';
 import { WorkflowLoader } from '../orchestrator/workflow-loader';
 import { WorkflowParser } from '../orchestrator/workflow-parser';
 import { RetryManager } from '../error-handling/retry-manager';
@@ -17,7 +18,20 @@ import { NodeType } from '@officeflow/types';
 import { v4 as uuidv4 } from 'uuid';
 
 // Mock dependencies
-jest.mock('@officeflow/kafka');
+jest.mock('@officeflow/kafka', () => ({
+  OfficeFlowProducer: jest.fn().mockImplementation(() => ({
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+    sendMessage: jest.fn(),
+  })),
+  OfficeFlowConsumer: jest.fn().mockImplementation(() => ({
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+    subscribe: jest.fn(),
+    registerHandler: jest.fn(),
+    run: jest.fn(),
+  })),
+}));
 jest.mock('@officeflow/database');
 
 describe('WorkflowEngineService', () => {
@@ -25,6 +39,13 @@ describe('WorkflowEngineService', () => {
   let mockWorkflowRepo: any;
   let mockWorkflowRunRepo: any;
   let mockEmployeeRepo: any;
+  let mockNodeRunRepo: any;
+  let mockScheduleRepo: any;
+  let mockOrganizationRepo: any;
+  let mockRunEventRepo: any;
+  let mockCompensationPlanRepo: any;
+  let mockSlaRecordRepo: any;
+  let mockOrganizationSecretRepo: any;
   let config: WorkflowEngineConfig;
 
   beforeEach(() => {
@@ -41,12 +62,53 @@ describe('WorkflowEngineService', () => {
       findByWorkflow: jest.fn(),
       create: jest.fn(),
       updateStatus: jest.fn(),
+      findChildRuns: jest.fn().mockResolvedValue([]),
+      findRunTree: jest.fn(),
     };
 
     mockEmployeeRepo = {
       findById: jest.fn(),
     };
 
+    mockNodeRunRepo = {
+      findByIdempotencyKey: jest.fn(),
+      create: jest.fn(),
+      updateStatus: jest.fn(),
+    };
+
+    mockScheduleRepo = {
+      findDue: jest.fn().mockResolvedValue([]),
+    };
+
+    mockOrganizationRepo = {
+      findById: jest.fn(),
+    };
+
+    mockRunEventRepo = {
+      append: jest.fn(),
+      findByRun: jest.fn().mockResolvedValue([]),
+    };
+
+    mockCompensationPlanRepo = {
+      create: jest.fn(),
+      findByRun: jest.fn().mockResolvedValue(null),
+      updateProgress: jest.fn(),
+    };
+
+    mockSlaRecordRepo = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      getComplianceByWorkflow: jest.fn().mockResolvedValue([]),
+    };
+
+    mockOrganizationSecretRepo = {
+      upsert: jest.fn(),
+      findByNames: jest.fn().mockResolvedValue([]),
+      findByOrganization: jest.fn().mockResolvedValue([]),
+      deleteByName: jest.fn(),
+    };
+
     // Test configuration
     config = {
       instanceId: 'test-instance',
@@ -96,7 +158,14 @@ describe('WorkflowEngineService', () => {
       config,
       mockWorkflowRepo,
       mockWorkflowRunRepo,
-      mockEmployeeRepo
+      mockEmployeeRepo,
+      mockNodeRunRepo,
+      mockScheduleRepo,
+      mockOrganizationRepo,
+      mockRunEventRepo,
+      mockCompensationPlanRepo,
+      mockSlaRecordRepo,
+      mockOrganizationSecretRepo
     );
   });
 
@@ -187,6 +256,95 @@ describe('WorkflowEngineService', () => {
     });
   });
 
+  describe('Workflow Documents', () => {
+    it('should only save a new version when an imported document changes the workflow', async () => {
+      const workflow = createMockWorkflow();
+      const entity = {
+        workflow_id: workflow.id,
+        org_id: workflow.organizationId,
+        name: workflow.name,
+        event_trigger: workflow.eventTrigger,
+        version: 1,
+        is_active: true,
+        definition: workflow.definition,
+        created_by: workflow.createdBy,
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+      mockWorkflowRepo.findById.mockResolvedValue(entity);
+      mockWorkflowRepo.update.mockImplementation(async (_id: string, updates: any) => ({
+        ...entity,
+        ...updates,
+        version: 2,
+      }));
+
+      const document = await workflowEngine.exportWorkflow(workflow.id, 'yaml');
+      const target = { organizationId: 'org-123', workflowId: workflow.id };
+
+      const unchanged = await workflowEngine.importWorkflow(document, 'yaml', target);
+      expect(unchanged.diff?.identical).toBe(true);
+      expect(mockWorkflowRepo.update).not.toHaveBeenCalled();
+
+      const changed = await workflowEngine.importWorkflow(
+        document.replace('x: 0', 'x: 250'),
+        'yaml',
+        target
+      );
+      expect(changed.diff?.nodes.changed).toEqual([
+        {
+          name: 'Send Welcome Email',
+          changes: [{ path: 'position.x', before: 0, after: 250 }],
+        },
+      ]);
+      expect(changed.workflow.version).toBe(2);
+      expect(mockWorkflowRepo.update.mock.calls[0][1].definition.nodes[0]).toMatchObject({
+        id: 'node-1',
+        position: { x: 250, y: 0 },
+      });
+
+      await expect(
+        workflowEngine.importWorkflow(document, 'yaml', { ...target, organizationId: 'org-999' })
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should type-check stored workflows and documents', async () => {
+      const workflow = createMockWorkflow();
+      mockWorkflowRepo.findById.mockResolvedValue({
+        workflow_id: workflow.id,
+        org_id: workflow.organizationId,
+        name: workflow.name,
+        event_trigger: workflow.eventTrigger,
+        version: 1,
+        is_active: true,
+        definition: workflow.definition,
+        created_by: workflow.createdBy,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+
+      const stored = await workflowEngine.typeCheckWorkflow({ workflowId: workflow.id });
+      expect(stored.valid).toBe(true);
+
+      const document = JSON.parse(await workflowEngine.exportWorkflow(workflow.id, 'json'));
+      document.nodes.push({
+        ...document.nodes[0],
+        name: 'Create account',
+        type: 'identity.provision',
+      });
+      document.edges.push({ from: 'Create account', to: 'Send Welcome Email' });
+
+      const edited = await workflowEngine.typeCheckWorkflow({ document, format: 'json' });
+      expect(edited.valid).toBe(false);
+      expect(edited.diagnostics).toContainEqual(
+        expect.objectContaining({
+          code: 'MISSING_PARAMETER',
+          nodeName: 'Create account',
+          field: 'provider',
+        })
+      );
+    });
+  });
+
   describe('Workflow Statistics and Health', () => {
     it('should get workflow statistics', async () => {
       const stats = await workflowEngine.getWorkflowStatistics('org-123');
@@ -266,9 +424,9 @@ describe('ExecutionContextManager', () => {
       expect(context).toHaveProperty('secrets');
       expect(context).toHaveProperty('correlationId');
 
-      expect(context.variables).toHaveProperty('system.organizationId', 'org-123');
-      expect(context.variables).toHaveProperty('system.employeeId', 'emp-456');
-      expect(context.variables).toHaveProperty('event.type', 'employee.onboard');
+      expect(context.variables).toHaveProperty(['system.organizationId'], 'org-123');
+      expect(context.variables).toHaveProperty(['system.employeeId'], 'emp-456');
+      expect(context.variables).toHaveProperty(['event.type'], 'employee.onboard');
     });
 
     it('should update context with node output', () => {
@@ -285,10 +443,10 @@ describe('ExecutionContextManager', () => {
         { result: 'success', data: 'test-data' }
       );
 
-      expect(updatedContext.variables).toHaveProperty('nodes.node-123.output');
-      expect(updatedContext.variables).toHaveProperty('nodes.test-node.output');
-      expect(updatedContext.variables).toHaveProperty('nodes.node-123.result', 'success');
-      expect(updatedContext.variables).toHaveProperty('nodes.test-node.data', 'test-data');
+      expect(updatedContext.variables).toHaveProperty(['nodes.node-123.output']);
+      expect(updatedContext.variables).toHaveProperty(['nodes.test-node.output']);
+      expect(updatedContext.variables).toHaveProperty(['nodes.node-123.result'], 'success');
+      expect(updatedContext.variables).toHaveProperty(['nodes.test-node.data'], 'test-data');
     });
 
     it('should serialize and deserialize context', () => {
@@ -494,7 +652,9 @@ describe('ErrorHandler Integration', () => {
       stateManager,
       mockNodeDispatcher,
       mockContextManager,
-      mockProducer
+      mockProducer,
+      { record: jest.fn() } as any,
+      { create: jest.fn(), findByRun: jest.fn(), updateProgress: jest.fn() } as any
     );
   });
 
@@ -528,6 +688,9 @@ describe('ErrorHandler Integration', () => {
         position: { x: 0, y: 0 },
       };
 
+      jest.spyOn(stateManager, 'setNodeState').mockResolvedValue();
+      jest.spyOn(stateManager, 'scheduleRetry').mockResolvedValue();
+
       const result = await errorHandler.handleNodeExecutionError(nodeExecutionError, mockNode);
 
       expect(result.shouldRetry).toBe(true);
@@ -638,3 +801,231 @@ function createMockWorkflowRun() {
     correlationId: uuidv4(),
   };
 }
+
+describe('Secrets', () => {
+  const orgId = 'org-123';
+  let stored: any[];
+  let secretRepo: any;
+  let secretVault: SecretVault;
+
+  beforeEach(() => {
+    stored = [];
+    secretRepo = {
+      upsert: jest.fn(async (secret: any) => {
+        stored = stored.filter((s) => s.org_id !== secret.org_id || s.name !== secret.name);
+        const entity = {
+          ...secret,
+          secret_id: uuidv4(),
+          created_at: new Date(),
+          updated_at: new Date(),
+        };
+        stored.push(entity);
+        return entity;
+      }),
+      findByNames: jest.fn(async (org: string, names: string[]) =>
+        stored.filter((s) => s.org_id === org && names.includes(s.name))
+      ),
+      findByOrganization: jest.fn(async (org: string) => stored.filter((s) => s.org_id === org)),
+      deleteByName: jest.fn(),
+    };
+    secretVault = new SecretVault(secretRepo, 'test-master-key');
+  });
+
+  describe('SecretVault', () => {
+    it('should store values encrypted with a key of their organization', async () => {
+      const summary = await secretVault.setSecret(orgId, 'hr_api_key', 's3cr3t-value');
+
+      expect(summary).not.toHaveProperty('value');
+      expect(stored[0].encrypted_value).not.toContain('s3cr3t-value');
+
+      const resolved = await secretVault.resolveInput(
+        orgId,
+        { token: '{{secret:hr_api_key}}' },
+        { token: '{{secret:hr_api_key}}' }
+      );
+      expect(resolved.token).toBe('s3cr3t-value');
+
+      // The same ciphertext can't be decrypted as another organization's
+      stored[0].org_id = 'org-456';
+      await expect(
+        secretVault.resolveInput(
+          'org-456',
+          { token: '{{secret:hr_api_key}}' },
+          { token: '{{secret:hr_api_key}}' }
+        )
+      ).rejects.toThrow();
+    });
+
+    it('should only resolve params as written in the workflow', async () => {
+      await secretVault.setSecret(orgId, 'hr_api_key', 's3cr3t-value');
+
+      const resolved = await secretVault.resolveInput(
+        orgId,
+        {
+          headers: { Authorization: 'Bearer {{secret:hr_api_key}}' },
+          body: '{{secret:hr_api_key}}',
+        },
+        {
+          headers: { Authorization: 'Bearer {{secret:hr_api_key}}' },
+          // Replaced by a mapping, e.g. with data of the run
+          body: '{{ secret:hr_api_key }} from the event',
+          note: '{{secret:hr_api_key}}',
+        }
+      );
+
+      expect(resolved.headers).toEqual({ Authorization: 'Bearer s3cr3t-value' });
+      expect(resolved.body).toBe('{{ secret:hr_api_key }} from the event');
+      expect(resolved.note).toBe('{{secret:hr_api_key}}');
+    });
+
+    it('should reject references to missing secrets', async () => {
+      await expect(
+        secretVault.resolveInput(
+          orgId,
+          { token: '{{secret:missing}}' },
+          {
+            token: '{{secret:missing}}',
+          }
+        )
+      ).rejects.toMatchObject({ code: 'SECRET_NOT_FOUND' });
+
+      await expect(secretVault.setSecret(orgId, 'bad name', 'value')).rejects.toBeInstanceOf(
+        SecretError
+      );
+    });
+
+    it('should redact the values of referenced secrets', async () => {
+      await secretVault.setSecret(orgId, 'hr_api_key', 's3cr3t-value');
+
+      const redacted = await secretVault.redact(
+        orgId,
+        { token: '{{secret:hr_api_key}}' },
+        { echoed: { header: 'Bearer s3cr3t-value' }, items: ['s3cr3t-value'], status: 200 }
+      );
+
+      expect(redacted).toEqual({
+        echoed: { header: `Bearer ${REDACTED}` },
+        items: [REDACTED],
+        status: 200,
+      });
+    });
+  });
+
+  describe('NodeDispatcher', () => {
+    let mockProducer: any;
+    let mockStateManager: any;
+    let mockTenantScheduler: any;
+    let nodeDispatcher: NodeDispatcher;
+
+    const node: any = {
+      id: 'node-1',
+      type: 'webhook.call',
+      name: 'Call HR system',
+      params: { url: 'https://hr.example.com', apiKey: '{{secret:hr_api_key}}' },
+      timeoutMs: 0,
+    };
+    const context: any = {
+      organizationId: orgId,
+      employeeId: 'emp-456',
+      correlationId: 'corr-1',
+      variables: {},
+      secrets: {},
+    };
+
+    beforeEach(async () => {
+      await secretVault.setSecret(orgId, 'hr_api_key', 's3cr3t-value');
+
+      mockProducer = { sendMessage: jest.fn() };
+      mockStateManager = {
+        setNodeState: jest.fn(),
+        getNodeState: jest.fn(),
+        scheduleNodeTimeout: jest.fn(),
+      };
+      mockTenantScheduler = {
+        acquireNodeSlot: jest.fn().mockResolvedValue(true),
+        releaseNodeSlot: jest.fn(),
+        queueNode: jest.fn(),
+      };
+      nodeDispatcher = new NodeDispatcher(
+        mockProducer,
+        {} as any,
+        mockStateManager,
+        mockTenantScheduler,
+        { record: jest.fn() } as any,
+        secretVault,
+        300000
+      );
+    });
+
+    it('should resolve secrets only in the request sent to the executor', async () => {
+      const input = { ...node.params, organizationId: orgId };
+      await nodeDispatcher.dispatchNode('run-1', node, input, context);
+
+      const [, message] = mockProducer.sendMessage.mock.calls[0];
+      expect(message.payload.input.apiKey).toBe('s3cr3t-value');
+      expect(message.payload.context).not.toHaveProperty('secrets');
+
+      const [nodeState] = mockStateManager.setNodeState.mock.calls[0];
+      expect(nodeState.input.apiKey).toBe('{{secret:hr_api_key}}');
+      expect(JSON.stringify(mockStateManager.setNodeState.mock.calls)).not.toContain(
+        's3cr3t-value'
+      );
+    });
+
+    it('should fail nodes referencing missing secrets without sending them', async () => {
+      const missingNode = { ...node, params: { apiKey: '{{secret:missing}}' } };
+      await expect(
+        nodeDispatcher.dispatchNode('run-1', missingNode, { ...missingNode.params }, context)
+      ).rejects.toBeInstanceOf(SecretError);
+
+      expect(mockProducer.sendMessage).not.toHaveBeenCalled();
+      const [failedState] = mockStateManager.setNodeState.mock.calls[1];
+      expect(failedState.errorDetails.code).toBe('SECRET_RESOLUTION_FAILED');
+    });
+
+    it('should arm the default deadline of a throttled node once it is sent', async () => {
+      mockTenantScheduler.acquireNodeSlot.mockResolvedValue(false);
+      await nodeDispatcher.dispatchNode('run-1', node, { ...node.params }, context);
+
+      expect(mockStateManager.setNodeState).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'QUEUED' })
+      );
+      expect(mockStateManager.scheduleNodeTimeout).not.toHaveBeenCalled();
+      expect(mockProducer.sendMessage).not.toHaveBeenCalled();
+
+      mockStateManager.getNodeState.mockResolvedValue({ status: 'QUEUED', attempt: 1 });
+      const [, queued] = mockTenantScheduler.queueNode.mock.calls[0];
+      const before = Date.now();
+      await expect(queued.send()).resolves.toBe(true);
+
+      const [, , deadline] = mockStateManager.scheduleNodeTimeout.mock.calls[0];
+      expect(deadline.getTime()).toBeGreaterThanOrEqual(before + 300000);
+      expect(mockProducer.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should redact secrets echoed back in results', async () => {
+      const result: any = {
+        runId: 'run-1',
+        nodeId: 'node-1',
+        status: 'failed',
+        error: { code: 'HTTP_401', message: 'Invalid key s3cr3t-value' },
+        metadata: {
+          executionTimeMs: 5,
+          nodeType: 'webhook.call',
+          attempt: 1,
+          timestamp: new Date(),
+        },
+      };
+      const nodeState: NodeState = {
+        nodeId: 'node-1',
+        runId: 'run-1',
+        status: 'RUNNING',
+        attempt: 1,
+        input: { ...node.params, organizationId: orgId },
+      };
+
+      const redacted = await nodeDispatcher.redactResult(result, nodeState);
+      expect(redacted.error?.message).toBe(`Invalid key ${REDACTED}`);
+    });
+  });
+});
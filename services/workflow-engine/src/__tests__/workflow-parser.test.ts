@@ -3,6 +3,7 @@
  */
 
 import { WorkflowParser } from '../orchestrator/workflow-parser';
+import { matchesTriggerFilters } from '../orchestrator/trigger-filters';
 import { WorkflowDefinition, WorkflowDAG, WorkflowNode, WorkflowEdge } from '@officeflow/types';
 
 describe('WorkflowParser', () => {
@@ -124,6 +125,434 @@ describe('WorkflowParser', () => {
     });
   });
 
+  describe('expression validation', () => {
+    it('should reject edge conditions that do not parse', () => {
+      const nodes = [createTestNode('node1'), createTestNode('node2')];
+      const edges = [
+        {
+          ...createTestEdge('edge1', 'node1', 'node2'),
+          conditionExpression: '${event.payload.level} >',
+        },
+      ];
+
+      const errors = WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes, edges));
+
+      expect(errors).toContainEqual({
+        code: 'INVALID_EXPRESSION',
+        message: 'Invalid condition on edge edge1: Unexpected end of expression at position 24',
+        edgeId: 'edge1',
+      });
+    });
+
+    it('should reject invalid expression mappings and execution conditions', () => {
+      const nodes = [
+        {
+          ...createTestNode('node1'),
+          parameterMappings: [
+            { sourceType: 'expression', sourcePath: 'lower(event.payload.name', targetPath: 'to' },
+          ],
+          conditions: [
+            { field: 'event.payload.level', operator: 'greater_than', value: 3 },
+            { field: 'nope(1)', operator: 'matches', value: 'x' },
+          ],
+        } as WorkflowNode,
+      ];
+
+      const errors = WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes));
+
+      expect(errors.map((e) => e.code)).toEqual([
+        'INVALID_EXECUTION_CONDITION',
+        'INVALID_EXPRESSION',
+        'INVALID_EXPRESSION',
+      ]);
+      expect(errors[1].message).toContain("Unknown function 'nope'");
+      expect(errors[2].message).toContain("Invalid expression for 'to'");
+    });
+  });
+
+  describe('parameter mapping validation', () => {
+    const withMappings = (node: WorkflowNode, parameterMappings: any[]): WorkflowNode => ({
+      ...node,
+      parameterMappings,
+    });
+
+    it('should accept node_output mappings from upstream nodes by ID or name', () => {
+      const nodes = [
+        createTestNode('node1', 'ai.generate_content'),
+        withMappings(createTestNode('node2'), [
+          { sourceType: 'node_output', sourcePath: 'node1.content', targetPath: 'body' },
+          { sourceType: 'node_output', sourcePath: 'Node node1.subject', targetPath: 'subject' },
+          { sourceType: 'context', sourcePath: 'event.payload.email', targetPath: 'to' },
+        ]),
+      ];
+      const workflow = createTestWorkflow(nodes, [createTestEdge('edge1', 'node1', 'node2')]);
+
+      const errors = WorkflowParser.validateWorkflowDefinition(workflow);
+
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject mappings from nodes that are not upstream', () => {
+      const nodes = [
+        withMappings(createTestNode('node1'), [
+          { sourceType: 'node_output', sourcePath: 'node2.content', targetPath: 'body' },
+        ]),
+        createTestNode('node2'),
+      ];
+      const workflow = createTestWorkflow(nodes, [createTestEdge('edge1', 'node1', 'node2')]);
+
+      const errors = WorkflowParser.validateWorkflowDefinition(workflow);
+
+      expect(errors.map((e) => e.code)).toContain('MAPPING_SOURCE_NOT_UPSTREAM');
+    });
+
+    it('should reject unknown sources, source types and duplicate targets', () => {
+      const nodes = [
+        withMappings(createTestNode('node1'), [
+          { sourceType: 'node_output', sourcePath: 'missing.content', targetPath: 'body' },
+          { sourceType: 'static', sourcePath: '"x"', targetPath: 'body' },
+          { sourceType: 'secret', sourcePath: 'token', targetPath: 'auth' },
+        ]),
+      ];
+      const workflow = createTestWorkflow(nodes);
+
+      const codes = WorkflowParser.validateWorkflowDefinition(workflow).map((e) => e.code);
+
+      expect(codes).toEqual(
+        expect.arrayContaining([
+          'UNKNOWN_MAPPING_SOURCE',
+          'DUPLICATE_MAPPING_TARGET',
+          'INVALID_PARAMETER_MAPPING',
+        ])
+      );
+    });
+  });
+
+  describe('sub-workflow invocation validation', () => {
+    const createInvokeNode = (id: string, params: Record<string, any>): WorkflowNode => ({
+      ...createTestNode(id, 'workflow.invoke'),
+      params,
+    });
+
+    it('should accept invoke nodes with a target workflow', () => {
+      const nodes = [
+        createInvokeNode('node1', {
+          workflowId: 'child-workflow-id',
+          mode: 'sync',
+          outputMapping: { accountId: '${nodes.Provision.output.accountId}' },
+        }),
+        {
+          ...createInvokeNode('node2', { mode: 'async' }),
+          parameterMappings: [
+            {
+              sourceType: 'context',
+              sourcePath: 'event.payload.workflowId',
+              targetPath: 'workflowId',
+            },
+          ],
+        } as WorkflowNode,
+      ];
+
+      const errors = WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes));
+
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject missing targets, self-invocation and bad modes', () => {
+      const nodes = [
+        createInvokeNode('node1', {}),
+        createInvokeNode('node2', { workflowId: 'test-workflow-id' }),
+        createInvokeNode('node3', { workflowId: 'child-workflow-id', mode: 'later' }),
+      ];
+
+      const errors = WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes));
+
+      expect(errors.map((e) => [e.code, e.nodeId])).toEqual([
+        ['INVALID_INVOKE_NODE', 'node1'],
+        ['RECURSIVE_INVOCATION', 'node2'],
+        ['INVALID_INVOKE_NODE', 'node3'],
+      ]);
+    });
+  });
+
+  describe('approval validation', () => {
+    const createApprovalNode = (id: string, params: Record<string, any>): WorkflowNode => ({
+      ...createTestNode(id, 'approval'),
+      params,
+    });
+
+    it('should accept approval nodes with approvers', () => {
+      const nodes = [
+        createApprovalNode('node1', {
+          approvers: ['it-lead@example.com'],
+          channel: 'slack',
+          timeout: '2d',
+          escalation: { maxLevels: 2, onExhausted: 'fail' },
+        }),
+      ];
+
+      expect(WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes))).toHaveLength(0);
+    });
+
+    it('should reject approval nodes without approvers or with invalid settings', () => {
+      const nodes = [
+        createApprovalNode('node1', { approvers: [] }),
+        createApprovalNode('node2', {
+          approvers: ['it-lead@example.com'],
+          channel: 'sms',
+          escalation: { maxLevels: 10 },
+        }),
+      ];
+
+      const errors = WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes));
+
+      expect(errors.map((e) => [e.code, e.nodeId])).toEqual([
+        ['INVALID_APPROVAL_NODE', 'node1'],
+        ['INVALID_APPROVAL_NODE', 'node2'],
+        ['INVALID_APPROVAL_NODE', 'node2'],
+      ]);
+    });
+  });
+
+  describe('wait_for_event validation', () => {
+    it('should validate the signal, filters and timeout of wait_for_event nodes', () => {
+      const nodes = [
+        {
+          ...createTestNode('node1', 'wait_for_event'),
+          params: {
+            signal: 'laptop.delivered',
+            filters: [{ field: 'payload.status', operator: 'equals', value: 'delivered' }],
+            timeout: '5d',
+          },
+        },
+        {
+          ...createTestNode('node2', 'wait_for_event'),
+          params: {
+            filters: [
+              { field: 'status', operator: 'equals', value: 'delivered' },
+              { field: 'payload.site', operator: 'in', value: 'HQ' },
+            ],
+            timeout: -1,
+          },
+        },
+      ];
+
+      const errors = WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes));
+
+      expect(errors.map((e) => [e.code, e.nodeId])).toEqual([
+        ['INVALID_SIGNAL_NODE', 'node2'],
+        ['INVALID_SIGNAL_NODE', 'node2'],
+        ['INVALID_SIGNAL_NODE', 'node2'],
+        ['INVALID_SIGNAL_NODE', 'node2'],
+      ]);
+    });
+  });
+
+  describe('foreach validation', () => {
+    const createForeachNode = (id: string, params: Record<string, any>): WorkflowNode => ({
+      ...createTestNode(id, 'foreach'),
+      params,
+    });
+
+    it('should accept foreach nodes with mapped items and a body', () => {
+      const nodes = [
+        {
+          ...createForeachNode('node1', {
+            body: { type: 'email.send', params: { subject: 'Welcome' } },
+            maxParallelism: 10,
+            failureMode: 'collect',
+          }),
+          parameterMappings: [
+            {
+              targetPath: 'items',
+              sourceType: 'context' as const,
+              sourcePath: 'event.payload.hires',
+            },
+          ],
+        },
+      ];
+
+      expect(WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes))).toHaveLength(0);
+    });
+
+    it('should reject foreach nodes without items or with invalid settings', () => {
+      const nodes = [
+        createForeachNode('node1', { body: { type: 'email.send' } }),
+        createForeachNode('node2', {
+          items: [1, 2],
+          body: { type: 'foreach' },
+          maxParallelism: 0,
+          failureMode: 'ignore',
+        }),
+      ];
+
+      const errors = WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes));
+
+      expect(errors.map((e) => [e.code, e.nodeId])).toEqual([
+        ['INVALID_FOREACH_NODE', 'node1'],
+        ['INVALID_FOREACH_NODE', 'node2'],
+        ['INVALID_FOREACH_NODE', 'node2'],
+        ['INVALID_FOREACH_NODE', 'node2'],
+      ]);
+    });
+  });
+
+  describe('webhook validation', () => {
+    it('should validate url, method, auth and response mapping of webhook nodes', () => {
+      const nodes = [
+        {
+          ...createTestNode('node1', 'webhook.call'),
+          params: {
+            url: 'https://itsm.example.com/tickets',
+            auth: { type: 'hmac', secret: 'shh' },
+            responseMapping: { ticketId: '$.id' },
+          },
+        },
+        {
+          ...createTestNode('node2', 'webhook.call'),
+          params: { url: 'ftp://example.com', method: 'FETCH', responseMapping: { id: 'id' } },
+        },
+      ];
+
+      const errors = WorkflowParser.validateWorkflowDefinition(createTestWorkflow(nodes));
+
+      expect(errors.map((e) => [e.code, e.nodeId])).toEqual([
+        ['INVALID_WEBHOOK_NODE', 'node2'],
+        ['INVALID_WEBHOOK_NODE', 'node2'],
+        ['INVALID_WEBHOOK_NODE', 'node2'],
+      ]);
+    });
+  });
+
+  describe('trigger filter validation', () => {
+    const withFilters = (triggerFilters: any[]): WorkflowDefinition => {
+      const workflow = createTestWorkflow([createTestNode('node1')]);
+      workflow.definition.metadata.triggerFilters = triggerFilters;
+      return workflow;
+    };
+
+    it('should accept filters on event payload and employee fields', () => {
+      const workflow = withFilters([
+        { field: 'event.department', operator: 'in', value: ['Engineering', 'Data'] },
+        { field: 'event.employeeType', operator: 'equals', value: 'contractor' },
+        { field: 'event.location', operator: 'starts_with', value: 'EU-' },
+        { field: 'employee.job_title', operator: 'exists' },
+        { field: 'employee.profile_data.cost_center', operator: 'not_equals', value: 'R&D' },
+      ]);
+
+      expect(WorkflowParser.validateWorkflowDefinition(workflow)).toHaveLength(0);
+    });
+
+    it('should reject unknown fields, operators and malformed values', () => {
+      const workflow = withFilters([
+        { field: 'event.exitType', operator: 'equals', value: 'voluntary' },
+        { field: 'employee.salary', operator: 'exists' },
+        { field: 'department', operator: 'equals', value: 'Engineering' },
+        { field: 'event.location', operator: 'matches', value: 'EU-.*' },
+        { field: 'event.department', operator: 'in', value: 'Engineering' },
+      ]);
+
+      const errors = WorkflowParser.validateWorkflowDefinition(workflow);
+
+      expect(errors.map((e) => e.message)).toEqual([
+        'Invalid trigger filter on event.exitType: unknown field for employee.onboard events',
+        'Invalid trigger filter on employee.salary: unknown field for employee.onboard events',
+        'Invalid trigger filter on department: unknown field for employee.onboard events',
+        'Invalid trigger filter on event.location: unsupported operator matches',
+        'Invalid trigger filter on event.department: in needs a list of values',
+      ]);
+      expect(errors.every((e) => e.code === 'INVALID_TRIGGER_FILTER')).toBe(true);
+    });
+
+    it('should match events and employees against all filters', () => {
+      const filters: any[] = [
+        { field: 'event.department', operator: 'in', value: ['Engineering', 'Data'] },
+        { field: 'event.location', operator: 'starts_with', value: 'EU-' },
+        { field: 'employee.status', operator: 'not_equals', value: 'inactive' },
+      ];
+      const event = (payload: Record<string, any>) => ({ type: 'employee.onboard', payload });
+      const employee: any = { employee_id: 'emp-1', status: 'active' };
+
+      expect(
+        matchesTriggerFilters(filters, event({ department: 'Data', location: 'EU-BER' }), employee)
+      ).toBe(true);
+      expect(
+        matchesTriggerFilters(filters, event({ department: 'Sales', location: 'EU-BER' }), employee)
+      ).toBe(false);
+      expect(
+        matchesTriggerFilters(filters, event({ department: 'Data', location: 'US-NYC' }), employee)
+      ).toBe(false);
+      expect(
+        matchesTriggerFilters(filters, event({ department: 'Data', location: 'EU-BER' }), {
+          ...employee,
+          status: 'inactive',
+        })
+      ).toBe(false);
+      expect(matchesTriggerFilters(undefined, event({}), null)).toBe(true);
+    });
+  });
+
+  describe('run policy validation', () => {
+    const withRunPolicy = (runPolicy: any): WorkflowDefinition => {
+      const workflow = createTestWorkflow([createTestNode('node1')]);
+      workflow.definition.metadata.runPolicy = runPolicy;
+      return workflow;
+    };
+
+    it('should accept dedupe and concurrency policies', () => {
+      const workflow = withRunPolicy({
+        dedupe: { key: 'employee_event', windowSeconds: 600 },
+        concurrency: 'cancel_previous',
+      });
+
+      expect(WorkflowParser.validateWorkflowDefinition(workflow)).toHaveLength(0);
+    });
+
+    it('should reject unknown policies and non-positive dedupe windows', () => {
+      const workflow = withRunPolicy({
+        dedupe: { key: 'email', windowSeconds: 0 },
+        concurrency: 'serialize',
+      });
+
+      const errors = WorkflowParser.validateWorkflowDefinition(workflow);
+
+      expect(errors.map((e) => e.message)).toEqual([
+        'Concurrency policy must be one of allow, queue, reject, cancel_previous',
+        'Dedupe key must be employee_event or correlation_id',
+        'Dedupe window must be a positive number of seconds',
+      ]);
+      expect(errors.every((e) => e.code === 'INVALID_RUN_POLICY')).toBe(true);
+    });
+  });
+
+  describe('SLA validation', () => {
+    it('should accept SLA targets in hours or as durations', () => {
+      const node = createTestNode('node1');
+      node.sla = { target: 1, warnAt: 0.75, from: 'run' };
+      const workflow = createTestWorkflow([node]);
+      workflow.definition.metadata.sla = { target: '1d 12h' };
+
+      expect(WorkflowParser.validateWorkflowDefinition(workflow)).toHaveLength(0);
+    });
+
+    it('should reject invalid targets, warnings and starting points', () => {
+      const node = createTestNode('node1');
+      node.sla = { target: 'soon', warnAt: 1.5 };
+      const workflow = createTestWorkflow([node]);
+      workflow.definition.metadata.sla = { target: 0, from: 'node' };
+
+      const errors = WorkflowParser.validateWorkflowDefinition(workflow);
+
+      expect(errors.map((e) => e.message)).toEqual([
+        'SLA target of the run must be a positive number of hours or a duration',
+        'SLA of the run is always measured from its start',
+        'SLA target of node Node node1 must be a positive number of hours or a duration',
+        'SLA warning of node Node node1 must be a fraction of the target between 0 and 1',
+      ]);
+      expect(errors.every((e) => e.code === 'INVALID_SLA')).toBe(true);
+    });
+  });
+
   describe('detectCycles', () => {
     it('should not detect cycles in linear workflow', () => {
       const nodes = [createTestNode('node1'), createTestNode('node2'), createTestNode('node3')];
@@ -321,6 +750,128 @@ describe('WorkflowParser', () => {
     });
   });
 
+  describe('resolveBranches', () => {
+    const createBranchingWorkflow = () => {
+      const nodes = [
+        createTestNode('start'),
+        createTestNode('contractor'),
+        createTestNode('contractorFollowUp'),
+        createTestNode('fullTime'),
+        createTestNode('welcome'),
+      ];
+      const edges: WorkflowEdge[] = [
+        {
+          ...createTestEdge('edge1', 'start', 'contractor'),
+          conditionExpression: '${event.payload.employeeType} == "contractor"',
+        },
+        createTestEdge('edge2', 'contractor', 'contractorFollowUp'),
+        {
+          ...createTestEdge('edge3', 'start', 'fullTime'),
+          conditionExpression: '${event.payload.employeeType} == "full_time"',
+        },
+        createTestEdge('edge4', 'contractorFollowUp', 'welcome'),
+        createTestEdge('edge5', 'fullTime', 'welcome'),
+      ];
+      return WorkflowParser.parseWorkflow(createTestWorkflow(nodes, edges));
+    };
+
+    const takeOnly =
+      (...edgeIds: string[]) =>
+      (edge: WorkflowEdge) =>
+        !edge.conditionExpression || edgeIds.includes(edge.id);
+
+    it('should skip untaken branches and their descendants', () => {
+      const parsed = createBranchingWorkflow();
+
+      const result = WorkflowParser.resolveBranches(
+        parsed,
+        new Set(['start']),
+        new Set(),
+        new Set(),
+        new Set(),
+        takeOnly('edge3')
+      );
+
+      expect(result.eligible.map((n) => n.id)).toEqual(['fullTime']);
+      expect(result.skipped.map((n) => n.id).sort()).toEqual(['contractor', 'contractorFollowUp']);
+    });
+
+    it('should run a join node once any incoming branch is taken', () => {
+      const parsed = createBranchingWorkflow();
+
+      const result = WorkflowParser.resolveBranches(
+        parsed,
+        new Set(['start', 'fullTime']),
+        new Set(),
+        new Set(),
+        new Set(['contractor', 'contractorFollowUp']),
+        takeOnly('edge3')
+      );
+
+      expect(result.eligible.map((n) => n.id)).toEqual(['welcome']);
+      expect(result.skipped).toHaveLength(0);
+    });
+
+    it('should skip a join node when no incoming branch is taken', () => {
+      const parsed = createBranchingWorkflow();
+
+      const result = WorkflowParser.resolveBranches(
+        parsed,
+        new Set(['start']),
+        new Set(),
+        new Set(),
+        new Set(),
+        takeOnly()
+      );
+
+      expect(result.eligible).toHaveLength(0);
+      expect(result.skipped.map((n) => n.id).sort()).toEqual([
+        'contractor',
+        'contractorFollowUp',
+        'fullTime',
+        'welcome',
+      ]);
+    });
+
+    it('should wait for running upstream nodes before resolving a join', () => {
+      const parsed = createBranchingWorkflow();
+
+      const result = WorkflowParser.resolveBranches(
+        parsed,
+        new Set(['start']),
+        new Set(),
+        new Set(['fullTime']),
+        new Set(),
+        takeOnly('edge3')
+      );
+
+      expect(result.eligible).toHaveLength(0);
+      expect(result.skipped.map((n) => n.id).sort()).toEqual(['contractor', 'contractorFollowUp']);
+    });
+
+    it('should skip reachable nodes whose execution conditions fail', () => {
+      const parsed = createBranchingWorkflow();
+
+      const result = WorkflowParser.resolveBranches(
+        parsed,
+        new Set(['start']),
+        new Set(),
+        new Set(),
+        new Set(),
+        takeOnly('edge1'),
+        (node) => node.id !== 'contractor'
+      );
+
+      expect(result.eligible).toHaveLength(0);
+      expect(result.skipped.map((n) => n.id).sort()).toEqual([
+        'contractor',
+        'contractorFollowUp',
+        'fullTime',
+        'welcome',
+      ]);
+    });
+  });
+
   describe('isWorkflowComplete', () => {
     it('should return complete when all nodes processed successfully', () => {
       const nodes = [createTestNode('node1'), createTestNode('node2')];
@@ -0,0 +1,283 @@
+/**
+ * Scheduled trigger tests
+ */
+
+import { CronExpression } from '../scheduling/cron-expression';
+import { WorkflowSchedulerService, ScheduleError } from '../scheduling/workflow-scheduler';
+import { ExecutionContextManager } from '../execution/context-manager';
+import { WorkflowScheduleEntity } from '@officeflow/types';
+
+describe('CronExpression', () => {
+  const next = (expression: string, after: string, timeZone?: string) =>
+    CronExpression.parse(expression).next(new Date(after), timeZone).toISOString();
+
+  it('should find the next fire time for values, ranges, steps and names', () => {
+    expect(next('*/15 * * * *', '2025-03-10T12:07:30Z')).toBe('2025-03-10T12:15:00.000Z');
+    expect(next('0 9 * * MON-FRI', '2025-03-07T09:00:00Z')).toBe('2025-03-10T09:00:00.000Z');
+    expect(next('30 8 1,15 * *', '2025-03-02T00:00:00Z')).toBe('2025-03-15T08:30:00.000Z');
+    expect(next('0 0 1 JAN *', '2025-03-10T00:00:00Z')).toBe('2026-01-01T00:00:00.000Z');
+    expect(next('@hourly', '2025-03-10T12:00:00Z')).toBe('2025-03-10T13:00:00.000Z');
+    expect(next('0 12 * * 7', '2025-03-10T00:00:00Z')).toBe('2025-03-16T12:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 13th, or any Friday
+    expect(next('0 0 13 * FRI', '2025-03-01T00:00:00Z')).toBe('2025-03-07T00:00:00.000Z');
+    expect(next('0 0 13 * FRI', '2025-03-07T00:00:00Z')).toBe('2025-03-13T00:00:00.000Z');
+  });
+
+  it('should evaluate in the time zone, across daylight saving changes', () => {
+    expect(next('0 9 * * *', '2025-03-10T00:00:00Z', 'America/New_York')).toBe(
+      '2025-03-10T13:00:00.000Z'
+    );
+    expect(next('0 9 * * *', '2025-03-01T00:00:00Z', 'America/New_York')).toBe(
+      '2025-03-01T14:00:00.000Z'
+    );
+    // 02:30 does not exist on the day clocks go forward
+    expect(next('30 2 * * *', '2025-03-09T00:00:00Z', 'America/New_York')).toBe(
+      '2025-03-09T07:30:00.000Z'
+    );
+    // 01:30 happens twice on the day clocks go back, and fires once
+    expect(next('30 1 * * *', '2025-11-02T00:00:00Z', 'America/New_York')).toBe(
+      '2025-11-02T05:30:00.000Z'
+    );
+    expect(next('30 1 * * *', '2025-11-02T05:30:00Z', 'America/New_York')).toBe(
+      '2025-11-03T06:30:00.000Z'
+    );
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => CronExpression.parse('* * * *')).toThrow('must have 5 fields');
+    expect(() => CronExpression.parse('60 * * * *')).toThrow('Invalid cron minute value');
+    expect(() => CronExpression.parse('0 9 * * FOO')).toThrow('Invalid cron day of week value');
+    expect(() => CronExpression.parse('0 0 31 2 *').next(new Date())).toThrow('never fires');
+  });
+});
+
+describe('WorkflowSchedulerService', () => {
+  let scheduler: WorkflowSchedulerService;
+  let mockScheduleRepo: any;
+  let mockWorkflowRepo: any;
+  let mockEmployeeRepo: any;
+  let mockStateManager: any;
+  let mockEngine: any;
+
+  const createSchedule = (
+    overrides: Partial<WorkflowScheduleEntity> = {}
+  ): WorkflowScheduleEntity => ({
+    schedule_id: 'schedule-1',
+    org_id: 'org-1',
+    workflow_id: 'workflow-1',
+    name: 'Weekly report',
+    schedule_type: 'cron',
+    cron_expression: '0 9 * * *',
+    timezone: 'UTC',
+    misfire_policy: 'fire_once',
+    variables: { report: 'weekly' },
+    is_active: true,
+    next_run_at: new Date('2025-03-10T09:00:00Z'),
+    created_at: new Date('2025-01-01T00:00:00Z'),
+    updated_at: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockScheduleRepo = {
+      create: jest.fn(async (entity: any) => ({ ...entity, schedule_id: 'schedule-1' })),
+      findById: jest.fn(),
+      update: jest.fn(async (_id: string, updates: any) => ({ ...createSchedule(), ...updates })),
+      findDue: jest.fn().mockResolvedValue([]),
+      advance: jest.fn().mockResolvedValue(true),
+    };
+    mockWorkflowRepo = {
+      findById: jest.fn().mockResolvedValue({ workflow_id: 'workflow-1', org_id: 'org-1' }),
+    };
+    mockEmployeeRepo = {
+      findByDateRange: jest.fn().mockResolvedValue([]),
+    };
+    mockStateManager = {
+      acquireLeadership: jest.fn().mockResolvedValue(true),
+      releaseLeadership: jest.fn(),
+    };
+    let runCount = 0;
+    mockEngine = {
+      executeWorkflow: jest.fn(async () => ({ id: `run-${++runCount}` })),
+    };
+
+    scheduler = new WorkflowSchedulerService(
+      { misfireThresholdMs: 60000 },
+      'instance-1',
+      mockScheduleRepo,
+      mockWorkflowRepo,
+      mockEmployeeRepo,
+      mockStateManager,
+      new ExecutionContextManager({} as any),
+      mockEngine
+    );
+  });
+
+  it('should start a run for a due cron schedule and move it to its next fire', async () => {
+    mockScheduleRepo.findDue.mockResolvedValue([createSchedule()]);
+
+    const [fire] = await scheduler.fireDueSchedules(new Date('2025-03-10T09:00:05Z'));
+
+    expect(fire).toMatchObject({ misfired: false, runIds: ['run-1'] });
+    expect(mockScheduleRepo.advance).toHaveBeenCalledWith(
+      'schedule-1',
+      new Date('2025-03-10T09:00:00Z'),
+      new Date('2025-03-11T09:00:00Z'),
+      new Date('2025-03-10T09:00:00Z')
+    );
+
+    const [workflowId, context] = mockEngine.executeWorkflow.mock.calls[0];
+    expect(workflowId).toBe('workflow-1');
+    expect(context.variables.report).toBe('weekly');
+    expect(context.triggerEvent).toMatchObject({
+      type: 'schedule.cron',
+      payload: { scheduleId: 'schedule-1', scheduledFor: '2025-03-10T09:00:00.000Z' },
+    });
+  });
+
+  it('should not fire a schedule another instance already advanced', async () => {
+    mockScheduleRepo.findDue.mockResolvedValue([createSchedule()]);
+    mockScheduleRepo.advance.mockResolvedValue(false);
+
+    expect(await scheduler.fireDueSchedules(new Date('2025-03-10T09:00:05Z'))).toEqual([]);
+    expect(mockEngine.executeWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('should fire missed cron fires once or skip them by misfire policy', async () => {
+    // Down for three days; the fire of the 13th was missed too
+    const now = new Date('2025-03-13T10:00:00Z');
+    mockScheduleRepo.findDue.mockResolvedValue([createSchedule()]);
+
+    const [fireOnce] = await scheduler.fireDueSchedules(now);
+    expect(fireOnce).toMatchObject({
+      misfired: true,
+      scheduledFor: new Date('2025-03-13T09:00:00Z'),
+      runIds: ['run-1'],
+    });
+
+    mockScheduleRepo.findDue.mockResolvedValue([createSchedule({ misfire_policy: 'skip' })]);
+    const [skipped] = await scheduler.fireDueSchedules(now);
+    expect(skipped).toMatchObject({ misfired: true, runIds: [] });
+    expect(mockEngine.executeWorkflow).toHaveBeenCalledTimes(1);
+    expect(mockScheduleRepo.advance).toHaveBeenLastCalledWith(
+      'schedule-1',
+      new Date('2025-03-10T09:00:00Z'),
+      new Date('2025-03-14T09:00:00Z'),
+      new Date('2025-03-13T09:00:00Z')
+    );
+  });
+
+  it('should start one run per employee whose shifted date is due', async () => {
+    // A week before the hire date, checked daily at 08:00 in Berlin
+    const schedule = createSchedule({
+      schedule_type: 'employee_date',
+      cron_expression: '0 8 * * *',
+      timezone: 'Europe/Berlin',
+      date_field: 'hire_date',
+      offset_days: -7,
+      next_run_at: new Date('2025-03-10T07:00:00Z'),
+      last_run_at: new Date('2025-03-09T07:00:00Z'),
+    });
+    mockScheduleRepo.findDue.mockResolvedValue([schedule]);
+    mockEmployeeRepo.findByDateRange.mockResolvedValue([
+      { employee_id: 'emp-1', hire_date: '2025-03-17' },
+      { employee_id: 'emp-2', hire_date: '2025-03-17' },
+    ]);
+
+    const [fire] = await scheduler.fireDueSchedules(new Date('2025-03-10T07:00:10Z'));
+
+    expect(mockEmployeeRepo.findByDateRange).toHaveBeenCalledWith(
+      'org-1',
+      'hire_date',
+      '2025-03-17',
+      '2025-03-17'
+    );
+    expect(fire.runIds).toEqual(['run-1', 'run-2']);
+    const context = mockEngine.executeWorkflow.mock.calls[1][1];
+    expect(context.employeeId).toBe('emp-2');
+    expect(context.triggerEvent).toMatchObject({
+      type: 'schedule.employee_date',
+      payload: { dateField: 'hire_date', date: '2025-03-17', offsetDays: -7 },
+    });
+  });
+
+  it('should cover the days of missed employee-date fires unless they are skipped', async () => {
+    const schedule = createSchedule({
+      schedule_type: 'employee_date',
+      cron_expression: '0 9 * * *',
+      date_field: 'termination_date',
+      offset_days: 0,
+      last_run_at: new Date('2025-03-09T09:00:00Z'),
+    });
+    const now = new Date('2025-03-12T09:00:30Z');
+
+    mockScheduleRepo.findDue.mockResolvedValue([schedule]);
+    await scheduler.fireDueSchedules(now);
+    expect(mockEmployeeRepo.findByDateRange).toHaveBeenLastCalledWith(
+      'org-1',
+      'termination_date',
+      '2025-03-10',
+      '2025-03-12'
+    );
+
+    // The fire of the 12th is on time, so only the missed days are skipped
+    mockScheduleRepo.findDue.mockResolvedValue([{ ...schedule, misfire_policy: 'skip' }]);
+    await scheduler.fireDueSchedules(now);
+    expect(mockEmployeeRepo.findByDateRange).toHaveBeenLastCalledWith(
+      'org-1',
+      'termination_date',
+      '2025-03-12',
+      '2025-03-12'
+    );
+  });
+
+  it('should validate schedules and compute their first fire on create', async () => {
+    const created = await scheduler.createSchedule({
+      workflowId: 'workflow-1',
+      organizationId: 'org-1',
+      name: 'Monday digest',
+      type: 'cron',
+      cronExpression: '0 9 * * MON',
+      timezone: 'Europe/London',
+    });
+
+    expect(created).toMatchObject({ timezone: 'Europe/London', misfirePolicy: 'fire_once' });
+    expect(mockScheduleRepo.create.mock.calls[0][0].next_run_at).toBeInstanceOf(Date);
+
+    const error = await scheduler
+      .createSchedule({
+        workflowId: 'workflow-1',
+        organizationId: 'org-2',
+        name: 'Exit reminder',
+        type: 'employee_date',
+        cronExpression: '0 9 * *',
+        timezone: 'Mars/Olympus',
+      })
+      .catch((rejection) => rejection);
+
+    expect(error).toBeInstanceOf(ScheduleError);
+    expect(error.code).toBe('INVALID_SCHEDULE');
+    expect(error.message).toContain('unknown time zone Mars/Olympus');
+    expect(error.message).toContain('dateField must be');
+    expect(error.message).toContain('Cron expression must have 5 fields');
+    expect(error.message).toContain('workflow workflow-1 not found');
+    expect(mockScheduleRepo.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only fire schedules while leading', async () => {
+    jest.useFakeTimers();
+    mockStateManager.acquireLeadership.mockResolvedValue(false);
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+    await scheduler.stop();
+    jest.useRealTimers();
+
+    expect(mockStateManager.acquireLeadership).toHaveBeenCalledWith('scheduler', 'instance-1', 45);
+    expect(mockScheduleRepo.findDue).not.toHaveBeenCalled();
+    expect(mockStateManager.releaseLeadership).toHaveBeenCalledWith('scheduler', 'instance-1');
+  });
+});
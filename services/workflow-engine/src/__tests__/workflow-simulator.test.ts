@@ -0,0 +1,149 @@
+/**
+ * Workflow simulation tests
+ */
+
+import { WorkflowSimulator } from '../simulation/workflow-simulator';
+import { ExecutionContextManager } from '../execution/context-manager';
+import { WorkflowDefinition, WorkflowNode, WorkflowEdge } from '@officeflow/types';
+
+describe('WorkflowSimulator', () => {
+  let simulator: WorkflowSimulator;
+
+  const createNode = (
+    id: string,
+    type: any,
+    overrides: Partial<WorkflowNode> = {}
+  ): WorkflowNode => ({
+    id,
+    type,
+    name: id,
+    params: {},
+    retryPolicy: { maxRetries: 0, backoffMs: 1000, backoffMultiplier: 2, maxBackoffMs: 30000 },
+    timeoutMs: 300000,
+    position: { x: 0, y: 0 },
+    ...overrides,
+  });
+
+  const createWorkflow = (nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowDefinition => ({
+    id: 'workflow-1',
+    organizationId: 'org-1',
+    name: 'Onboarding',
+    eventTrigger: 'employee.onboard',
+    version: 1,
+    isActive: false,
+    definition: { nodes, edges, metadata: { version: '1.0.0' } },
+    createdBy: 'user-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  // provision -> approval -(approved)-> welcome, -(rejected)-> notify-hr
+  const onboardingWorkflow = createWorkflow(
+    [
+      createNode('provision', 'identity.provision', {
+        conditions: [{ field: 'event.type', operator: 'equals', value: 'employee.onboard' }],
+      }),
+      createNode('approval', 'approval', { params: { approvers: ['lead@example.com'] } }),
+      createNode('welcome', 'email.send', {
+        params: { template: 'welcome' },
+        parameterMappings: [
+          {
+            sourceType: 'node_output',
+            sourcePath: 'provision.email',
+            targetPath: 'to',
+            required: true,
+          },
+        ],
+      }),
+      createNode('notify-hr', 'slack.message'),
+    ],
+    [
+      { id: 'e1', fromNodeId: 'provision', toNodeId: 'approval' },
+      { id: 'e2', fromNodeId: 'approval', toNodeId: 'welcome', label: 'approved' },
+      { id: 'e3', fromNodeId: 'approval', toNodeId: 'notify-hr', label: 'rejected' },
+    ]
+  );
+
+  const options = {
+    organizationId: 'org-1',
+    employeeId: 'emp-1',
+    triggerEvent: { type: 'employee.onboard', payload: { employee: { firstName: 'Ada' } } },
+  };
+
+  beforeEach(() => {
+    simulator = new WorkflowSimulator(new ExecutionContextManager({} as any));
+  });
+
+  it('should follow the example outputs and report inputs and skipped branches', () => {
+    const result = simulator.simulate(onboardingWorkflow, {
+      ...options,
+      stubs: { provision: { userId: 'u-1', email: 'ada@example.com' } },
+    });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.validationErrors).toEqual([]);
+    expect(result.path).toEqual(['provision', 'approval', 'welcome']);
+    expect(result.skipped).toEqual([{ nodeId: 'notify-hr', name: 'notify-hr' }]);
+
+    const [provision, approval, welcome] = result.nodes;
+    expect(provision.outputSource).toBe('stub');
+    expect(approval).toMatchObject({ outputSource: 'example', output: { decision: 'approved' } });
+    expect(welcome.input).toMatchObject({
+      template: 'welcome',
+      to: 'ada@example.com',
+      organizationId: 'org-1',
+    });
+  });
+
+  it('should take the branches selected by stubs and conditions', () => {
+    const rejected = simulator.simulate(onboardingWorkflow, {
+      ...options,
+      stubs: { approval: { decision: 'rejected' } },
+    });
+    const otherEvent = simulator.simulate(onboardingWorkflow, {
+      ...options,
+      triggerEvent: { type: 'employee.transfer' },
+    });
+
+    expect(rejected.path).toEqual(['provision', 'approval', 'notify-hr']);
+    expect(otherEvent.path).toEqual([]);
+    expect(otherEvent.skipped.map((node) => node.nodeId)).toEqual([
+      'provision',
+      'approval',
+      'welcome',
+      'notify-hr',
+    ]);
+  });
+
+  it('should fail at a node whose required input cannot be resolved', () => {
+    const result = simulator.simulate(onboardingWorkflow, {
+      ...options,
+      stubs: { provision: { userId: 'u-1' }, missing: {} },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.nodes[2]).toMatchObject({
+      nodeId: 'welcome',
+      error: expect.stringContaining("required parameter 'to'"),
+    });
+    expect(result.validationErrors).toEqual([
+      expect.objectContaining({ code: 'UNKNOWN_STUB_NODE' }),
+    ]);
+  });
+
+  it('should report validation problems without simulating', () => {
+    const result = simulator.simulate(
+      createWorkflow(
+        [createNode('approval', 'approval')],
+        [{ id: 'e1', fromNodeId: 'approval', toNodeId: 'missing' }]
+      ),
+      options
+    );
+
+    expect(result.status).toBe('INVALID');
+    expect(result.path).toEqual([]);
+    expect(result.validationErrors.map((error) => error.code)).toEqual(
+      expect.arrayContaining(['INVALID_APPROVAL_NODE'])
+    );
+  });
+});
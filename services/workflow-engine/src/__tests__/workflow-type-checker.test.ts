@@ -0,0 +1,250 @@
+/**
+ * Workflow type checker tests
+ */
+
+import { NodeSchemaRegistry } from '../orchestrator/node-schema-registry';
+import { WorkflowTypeChecker } from '../orchestrator/workflow-type-checker';
+import { WorkflowDefinition, WorkflowEdge, WorkflowNode } from '@officeflow/types';
+
+describe('WorkflowTypeChecker', () => {
+  const checker = new WorkflowTypeChecker();
+
+  const createNode = (id: string, overrides: Partial<WorkflowNode> = {}) =>
+    ({
+      id,
+      type: 'email.send',
+      name: id,
+      params: {},
+      retryPolicy: { maxRetries: 3, backoffMs: 1000, backoffMultiplier: 2, maxBackoffMs: 30000 },
+      timeoutMs: 300000,
+      position: { x: 0, y: 0 },
+      ...overrides,
+    }) as WorkflowNode;
+
+  const account = (id: string, overrides: Partial<WorkflowNode> = {}) =>
+    createNode(id, {
+      type: 'identity.provision',
+      params: { provider: 'okta', action: 'provision', userEmail: 'jane@example.com' },
+      ...overrides,
+    });
+
+  const createWorkflow = (nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowDefinition => ({
+    id: 'workflow-1',
+    organizationId: 'org-1',
+    name: 'Onboarding',
+    eventTrigger: 'employee.onboard',
+    version: 1,
+    isActive: true,
+    definition: { nodes, edges, metadata: { version: '1.0.0' } },
+    createdBy: 'user-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const codes = (workflow: WorkflowDefinition) =>
+    checker.check(workflow).diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.field]);
+
+  it('should check params against the node schema', () => {
+    const workflow = createWorkflow(
+      [
+        account('node-1', {
+          params: {
+            provider: 'ldap',
+            userEmail: 'jane',
+            groups: 'engineering',
+            firstName: '${event.payload.firstName}',
+            nickname: 'JJ',
+          },
+        }),
+      ],
+      []
+    );
+
+    const result = checker.check(workflow);
+
+    expect(result.valid).toBe(false);
+    expect(codes(workflow)).toEqual([
+      ['INVALID_PARAMETER_VALUE', 'provider'],
+      ['MISSING_PARAMETER', 'action'],
+      ['INVALID_PARAMETER_VALUE', 'userEmail'],
+      ['INVALID_PARAMETER_TYPE', 'groups'],
+      ['UNKNOWN_PARAMETER', 'nickname'],
+    ]);
+    expect(result.diagnostics[3]).toMatchObject({
+      severity: 'error',
+      nodeId: 'node-1',
+      message: "Parameter 'groups' of node node-1 must be an array but is a string",
+    });
+    expect(result.diagnostics[4].severity).toBe('warning');
+
+    // Mapped params are provided at run time
+    workflow.definition.nodes = [
+      account('node-1', {
+        params: { provider: 'okta', userEmail: 'jane@example.com' },
+        parameterMappings: [
+          { sourceType: 'expression', sourcePath: '"provision"', targetPath: 'action' },
+        ],
+      }),
+    ];
+    expect(checker.check(workflow)).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it('should check that mappings and expressions read outputs upstream nodes produce', () => {
+    const workflow = createWorkflow(
+      [
+        account('account'),
+        createNode('email', {
+          parameterMappings: [
+            { sourceType: 'node_output', sourcePath: 'account.email', targetPath: 'to' },
+            { sourceType: 'node_output', sourcePath: 'account.mailbox', targetPath: 'cc' },
+            {
+              sourceType: 'expression',
+              sourcePath: '"Welcome " + ${nodes.account.output.displayName}',
+              targetPath: 'subject',
+            },
+            {
+              sourceType: 'expression',
+              sourcePath: 'nodes.slack.output.channelId',
+              targetPath: 'body',
+            },
+          ],
+        }),
+        createNode('slack', { type: 'slack.message' }),
+      ],
+      [
+        { id: 'edge-1', fromNodeId: 'account', toNodeId: 'email' },
+        {
+          id: 'edge-2',
+          fromNodeId: 'email',
+          toNodeId: 'slack',
+          conditionExpression: 'nodes.email.status == "sent" && nodes.unknown.output.id != null',
+        },
+      ]
+    );
+
+    const diagnostics = checker.check(workflow).diagnostics;
+
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      'UNKNOWN_OUTPUT',
+      'UNKNOWN_OUTPUT',
+      'REFERENCE_NOT_UPSTREAM',
+      'UNKNOWN_NODE_REFERENCE',
+    ]);
+    expect(diagnostics[0]).toMatchObject({ nodeId: 'email', field: 'cc' });
+    expect(diagnostics[1].message).toBe(
+      "Expression for 'subject' of node email reads output 'displayName', which node account doesn't produce"
+    );
+    expect(diagnostics[3]).toMatchObject({ nodeId: 'email', edgeId: 'edge-2' });
+  });
+
+  it('should report outputs mapped to parameters of another type', () => {
+    const workflow = createWorkflow(
+      [
+        createNode('webhook', {
+          type: 'webhook.call',
+          params: { url: 'https://hr.example.com/hooks', responseMapping: { summary: '$.text' } },
+        }),
+        createNode('content', {
+          type: 'ai.generate_content',
+          params: { provider: 'anthropic', prompt: 'Write a welcome message' },
+          parameterMappings: [
+            {
+              sourceType: 'node_output',
+              sourcePath: 'webhook.statusCode',
+              targetPath: 'maxTokens',
+            },
+            { sourceType: 'node_output', sourcePath: 'webhook.body', targetPath: 'templateData' },
+            { sourceType: 'node_output', sourcePath: 'webhook.summary', targetPath: 'model' },
+            { sourceType: 'node_output', sourcePath: 'webhook.body', targetPath: 'prompt' },
+          ],
+        }),
+      ],
+      [{ id: 'edge-1', fromNodeId: 'webhook', toNodeId: 'content' }]
+    );
+
+    const diagnostics = checker.check(workflow).diagnostics;
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      code: 'TYPE_MISMATCH',
+      nodeId: 'content',
+      field: 'prompt',
+      message:
+        "Parameter 'prompt' of node content expects a string but output 'body' of node webhook is an object",
+    });
+  });
+
+  it('should report branches that are never taken and the nodes behind them', () => {
+    const workflow = createWorkflow(
+      [account('account'), createNode('email'), createNode('audit'), createNode('report')],
+      [
+        {
+          id: 'edge-1',
+          fromNodeId: 'account',
+          toNodeId: 'email',
+          conditionExpression: '1 > 2 && ${event.type} == "employee.onboard"',
+        },
+        { id: 'edge-2', fromNodeId: 'account', toNodeId: 'audit', conditionExpression: '1 > 2' },
+        { id: 'edge-3', fromNodeId: 'audit', toNodeId: 'report' },
+      ]
+    );
+
+    const result = checker.check(workflow);
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.nodeId])).toEqual([
+      ['DEAD_BRANCH', 'account'],
+      ['UNREACHABLE_NODE', 'audit'],
+      ['UNREACHABLE_NODE', 'report'],
+    ]);
+    expect(result.diagnostics[0].edgeId).toBe('edge-2');
+  });
+
+  it('should report structural validation errors on their own', () => {
+    const workflow = createWorkflow(
+      [account('account', { timeoutMs: 10 })],
+      [{ id: 'edge-1', fromNodeId: 'account', toNodeId: 'missing' }]
+    );
+
+    const result = checker.check(workflow);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.every((diagnostic) => diagnostic.severity === 'error')).toBe(true);
+    expect(result.diagnostics[0]).toMatchObject({ nodeId: 'account', nodeName: 'account' });
+  });
+
+  it('should prefer the schemas executors serve', async () => {
+    const registry = new NodeSchemaRegistry();
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async (url) => {
+      if (String(url).includes('identity')) {
+        return new Response(
+          JSON.stringify({
+            type: 'identity',
+            name: 'Identity',
+            description: 'Identity executor',
+            category: 'identity',
+            parameters: [{ name: 'provider', type: 'string', description: '', required: true }],
+            outputs: [{ name: 'userId', type: 'string', description: '' }],
+          })
+        );
+      }
+      return new Response('Not found', { status: 404 });
+    });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await registry.loadExecutorSchemas({
+      'identity.provision': 'http://identity-service/schema',
+      'ai.generate_content': 'http://ai-service/schema',
+    });
+
+    expect(registry.get('identity.provision')).toMatchObject({
+      type: 'identity.provision',
+      parameters: [{ name: 'provider' }],
+    });
+    expect(registry.get('ai.generate_content')?.parameters.length).toBeGreaterThan(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRestore();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Authorization of API requests, based on the user the gateway authenticated
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { UUID, UserRole } from '@officeflow/types';
+
+export interface RequestUser {
+  userId: UUID;
+  orgId: UUID;
+  email?: string;
+  role: UserRole;
+}
+
+export const getRequestUser = (req: Request): RequestUser | undefined => (req as any).user;
+
+/**
+ * Only let requests of a signed-in user of an organization through
+ */
+export const requireUser = (req: Request, res: Response, next: NextFunction): void => {
+  const user = getRequestUser(req);
+  if (!user?.userId || !user.orgId) {
+    res.status(401).json({
+      error: 'Authentication required',
+      code: 'AUTHENTICATION_REQUIRED',
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Only let signed-in users with one of the roles through
+ */
+export const requireRole =
+  (allowedRoles: UserRole[]) =>
+  (req: Request, res: Response, next: NextFunction): void =>
+    requireUser(req, res, () => {
+      if (!allowedRoles.includes(getRequestUser(req)!.role)) {
+        res.status(403).json({
+          error: 'Insufficient permissions',
+          code: 'INSUFFICIENT_PERMISSIONS',
+          requiredRoles: allowedRoles,
+        });
+        return;
+      }
+
+      next();
+    });
+
+/**
+ * Only let signed-in users through to the run in the `runId` param when it belongs
+ * to their organization. Runs of other organizations are reported as not found.
+ */
+export const requireRunOfOrganization =
+  (findRun: (runId: UUID) => Promise<{ organizationId: UUID } | null>) =>
+  (req: Request, res: Response, next: NextFunction): void =>
+    requireUser(req, res, async () => {
+      try {
+        const run = await findRun(req.params.runId);
+        if (!run || run.organizationId !== getRequestUser(req)!.orgId) {
+          res.status(404).json({
+            error: 'Workflow run not found',
+          });
+          return;
+        }
+      } catch (error) {
+        console.error('Failed to load workflow run:', error);
+        res.status(500).json({
+          error: 'Failed to load workflow run',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return;
+      }
+
+      next();
+    });
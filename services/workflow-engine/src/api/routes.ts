@@ -4,12 +4,29 @@
 
 import { Router, Request, Response } from 'express';
 import { WorkflowEngineService } from '../services/workflow-engine-service';
-import { ExecutionContext } from '@officeflow/types';
+import { ExecutionContext, RunEventActor } from '@officeflow/types';
 import {
   WorkflowRepositoryImpl,
   WorkflowRunRepositoryImpl,
   EmployeeRepositoryImpl,
 } from '@officeflow/database';
+import { ApprovalDecision, ApprovalDecisionError } from '../execution/approval-service';
+import { SignalError } from '../execution/signal-service';
+import { SecretError } from '../execution/secret-vault';
+import { RerunError } from '../orchestrator/rerun-planner';
+import { RunMigrationError } from '../orchestrator/run-migrator';
+import { RunConflictError } from '../orchestrator/run-admission';
+import { CompensationError } from '../error-handling';
+import { RunDebugError } from '../execution/run-debugger';
+import { SimulationError } from '../simulation/workflow-simulator';
+import { ScheduleError } from '../scheduling/workflow-scheduler';
+import { WorkflowDocumentError, WorkflowDocumentFormat } from '../orchestrator/workflow-document';
+import {
+  getRequestUser,
+  requireUser,
+  requireRole,
+  requireRunOfOrganization,
+} from './authorization';
 
 export function createWorkflowEngineRoutes(engineService: WorkflowEngineService): Router {
   const router = Router();
@@ -19,6 +36,15 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
   const workflowRunRepo = new WorkflowRunRepositoryImpl();
   const employeeRepo = new EmployeeRepositoryImpl();
 
+  // Runs are only managed by users of the organization they belong to
+  const requireOwnRun = requireRunOfOrganization((runId) => engineService.getWorkflowRun(runId));
+
+  // The signed-in user, recorded as the actor of the run events a request causes
+  const requestActor = (req: Request): RunEventActor | undefined => {
+    const userId = (req as any).user?.userId;
+    return userId ? { type: 'user', id: userId } : undefined;
+  };
+
   /**
    * Get all workflows
    */
@@ -210,6 +236,14 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
       const { id } = req.params;
       const { context } = req.body;
 
+      // Secrets passed with a run would end up in its state
+      if (Object.keys({ ...req.body.secrets, ...context?.secrets }).length > 0) {
+        return res.status(400).json({
+          error: 'Secrets cannot be passed to runs',
+          message: 'Store them with PUT /secrets/:name and reference them as {{secret:<name>}}',
+        });
+      }
+
       // Get user info from auth token
       const user = (req as any).user;
       const organizationId = user?.orgId || 'f43ed62f-0e77-4ab5-a42a-41aca2a5434c';
@@ -218,9 +252,10 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
       const executionContext = {
         organizationId,
         employeeId: context?.employeeId,
-        triggerEvent: { type: 'manual', data: context?.data || {} },
+        triggerEvent: { type: 'manual', data: context?.data || {}, triggeredBy: user?.userId },
         variables: context?.variables || {},
-        correlationId: `test-${Date.now()}`,
+        secrets: {},
+        correlationId: context?.correlationId || `test-${Date.now()}`,
       };
 
       // Execute workflow
@@ -229,9 +264,20 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
       res.status(200).json({
         runId: workflowRun.id,
         status: workflowRun.status,
-        message: 'Workflow execution started',
+        message:
+          workflowRun.status === 'QUEUED'
+            ? 'Workflow execution queued'
+            : 'Workflow execution started',
       });
     } catch (error) {
+      if (error instanceof RunConflictError) {
+        return res.status(409).json({
+          error: error.message,
+          code: error.code,
+          conflictingRunId: error.conflictingRunId,
+        });
+      }
+
       console.error('Failed to execute workflow:', error);
       res.status(500).json({
         error: 'Failed to execute workflow',
@@ -269,6 +315,11 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
    */
   router.get('/monitoring/metrics', async (req: Request, res: Response) => {
     try {
+      // SLA compliance covers SLAs started over the last `slaDays` days
+      const slaDays = req.query.slaDays ? parseInt(req.query.slaDays as string) : 30;
+      const slaSince = new Date(Date.now() - slaDays * 24 * 60 * 60 * 1000);
+      const organizationId = req.query.organizationId as string | undefined;
+
       const metrics = {
         totalRuns: await workflowRunRepo.count(),
         runningRuns: await workflowRunRepo.count({ status: 'RUNNING' }),
@@ -277,6 +328,7 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
         averageExecutionTime: 0, // TODO: Calculate from actual data
         successRate: 0, // TODO: Calculate from actual data
         runsByStatus: {
+          QUEUED: await workflowRunRepo.count({ status: 'QUEUED' }),
           PENDING: await workflowRunRepo.count({ status: 'PENDING' }),
           RUNNING: await workflowRunRepo.count({ status: 'RUNNING' }),
           COMPLETED: await workflowRunRepo.count({ status: 'COMPLETED' }),
@@ -285,6 +337,11 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
         },
         runsByDay: [], // TODO: Implement time-based aggregation
         nodePerformance: [], // TODO: Implement node-level metrics
+        scheduling: await engineService.getSchedulingMetrics(),
+        sla: {
+          since: slaSince.toISOString(),
+          organizations: await engineService.getSlaCompliance(slaSince, organizationId),
+        },
       };
 
       res.json(metrics);
@@ -456,42 +513,413 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
   });
 
   /**
-   * Execute a workflow manually
+   * Simulate a workflow against a sample lifecycle event without executing any node
    */
-  router.post('/workflows/:workflowId/execute', async (req: Request, res: Response) => {
+  router.post('/workflows/:id/simulate', async (req: Request, res: Response) => {
     try {
-      const { workflowId } = req.params;
-      const { organizationId, employeeId, variables = {}, secrets = {} } = req.body;
+      const { id } = req.params;
+      const { event, variables = {}, stubs = {} } = req.body || {};
+
+      if (!event?.type || !event.organizationId || !event.employeeId) {
+        return res.status(400).json({
+          error: 'event with type, organizationId, and employeeId is required',
+        });
+      }
+
+      const isObject = (value: any) =>
+        value !== null && typeof value === 'object' && !Array.isArray(value);
+      if (!isObject(stubs) || !Object.values(stubs).every(isObject)) {
+        return res.status(400).json({
+          error: 'stubs must map node IDs or names to output objects',
+        });
+      }
+
+      const simulation = await engineService.simulateWorkflow(id, {
+        organizationId: event.organizationId,
+        employeeId: event.employeeId,
+        triggerEvent: event,
+        variables,
+        stubs,
+      });
+
+      res.json({
+        success: true,
+        data: simulation,
+      });
+    } catch (error) {
+      if (error instanceof SimulationError) {
+        return res.status(404).json({
+          error: error.message,
+        });
+      }
+
+      console.error('Failed to simulate workflow:', error);
+      res.status(500).json({
+        error: 'Failed to simulate workflow',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  const documentErrorStatus: Record<WorkflowDocumentError['code'], number> = {
+    INVALID_DOCUMENT: 400,
+    UNSUPPORTED_VERSION: 400,
+    DUPLICATE_NODE_NAME: 400,
+    UNKNOWN_NODE: 400,
+    VALIDATION_FAILED: 400,
+    NOT_FOUND: 404,
+  };
+
+  const documentFormats: WorkflowDocumentFormat[] = ['yaml', 'json'];
+
+  // A stored workflow `{ workflowId, version? }` or a document `{ document, format? }`
+  const isWorkflowSource = (source: any) =>
+    source !== null &&
+    typeof source === 'object' &&
+    (typeof source.workflowId === 'string' ||
+      typeof source.document === 'string' ||
+      (typeof source.document === 'object' && source.document !== null));
+
+  /**
+   * Export a workflow, or one of its versions, as a YAML or JSON document
+   */
+  router.get('/workflows/:id/export', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const format = (req.query.format as WorkflowDocumentFormat) || 'yaml';
+      const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+
+      if (!documentFormats.includes(format)) {
+        return res.status(400).json({
+          error: "format must be 'yaml' or 'json'",
+        });
+      }
+      if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+        return res.status(400).json({
+          error: 'version must be a workflow version number',
+        });
+      }
+
+      const document = await engineService.exportWorkflow(id, format, version);
+
+      res.type(format === 'json' ? 'application/json' : 'application/yaml').send(document);
+    } catch (error) {
+      if (error instanceof WorkflowDocumentError) {
+        return res.status(documentErrorStatus[error.code]).json({
+          error: error.message,
+        });
+      }
+
+      console.error('Failed to export workflow:', error);
+      res.status(500).json({
+        error: 'Failed to export workflow',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Create a workflow from a document, or update workflowId to match it
+   */
+  router.post('/workflows/import', requireUser, async (req: Request, res: Response) => {
+    try {
+      const { document, format = 'yaml', workflowId } = req.body || {};
+
+      if (typeof document !== 'string' && (typeof document !== 'object' || document === null)) {
+        return res.status(400).json({
+          error: 'document must be YAML or JSON text or a parsed document',
+        });
+      }
+      if (!documentFormats.includes(format)) {
+        return res.status(400).json({
+          error: "format must be 'yaml' or 'json'",
+        });
+      }
+
+      const user = getRequestUser(req)!;
+      const result = await engineService.importWorkflow(document, format, {
+        organizationId: user.orgId,
+        createdBy: user.userId,
+        workflowId,
+      });
+
+      res.status(result.created ? 201 : 200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof WorkflowDocumentError) {
+        return res.status(documentErrorStatus[error.code]).json({
+          error: error.message,
+          validationErrors: error.validationErrors,
+        });
+      }
+
+      console.error('Failed to import workflow:', error);
+      res.status(500).json({
+        error: 'Failed to import workflow',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Semantic diff between two workflow documents or stored versions. `before`
+   * and `after` are each `{ workflowId, version? }` or `{ document, format? }`.
+   */
+  router.post('/workflows/diff', async (req: Request, res: Response) => {
+    try {
+      const { before, after } = req.body || {};
+
+      if (!isWorkflowSource(before) || !isWorkflowSource(after)) {
+        return res.status(400).json({
+          error: 'before and after must each name a workflowId or carry a document',
+        });
+      }
+
+      const diff = await engineService.diffWorkflows(before, after);
+
+      res.json({
+        success: true,
+        data: diff,
+      });
+    } catch (error) {
+      if (error instanceof WorkflowDocumentError) {
+        return res.status(documentErrorStatus[error.code]).json({
+          error: error.message,
+        });
+      }
+
+      console.error('Failed to diff workflows:', error);
+      res.status(500).json({
+        error: 'Failed to diff workflows',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Type-check a stored workflow version or a document against the node
+   * schemas. The body is `{ workflowId, version? }` or `{ document, format? }`.
+   */
+  router.post('/workflows/type-check', async (req: Request, res: Response) => {
+    try {
+      if (!isWorkflowSource(req.body)) {
+        return res.status(400).json({
+          error: 'A workflowId or a document is required',
+        });
+      }
+
+      const result = await engineService.typeCheckWorkflow(req.body);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof WorkflowDocumentError) {
+        return res.status(documentErrorStatus[error.code]).json({
+          error: error.message,
+        });
+      }
+
+      console.error('Failed to type-check workflow:', error);
+      res.status(500).json({
+        error: 'Failed to type-check workflow',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Get the workflow schedules of an organization
+   */
+  router.get('/schedules', async (req: Request, res: Response) => {
+    try {
+      const organizationId = req.query.organizationId as string | undefined;
 
-      if (!organizationId || !employeeId) {
+      if (!organizationId) {
         return res.status(400).json({
-          error: 'organizationId and employeeId are required',
+          error: 'organizationId is required',
+        });
+      }
+
+      const schedules = await engineService.getSchedules(organizationId);
+
+      res.json({
+        success: true,
+        data: schedules,
+      });
+    } catch (error) {
+      console.error('Failed to get schedules:', error);
+      res.status(500).json({
+        error: 'Failed to get schedules',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Get a workflow schedule
+   */
+  router.get('/schedules/:scheduleId', async (req: Request, res: Response) => {
+    try {
+      const { scheduleId } = req.params;
+      const schedule = await engineService.getSchedule(scheduleId);
+
+      if (!schedule) {
+        return res.status(404).json({
+          error: 'Schedule not found',
         });
       }
 
-      const context: ExecutionContext = {
+      res.json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      console.error('Failed to get schedule:', error);
+      res.status(500).json({
+        error: 'Failed to get schedule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Create a cron or employee-date schedule for a workflow
+   */
+  router.post('/schedules', async (req: Request, res: Response) => {
+    try {
+      const {
+        workflowId,
         organizationId,
-        employeeId,
-        triggerEvent: {
-          type: 'manual',
-          payload: req.body.payload || {},
-          timestamp: new Date(),
-        },
+        name,
+        type,
+        cronExpression,
+        timezone,
+        dateField,
+        offsetDays,
+        misfirePolicy,
         variables,
-        secrets,
-        correlationId: `manual-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
-      };
+        isActive,
+      } = req.body || {};
 
-      const workflowRun = await engineService.executeWorkflow(workflowId, context);
+      if (!workflowId || !organizationId || !type || !cronExpression) {
+        return res.status(400).json({
+          error: 'workflowId, organizationId, type, and cronExpression are required',
+        });
+      }
+
+      const schedule = await engineService.createSchedule({
+        workflowId,
+        organizationId,
+        name,
+        type,
+        cronExpression,
+        timezone,
+        dateField,
+        offsetDays,
+        misfirePolicy,
+        variables,
+        isActive,
+        createdBy: (req as any).user?.userId,
+      });
 
       res.status(201).json({
         success: true,
-        data: workflowRun,
+        data: schedule,
       });
     } catch (error) {
-      console.error('Failed to execute workflow:', error);
+      if (error instanceof ScheduleError) {
+        return res.status(400).json({
+          error: error.message,
+        });
+      }
+
+      console.error('Failed to create schedule:', error);
       res.status(500).json({
-        error: 'Failed to execute workflow',
+        error: 'Failed to create schedule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Update a workflow schedule
+   */
+  router.put('/schedules/:scheduleId', async (req: Request, res: Response) => {
+    try {
+      const { scheduleId } = req.params;
+      const {
+        workflowId,
+        name,
+        type,
+        cronExpression,
+        timezone,
+        dateField,
+        offsetDays,
+        misfirePolicy,
+        variables,
+        isActive,
+      } = req.body || {};
+
+      const schedule = await engineService.updateSchedule(scheduleId, {
+        workflowId,
+        name,
+        type,
+        cronExpression,
+        timezone,
+        dateField,
+        offsetDays,
+        misfirePolicy,
+        variables,
+        isActive,
+      });
+
+      if (!schedule) {
+        return res.status(404).json({
+          error: 'Schedule not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      if (error instanceof ScheduleError) {
+        return res.status(400).json({
+          error: error.message,
+        });
+      }
+
+      console.error('Failed to update schedule:', error);
+      res.status(500).json({
+        error: 'Failed to update schedule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Delete a workflow schedule
+   */
+  router.delete('/schedules/:scheduleId', async (req: Request, res: Response) => {
+    try {
+      const { scheduleId } = req.params;
+
+      if (!(await engineService.deleteSchedule(scheduleId))) {
+        return res.status(404).json({
+          error: 'Schedule not found',
+        });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Failed to delete schedule:', error);
+      res.status(500).json({
+        error: 'Failed to delete schedule',
         message: error instanceof Error ? error.message : 'Unknown error',
       });
     }
@@ -503,7 +931,7 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
   router.post('/workflow-runs/:runId/pause', async (req: Request, res: Response) => {
     try {
       const { runId } = req.params;
-      await engineService.pauseWorkflow(runId);
+      await engineService.pauseWorkflow(runId, requestActor(req));
 
       res.json({
         success: true,
@@ -524,7 +952,7 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
   router.post('/workflow-runs/:runId/resume', async (req: Request, res: Response) => {
     try {
       const { runId } = req.params;
-      await engineService.resumeWorkflow(runId);
+      await engineService.resumeWorkflow(runId, requestActor(req));
 
       res.json({
         success: true,
@@ -545,7 +973,7 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
   router.post('/workflow-runs/:runId/cancel', async (req: Request, res: Response) => {
     try {
       const { runId } = req.params;
-      await engineService.cancelWorkflow(runId);
+      await engineService.cancelWorkflow(runId, requestActor(req));
 
       res.json({
         success: true,
@@ -560,6 +988,600 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
     }
   });
 
+  /**
+   * Re-run a failed workflow run as a new run, from a chosen node or from all failed nodes
+   */
+  const rerunErrorStatus: Record<RerunError['code'], number> = {
+    NOT_FOUND: 404,
+    NOT_RERUNNABLE: 409,
+    INVALID_NODE: 400,
+  };
+
+  router.post('/workflow-runs/:runId/rerun', async (req: Request, res: Response) => {
+    try {
+      const { runId } = req.params;
+      const { fromNodeId } = req.body || {};
+
+      if (fromNodeId !== undefined && typeof fromNodeId !== 'string') {
+        return res.status(400).json({
+          error: 'fromNodeId must be a node ID',
+        });
+      }
+
+      const workflowRun = await engineService.rerunWorkflow(runId, fromNodeId);
+
+      res.status(201).json({
+        success: true,
+        data: workflowRun,
+      });
+    } catch (error) {
+      if (error instanceof RerunError) {
+        return res.status(rerunErrorStatus[error.code]).json({
+          error: error.message,
+        });
+      }
+      if (error instanceof RunConflictError) {
+        return res.status(409).json({
+          error: error.message,
+          code: error.code,
+          conflictingRunId: error.conflictingRunId,
+        });
+      }
+
+      console.error('Failed to re-run workflow:', error);
+      res.status(500).json({
+        error: 'Failed to re-run workflow',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Migrate a paused run to another version of its workflow (admin)
+   */
+  const migrationErrorStatus: Record<RunMigrationError['code'], number> = {
+    NOT_FOUND: 404,
+    NOT_MIGRATABLE: 409,
+    INVALID_MAPPING: 400,
+    INCOMPATIBLE: 409,
+  };
+
+  router.post(
+    '/workflow-runs/:runId/migrate',
+    requireRole(['admin']),
+    requireOwnRun,
+    async (req: Request, res: Response) => {
+      try {
+        const { runId } = req.params;
+        const { toVersion, nodeMapping = {}, dryRun = false } = req.body || {};
+
+        if (!Number.isInteger(toVersion) || toVersion < 1) {
+          return res.status(400).json({
+            error: 'toVersion must be a workflow version number',
+          });
+        }
+        if (
+          typeof nodeMapping !== 'object' ||
+          Array.isArray(nodeMapping) ||
+          !Object.values(nodeMapping).every((nodeId) => typeof nodeId === 'string')
+        ) {
+          return res.status(400).json({
+            error: 'nodeMapping must map node IDs to node IDs',
+          });
+        }
+
+        const migration = await engineService.migrateRun(
+          runId,
+          toVersion,
+          nodeMapping,
+          dryRun === true
+        );
+
+        res.json({
+          success: true,
+          data: migration,
+        });
+      } catch (error) {
+        if (error instanceof RunMigrationError) {
+          return res.status(migrationErrorStatus[error.code]).json({
+            error: error.message,
+            issues: error.issues,
+          });
+        }
+
+        console.error('Failed to migrate workflow run:', error);
+        res.status(500).json({
+          error: 'Failed to migrate workflow run',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * Get the compensation plan of a workflow run, with the status of each step
+   */
+  router.get('/workflow-runs/:runId/compensation', async (req: Request, res: Response) => {
+    try {
+      const { runId } = req.params;
+      const plan = await engineService.getCompensationPlan(runId);
+
+      if (!plan) {
+        return res.status(404).json({
+          error: 'Compensation plan not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: plan,
+      });
+    } catch (error) {
+      console.error('Failed to get compensation plan:', error);
+      res.status(500).json({
+        error: 'Failed to get compensation plan',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Compensate a completed workflow run on request, e.g. after its change was rescinded (admin)
+   */
+  const compensationErrorStatus: Record<CompensationError['code'], number> = {
+    NOT_FOUND: 404,
+    NOT_COMPENSABLE: 409,
+    ALREADY_COMPENSATED: 409,
+    NO_COMPENSATION: 409,
+    INVALID_STEP: 409,
+    IN_PROGRESS: 409,
+  };
+
+  const sendCompensationError = (res: Response, error: unknown, action: string) => {
+    if (error instanceof CompensationError) {
+      return res.status(compensationErrorStatus[error.code]).json({
+        error: error.message,
+      });
+    }
+
+    console.error(`Failed to ${action}:`, error);
+    res.status(500).json({
+      error: `Failed to ${action}`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  };
+
+  router.post(
+    '/workflow-runs/:runId/compensation',
+    requireRole(['admin']),
+    requireOwnRun,
+    async (req: Request, res: Response) => {
+      try {
+        const { runId } = req.params;
+        const { reason } = req.body || {};
+
+        if (typeof reason !== 'string' || reason.trim().length === 0) {
+          return res.status(400).json({
+            error: 'reason is required',
+          });
+        }
+
+        const plan = await engineService.compensateRun(runId, reason.trim(), requestActor(req));
+
+        res.status(201).json({
+          success: true,
+          data: plan,
+        });
+      } catch (error) {
+        sendCompensationError(res, error, 'compensate workflow run');
+      }
+    }
+  );
+
+  /**
+   * Retry a failed compensation step, then the steps that were waiting on it (admin)
+   */
+  router.post(
+    '/workflow-runs/:runId/compensation/steps/:nodeId/retry',
+    requireRole(['admin']),
+    requireOwnRun,
+    async (req: Request, res: Response) => {
+      try {
+        const { runId, nodeId } = req.params;
+        const plan = await engineService.retryCompensationStep(runId, nodeId, requestActor(req));
+
+        res.json({
+          success: true,
+          data: plan,
+        });
+      } catch (error) {
+        sendCompensationError(res, error, 'retry compensation step');
+      }
+    }
+  );
+
+  /**
+   * Skip a failed or pending compensation step with a justification (admin)
+   */
+  router.post(
+    '/workflow-runs/:runId/compensation/steps/:nodeId/skip',
+    requireRole(['admin']),
+    requireOwnRun,
+    async (req: Request, res: Response) => {
+      try {
+        const { runId, nodeId } = req.params;
+        const { justification } = req.body || {};
+
+        if (typeof justification !== 'string' || justification.trim().length === 0) {
+          return res.status(400).json({
+            error: 'justification is required',
+          });
+        }
+
+        const plan = await engineService.skipCompensationStep(
+          runId,
+          nodeId,
+          justification.trim(),
+          requestActor(req)
+        );
+
+        res.json({
+          success: true,
+          data: plan,
+        });
+      } catch (error) {
+        sendCompensationError(res, error, 'skip compensation step');
+      }
+    }
+  );
+
+  /**
+   * Start a debug run that pauses before breakpoint nodes, or before every node
+   * while stepping. Only allowed outside production unless the workflow is flagged.
+   */
+  const debugErrorStatus: Record<RunDebugError['code'], number> = {
+    NOT_FOUND: 404,
+    NOT_ALLOWED: 403,
+    RUN_LIMIT_REACHED: 429,
+    NOT_DEBUG_RUN: 409,
+    NOT_PAUSED: 409,
+    INVALID_NODE: 400,
+    INVALID_VARIABLE: 400,
+  };
+
+  const sendDebugError = (res: Response, error: unknown, action: string) => {
+    if (error instanceof RunDebugError) {
+      return res.status(debugErrorStatus[error.code]).json({
+        error: error.message,
+      });
+    }
+
+    console.error(`Failed to ${action}:`, error);
+    res.status(500).json({
+      error: `Failed to ${action}`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  };
+
+  router.post('/workflows/:id/debug', requireUser, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { context, breakpoints, stepping } = req.body || {};
+
+      if (breakpoints !== undefined && !Array.isArray(breakpoints)) {
+        return res.status(400).json({
+          error: 'breakpoints must be an array of node IDs',
+        });
+      }
+
+      const user = getRequestUser(req)!;
+      const executionContext: ExecutionContext = {
+        organizationId: user.orgId,
+        employeeId: context?.employeeId,
+        triggerEvent: { type: 'manual', data: context?.data || {}, triggeredBy: user.userId },
+        variables: context?.variables || {},
+        secrets: {},
+        correlationId: context?.correlationId || `debug-${Date.now()}`,
+      };
+
+      const workflowRun = await engineService.debugWorkflow(id, executionContext, {
+        breakpoints,
+        stepping: stepping === true,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: workflowRun,
+      });
+    } catch (error) {
+      sendDebugError(res, error, 'start debug run');
+    }
+  });
+
+  /**
+   * Get the debug session of a run: its breakpoints, the nodes it paused before
+   * with their resolved input, and its context variables
+   */
+  router.get('/workflow-runs/:runId/debug', requireOwnRun, async (req: Request, res: Response) => {
+    try {
+      const session = await engineService.getDebugSession(req.params.runId);
+
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      sendDebugError(res, error, 'get debug session');
+    }
+  });
+
+  /**
+   * Replace the breakpoints of a debug run
+   */
+  router.put(
+    '/workflow-runs/:runId/debug/breakpoints',
+    requireOwnRun,
+    async (req: Request, res: Response) => {
+      try {
+        const { nodeIds } = req.body || {};
+
+        if (!Array.isArray(nodeIds)) {
+          return res.status(400).json({
+            error: 'nodeIds must be an array of node IDs',
+          });
+        }
+
+        const session = await engineService.setDebugBreakpoints(req.params.runId, nodeIds);
+
+        res.json({
+          success: true,
+          data: session,
+        });
+      } catch (error) {
+        sendDebugError(res, error, 'set breakpoints');
+      }
+    }
+  );
+
+  /**
+   * Edit context variables of a paused debug run
+   */
+  router.patch(
+    '/workflow-runs/:runId/debug/variables',
+    requireOwnRun,
+    async (req: Request, res: Response) => {
+      try {
+        const { variables } = req.body || {};
+
+        if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+          return res.status(400).json({
+            error: 'variables must be an object',
+          });
+        }
+
+        const session = await engineService.updateDebugVariables(
+          req.params.runId,
+          variables,
+          requestActor(req)
+        );
+
+        res.json({
+          success: true,
+          data: session,
+        });
+      } catch (error) {
+        sendDebugError(res, error, 'edit debug variables');
+      }
+    }
+  );
+
+  /**
+   * Run the nodes a debug run paused before, then pause before the next nodes
+   */
+  router.post(
+    '/workflow-runs/:runId/debug/step',
+    requireOwnRun,
+    async (req: Request, res: Response) => {
+      try {
+        const session = await engineService.stepDebugRun(req.params.runId, requestActor(req));
+
+        res.json({
+          success: true,
+          data: session,
+        });
+      } catch (error) {
+        sendDebugError(res, error, 'step debug run');
+      }
+    }
+  );
+
+  /**
+   * Continue a debug run until its next breakpoint
+   */
+  router.post(
+    '/workflow-runs/:runId/debug/continue',
+    requireOwnRun,
+    async (req: Request, res: Response) => {
+      try {
+        const session = await engineService.continueDebugRun(req.params.runId, requestActor(req));
+
+        res.json({
+          success: true,
+          data: session,
+        });
+      } catch (error) {
+        sendDebugError(res, error, 'continue debug run');
+      }
+    }
+  );
+
+  /**
+   * Approve or reject a node waiting for human approval
+   */
+  const approvalErrorStatus: Record<ApprovalDecisionError['code'], number> = {
+    NOT_FOUND: 404,
+    NOT_PENDING: 409,
+    NOT_APPROVER: 403,
+  };
+
+  const decideApproval = (decision: ApprovalDecision) => async (req: Request, res: Response) => {
+    try {
+      const { runId, nodeId } = req.params;
+      const { comment } = req.body || {};
+
+      const output = await engineService.submitApprovalDecision(
+        runId,
+        nodeId,
+        decision,
+        getRequestUser(req)!,
+        comment
+      );
+
+      res.json({
+        success: true,
+        data: output,
+      });
+    } catch (error) {
+      if (error instanceof ApprovalDecisionError) {
+        return res.status(approvalErrorStatus[error.code]).json({
+          error: error.message,
+        });
+      }
+
+      console.error(`Failed to record approval decision (${decision}):`, error);
+      res.status(500).json({
+        error: 'Failed to record approval decision',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  router.post(
+    '/workflow-runs/:runId/nodes/:nodeId/approve',
+    requireUser,
+    decideApproval('approved')
+  );
+  router.post(
+    '/workflow-runs/:runId/nodes/:nodeId/reject',
+    requireUser,
+    decideApproval('rejected')
+  );
+
+  /**
+   * Receive a signal from outside OfficeFlow, such as a laptop delivery, for the
+   * wait_for_event nodes waiting on it. Signals nobody waits for yet are buffered.
+   */
+  router.post('/signals', requireUser, async (req: Request, res: Response) => {
+    try {
+      const { id, name, correlationKey, payload } = req.body || {};
+
+      const delivery = await engineService.receiveSignal({
+        id,
+        organizationId: getRequestUser(req)!.orgId,
+        name,
+        correlationKey,
+        payload,
+      });
+
+      res.status(202).json({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      if (error instanceof SignalError) {
+        return res.status(400).json({
+          error: error.message,
+        });
+      }
+
+      console.error('Failed to receive signal:', error);
+      res.status(500).json({
+        error: 'Failed to receive signal',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  const secretErrorStatus: Record<SecretError['code'], number> = {
+    INVALID_SECRET: 400,
+    SECRET_NOT_FOUND: 404,
+    NOT_CONFIGURED: 503,
+  };
+
+  /**
+   * List the secrets of the organization; their values are never returned
+   */
+  router.get('/secrets', requireUser, async (req: Request, res: Response) => {
+    try {
+      const user = getRequestUser(req)!;
+
+      res.json({
+        success: true,
+        data: await engineService.listSecrets(user.orgId),
+      });
+    } catch (error) {
+      console.error('Failed to list secrets:', error);
+      res.status(500).json({
+        error: 'Failed to list secrets',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Store a secret of the organization, for node params to reference as {{secret:<name>}}
+   */
+  router.put('/secrets/:name', requireUser, async (req: Request, res: Response) => {
+    try {
+      const { name } = req.params;
+      const user = getRequestUser(req)!;
+
+      const secret = await engineService.setSecret(user.orgId, name, req.body?.value, user.userId);
+
+      res.json({
+        success: true,
+        data: secret,
+      });
+    } catch (error) {
+      if (error instanceof SecretError) {
+        return res.status(secretErrorStatus[error.code]).json({
+          error: error.message,
+        });
+      }
+
+      console.error('Failed to store secret:', error);
+      res.status(500).json({
+        error: 'Failed to store secret',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Delete a secret of the organization
+   */
+  router.delete('/secrets/:name', requireUser, async (req: Request, res: Response) => {
+    try {
+      const user = getRequestUser(req)!;
+
+      await engineService.deleteSecret(user.orgId, req.params.name);
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof SecretError) {
+        return res.status(secretErrorStatus[error.code]).json({
+          error: error.message,
+        });
+      }
+
+      console.error('Failed to delete secret:', error);
+      res.status(500).json({
+        error: 'Failed to delete secret',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   /**
    * Get workflow run details
    */
@@ -587,6 +1609,76 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
     }
   });
 
+  /**
+   * Get a workflow run with its sub-workflow runs
+   */
+  router.get('/workflow-runs/:runId/tree', async (req: Request, res: Response) => {
+    try {
+      const { runId } = req.params;
+      const runTree = await engineService.getWorkflowRunTree(runId);
+
+      if (!runTree) {
+        return res.status(404).json({
+          error: 'Workflow run not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: runTree,
+      });
+    } catch (error) {
+      console.error('Failed to get workflow run tree:', error);
+      res.status(500).json({
+        error: 'Failed to get workflow run tree',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * Get a page of a workflow run's event log, oldest first. Pass the returned
+   * `nextCursor` as `after` to get the next page.
+   */
+  router.get('/workflow-runs/:runId/events', async (req: Request, res: Response) => {
+    try {
+      const { runId } = req.params;
+      const after = req.query.after ? parseInt(req.query.after as string) : 0;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+
+      if (!Number.isInteger(after) || after < 0) {
+        return res.status(400).json({
+          error: 'after must be a non-negative integer',
+        });
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+        return res.status(400).json({
+          error: 'limit must be an integer between 1 and 500',
+        });
+      }
+
+      const workflowRun = await engineService.getWorkflowRun(runId);
+      if (!workflowRun) {
+        return res.status(404).json({
+          error: 'Workflow run not found',
+        });
+      }
+
+      const page = await engineService.getRunEvents(runId, after, limit);
+
+      res.json({
+        success: true,
+        data: page,
+      });
+    } catch (error) {
+      console.error('Failed to get workflow run events:', error);
+      res.status(500).json({
+        error: 'Failed to get workflow run events',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   /**
    * Get workflow run history
    */
@@ -641,11 +1733,11 @@ export function createWorkflowEngineRoutes(engineService: WorkflowEngineService)
         });
       }
 
-      const workflowRun = await engineService.processLifecycleEvent(event);
+      const workflowRuns = await engineService.processLifecycleEvent(event);
 
       res.status(201).json({
         success: true,
-        data: workflowRun,
+        data: workflowRuns,
       });
     } catch (error) {
       console.error('Failed to process lifecycle event:', error);
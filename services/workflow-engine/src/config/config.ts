@@ -15,6 +15,17 @@ export function createWorkflowEngineConfig(): WorkflowEngineConfig {
       nodeExecutionTimeout: parseInt(process.env.NODE_EXECUTION_TIMEOUT || '300000'), // 5 minutes
       workflowExecutionTimeout: parseInt(process.env.WORKFLOW_EXECUTION_TIMEOUT || '3600000'), // 1 hour
       errorHandling: getErrorHandlingConfig(process.env.NODE_ENV || 'development'),
+      reconciliation: {
+        intervalMs: parseInt(process.env.RECONCILIATION_INTERVAL || '60000'), // 1 minute
+        heartbeatIntervalMs: parseInt(process.env.HEARTBEAT_INTERVAL || '10000'), // 10 seconds
+        stalledAfterMinutes: parseInt(process.env.RECONCILIATION_STALLED_AFTER_MINUTES || '1'),
+        staleNodeMs: parseInt(process.env.RECONCILIATION_STALE_NODE_MS || '300000'), // 5 minutes
+      },
+      // Debug runs are off in production unless explicitly enabled
+      allowDebugRuns: process.env.ALLOW_DEBUG_RUNS
+        ? process.env.ALLOW_DEBUG_RUNS === 'true'
+        : process.env.NODE_ENV !== 'production',
+      signalBufferTtlMs: parseInt(process.env.SIGNAL_BUFFER_TTL || '604800000'), // 7 days
     },
 
     stateManager: {
@@ -62,6 +73,30 @@ export function createWorkflowEngineConfig(): WorkflowEngineConfig {
       },
     },
 
+    scheduler: {
+      pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL || '15000'), // 15 seconds
+      leaderTtlSeconds: parseInt(process.env.SCHEDULER_LEADER_TTL || '45'),
+      misfireThresholdMs: parseInt(process.env.SCHEDULER_MISFIRE_THRESHOLD || '60000'), // 1 minute
+    },
+
+    tenantScheduler: {
+      maxConcurrentNodes: parseInt(process.env.TENANT_MAX_CONCURRENT_NODES || '500'),
+      quotaCacheTtlMs: parseInt(process.env.TENANT_QUOTA_CACHE_TTL || '60000'), // 1 minute
+      drainIntervalMs: parseInt(process.env.TENANT_DRAIN_INTERVAL || '1000'), // 1 second
+    },
+
+    // e.g. identity.provision=http://identity-service:3003/schema,identity.deprovision=...
+    nodeSchemaEndpoints: Object.fromEntries(
+      (process.env.NODE_SCHEMA_ENDPOINTS || '')
+        .split(',')
+        .filter(Boolean)
+        .map((entry) => entry.split('=').map((part) => part.trim()))
+    ),
+
+    secrets: {
+      encryptionKey: process.env.SECRETS_ENCRYPTION_KEY,
+    },
+
     kafka: {
       brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
       clientId: process.env.KAFKA_CLIENT_ID || 'workflow-engine',
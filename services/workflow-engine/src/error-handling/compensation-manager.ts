@@ -1,13 +1,41 @@
 /**
- * Compensation flow execution for failed workflows
+ * Compensation flow execution for failed workflows. Plans and the status of
+ * their steps are persisted, so failed steps can be retried or skipped later.
  */
 
-import { UUID, WorkflowNode } from '@officeflow/types';
+import {
+  UUID,
+  WorkflowNode,
+  CompensationPlanRepository,
+  CompensationPlanStatus,
+  CompensationStep,
+  CompensationTrigger,
+  RunCompensationPlan,
+  RunEventActor,
+} from '@officeflow/types';
 import { WorkflowParser, ParsedWorkflow } from '../orchestrator/workflow-parser';
 import { WorkflowState, NodeState } from '../types/workflow-state';
 import { RedisStateManager } from '../state/redis-state-manager';
 import { NodeDispatcher } from '../execution/node-dispatcher';
 import { ExecutionContextManager } from '../execution/context-manager';
+import { RunEventLog } from '../state/run-event-log';
+import { mapCompensationPlanEntityToPlan } from '../utils/entity-mappers';
+
+export class CompensationError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'NOT_FOUND'
+      | 'NOT_COMPENSABLE'
+      | 'ALREADY_COMPENSATED'
+      | 'NO_COMPENSATION'
+      | 'INVALID_STEP'
+      | 'IN_PROGRESS'
+  ) {
+    super(message);
+    this.name = 'CompensationError';
+  }
+}
 
 export interface CompensationNode extends WorkflowNode {
   compensatesFor: UUID[]; // Array of node IDs this compensates for
@@ -16,27 +44,41 @@ export interface CompensationNode extends WorkflowNode {
 }
 
 export interface CompensationPlan {
+  id: UUID;
   workflowId: UUID;
   runId: UUID;
+  trigger: CompensationTrigger;
+  status: CompensationPlanStatus;
+  reason?: string;
   compensationNodes: CompensationNode[];
   executionOrder: UUID[]; // Ordered list of compensation node IDs
+  steps: CompensationStep[]; // one per compensation node, in execution order
   failedNodes: Set<UUID>;
   completedNodes: Set<UUID>;
 }
 
+export interface CompensationRequest {
+  reason?: string;
+  requestedBy?: string;
+}
+
 export class CompensationManager {
   constructor(
     private stateManager: RedisStateManager,
     private nodeDispatcher: NodeDispatcher,
-    private contextManager: ExecutionContextManager
+    private contextManager: ExecutionContextManager,
+    private runEventLog: RunEventLog,
+    private compensationPlanRepo: CompensationPlanRepository
   ) {}
 
   /**
-   * Create compensation plan for failed workflow
+   * Create and persist the compensation plan of a run
    */
   async createCompensationPlan(
     parsedWorkflow: ParsedWorkflow,
-    workflowState: WorkflowState
+    workflowState: WorkflowState,
+    trigger: CompensationTrigger = 'failure',
+    request: CompensationRequest = {}
   ): Promise<CompensationPlan | null> {
     const compensationNodes = this.findCompensationNodes(
       parsedWorkflow,
@@ -51,12 +93,36 @@ export class CompensationManager {
 
     // Order compensation nodes by compensation order (reverse execution order)
     const orderedNodes = this.orderCompensationNodes(compensationNodes);
+    const steps: CompensationStep[] = orderedNodes.map((node) => ({
+      nodeId: node.id,
+      nodeName: node.name,
+      compensationType: node.compensationType,
+      compensatesFor: node.compensatesFor,
+      status: 'PENDING',
+      attempts: 0,
+    }));
+
+    const entity = await this.compensationPlanRepo.create({
+      run_id: workflowState.runId,
+      workflow_id: workflowState.workflowId,
+      org_id: workflowState.organizationId,
+      trigger_type: trigger,
+      status: 'PENDING',
+      reason: request.reason,
+      requested_by: request.requestedBy,
+      steps,
+    });
 
     const plan: CompensationPlan = {
+      id: entity.plan_id,
       workflowId: workflowState.workflowId,
       runId: workflowState.runId,
+      trigger,
+      status: 'PENDING',
+      reason: request.reason,
       compensationNodes,
       executionOrder: orderedNodes.map((node) => node.id),
+      steps,
       failedNodes: workflowState.failedNodes,
       completedNodes: workflowState.completedNodes,
     };
@@ -64,17 +130,61 @@ export class CompensationManager {
     console.log(`Created compensation plan for workflow ${workflowState.runId}:`, {
       compensationNodeCount: compensationNodes.length,
       executionOrder: plan.executionOrder,
+      trigger,
     });
 
     return plan;
   }
 
   /**
-   * Execute compensation plan
+   * Load the persisted compensation plan of a run, with the nodes of its steps
+   */
+  async loadCompensationPlan(
+    parsedWorkflow: ParsedWorkflow,
+    workflowState: WorkflowState
+  ): Promise<CompensationPlan | null> {
+    const entity = await this.compensationPlanRepo.findByRun(workflowState.runId);
+    if (!entity) {
+      return null;
+    }
+
+    const steps = entity.steps || [];
+    const compensationNodes = steps
+      .map((step) => parsedWorkflow.nodeMap.get(step.nodeId))
+      .filter((node): node is WorkflowNode => !!node)
+      .map((node) => this.toCompensationNode(node));
+
+    return {
+      id: entity.plan_id,
+      workflowId: entity.workflow_id,
+      runId: entity.run_id,
+      trigger: entity.trigger_type,
+      status: entity.status,
+      reason: entity.reason,
+      compensationNodes,
+      executionOrder: steps.map((step) => step.nodeId),
+      steps,
+      failedNodes: workflowState.failedNodes,
+      completedNodes: workflowState.completedNodes,
+    };
+  }
+
+  /**
+   * Get the compensation plan of a run as stored
+   */
+  async getCompensationPlan(runId: UUID): Promise<RunCompensationPlan | null> {
+    const entity = await this.compensationPlanRepo.findByRun(runId);
+    return entity ? mapCompensationPlanEntityToPlan(entity) : null;
+  }
+
+  /**
+   * Execute compensation plan. Throws the first step failure, once every step
+   * that can still run has run.
    */
   async executeCompensationPlan(
     plan: CompensationPlan,
-    workflowState: WorkflowState
+    workflowState: WorkflowState,
+    actor?: RunEventActor
   ): Promise<void> {
     console.log(`Starting compensation execution for workflow: ${plan.runId}`);
 
@@ -86,84 +196,300 @@ export class CompensationManager {
     };
 
     await this.stateManager.setWorkflowState(compensatingState);
+    await this.runEventLog.record(plan.runId, {
+      type: 'run.status_changed',
+      fromStatus: workflowState.status,
+      toStatus: 'COMPENSATING',
+      actor,
+      data: {
+        trigger: 'compensate',
+        compensationTrigger: plan.trigger,
+        executionOrder: plan.executionOrder,
+      },
+    });
+
+    const failure = await this.runSteps(plan, compensatingState, actor);
+    if (failure) {
+      console.error(`Compensation execution failed for workflow ${plan.runId}:`, failure);
+      throw failure;
+    }
+
+    console.log(`Compensation execution completed for workflow: ${plan.runId}`);
+  }
+
+  /**
+   * Run the remaining steps of a plan on a run that has ended, then return the
+   * run to the status it ended with. Step failures are kept on the plan.
+   */
+  async resumeCompensationPlan(
+    plan: CompensationPlan,
+    workflowState: WorkflowState,
+    actor?: RunEventActor
+  ): Promise<RunCompensationPlan> {
+    this.assertNotRunning(plan);
 
     try {
-      // Execute compensation nodes in order
-      for (const nodeId of plan.executionOrder) {
-        const compensationNode = plan.compensationNodes.find((n) => n.id === nodeId);
-        if (!compensationNode) {
+      await this.executeCompensationPlan(plan, workflowState, actor);
+    } catch (error) {
+      console.warn(`Compensation of workflow ${plan.runId} still has failed steps`);
+    }
+
+    await this.stateManager.setWorkflowState({ ...workflowState, lastUpdatedAt: new Date() });
+    await this.runEventLog.record(plan.runId, {
+      type: 'run.status_changed',
+      fromStatus: 'COMPENSATING',
+      toStatus: workflowState.status,
+      actor,
+      data: { trigger: 'compensate', compensationStatus: plan.status },
+    });
+
+    const storedPlan = await this.getCompensationPlan(plan.runId);
+    if (!storedPlan) {
+      throw new CompensationError(
+        `Compensation plan of workflow run ${plan.runId} not found`,
+        'NOT_FOUND'
+      );
+    }
+    return storedPlan;
+  }
+
+  /**
+   * Run a failed step again, followed by the steps that were waiting on it
+   */
+  async retryStep(
+    plan: CompensationPlan,
+    nodeId: UUID,
+    workflowState: WorkflowState,
+    actor?: RunEventActor
+  ): Promise<RunCompensationPlan> {
+    this.assertNotRunning(plan);
+    const step = this.findStep(plan, nodeId);
+    if (step.status !== 'FAILED') {
+      throw new CompensationError(
+        `Compensation step ${nodeId} is ${step.status}; only failed steps can be retried`,
+        'INVALID_STEP'
+      );
+    }
+
+    step.status = 'PENDING';
+    return this.resumeCompensationPlan(plan, workflowState, actor);
+  }
+
+  /**
+   * Mark a failed or pending step as skipped, for example when it was undone by
+   * hand, and run the steps that were waiting on it
+   */
+  async skipStep(
+    plan: CompensationPlan,
+    nodeId: UUID,
+    justification: string,
+    workflowState: WorkflowState,
+    actor?: RunEventActor
+  ): Promise<RunCompensationPlan> {
+    this.assertNotRunning(plan);
+    const step = this.findStep(plan, nodeId);
+    if (step.status !== 'FAILED' && step.status !== 'PENDING') {
+      throw new CompensationError(
+        `Compensation step ${nodeId} is ${step.status}; it can no longer be skipped`,
+        'INVALID_STEP'
+      );
+    }
+
+    const fromStatus = step.status;
+    step.status = 'SKIPPED';
+    step.skipReason = justification;
+    step.skippedBy = actor?.id;
+    step.endedAt = new Date().toISOString();
+    await this.saveProgress(plan);
+    await this.runEventLog.record(plan.runId, {
+      type: 'compensation.step',
+      nodeId,
+      attempt: step.attempts,
+      fromStatus,
+      toStatus: 'SKIPPED',
+      actor,
+      data: { compensationType: step.compensationType, justification },
+    });
+
+    return this.resumeCompensationPlan(plan, workflowState, actor);
+  }
+
+  /**
+   * Run the pending steps of a plan in order, saving progress after every
+   * change. A failed rollback or custom step stops the steps after it; failed
+   * cleanup and notification steps don't.
+   */
+  private async runSteps(
+    plan: CompensationPlan,
+    workflowState: WorkflowState,
+    actor?: RunEventActor
+  ): Promise<Error | undefined> {
+    plan.status = 'RUNNING';
+    await this.saveProgress(plan);
+
+    let failure: Error | undefined;
+    for (const step of plan.steps) {
+      if (step.status === 'PENDING') {
+        const error = await this.executeCompensationNode(step, plan, workflowState, actor);
+        if (!error) {
           continue;
         }
-
-        await this.executeCompensationNode(compensationNode, plan, compensatingState);
+        failure = failure || error;
+      } else if (step.status === 'FAILED') {
+        failure = failure || new Error(`Compensation node ${step.nodeId} failed: ${step.error}`);
+      } else {
+        continue;
       }
 
-      console.log(`Compensation execution completed for workflow: ${plan.runId}`);
-    } catch (error) {
-      console.error(`Compensation execution failed for workflow ${plan.runId}:`, error);
-      throw error;
+      // Decide whether to continue or abort compensation
+      if (!this.shouldContinueCompensationOnFailure(step)) {
+        break;
+      }
+      console.warn(`Continuing compensation despite node failure: ${step.nodeId}`);
     }
+
+    plan.status = plan.steps.every(
+      (step) => step.status === 'COMPLETED' || step.status === 'SKIPPED'
+    )
+      ? 'COMPLETED'
+      : 'FAILED';
+    await this.saveProgress(plan);
+
+    return failure;
   }
 
   /**
-   * Execute a single compensation node
+   * Execute a single compensation step, returning its error if it failed
    */
   private async executeCompensationNode(
-    compensationNode: CompensationNode,
+    step: CompensationStep,
     plan: CompensationPlan,
-    workflowState: WorkflowState
-  ): Promise<void> {
-    console.log(
-      `Executing compensation node: ${compensationNode.id} (${compensationNode.compensationType})`
-    );
-
-    // Prepare compensation context
-    const context = this.contextManager.deserializeContext(JSON.stringify(workflowState.context));
-
-    // Add compensation-specific context
-    const compensationContext = {
-      ...context.variables,
-      compensation: {
-        type: compensationNode.compensationType,
-        compensatesFor: compensationNode.compensatesFor,
-        failedNodes: Array.from(plan.failedNodes),
-        completedNodes: Array.from(plan.completedNodes),
-      },
+    workflowState: WorkflowState,
+    actor?: RunEventActor
+  ): Promise<Error | undefined> {
+    const compensationNode = plan.compensationNodes.find((n) => n.id === step.nodeId);
+
+    step.attempts += 1;
+    step.status = 'RUNNING';
+    step.startedAt = new Date().toISOString();
+    step.error = undefined;
+    step.endedAt = undefined;
+    await this.saveProgress(plan);
+
+    const event = {
+      type: 'compensation.step' as const,
+      nodeId: step.nodeId,
+      attempt: step.attempts,
+      actor,
     };
-
-    // Prepare node input
-    const nodeInput = {
-      ...compensationNode.params,
-      context: compensationContext,
-      organizationId: workflowState.organizationId,
-      employeeId: workflowState.employeeId,
+    const stepData = {
+      compensationType: step.compensationType,
+      compensatesFor: step.compensatesFor,
     };
+    await this.runEventLog.record(plan.runId, {
+      ...event,
+      toStatus: 'RUNNING',
+      data: stepData,
+    });
 
+    let failure: Error | undefined;
     try {
+      if (!compensationNode) {
+        throw new Error(`Compensation node ${step.nodeId} is not in the workflow`);
+      }
+      console.log(
+        `Executing compensation node: ${compensationNode.id} (${compensationNode.compensationType})`
+      );
+
+      // Prepare compensation context
+      const context = this.contextManager.deserializeContext(JSON.stringify(workflowState.context));
+
+      // Add compensation-specific context
+      const compensationContext = {
+        ...context.variables,
+        compensation: {
+          type: compensationNode.compensationType,
+          trigger: plan.trigger,
+          reason: plan.reason,
+          compensatesFor: compensationNode.compensatesFor,
+          failedNodes: Array.from(plan.failedNodes),
+          completedNodes: Array.from(plan.completedNodes),
+        },
+      };
+
+      // Prepare node input
+      const nodeInput = {
+        ...compensationNode.params,
+        context: compensationContext,
+        organizationId: workflowState.organizationId,
+        employeeId: workflowState.employeeId,
+      };
+
       // Dispatch compensation node
       await this.nodeDispatcher.dispatchNode(
         plan.runId,
         compensationNode,
         nodeInput,
         { ...context, variables: compensationContext },
-        1 // First attempt
+        step.attempts
       );
 
       // Wait for completion (simplified - in practice, this would be event-driven)
       await this.waitForCompensationNodeCompletion(
         plan.runId,
         compensationNode.id,
+        step.attempts,
         30000 // 30 second timeout
       );
+      step.status = 'COMPLETED';
     } catch (error) {
-      console.error(`Compensation node ${compensationNode.id} failed:`, error);
+      console.error(`Compensation node ${step.nodeId} failed:`, error);
+      failure = error instanceof Error ? error : new Error(String(error));
+      step.status = 'FAILED';
+      step.error = failure.message;
+    }
 
-      // Decide whether to continue or abort compensation
-      if (this.shouldContinueCompensationOnFailure(compensationNode)) {
-        console.warn(`Continuing compensation despite node failure: ${compensationNode.id}`);
-      } else {
-        throw error;
-      }
+    step.endedAt = new Date().toISOString();
+    await this.saveProgress(plan);
+    await this.runEventLog.record(plan.runId, {
+      ...event,
+      fromStatus: 'RUNNING',
+      toStatus: step.status,
+      data: failure ? { ...stepData, error: failure.message } : stepData,
+    });
+
+    return failure;
+  }
+
+  /**
+   * Persist the status of a plan and its steps. Failures are logged: losing
+   * progress must not stop the compensation it tracks.
+   */
+  private async saveProgress(plan: CompensationPlan): Promise<void> {
+    try {
+      await this.compensationPlanRepo.updateProgress(plan.id, plan.status, plan.steps);
+    } catch (error) {
+      console.error(`Failed to save compensation progress of run ${plan.runId}:`, error);
+    }
+  }
+
+  private findStep(plan: CompensationPlan, nodeId: UUID): CompensationStep {
+    const step = plan.steps.find((candidate) => candidate.nodeId === nodeId);
+    if (!step) {
+      throw new CompensationError(
+        `Node ${nodeId} is not a step of the compensation plan of run ${plan.runId}`,
+        'INVALID_STEP'
+      );
+    }
+    return step;
+  }
+
+  private assertNotRunning(plan: CompensationPlan): void {
+    if (plan.status === 'RUNNING') {
+      throw new CompensationError(
+        `Compensation of workflow run ${plan.runId} is already running`,
+        'IN_PROGRESS'
+      );
     }
   }
 
@@ -180,7 +506,7 @@ export class CompensationManager {
     // Look for nodes that have compensation type
     for (const node of parsedWorkflow.definition.definition.nodes) {
       if (this.isCompensationNode(node)) {
-        const compensationNode = node as CompensationNode;
+        const compensationNode = this.toCompensationNode(node);
 
         // Check if this compensation node should be executed
         if (this.shouldExecuteCompensation(compensationNode, completedNodes, failedNodes)) {
@@ -203,6 +529,20 @@ export class CompensationManager {
     );
   }
 
+  /**
+   * Read the compensation settings of a node, which workflow definitions keep
+   * in its params
+   */
+  private toCompensationNode(node: WorkflowNode): CompensationNode {
+    const candidate = node as Partial<CompensationNode> & WorkflowNode;
+    return {
+      ...node,
+      compensatesFor: candidate.compensatesFor || node.params?.compensatesFor || [],
+      compensationType: candidate.compensationType || node.params?.compensationType || 'custom',
+      compensationOrder: candidate.compensationOrder ?? node.params?.compensationOrder ?? 0,
+    };
+  }
+
   /**
    * Check if compensation should be executed
    */
@@ -235,6 +575,7 @@ export class CompensationManager {
   private async waitForCompensationNodeCompletion(
     runId: UUID,
     nodeId: UUID,
+    attempt: number,
     timeoutMs: number
   ): Promise<void> {
     const startTime = Date.now();
@@ -242,7 +583,8 @@ export class CompensationManager {
     while (Date.now() - startTime < timeoutMs) {
       const nodeState = await this.stateManager.getNodeState(runId, nodeId);
 
-      if (nodeState) {
+      // Earlier attempts of a retried step left their outcome behind
+      if (nodeState && nodeState.attempt === attempt) {
         if (nodeState.status === 'COMPLETED') {
           return;
         } else if (nodeState.status === 'FAILED') {
@@ -260,7 +602,9 @@ export class CompensationManager {
   /**
    * Determine if compensation should continue on node failure
    */
-  private shouldContinueCompensationOnFailure(compensationNode: CompensationNode): boolean {
+  private shouldContinueCompensationOnFailure(
+    compensationNode: Pick<CompensationNode, 'compensationType'>
+  ): boolean {
     // Continue for cleanup and notification types, but not for rollback
     return (
       compensationNode.compensationType === 'cleanup' ||
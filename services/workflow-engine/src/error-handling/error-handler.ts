@@ -2,7 +2,7 @@
  * Enhanced error handling manager that integrates retry, circuit breaker, compensation, and logging
  */
 
-import { UUID, WorkflowNode } from '@officeflow/types';
+import { UUID, WorkflowNode, CompensationPlanRepository } from '@officeflow/types';
 import { RetryManager, RetryContext } from './retry-manager';
 import { CircuitBreakerManager } from './circuit-breaker';
 import { CompensationManager } from './compensation-manager';
@@ -10,6 +10,7 @@ import { ErrorLogger } from './error-logger';
 import { RedisStateManager } from '../state/redis-state-manager';
 import { NodeDispatcher } from '../execution/node-dispatcher';
 import { ExecutionContextManager } from '../execution/context-manager';
+import { RunEventLog } from '../state/run-event-log';
 import { OfficeFlowProducer } from '@officeflow/kafka';
 import { WorkflowState } from '../types/workflow-state';
 import { ParsedWorkflow } from '../orchestrator/workflow-parser';
@@ -46,22 +47,26 @@ export interface WorkflowExecutionError {
 export class ErrorHandler {
   private retryManager: RetryManager;
   private circuitBreakerManager: CircuitBreakerManager;
-  private compensationManager: CompensationManager;
-  private errorLogger: ErrorLogger;
+  readonly compensationManager: CompensationManager;
+  readonly errorLogger: ErrorLogger;
 
   constructor(
     private config: ErrorHandlingConfig,
     private stateManager: RedisStateManager,
     private nodeDispatcher: NodeDispatcher,
     private contextManager: ExecutionContextManager,
-    private producer: OfficeFlowProducer
+    private producer: OfficeFlowProducer,
+    private runEventLog: RunEventLog,
+    compensationPlanRepo: CompensationPlanRepository
   ) {
     this.retryManager = new RetryManager(stateManager);
     this.circuitBreakerManager = new CircuitBreakerManager(stateManager);
     this.compensationManager = new CompensationManager(
       stateManager,
       nodeDispatcher,
-      contextManager
+      contextManager,
+      runEventLog,
+      compensationPlanRepo
     );
     this.errorLogger = new ErrorLogger(producer, stateManager);
   }
@@ -177,7 +182,8 @@ export class ErrorHandler {
       if (this.config.enableCompensation) {
         compensationPlan = await this.compensationManager.createCompensationPlan(
           parsedWorkflow,
-          workflowState
+          workflowState,
+          error?.code === 'WORKFLOW_TIMEOUT' ? 'timeout' : 'failure'
         );
 
         shouldExecuteCompensation = compensationPlan !== null;
@@ -203,6 +203,21 @@ export class ErrorLogger {
     );
   }
 
+  /**
+   * Log an SLA of a run or node that is about to be missed or was missed
+   */
+  async logSlaEvent(
+    level: 'WARN' | 'ERROR',
+    code: 'SLA_AT_RISK' | 'SLA_BREACHED',
+    message: string,
+    context: ErrorContext
+  ): Promise<void> {
+    await this.logError(level, context.nodeId ? 'NODE' : 'WORKFLOW', code, message, null, context, [
+      'sla',
+      context.nodeId ? 'node' : 'workflow',
+    ]);
+  }
+
   /**
    * Add custom alert rule
    */
@@ -433,7 +448,8 @@ export class ErrorLogger {
     this.addAlertRule({
       id: 'high_error_rate',
       name: 'High Error Rate',
-      condition: (entry) => entry.level === 'ERROR' || entry.level === 'FATAL',
+      condition: (entry) =>
+        (entry.level === 'ERROR' || entry.level === 'FATAL') && !entry.tags.includes('sla'),
       severity: 'HIGH',
       cooldownMs: 300000, // 5 minutes
       channels: [{ type: 'SLACK', config: { channel: '#alerts' } }],
@@ -443,7 +459,8 @@ export class ErrorLogger {
     this.addAlertRule({
       id: 'workflow_failure',
       name: 'Workflow Execution Failure',
-      condition: (entry) => entry.category === 'WORKFLOW' && entry.level === 'ERROR',
+      condition: (entry) =>
+        entry.category === 'WORKFLOW' && entry.level === 'ERROR' && !entry.tags.includes('sla'),
       severity: 'MEDIUM',
       cooldownMs: 600000, // 10 minutes
       channels: [{ type: 'EMAIL', config: { recipients: ['ops@company.com'] } }],
@@ -461,6 +478,28 @@ export class ErrorLogger {
         { type: 'SLACK', config: { channel: '#critical-alerts' } },
       ],
     });
+
+    // SLA rules alert on every run and node, so they have no cooldown
+    this.addAlertRule({
+      id: 'sla_warning',
+      name: 'SLA At Risk',
+      condition: (entry) => entry.code === 'SLA_AT_RISK',
+      severity: 'MEDIUM',
+      cooldownMs: 0,
+      channels: [{ type: 'SLACK', config: { channel: '#alerts' } }],
+    });
+
+    this.addAlertRule({
+      id: 'sla_breach',
+      name: 'SLA Breached',
+      condition: (entry) => entry.code === 'SLA_BREACHED',
+      severity: 'HIGH',
+      cooldownMs: 0,
+      channels: [
+        { type: 'SLACK', config: { channel: '#alerts' } },
+        { type: 'EMAIL', config: { recipients: ['ops@company.com'] } },
+      ],
+    });
   }
 
   /**
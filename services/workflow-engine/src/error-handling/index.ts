@@ -11,7 +11,13 @@ export {
   CircuitBreakerStats,
   CircuitBreakerOpenError,
 } from './circuit-breaker';
-export { CompensationManager, CompensationNode, CompensationPlan } from './compensation-manager';
+export {
+  CompensationManager,
+  CompensationNode,
+  CompensationPlan,
+  CompensationRequest,
+  CompensationError,
+} from './compensation-manager';
 export {
   ErrorLogger,
   ErrorContext,
@@ -101,6 +101,7 @@ export class RetryManager {
       'REDIS_ERROR',
       'KAFKA_ERROR',
       'RATE_LIMIT_EXCEEDED',
+      'NODE_TIMEOUT',
     ];
 
     if (error.code && retryableErrorCodes.includes(error.code)) {
@@ -114,7 +115,11 @@ export class RetryManager {
    * Schedule a retry for a failed node
    */
   async scheduleRetry(context: RetryContext): Promise<Date> {
-    const retryDelay = this.calculateRetryDelay(context.retryPolicy, context.attempt);
+    // Never retry sooner than the external service asked for via Retry-After
+    const retryDelay = Math.max(
+      this.calculateRetryDelay(context.retryPolicy, context.attempt),
+      context.lastError?.details?.retryAfterMs || 0
+    );
     const retryAt = new Date(Date.now() + retryDelay);
 
     // Update node state to RETRYING
@@ -0,0 +1,336 @@
+/**
+ * Human approval requests, decisions and escalation for approval nodes
+ */
+
+import { UUID, WorkflowNode, ExecutionContext, EmployeeRepository } from '@officeflow/types';
+import { OfficeFlowProducer } from '@officeflow/kafka';
+import { RedisStateManager } from '../state/redis-state-manager';
+import { TimerService } from './timer-service';
+import { NodeState } from '../types/workflow-state';
+
+export type ApprovalChannel = 'email' | 'slack';
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export interface ApprovalParams {
+  approvers: string[]; // email addresses or Slack user IDs
+  channel?: ApprovalChannel;
+  subject?: string;
+  message?: string;
+  timeout?: number | string; // hours, or a duration such as '2d 12h'
+  escalation?: {
+    maxLevels?: number; // how far up the management chain to escalate
+    onExhausted?: 'reject' | 'fail'; // outcome once nobody is left to escalate to
+  };
+}
+
+export interface PendingApproval {
+  approvers: string[];
+  channel: ApprovalChannel;
+  requestedAt: string;
+  expiresAt: string;
+  escalationLevel: number;
+  escalatedTo?: UUID; // employee ID of the latest escalation target
+}
+
+/** The signed-in user deciding an approval */
+export interface ApprovalDecider {
+  userId: UUID;
+  orgId: UUID;
+  email?: string;
+}
+
+export class ApprovalDecisionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOT_PENDING' | 'NOT_APPROVER'
+  ) {
+    super(message);
+    this.name = 'ApprovalDecisionError';
+  }
+}
+
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 7 * 24 * 60 * 60 * 1000;
+
+const NOTIFICATION_TOPICS: Record<ApprovalChannel, string> = {
+  email: 'email.send.request',
+  slack: 'slack.message.request',
+};
+
+export class ApprovalService {
+  constructor(
+    private stateManager: RedisStateManager,
+    private producer: OfficeFlowProducer,
+    private employeeRepo: EmployeeRepository,
+    private timerService: TimerService
+  ) {}
+
+  /**
+   * Validate and normalise the resolved input of an approval node
+   */
+  resolveParams(input: Record<string, any>): ApprovalParams {
+    const approvers = Array.isArray(input.approvers) ? input.approvers : [input.approvers];
+    if (
+      approvers.length === 0 ||
+      approvers.some((approver) => typeof approver !== 'string' || approver.trim() === '')
+    ) {
+      throw new Error('Approval node requires at least one approver');
+    }
+
+    const channel: ApprovalChannel = input.channel || 'email';
+    if (!NOTIFICATION_TOPICS[channel]) {
+      throw new Error(`Unsupported approval channel: ${channel}`);
+    }
+
+    return { ...input, approvers, channel };
+  }
+
+  /**
+   * Park an approval node until a decision arrives, notify the approvers and
+   * schedule the approval deadline
+   */
+  async requestApproval(
+    runId: UUID,
+    node: WorkflowNode,
+    input: Record<string, any>,
+    context: ExecutionContext,
+    attempt: number = 1
+  ): Promise<PendingApproval> {
+    const params = this.resolveParams(input);
+    const requestedAt = new Date();
+    const expiresAt = new Date(requestedAt.getTime() + this.getTimeoutMs(params));
+
+    const pending: PendingApproval = {
+      approvers: params.approvers,
+      channel: params.channel || 'email',
+      requestedAt: requestedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      escalationLevel: 0,
+    };
+
+    const nodeState: NodeState = {
+      nodeId: node.id,
+      runId,
+      status: 'RUNNING',
+      attempt,
+      input,
+      startedAt: requestedAt,
+      wakeAt: expiresAt,
+    };
+
+    await this.stateManager.setNodeState(nodeState);
+    await this.stateManager.scheduleTimer(runId, node.id, expiresAt);
+    await this.notifyApprovers(runId, node, params, pending, pending.approvers, context);
+
+    console.log(`Approval requested:`, {
+      runId,
+      nodeId: node.id,
+      approvers: pending.approvers,
+      expiresAt: pending.expiresAt,
+    });
+
+    return pending;
+  }
+
+  /**
+   * Collect every identity an approver may be listed under: the user's email and
+   * ID, and the employee ID and Slack user ID of their employee record
+   */
+  async resolveIdentities(decider: ApprovalDecider): Promise<string[]> {
+    const identities = [decider.email, decider.userId];
+    if (decider.email) {
+      const employee = await this.employeeRepo.findByEmail(decider.email);
+      if (employee && employee.org_id === decider.orgId) {
+        identities.push(employee.employee_id, employee.profile_data?.slackUserId);
+      }
+    }
+
+    return identities.filter((identity): identity is string => !!identity);
+  }
+
+  /**
+   * Check that a decision may be recorded and build the node output for it
+   */
+  buildDecisionOutput(
+    pending: PendingApproval,
+    decision: ApprovalDecision,
+    identities: string[],
+    comment?: string
+  ): Record<string, any> {
+    const decidedBy = identities.find((identity) =>
+      pending.approvers.some((approver) => approver.toLowerCase() === identity.toLowerCase())
+    );
+    if (!decidedBy) {
+      throw new ApprovalDecisionError(
+        `${identities[0]} is not an approver for this step`,
+        'NOT_APPROVER'
+      );
+    }
+
+    return {
+      decision,
+      decidedBy,
+      comment,
+      decidedAt: new Date().toISOString(),
+      escalationLevel: pending.escalationLevel,
+    };
+  }
+
+  /**
+   * Output recorded when an approval expires with nobody left to escalate to
+   */
+  buildExpiredOutput(pending: PendingApproval): Record<string, any> {
+    return {
+      decision: 'rejected',
+      decidedBy: 'system',
+      reason: 'APPROVAL_EXPIRED',
+      decidedAt: new Date().toISOString(),
+      escalationLevel: pending.escalationLevel,
+    };
+  }
+
+  /**
+   * Escalate an expired approval to the next manager up the chain. Returns the
+   * updated approval, or null when escalation is exhausted.
+   */
+  async escalate(
+    runId: UUID,
+    node: WorkflowNode,
+    employeeId: UUID,
+    pending: PendingApproval,
+    context: ExecutionContext
+  ): Promise<PendingApproval | null> {
+    // Approvers may come from mappings; escalation settings are static node params
+    const params = node.params as ApprovalParams;
+    const maxLevels = params.escalation?.maxLevels ?? 1;
+    if (pending.escalationLevel >= maxLevels) {
+      return null;
+    }
+
+    const manager = await this.findNextManager(pending.escalatedTo || employeeId);
+    if (!manager) {
+      return null;
+    }
+
+    const escalationTarget = pending.channel === 'slack' ? manager.slackUserId : manager.email;
+    if (!escalationTarget) {
+      return null;
+    }
+
+    const expiresAt = new Date(Date.now() + this.getTimeoutMs(params));
+    const escalated: PendingApproval = {
+      ...pending,
+      approvers: Array.from(new Set([...pending.approvers, escalationTarget])),
+      expiresAt: expiresAt.toISOString(),
+      escalationLevel: pending.escalationLevel + 1,
+      escalatedTo: manager.employeeId,
+    };
+
+    const nodeState = await this.stateManager.getNodeState(runId, node.id);
+    if (nodeState) {
+      await this.stateManager.setNodeState({ ...nodeState, wakeAt: expiresAt });
+    }
+    // Replace the fired deadline, releasing its claim so the new one can fire
+    await this.timerService.cancelTimer(runId, node.id);
+    await this.stateManager.scheduleTimer(runId, node.id, expiresAt);
+    await this.notifyApprovers(runId, node, params, escalated, [escalationTarget], context);
+
+    console.log(`Approval escalated:`, {
+      runId,
+      nodeId: node.id,
+      escalationLevel: escalated.escalationLevel,
+      escalatedTo: manager.employeeId,
+    });
+
+    return escalated;
+  }
+
+  /**
+   * Stop tracking the approval deadline
+   */
+  async clearDeadline(runId: UUID, nodeId: UUID): Promise<void> {
+    await this.timerService.cancelTimer(runId, nodeId);
+  }
+
+  private getTimeoutMs(params: ApprovalParams): number {
+    if (params.timeout === undefined || params.timeout === null) {
+      return DEFAULT_APPROVAL_TIMEOUT_MS;
+    }
+    return this.timerService.parseDuration(params.timeout);
+  }
+
+  /**
+   * Resolve the manager of an employee. EmployeeRepository.findByManager lists
+   * direct reports, so the reporting line is read from the employee record instead.
+   */
+  private async findNextManager(
+    employeeId: UUID
+  ): Promise<{ employeeId: UUID; email: string; slackUserId?: string } | null> {
+    const employee = await this.employeeRepo.findById(employeeId);
+    if (!employee?.manager_id) {
+      return null;
+    }
+
+    const manager = await this.employeeRepo.findById(employee.manager_id);
+    if (!manager || manager.status !== 'active') {
+      return null;
+    }
+
+    return {
+      employeeId: manager.employee_id,
+      email: manager.email,
+      slackUserId: manager.profile_data?.slackUserId,
+    };
+  }
+
+  /**
+   * Ask the email or Slack service to notify approvers. Notification failures are
+   * logged rather than failing the node; approvers can still act through the API.
+   */
+  private async notifyApprovers(
+    runId: UUID,
+    node: WorkflowNode,
+    params: ApprovalParams,
+    pending: PendingApproval,
+    recipients: string[],
+    context: ExecutionContext
+  ): Promise<void> {
+    const subject = params.subject || `Approval required: ${node.name}`;
+    const text = [
+      params.message || `Your approval is required for "${node.name}".`,
+      `Approve or reject via /workflow-runs/${runId}/nodes/${node.id}/approve|reject.`,
+      `This request expires at ${pending.expiresAt}.`,
+    ].join('\n');
+
+    const payload =
+      pending.channel === 'slack'
+        ? { organizationId: context.organizationId, users: recipients, text }
+        : {
+            organizationId: context.organizationId,
+            to: recipients,
+            subject,
+            textContent: text,
+            priority: 'high',
+          };
+
+    try {
+      await this.producer.sendMessage(
+        NOTIFICATION_TOPICS[pending.channel],
+        {
+          type: 'approval.notification',
+          payload: { ...payload, runId, nodeId: node.id, escalationLevel: pending.escalationLevel },
+          metadata: {
+            correlationId: context.correlationId,
+            organizationId: context.organizationId,
+            employeeId: context.employeeId,
+            source: 'workflow-engine',
+            version: '1.0',
+          },
+        },
+        undefined,
+        `${runId}:${node.id}:approval:${pending.escalationLevel}`
+      );
+    } catch (error) {
+      console.error(`Failed to notify approvers for node ${node.id} in ${runId}:`, error);
+    }
+  }
+}
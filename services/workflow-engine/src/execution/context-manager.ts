@@ -2,8 +2,9 @@
  * Execution context management for workflow runs
  */
 
-import { UUID, ExecutionContext } from '@officeflow/types';
+import { UUID, ExecutionContext, ExecutionCondition, ParameterMapping } from '@officeflow/types';
 import { RedisStateManager } from '../state/redis-state-manager';
+import { ExpressionEngine } from '../expressions';
 
 export interface ContextVariable {
   name: string;
@@ -13,14 +14,6 @@ export interface ContextVariable {
   nodeId?: UUID;
 }
 
-export interface ParameterMapping {
-  sourceType: 'context' | 'node_output' | 'static' | 'expression';
-  sourcePath: string;
-  targetPath: string;
-  defaultValue?: any;
-  required?: boolean;
-}
-
 export class ExecutionContextManager {
   constructor(private stateManager: RedisStateManager) {}
 
@@ -99,6 +92,9 @@ export class ExecutionContextManager {
     parameterMappings.forEach((mapping) => {
       try {
         const value = this.resolveParameterValue(mapping, context, nodeOutputs);
+        if (value === undefined) {
+          throw new Error(`No value found at '${mapping.sourcePath}'`);
+        }
         this.setNestedValue(resolvedInput, mapping.targetPath, value);
       } catch (error) {
         if (mapping.required) {
@@ -126,8 +122,13 @@ export class ExecutionContextManager {
       case 'static':
         return this.parseStaticValue(mapping.sourcePath);
 
-      case 'context':
-        return this.getNestedValue(context.variables, mapping.sourcePath);
+      case 'context': {
+        const value = this.lookupVariable(context.variables, mapping.sourcePath);
+        if (value === undefined) {
+          throw new Error(`Context variable not found: ${mapping.sourcePath}`);
+        }
+        return value;
+      }
 
       case 'node_output':
         return this.resolveNodeOutputValue(mapping.sourcePath, nodeOutputs);
@@ -207,65 +208,115 @@ export class ExecutionContextManager {
   }
 
   /**
-   * Evaluate simple expressions (basic implementation)
+   * Evaluate an expression mapping. Upstream outputs are visible as
+   * nodes.<id|name>.output alongside the run context.
    */
   private evaluateExpression(
     expression: string,
     context: ExecutionContext,
     nodeOutputs: Map<UUID, Record<string, any>>
   ): any {
-    // This is a simplified expression evaluator
-    // In production, you'd want a more robust solution like JSONata or similar
-
-    // Replace context variables
-    let processedExpression = expression.replace(/\$\{([^}]+)\}/g, (match, varPath) => {
-      try {
-        const value = this.getNestedValue(context.variables, varPath);
-        return JSON.stringify(value);
-      } catch {
-        return match; // Keep original if not found
+    const variables = { ...context.variables };
+    nodeOutputs.forEach((output, nodeRef) => {
+      if (!(`nodes.${nodeRef}.output` in variables)) {
+        variables[`nodes.${nodeRef}.output`] = output;
       }
     });
 
-    // Replace node outputs
-    processedExpression = processedExpression.replace(
-      /\$nodes\.([^.]+)\.([^}\s]+)/g,
-      (match, nodeRef, outputPath) => {
-        try {
-          const output = nodeOutputs.get(nodeRef);
-          if (output) {
-            const value = this.getNestedValue(output, outputPath);
-            return JSON.stringify(value);
-          }
-        } catch {
-          // Ignore errors
+    return ExpressionEngine.evaluate(expression, variables);
+  }
+
+  /**
+   * Read a context variable by dotted path, or undefined when absent
+   */
+  getVariable(context: ExecutionContext, path: string): any {
+    return this.lookupVariable(context.variables, path);
+  }
+
+  /**
+   * Evaluate a boolean expression (edge condition) against the run context
+   */
+  evaluateCondition(expression: string, context: ExecutionContext, now?: Date): boolean {
+    return ExpressionEngine.evaluateBoolean(expression, context.variables, { now });
+  }
+
+  /**
+   * Evaluate a node's execution conditions left to right. Each condition's
+   * logicalOperator (default AND) joins it to the result of the ones before it.
+   */
+  evaluateExecutionConditions(
+    conditions: ExecutionCondition[],
+    context: ExecutionContext,
+    now?: Date
+  ): boolean {
+    return (
+      conditions.reduce<boolean | undefined>((result, condition) => {
+        const matched = this.evaluateExecutionCondition(condition, context, now);
+        if (result === undefined) {
+          return matched;
         }
-        return match;
-      }
+        return condition.logicalOperator === 'OR' ? result || matched : result && matched;
+      }, undefined) ?? true
     );
+  }
 
-    // Try to evaluate as JSON
-    try {
-      return JSON.parse(processedExpression);
-    } catch {
-      return processedExpression;
+  /**
+   * Evaluate a single execution condition; `field` is an expression
+   */
+  private evaluateExecutionCondition(
+    condition: ExecutionCondition,
+    context: ExecutionContext,
+    now?: Date
+  ): boolean {
+    const actual = ExpressionEngine.evaluate(condition.field, context.variables, { now });
+
+    switch (condition.operator) {
+      case 'equals':
+        return ExpressionEngine.equals(actual, condition.value);
+      case 'not_equals':
+        return !ExpressionEngine.equals(actual, condition.value);
+      case 'contains':
+        return this.containsValue(actual, condition.value);
+      case 'not_contains':
+        return !this.containsValue(actual, condition.value);
+      case 'greater_than':
+        return ExpressionEngine.compare(actual, condition.value, condition.operator) > 0;
+      case 'less_than':
+        return ExpressionEngine.compare(actual, condition.value, condition.operator) < 0;
+      default:
+        throw new Error(`Unsupported condition operator: ${condition.operator}`);
     }
   }
 
+  private containsValue(actual: any, expected: any): boolean {
+    if (typeof actual === 'string') {
+      return actual.includes(String(expected));
+    }
+    if (Array.isArray(actual)) {
+      return actual.some((item) => ExpressionEngine.equals(item, expected));
+    }
+    return false;
+  }
+
   /**
-   * Add secrets to context
+   * Look up a dotted path, matching flattened keys such as `event.payload` first
    */
-  addSecretsToContext(
-    context: ExecutionContext,
-    secrets: Record<string, string>
-  ): ExecutionContext {
-    return {
-      ...context,
-      secrets: {
-        ...context.secrets,
-        ...secrets,
-      },
-    };
+  private lookupVariable(variables: Record<string, any>, path: string): any {
+    const keys = path.split('.');
+
+    for (let prefixLength = keys.length; prefixLength > 0; prefixLength--) {
+      const flatKey = keys.slice(0, prefixLength).join('.');
+      if (flatKey in variables) {
+        return keys
+          .slice(prefixLength)
+          .reduce(
+            (current, key) => (current == null ? undefined : current[key]),
+            variables[flatKey]
+          );
+      }
+    }
+
+    return undefined;
   }
 
   /**
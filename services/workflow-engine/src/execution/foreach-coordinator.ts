@@ -0,0 +1,267 @@
+/**
+ * Fan-out bookkeeping for foreach nodes. Each item runs as an iteration node
+ * (`<foreachNodeId>#<index>`) and is recorded as a node run of the foreach node.
+ */
+
+import {
+  UUID,
+  WorkflowNode,
+  NodeType,
+  RetryPolicy,
+  ParameterMapping,
+  ExecutionContext,
+  NodeRunRepository,
+} from '@officeflow/types';
+import { v4 as uuidv4 } from 'uuid';
+
+export type ForeachFailureMode = 'fail_fast' | 'collect';
+
+export interface ForeachBody {
+  type: NodeType;
+  params?: Record<string, any>;
+  parameterMappings?: ParameterMapping[]; // may read foreach.item and foreach.index
+  retryPolicy?: RetryPolicy;
+  timeoutMs?: number;
+}
+
+export interface ForeachParams {
+  items: any[];
+  body: ForeachBody;
+  maxParallelism: number;
+  failureMode: ForeachFailureMode;
+}
+
+export interface ForeachProgress {
+  items: any[];
+  queued: number[]; // item indexes not started yet
+  running: number[];
+  results: Record<number, any>;
+  errors: Record<number, any>;
+  maxParallelism: number;
+  failureMode: ForeachFailureMode;
+}
+
+export interface IterationRef {
+  nodeId: UUID; // the foreach node
+  index: number;
+}
+
+export const MAX_FOREACH_ITEMS = 1000;
+export const MAX_FOREACH_PARALLELISM = 50;
+const DEFAULT_PARALLELISM = 5;
+
+const ITERATION_ID_PATTERN = /^(.+)#(\d+)$/;
+
+export function iterationNodeId(nodeId: UUID, index: number): UUID {
+  return `${nodeId}#${index}`;
+}
+
+export function parseIterationNodeId(nodeId: UUID): IterationRef | null {
+  const match = nodeId.match(ITERATION_ID_PATTERN);
+  return match ? { nodeId: match[1], index: Number(match[2]) } : null;
+}
+
+export class ForeachCoordinator {
+  constructor(private nodeRunRepo: NodeRunRepository) {}
+
+  /**
+   * Validate and normalise the resolved input of a foreach node
+   */
+  resolveParams(input: Record<string, any>): ForeachParams {
+    if (!Array.isArray(input.items)) {
+      throw new Error('foreach node requires an items array');
+    }
+    if (input.items.length > MAX_FOREACH_ITEMS) {
+      throw new Error(`foreach node supports at most ${MAX_FOREACH_ITEMS} items`);
+    }
+    if (!input.body || typeof input.body.type !== 'string') {
+      throw new Error('foreach node requires a body node type');
+    }
+
+    const maxParallelism = input.maxParallelism ?? DEFAULT_PARALLELISM;
+    if (
+      !Number.isInteger(maxParallelism) ||
+      maxParallelism < 1 ||
+      maxParallelism > MAX_FOREACH_PARALLELISM
+    ) {
+      throw new Error(`maxParallelism must be between 1 and ${MAX_FOREACH_PARALLELISM}`);
+    }
+
+    const failureMode: ForeachFailureMode = input.failureMode || 'fail_fast';
+    if (failureMode !== 'fail_fast' && failureMode !== 'collect') {
+      throw new Error(`Unsupported foreach failure mode: ${failureMode}`);
+    }
+
+    return { items: input.items, body: input.body, maxParallelism, failureMode };
+  }
+
+  /**
+   * Start tracking a foreach node. Iterations that completed in an earlier attempt
+   * are taken from node_runs and not run again.
+   */
+  async startProgress(runId: UUID, nodeId: UUID, params: ForeachParams): Promise<ForeachProgress> {
+    const progress: ForeachProgress = {
+      items: params.items,
+      queued: [],
+      running: [],
+      results: {},
+      errors: {},
+      maxParallelism: params.maxParallelism,
+      failureMode: params.failureMode,
+    };
+
+    const finishedRuns = await this.nodeRunRepo.findIterations(runId, nodeId);
+    for (const nodeRun of finishedRuns) {
+      if (nodeRun.status === 'COMPLETED' && nodeRun.iteration_index !== undefined) {
+        progress.results[nodeRun.iteration_index] = nodeRun.output || {};
+      }
+    }
+
+    progress.queued = params.items
+      .map((_item, index) => index)
+      .filter((i) => !(i in progress.results));
+    return progress;
+  }
+
+  /**
+   * Move as many queued iterations to running as the parallelism limit allows
+   */
+  takeNextBatch(progress: ForeachProgress): number[] {
+    const capacity = progress.maxParallelism - progress.running.length;
+    const batch = capacity > 0 ? progress.queued.splice(0, capacity) : [];
+    progress.running.push(...batch);
+    return batch;
+  }
+
+  /**
+   * Record an iteration outcome. Returns false for results of iterations that are
+   * no longer running, e.g. late results after a fail-fast stop.
+   */
+  recordOutcome(
+    progress: ForeachProgress,
+    index: number,
+    outcome: { output?: Record<string, any>; error?: any }
+  ): boolean {
+    const position = progress.running.indexOf(index);
+    if (position === -1) {
+      return false;
+    }
+
+    progress.running.splice(position, 1);
+    if (outcome.error !== undefined) {
+      progress.errors[index] = outcome.error;
+      if (progress.failureMode === 'fail_fast') {
+        progress.queued = [];
+      }
+    } else {
+      progress.results[index] = outcome.output || {};
+    }
+    return true;
+  }
+
+  isFinished(progress: ForeachProgress): boolean {
+    return progress.queued.length === 0 && progress.running.length === 0;
+  }
+
+  hasFailed(progress: ForeachProgress): boolean {
+    return progress.failureMode === 'fail_fast' && Object.keys(progress.errors).length > 0;
+  }
+
+  /**
+   * Aggregate iteration outputs in item order; failed items are null in results
+   */
+  buildOutput(progress: ForeachProgress): Record<string, any> {
+    const errors = Object.entries(progress.errors).map(([index, error]) => ({
+      index: Number(index),
+      error: { code: error?.code, message: error?.message ?? String(error) },
+    }));
+
+    return {
+      results: progress.items.map((_item, index) => progress.results[index] ?? null),
+      errors,
+      total: progress.items.length,
+      succeeded: Object.keys(progress.results).length,
+      failed: errors.length,
+    };
+  }
+
+  /**
+   * Build the node an iteration runs. It inherits retry policy and timeout from
+   * the foreach node unless the body overrides them.
+   */
+  buildIterationNode(node: WorkflowNode, index: number): WorkflowNode {
+    const body: ForeachBody = node.params.body;
+
+    return {
+      id: iterationNodeId(node.id, index),
+      type: body.type,
+      name: `${node.name}[${index}]`,
+      params: body.params || {},
+      parameterMappings: body.parameterMappings,
+      retryPolicy: body.retryPolicy || node.retryPolicy,
+      timeoutMs: body.timeoutMs || node.timeoutMs,
+      position: node.position,
+    };
+  }
+
+  /**
+   * Expose the current item to the iteration's mappings and expressions
+   */
+  buildIterationContext(
+    context: ExecutionContext,
+    progress: ForeachProgress,
+    index: number
+  ): ExecutionContext {
+    return {
+      ...context,
+      variables: {
+        ...context.variables,
+        'foreach.item': progress.items[index],
+        'foreach.index': index,
+      },
+    };
+  }
+
+  /**
+   * Record a finished iteration as a node run of the foreach node, keyed by the
+   * iteration's dispatch idempotency key
+   */
+  async recordIterationRun(
+    runId: UUID,
+    ref: IterationRef,
+    attempt: number,
+    outcome: { output?: Record<string, any>; error?: any; input?: Record<string, any> }
+  ): Promise<void> {
+    const idempotencyKey = `${runId}:${iterationNodeId(ref.nodeId, ref.index)}:${attempt}`;
+    const status = outcome.error !== undefined ? 'FAILED' : 'COMPLETED';
+
+    try {
+      const existing = await this.nodeRunRepo.findByIdempotencyKey(idempotencyKey);
+      if (existing) {
+        await this.nodeRunRepo.updateStatus(
+          existing.node_run_id,
+          status,
+          outcome.output,
+          outcome.error
+        );
+        return;
+      }
+
+      await this.nodeRunRepo.create({
+        node_run_id: uuidv4(),
+        run_id: runId,
+        node_id: ref.nodeId,
+        attempt,
+        status,
+        input: outcome.input,
+        output: outcome.output,
+        error_details: outcome.error,
+        idempotency_key: idempotencyKey,
+        iteration_index: ref.index,
+        ended_at: new Date(),
+      });
+    } catch (error) {
+      console.error(`Failed to record foreach iteration ${idempotencyKey}:`, error);
+    }
+  }
+}
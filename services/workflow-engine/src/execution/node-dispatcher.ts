@@ -6,6 +6,9 @@ import { UUID, WorkflowNode, NodeType } from '@officeflow/types';
 import { OfficeFlowProducer } from '@officeflow/kafka';
 import { ExecutionContextManager } from './context-manager';
 import { RedisStateManager } from '../state/redis-state-manager';
+import { TenantScheduler } from './tenant-scheduler';
+import { RunEventLog } from '../state/run-event-log';
+import { SecretVault, SecretError } from './secret-vault';
 import { NodeState } from '../types/workflow-state';
 
 export interface NodeExecutionRequest {
@@ -55,7 +58,11 @@ export class NodeDispatcher {
   constructor(
     private producer: OfficeFlowProducer,
     private contextManager: ExecutionContextManager,
-    private stateManager: RedisStateManager
+    private stateManager: RedisStateManager,
+    private tenantScheduler: TenantScheduler,
+    private runEventLog: RunEventLog,
+    private secretVault: SecretVault,
+    private defaultNodeTimeoutMs: number
   ) {}
 
   /**
@@ -84,7 +91,6 @@ export class NodeDispatcher {
       timeoutMs: node.timeoutMs,
     };
 
-    // Update node state to RUNNING
     const nodeState: NodeState = {
       nodeId: node.id,
       runId,
@@ -94,18 +100,95 @@ export class NodeDispatcher {
       startedAt: new Date(),
     };
 
+    // Nodes beyond the limits of the organization wait for a slot
+    const { organizationId } = executionRequest;
+    if (
+      await this.tenantScheduler.acquireNodeSlot(organizationId, idempotencyKey, node.timeoutMs)
+    ) {
+      await this.scheduleNodeTimeout(runId, node);
+      await this.sendExecutionRequest(executionRequest, nodeState, context, node.params);
+      return;
+    }
+
+    await this.stateManager.setNodeState({ ...nodeState, status: 'QUEUED' });
+    await this.runEventLog.record(runId, {
+      type: 'node.status_changed',
+      nodeId: node.id,
+      attempt,
+      toStatus: 'QUEUED',
+      data: { trigger: 'throttle', organizationId },
+    });
+    console.log(`Node dispatch throttled for organization ${organizationId}:`, {
+      runId,
+      nodeId: node.id,
+      attempt,
+    });
+
+    await this.tenantScheduler.queueNode(organizationId, {
+      slotId: idempotencyKey,
+      timeoutMs: node.timeoutMs,
+      send: async () => {
+        // Skip nodes cancelled or re-dispatched while they waited
+        const queuedState = await this.stateManager.getNodeState(runId, node.id);
+        if (queuedState?.status !== 'QUEUED' || queuedState.attempt !== attempt) {
+          return false;
+        }
+
+        // The deadline runs from when the node is actually sent
+        await this.scheduleNodeTimeout(runId, node);
+        await this.sendExecutionRequest(
+          executionRequest,
+          { ...nodeState, startedAt: new Date() },
+          context,
+          node.params
+        );
+        return true;
+      },
+    });
+  }
+
+  /**
+   * Register a node's execution deadline. Queued nodes get none until they are
+   * sent, since the timeout handler only acts on running nodes.
+   */
+  private async scheduleNodeTimeout(runId: UUID, node: WorkflowNode): Promise<void> {
+    const timeoutMs = node.timeoutMs || this.defaultNodeTimeoutMs;
+    await this.stateManager.scheduleNodeTimeout(runId, node.id, new Date(Date.now() + timeoutMs));
+  }
+
+  /**
+   * Mark a node running and publish its execution request. Secret references
+   * in the node's params are only resolved in the published request; the node
+   * state keeps the references.
+   */
+  private async sendExecutionRequest(
+    executionRequest: NodeExecutionRequest,
+    nodeState: NodeState,
+    context: Record<string, any>,
+    params?: Record<string, any>
+  ): Promise<void> {
+    const { runId, nodeId, nodeType, retryAttempt: attempt, idempotencyKey } = executionRequest;
+
+    // Update node state to RUNNING
     await this.stateManager.setNodeState(nodeState);
 
     // Determine target topic based on node type
-    const topic = this.getTopicForNodeType(node.type);
+    const topic = this.getTopicForNodeType(nodeType);
 
     try {
+      const { secrets: _secrets, ...executorContext } = executionRequest.context;
+      const input = await this.secretVault.resolveInput(
+        executionRequest.organizationId,
+        params,
+        executionRequest.input
+      );
+
       // Send execution request to Kafka
       await this.producer.sendMessage(
         topic,
         {
           type: 'node.execute.request',
-          payload: executionRequest,
+          payload: { ...executionRequest, input, context: executorContext },
           metadata: {
             correlationId: context.correlationId,
             organizationId: context.organizationId,
@@ -117,11 +200,18 @@ export class NodeDispatcher {
         undefined,
         idempotencyKey
       );
+      await this.runEventLog.record(runId, {
+        type: 'node.dispatched',
+        nodeId,
+        attempt,
+        toStatus: 'RUNNING',
+        data: { nodeType, topic, idempotencyKey },
+      });
 
       console.log(`Node dispatched for execution:`, {
         runId,
-        nodeId: node.id,
-        nodeType: node.type,
+        nodeId,
+        nodeType,
         topic,
         attempt,
         idempotencyKey,
@@ -133,15 +223,27 @@ export class NodeDispatcher {
       const failedState: NodeState = {
         ...nodeState,
         status: 'FAILED',
-        errorDetails: {
-          code: 'DISPATCH_FAILED',
-          message: 'Failed to send execution request to Kafka',
-          details: error,
-        },
+        errorDetails:
+          error instanceof SecretError
+            ? { code: 'SECRET_RESOLUTION_FAILED', message: error.message }
+            : {
+                code: 'DISPATCH_FAILED',
+                message: 'Failed to send execution request to Kafka',
+                details: error,
+              },
         endedAt: new Date(),
       };
 
       await this.stateManager.setNodeState(failedState);
+      await this.tenantScheduler.releaseNodeSlot(executionRequest.organizationId, idempotencyKey);
+      await this.runEventLog.record(runId, {
+        type: 'node.status_changed',
+        nodeId,
+        attempt,
+        fromStatus: 'RUNNING',
+        toStatus: 'FAILED',
+        data: { trigger: 'fail', error: failedState.errorDetails?.code },
+      });
       throw error;
     }
   }
@@ -206,6 +308,26 @@ export class NodeDispatcher {
     }
   }
 
+  /**
+   * Redact the values of secrets a node was sent from its result, before the
+   * result is stored, logged or passed on to later nodes
+   */
+  async redactResult(
+    result: NodeExecutionResult,
+    nodeState: NodeState | null
+  ): Promise<NodeExecutionResult> {
+    const organizationId = nodeState?.input?.organizationId;
+    if (!organizationId) {
+      return result;
+    }
+
+    return {
+      ...result,
+      output: await this.secretVault.redact(organizationId, nodeState!.input, result.output),
+      error: await this.secretVault.redact(organizationId, nodeState!.input, result.error),
+    };
+  }
+
   /**
    * Schedule node retry
    */
@@ -255,6 +377,15 @@ export class NodeDispatcher {
       };
 
       await this.stateManager.setNodeState(cancelledState);
+      await this.releaseNodeSlot(runId, nodeId, currentState.attempt);
+      await this.runEventLog.record(runId, {
+        type: 'node.status_changed',
+        nodeId,
+        attempt: currentState.attempt,
+        fromStatus: currentState.status,
+        toStatus: 'CANCELLED',
+        data: { trigger: 'cancel' },
+      });
     }
 
     // Send cancellation message
@@ -274,6 +405,19 @@ export class NodeDispatcher {
     console.log(`Node execution cancelled: ${runId}:${nodeId}`);
   }
 
+  /**
+   * Free the slot of a node execution, or drop it from the queue of its organization
+   */
+  async releaseNodeSlot(runId: UUID, nodeId: UUID, attempt: number): Promise<void> {
+    const workflowState = await this.stateManager.getWorkflowState(runId);
+    if (workflowState) {
+      await this.tenantScheduler.releaseNodeSlot(
+        workflowState.organizationId,
+        this.generateIdempotencyKey(runId, nodeId, attempt)
+      );
+    }
+  }
+
   /**
    * Get topic name for node type
    */
@@ -0,0 +1,126 @@
+/**
+ * Branch evaluation and node input resolution, shared by workflow execution and
+ * simulation so both follow the same path through a workflow
+ */
+
+import { UUID, ExecutionContext, WorkflowNode, WorkflowEdge, NodeType } from '@officeflow/types';
+import { ExecutionContextManager } from './context-manager';
+import { ParsedWorkflow } from '../orchestrator/workflow-parser';
+
+export type NodeOutputs = Record<UUID, Record<string, any>>;
+
+// Node types whose outgoing edges may be labelled with an outcome from their output
+const OUTCOME_EDGE_LABELS: Partial<Record<NodeType, { field: string; labels: string[] }>> = {
+  approval: { field: 'decision', labels: ['approved', 'rejected'] },
+  wait_for_event: { field: 'outcome', labels: ['received', 'timeout'] },
+};
+
+export class NodeEvaluator {
+  constructor(private contextManager: ExecutionContextManager) {}
+
+  /**
+   * Evaluate an edge's condition expression; unconditional edges are always taken.
+   * Edges labelled with an outcome of the node they leave, such as 'approved' out of
+   * an approval node, follow that outcome.
+   */
+  isEdgeTaken(
+    edge: WorkflowEdge,
+    context: ExecutionContext,
+    nodeOutputs: NodeOutputs | undefined,
+    parsedWorkflow: ParsedWorkflow
+  ): boolean {
+    const outcomeLabel = edge.label?.trim().toLowerCase();
+    const fromType = parsedWorkflow.nodeMap.get(edge.fromNodeId)?.type;
+    const outcomes = fromType ? OUTCOME_EDGE_LABELS[fromType] : undefined;
+    if (
+      outcomes &&
+      outcomeLabel &&
+      outcomes.labels.includes(outcomeLabel) &&
+      nodeOutputs?.[edge.fromNodeId]?.[outcomes.field] !== outcomeLabel
+    ) {
+      return false;
+    }
+
+    if (!edge.conditionExpression || edge.conditionExpression.trim().length === 0) {
+      return true;
+    }
+
+    try {
+      return this.contextManager.evaluateCondition(edge.conditionExpression, context);
+    } catch (error) {
+      console.warn(
+        `Failed to evaluate condition on edge ${edge.id}, treating branch as not taken:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Evaluate a node's execution conditions; nodes without conditions always run
+   */
+  shouldRunNode(node: WorkflowNode, context: ExecutionContext): boolean {
+    if (!node.conditions || node.conditions.length === 0) {
+      return true;
+    }
+
+    try {
+      return this.contextManager.evaluateExecutionConditions(node.conditions, context);
+    } catch (error) {
+      console.warn(
+        `Failed to evaluate execution conditions of node ${node.id}, skipping node:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Prepare input for node execution, resolving parameter mappings from the
+   * run context and upstream outputs
+   */
+  prepareNodeInput(
+    parsedWorkflow: ParsedWorkflow,
+    node: WorkflowNode,
+    context: ExecutionContext,
+    nodeOutputs: NodeOutputs | undefined
+  ): Record<string, any> {
+    const mappedParams =
+      node.parameterMappings && node.parameterMappings.length > 0
+        ? this.contextManager.resolveNodeInput(
+            context,
+            node.parameterMappings,
+            this.getNodeOutputLookup(parsedWorkflow, nodeOutputs)
+          )
+        : {};
+
+    return {
+      ...node.params,
+      ...mappedParams,
+      context: context.variables,
+      organizationId: context.organizationId,
+      employeeId: context.employeeId,
+    };
+  }
+
+  /**
+   * Build the node output lookup used by mappings, keyed by node ID and name
+   */
+  private getNodeOutputLookup(
+    parsedWorkflow: ParsedWorkflow,
+    nodeOutputs: NodeOutputs | undefined
+  ): Map<string, Record<string, any>> {
+    const lookup = new Map<string, Record<string, any>>();
+
+    for (const [nodeId, output] of Object.entries(nodeOutputs || {})) {
+      lookup.set(nodeId, output);
+
+      const node = parsedWorkflow.nodeMap.get(nodeId);
+      if (node) {
+        lookup.set(node.name, output);
+      }
+    }
+
+    return lookup;
+  }
+}
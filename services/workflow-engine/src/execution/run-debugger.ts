@@ -0,0 +1,149 @@
+/**
+ * Debug runs: runs that pause before chosen nodes, or before every node while
+ * stepping, so workflow authors can inspect resolved inputs and edit context
+ * variables before the run goes on
+ */
+
+import { UUID, WorkflowNode, NodeType, WorkflowRunStatus } from '@officeflow/types';
+import { WorkflowState } from '../types/workflow-state';
+import { ParsedWorkflow } from '../orchestrator/workflow-parser';
+
+export class RunDebugError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'NOT_FOUND'
+      | 'NOT_ALLOWED'
+      | 'RUN_LIMIT_REACHED'
+      | 'NOT_DEBUG_RUN'
+      | 'NOT_PAUSED'
+      | 'INVALID_NODE'
+      | 'INVALID_VARIABLE'
+  ) {
+    super(message);
+    this.name = 'RunDebugError';
+  }
+}
+
+export interface DebugOptions {
+  breakpoints?: UUID[]; // node IDs to pause before
+  stepping?: boolean; // pause before every node
+}
+
+// Kept in the state of debug runs
+export interface RunDebugState {
+  breakpoints: UUID[];
+  stepping: boolean;
+  heldNodes: Record<UUID, Record<string, any>>; // nodeId -> resolved input of a node paused before
+}
+
+export interface PausedNode {
+  nodeId: UUID;
+  nodeName: string;
+  nodeType: NodeType;
+  input: Record<string, any>;
+}
+
+export interface RunDebugSession {
+  runId: UUID;
+  workflowId: UUID;
+  status: WorkflowRunStatus;
+  breakpoints: UUID[];
+  stepping: boolean;
+  pausedBefore: PausedNode[];
+  variables: Record<string, any>;
+}
+
+// Context variables the engine relies on, which debug sessions may not edit
+const SYSTEM_VARIABLE_PREFIX = 'system.';
+
+export class RunDebugger {
+  /**
+   * @param allowDebugRuns whether any workflow may be debugged; otherwise only
+   * workflows flagged with `metadata.allowDebugRuns` may
+   */
+  constructor(private allowDebugRuns: boolean) {}
+
+  /**
+   * Start the debug state of a new run of a workflow
+   */
+  startSession(parsedWorkflow: ParsedWorkflow, options: DebugOptions = {}): RunDebugState {
+    const workflow = parsedWorkflow.definition;
+    if (!this.allowDebugRuns && !workflow.definition.metadata?.allowDebugRuns) {
+      throw new RunDebugError(
+        `Debug runs are disabled; flag workflow ${workflow.id} with allowDebugRuns to debug it`,
+        'NOT_ALLOWED'
+      );
+    }
+
+    return {
+      breakpoints: this.checkBreakpoints(parsedWorkflow, options.breakpoints || []),
+      stepping: options.stepping === true,
+      heldNodes: {},
+    };
+  }
+
+  /**
+   * Check that breakpoints name nodes of the workflow
+   */
+  checkBreakpoints(parsedWorkflow: ParsedWorkflow, breakpoints: UUID[]): UUID[] {
+    const unknown = breakpoints.filter((nodeId) => !parsedWorkflow.nodeMap.has(nodeId));
+    if (unknown.length > 0) {
+      throw new RunDebugError(
+        `Breakpoints name nodes that are not in the workflow: ${unknown.join(', ')}`,
+        'INVALID_NODE'
+      );
+    }
+    return [...new Set(breakpoints)];
+  }
+
+  /**
+   * Nodes about to start that a debug run pauses before
+   */
+  nodesToHold(state: WorkflowState, nodes: WorkflowNode[]): WorkflowNode[] {
+    const debug = state.debug;
+    if (!debug) {
+      return [];
+    }
+    return debug.stepping ? nodes : nodes.filter((node) => debug.breakpoints.includes(node.id));
+  }
+
+  /**
+   * Check edited context variables, which may not replace the engine's own
+   */
+  checkVariables(variables: Record<string, any>): void {
+    const systemVariables = Object.keys(variables).filter((name) =>
+      name.startsWith(SYSTEM_VARIABLE_PREFIX)
+    );
+    if (systemVariables.length > 0) {
+      throw new RunDebugError(
+        `System variables cannot be edited: ${systemVariables.join(', ')}`,
+        'INVALID_VARIABLE'
+      );
+    }
+  }
+
+  /**
+   * Describe the debug session of a run
+   */
+  describe(state: WorkflowState, parsedWorkflow: ParsedWorkflow): RunDebugSession {
+    const debug = state.debug!;
+    return {
+      runId: state.runId,
+      workflowId: state.workflowId,
+      status: state.status,
+      breakpoints: debug.breakpoints,
+      stepping: debug.stepping,
+      pausedBefore: Object.entries(debug.heldNodes).map(([nodeId, input]) => {
+        const node = parsedWorkflow.nodeMap.get(nodeId);
+        return {
+          nodeId,
+          nodeName: node?.name || nodeId,
+          nodeType: node?.type as NodeType,
+          input,
+        };
+      }),
+      variables: state.context,
+    };
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Organization secrets: values are encrypted with a key derived for their
+ * organization and referenced from node params as {{secret:<name>}}. They are
+ * only decrypted for the request sent to a node's executor, so state, node runs,
+ * logs and the audit trail keep the references.
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+import { UUID, OrganizationSecretEntity, OrganizationSecretRepository } from '@officeflow/types';
+
+export class SecretError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_SECRET' | 'SECRET_NOT_FOUND' | 'NOT_CONFIGURED'
+  ) {
+    super(message);
+    this.name = 'SecretError';
+  }
+}
+
+// What the API shows of a secret; values are never returned
+export interface SecretSummary {
+  name: string;
+  createdBy?: UUID;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const REDACTED = '[REDACTED]';
+
+const SECRET_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,255}$/;
+const SECRET_REFERENCE_PATTERN = /\{\{\s*secret:([A-Za-z0-9_.-]+)\s*\}\}/g;
+const CIPHER = 'aes-256-gcm';
+const CIPHER_FORMAT = 'v1';
+
+/**
+ * Names of the secrets referenced anywhere in a value
+ */
+export function findSecretReferences(value: any): string[] {
+  const names = new Set<string>();
+  visitStrings(value, (text) => {
+    for (const match of text.matchAll(SECRET_REFERENCE_PATTERN)) {
+      names.add(match[1]);
+    }
+    return text;
+  });
+  return [...names];
+}
+
+// Rebuild a value with each string in it replaced
+function visitStrings(value: any, replace: (text: string) => any): any {
+  if (typeof value === 'string') {
+    return replace(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => visitStrings(item, replace));
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, visitStrings(item, replace)])
+    );
+  }
+  return value;
+}
+
+export class SecretVault {
+  /**
+   * @param encryptionKey master key the key of each organization is derived
+   * from; without it secrets can't be stored or resolved
+   */
+  constructor(
+    private secretRepo: OrganizationSecretRepository,
+    private encryptionKey?: string
+  ) {}
+
+  /**
+   * Store a secret of an organization, replacing the value of one with the same name
+   */
+  async setSecret(
+    orgId: UUID,
+    name: string,
+    value: string,
+    createdBy?: UUID
+  ): Promise<SecretSummary> {
+    if (typeof name !== 'string' || !SECRET_NAME_PATTERN.test(name)) {
+      throw new SecretError(
+        'Secret names may only contain letters, digits, dots, dashes and underscores',
+        'INVALID_SECRET'
+      );
+    }
+    if (typeof value !== 'string' || value.length === 0) {
+      throw new SecretError(`Secret ${name} needs a value`, 'INVALID_SECRET');
+    }
+
+    const secret = await this.secretRepo.upsert({
+      org_id: orgId,
+      name,
+      encrypted_value: this.encrypt(orgId, value),
+      created_by: createdBy,
+    });
+    return this.summarize(secret);
+  }
+
+  /**
+   * List the secrets of an organization, without their values
+   */
+  async listSecrets(orgId: UUID): Promise<SecretSummary[]> {
+    const secrets = await this.secretRepo.findByOrganization(orgId);
+    return secrets.map((secret) => this.summarize(secret));
+  }
+
+  /**
+   * Delete a secret of an organization
+   */
+  async deleteSecret(orgId: UUID, name: string): Promise<void> {
+    if (!(await this.secretRepo.deleteByName(orgId, name))) {
+      throw new SecretError(`Secret not found: ${name}`, 'SECRET_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Resolve the secret references of a node's params in the input sent to its
+   * executor. Only params as written in the workflow are resolved, not params a
+   * mapping replaced, so data of a run can't reference secrets.
+   */
+  async resolveInput(
+    orgId: UUID,
+    params: Record<string, any> | undefined,
+    input: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const keys = Object.keys(params || {}).filter(
+      (key) =>
+        findSecretReferences(params![key]).length > 0 &&
+        JSON.stringify(input[key]) === JSON.stringify(params![key])
+    );
+    if (keys.length === 0) {
+      return input;
+    }
+
+    const names = findSecretReferences(keys.map((key) => params![key]));
+    const values = await this.loadValues(orgId, names);
+    const missing = names.filter((name) => !(name in values));
+    if (missing.length > 0) {
+      throw new SecretError(`Secrets not found: ${missing.join(', ')}`, 'SECRET_NOT_FOUND');
+    }
+
+    const resolved = { ...input };
+    for (const key of keys) {
+      resolved[key] = visitStrings(params![key], (text) =>
+        text.replace(SECRET_REFERENCE_PATTERN, (_reference, name) => values[name])
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Redact the values of the secrets a node's input references from a value,
+   * such as the output or error its executor sent back
+   */
+  async redact<T>(orgId: UUID, input: Record<string, any> | undefined, value: T): Promise<T> {
+    const names = findSecretReferences(input);
+    if (names.length === 0 || value === undefined) {
+      return value;
+    }
+
+    const secretValues = Object.values(await this.loadValues(orgId, names));
+    return visitStrings(value, (text) =>
+      secretValues.reduce((redacted, secret) => redacted.split(secret).join(REDACTED), text)
+    );
+  }
+
+  private async loadValues(orgId: UUID, names: string[]): Promise<Record<string, string>> {
+    const secrets = await this.secretRepo.findByNames(orgId, names);
+    return Object.fromEntries(
+      secrets.map((secret) => [secret.name, this.decrypt(orgId, secret.encrypted_value)])
+    );
+  }
+
+  private encrypt(orgId: UUID, value: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(CIPHER, this.getOrganizationKey(orgId), iv);
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+    return [CIPHER_FORMAT, iv, cipher.getAuthTag(), encrypted]
+      .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+      .join(':');
+  }
+
+  private decrypt(orgId: UUID, encryptedValue: string): string {
+    const [format, iv, authTag, encrypted] = encryptedValue.split(':');
+    if (format !== CIPHER_FORMAT) {
+      throw new SecretError(`Unsupported secret format: ${format}`, 'INVALID_SECRET');
+    }
+
+    const decipher = createDecipheriv(
+      CIPHER,
+      this.getOrganizationKey(orgId),
+      Buffer.from(iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  // Each organization has its own key, so a value can't be decrypted as another organization's
+  private getOrganizationKey(orgId: UUID): Buffer {
+    if (!this.encryptionKey) {
+      throw new SecretError('SECRETS_ENCRYPTION_KEY is not configured', 'NOT_CONFIGURED');
+    }
+    return Buffer.from(hkdfSync('sha256', this.encryptionKey, orgId, 'officeflow-secrets', 32));
+  }
+
+  private summarize(secret: OrganizationSecretEntity): SecretSummary {
+    return {
+      name: secret.name,
+      createdBy: secret.created_by,
+      createdAt: secret.created_at,
+      updatedAt: secret.updated_at,
+    };
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * External signals for wait_for_event nodes: waiting nodes are registered under
+ * a correlation key, and signals nobody waits for yet are buffered for a while
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { UUID, WorkflowNode, ExecutionContext, TriggerFilterOperator } from '@officeflow/types';
+import { RedisStateManager } from '../state/redis-state-manager';
+import { TimerService } from './timer-service';
+import { NodeState } from '../types/workflow-state';
+import { matchesOperator } from '../orchestrator/trigger-filters';
+
+export interface WorkflowSignal {
+  id: UUID;
+  organizationId: UUID;
+  name: string; // e.g. 'laptop.delivered'
+  correlationKey: string; // the employee ID unless the waiting node says otherwise
+  payload: Record<string, any>;
+  receivedAt: string;
+}
+
+export type SignalInput = Omit<WorkflowSignal, 'id' | 'receivedAt' | 'payload'> &
+  Partial<Pick<WorkflowSignal, 'id' | 'payload'>>;
+
+export interface SignalFilter {
+  field: string; // `payload.<path>`
+  operator: TriggerFilterOperator;
+  value?: any;
+}
+
+export interface WaitForEventParams {
+  signal: string;
+  correlationKey?: string;
+  filters?: SignalFilter[];
+  timeout?: number | string; // hours, or a duration such as '2d 12h'
+}
+
+export interface PendingSignal {
+  signal: string;
+  correlationKey: string;
+  filters: SignalFilter[];
+  waitingSince: string;
+  expiresAt: string;
+}
+
+// Where a signal went: the nodes it completed, or the buffer
+export interface SignalDelivery {
+  signalId: UUID;
+  deliveredTo: Array<{ runId: UUID; nodeId: UUID }>;
+  buffered: boolean;
+}
+
+export class SignalError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_SIGNAL'
+  ) {
+    super(message);
+    this.name = 'SignalError';
+  }
+}
+
+export const DEFAULT_SIGNAL_TIMEOUT_MS = 14 * 24 * 60 * 60 * 1000;
+export const DEFAULT_SIGNAL_BUFFER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class SignalService {
+  constructor(
+    private stateManager: RedisStateManager,
+    private timerService: TimerService,
+    private bufferTtlMs: number = DEFAULT_SIGNAL_BUFFER_TTL_MS
+  ) {}
+
+  /**
+   * Validate and normalise the resolved input of a wait_for_event node. The
+   * correlation key defaults to the run's employee.
+   */
+  resolveParams(input: Record<string, any>, context: ExecutionContext): WaitForEventParams {
+    if (typeof input.signal !== 'string' || input.signal.trim() === '') {
+      throw new Error('wait_for_event node requires a signal name');
+    }
+
+    const correlationKey = input.correlationKey ?? context.employeeId;
+    if (correlationKey === undefined || correlationKey === null || correlationKey === '') {
+      throw new Error('wait_for_event node requires a correlation key');
+    }
+
+    const filters = input.filters || [];
+    if (!Array.isArray(filters)) {
+      throw new Error('Signal filters must be a list');
+    }
+
+    return {
+      ...input,
+      signal: input.signal.trim(),
+      correlationKey: String(correlationKey),
+      filters,
+    };
+  }
+
+  /**
+   * Check a signal received through the API or Kafka and stamp it
+   */
+  normalizeSignal(input: SignalInput): WorkflowSignal {
+    for (const field of ['organizationId', 'name', 'correlationKey'] as const) {
+      if (typeof input[field] !== 'string' || input[field].trim() === '') {
+        throw new SignalError(`Signal ${field} is required`, 'INVALID_SIGNAL');
+      }
+    }
+    if (
+      input.payload !== undefined &&
+      (typeof input.payload !== 'object' || Array.isArray(input.payload))
+    ) {
+      throw new SignalError('Signal payload must be an object', 'INVALID_SIGNAL');
+    }
+
+    return {
+      id: input.id || uuidv4(),
+      organizationId: input.organizationId,
+      name: input.name.trim(),
+      correlationKey: input.correlationKey.trim(),
+      payload: input.payload || {},
+      receivedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Park a wait_for_event node until a matching signal arrives, scheduling its
+   * deadline. The node only receives signals once it listens for them.
+   */
+  async startWaiting(
+    runId: UUID,
+    node: WorkflowNode,
+    input: Record<string, any>,
+    context: ExecutionContext,
+    attempt: number = 1
+  ): Promise<PendingSignal> {
+    const params = this.resolveParams(input, context);
+    const waitingSince = new Date();
+    const expiresAt = new Date(waitingSince.getTime() + this.getTimeoutMs(params));
+
+    const nodeState: NodeState = {
+      nodeId: node.id,
+      runId,
+      status: 'RUNNING',
+      attempt,
+      input,
+      startedAt: waitingSince,
+      wakeAt: expiresAt,
+    };
+
+    await this.stateManager.setNodeState(nodeState);
+    await this.stateManager.scheduleTimer(runId, node.id, expiresAt);
+
+    console.log(`Waiting for signal:`, {
+      runId,
+      nodeId: node.id,
+      signal: params.signal,
+      correlationKey: params.correlationKey,
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    return {
+      signal: params.signal,
+      correlationKey: params.correlationKey!,
+      filters: params.filters || [],
+      waitingSince: waitingSince.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Register a waiting node for the signals it waits for
+   */
+  async listen(
+    runId: UUID,
+    nodeId: UUID,
+    organizationId: UUID,
+    pending: PendingSignal
+  ): Promise<void> {
+    await this.stateManager.addSignalWaiter(
+      this.getSignalKey(organizationId, pending.signal, pending.correlationKey),
+      runId,
+      nodeId
+    );
+  }
+
+  /**
+   * Nodes waiting on the name and correlation key of a signal
+   */
+  async getWaiters(signal: WorkflowSignal): Promise<Array<{ runId: UUID; nodeId: UUID }>> {
+    return this.stateManager.getSignalWaiters(
+      this.getSignalKey(signal.organizationId, signal.name, signal.correlationKey)
+    );
+  }
+
+  /**
+   * Stop waiting: unregister the node and drop its deadline
+   */
+  async stopWaiting(
+    runId: UUID,
+    nodeId: UUID,
+    organizationId: UUID,
+    pending: Pick<PendingSignal, 'signal' | 'correlationKey'>
+  ): Promise<void> {
+    await this.stateManager.removeSignalWaiter(
+      this.getSignalKey(organizationId, pending.signal, pending.correlationKey),
+      runId,
+      nodeId
+    );
+    await this.timerService.cancelTimer(runId, nodeId);
+  }
+
+  /**
+   * Whether a signal passes the payload filters of a waiting node
+   */
+  matches(pending: PendingSignal, signal: WorkflowSignal): boolean {
+    return pending.filters.every((filter) => {
+      const [source, ...path] = filter.field.split('.');
+      if (source !== 'payload' || path.length === 0) {
+        return false;
+      }
+
+      const actual = path.reduce<any>((value, key) => value?.[key], signal.payload);
+      return matchesOperator(filter.operator, actual, filter.value);
+    });
+  }
+
+  /**
+   * Keep a signal nobody waits for yet, until the buffer TTL passes
+   */
+  async bufferSignal(signal: WorkflowSignal): Promise<void> {
+    await this.stateManager.bufferSignal(
+      this.getSignalKey(signal.organizationId, signal.name, signal.correlationKey),
+      signal,
+      new Date(Date.now() + this.bufferTtlMs)
+    );
+  }
+
+  /**
+   * Take the oldest buffered signal that a node starting to wait would accept.
+   * Buffered signals are consumed by the first node that takes them.
+   */
+  async takeBufferedSignal(
+    organizationId: UUID,
+    pending: PendingSignal
+  ): Promise<WorkflowSignal | null> {
+    const key = this.getSignalKey(organizationId, pending.signal, pending.correlationKey);
+    const buffered = await this.stateManager.getBufferedSignals(key);
+
+    for (const signal of buffered) {
+      if (
+        this.matches(pending, signal) &&
+        (await this.stateManager.takeBufferedSignal(key, signal))
+      ) {
+        return signal;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Output of a node that received its signal
+   */
+  buildSignalOutput(signal: WorkflowSignal): Record<string, any> {
+    return {
+      outcome: 'received',
+      signal: signal.name,
+      signalId: signal.id,
+      payload: signal.payload,
+      receivedAt: signal.receivedAt,
+    };
+  }
+
+  /**
+   * Output of a node whose deadline passed without a matching signal
+   */
+  buildTimeoutOutput(pending: PendingSignal): Record<string, any> {
+    return {
+      outcome: 'timeout',
+      signal: pending.signal,
+      waitingSince: pending.waitingSince,
+      timedOutAt: new Date().toISOString(),
+    };
+  }
+
+  private getTimeoutMs(params: WaitForEventParams): number {
+    if (params.timeout === undefined || params.timeout === null) {
+      return DEFAULT_SIGNAL_TIMEOUT_MS;
+    }
+    return this.timerService.parseDuration(params.timeout);
+  }
+
+  private getSignalKey(organizationId: UUID, name: string, correlationKey: string): string {
+    return `${organizationId}:${name}:${correlationKey}`;
+  }
+}
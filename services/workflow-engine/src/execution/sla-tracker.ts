@@ -0,0 +1,256 @@
+/**
+ * SLAs of runs and nodes: each SLA being measured has a record, and a warning
+ * and a deadline checkpoint that raise alerts through the error logger unless
+ * the run or node finishes first
+ */
+
+import {
+  UUID,
+  WorkflowNode,
+  SlaTarget,
+  SlaCompliance,
+  SlaRecordEntity,
+  SlaRecordRepository,
+  WorkflowSlaCompliance,
+} from '@officeflow/types';
+import { RedisStateManager } from '../state/redis-state-manager';
+import { ErrorLogger } from '../error-handling/error-logger';
+import { TimerService } from './timer-service';
+import { WorkflowState } from '../types/workflow-state';
+import { ParsedWorkflow } from '../orchestrator/workflow-parser';
+
+// Kept in the state of runs for each SLA being measured
+export interface SlaClock {
+  slaId: UUID;
+  deadline: string;
+}
+
+export type SlaCheckpoint = 'warning' | 'breach';
+
+export interface OrganizationSlaCompliance extends SlaCompliance {
+  organizationId: UUID;
+  workflows: WorkflowSlaCompliance[];
+}
+
+export const DEFAULT_SLA_WARN_AT = 0.8;
+
+// Key of the run's own SLA in the state of a run; the SLAs of nodes use their IDs
+export const RUN_SLA_KEY = 'run';
+
+export class SlaTracker {
+  constructor(
+    private slaRecordRepo: SlaRecordRepository,
+    private stateManager: RedisStateManager,
+    private timerService: TimerService,
+    private errorLogger: ErrorLogger
+  ) {}
+
+  /**
+   * Start measuring the SLA of a run, if its workflow declares one
+   */
+  async startRun(
+    state: WorkflowState,
+    parsedWorkflow: ParsedWorkflow,
+    startedAt: Date = state.startedAt
+  ): Promise<void> {
+    const sla = parsedWorkflow.definition.definition.metadata?.sla;
+    if (sla) {
+      await this.start(state, RUN_SLA_KEY, sla, startedAt);
+    }
+  }
+
+  /**
+   * Start measuring the SLA of a node. A node keeps the clock of its first
+   * attempt through its retries.
+   */
+  async startNode(state: WorkflowState, node: WorkflowNode): Promise<void> {
+    if (!node.sla || state.slaRecords?.[node.id]) {
+      return;
+    }
+
+    const startedAt = node.sla.from === 'run' ? new Date(state.startedAt) : new Date();
+    await this.start(state, node.id, node.sla, startedAt, node.id);
+  }
+
+  /**
+   * Record whether the run or node an SLA measures finished in time
+   */
+  async finish(state: WorkflowState, key: string, endedAt: Date = new Date()): Promise<void> {
+    const clock = state.slaRecords?.[key];
+    if (!clock) {
+      return;
+    }
+
+    try {
+      const record = await this.slaRecordRepo.findById(clock.slaId);
+      if (record?.status === 'OPEN') {
+        const met = endedAt.getTime() <= new Date(record.deadline).getTime();
+        await this.slaRecordRepo.update(clock.slaId, {
+          status: met ? 'MET' : 'BREACHED',
+          ended_at: endedAt,
+        });
+
+        // Finished late before the breach checkpoint came round
+        if (!met) {
+          await this.alert(record, 'breach');
+        }
+      } else if (record?.status === 'BREACHED') {
+        await this.slaRecordRepo.update(clock.slaId, { ended_at: endedAt });
+      }
+
+      await this.removeCheckpoints(clock.slaId);
+    } catch (error) {
+      console.error(`Failed to finish SLA ${clock.slaId} of run ${state.runId}:`, error);
+    }
+
+    delete state.slaRecords![key];
+  }
+
+  /**
+   * Stop measuring the SLAs of a run that was cancelled. Those already
+   * breached stay breached.
+   */
+  async cancel(state: WorkflowState): Promise<void> {
+    for (const [key, clock] of Object.entries(state.slaRecords || {})) {
+      try {
+        const record = await this.slaRecordRepo.findById(clock.slaId);
+        if (record?.status === 'OPEN') {
+          await this.slaRecordRepo.update(clock.slaId, {
+            status: 'CANCELLED',
+            ended_at: new Date(),
+          });
+        }
+        await this.removeCheckpoints(clock.slaId);
+      } catch (error) {
+        console.error(`Failed to cancel SLA ${clock.slaId} of run ${state.runId}:`, error);
+      }
+
+      delete state.slaRecords![key];
+    }
+  }
+
+  /**
+   * Handle a checkpoint that passed: warn that an SLA is at risk, or mark it
+   * breached. Checkpoints of SLAs that ended meanwhile are dropped.
+   */
+  async handleCheckpoint(slaId: UUID, checkpoint: SlaCheckpoint): Promise<void> {
+    const record = await this.slaRecordRepo.findById(slaId);
+
+    if (record?.status === 'OPEN') {
+      if (checkpoint === 'breach') {
+        await this.slaRecordRepo.update(slaId, { status: 'BREACHED' });
+      } else {
+        await this.slaRecordRepo.update(slaId, { warned_at: new Date() });
+      }
+      await this.alert(record, checkpoint);
+    }
+
+    await this.stateManager.removeSlaCheckpoint(slaId, checkpoint);
+  }
+
+  /**
+   * SLA compliance per organization and workflow, for SLAs started since a time
+   */
+  async getCompliance(since: Date, orgId?: UUID): Promise<OrganizationSlaCompliance[]> {
+    const workflows = await this.slaRecordRepo.getComplianceByWorkflow(since, orgId);
+    const organizations = new Map<UUID, OrganizationSlaCompliance>();
+
+    for (const workflow of workflows) {
+      let organization = organizations.get(workflow.organizationId);
+      if (!organization) {
+        organization = {
+          organizationId: workflow.organizationId,
+          total: 0,
+          met: 0,
+          breached: 0,
+          open: 0,
+          complianceRate: null,
+          workflows: [],
+        };
+        organizations.set(workflow.organizationId, organization);
+      }
+
+      organization.total += workflow.total;
+      organization.met += workflow.met;
+      organization.breached += workflow.breached;
+      organization.open += workflow.open;
+      organization.workflows.push(workflow);
+    }
+
+    return [...organizations.values()].map((organization) => ({
+      ...organization,
+      complianceRate: organization.total > 0 ? organization.met / organization.total : null,
+    }));
+  }
+
+  private async start(
+    state: WorkflowState,
+    key: string,
+    sla: SlaTarget,
+    startedAt: Date,
+    nodeId?: UUID
+  ): Promise<void> {
+    // Missing an SLA record must not hold up the run it measures
+    try {
+      const targetMs = this.timerService.parseDuration(sla.target);
+      const warnAt = new Date(startedAt.getTime() + targetMs * (sla.warnAt ?? DEFAULT_SLA_WARN_AT));
+      const deadline = new Date(startedAt.getTime() + targetMs);
+
+      const record = await this.slaRecordRepo.create({
+        run_id: state.runId,
+        workflow_id: state.workflowId,
+        org_id: state.organizationId,
+        node_id: nodeId,
+        target_ms: targetMs,
+        started_at: startedAt,
+        warn_at: warnAt,
+        deadline,
+        status: 'OPEN',
+      });
+
+      await this.stateManager.scheduleSlaCheckpoint(record.sla_id, 'warning', warnAt);
+      await this.stateManager.scheduleSlaCheckpoint(record.sla_id, 'breach', deadline);
+
+      state.slaRecords = {
+        ...state.slaRecords,
+        [key]: { slaId: record.sla_id, deadline: deadline.toISOString() },
+      };
+    } catch (error) {
+      console.error(`Failed to start SLA ${key} of run ${state.runId}:`, error);
+    }
+  }
+
+  private async alert(record: SlaRecordEntity, checkpoint: SlaCheckpoint): Promise<void> {
+    const subject = record.node_id
+      ? `Node ${record.node_id} of run ${record.run_id}`
+      : `Run ${record.run_id}`;
+    const deadline = new Date(record.deadline).toISOString();
+    const context = {
+      runId: record.run_id,
+      nodeId: record.node_id,
+      workflowId: record.workflow_id,
+      organizationId: record.org_id,
+    };
+
+    if (checkpoint === 'breach') {
+      await this.errorLogger.logSlaEvent(
+        'ERROR',
+        'SLA_BREACHED',
+        `${subject} missed its SLA deadline of ${deadline}`,
+        context
+      );
+    } else {
+      await this.errorLogger.logSlaEvent(
+        'WARN',
+        'SLA_AT_RISK',
+        `${subject} is close to its SLA deadline of ${deadline}`,
+        context
+      );
+    }
+  }
+
+  private async removeCheckpoints(slaId: UUID): Promise<void> {
+    await this.stateManager.removeSlaCheckpoint(slaId, 'warning');
+    await this.stateManager.removeSlaCheckpoint(slaId, 'breach');
+  }
+}
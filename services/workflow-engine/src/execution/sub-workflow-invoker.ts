@@ -0,0 +1,120 @@
+/**
+ * Parameter handling and context/output shaping for workflow.invoke nodes
+ */
+
+import { UUID, ExecutionContext } from '@officeflow/types';
+import { ExecutionContextManager } from './context-manager';
+import { ExpressionEngine } from '../expressions';
+import { ParsedWorkflow } from '../orchestrator/workflow-parser';
+import { WorkflowState } from '../types/workflow-state';
+
+export type InvocationMode = 'sync' | 'async';
+
+export interface InvokeParams {
+  workflowId: UUID;
+  mode?: InvocationMode; // 'sync' (default) waits for the child run to finish
+  input?: Record<string, any>; // exposed to the child as invocation.input
+  outputMapping?: Record<string, string>; // output key -> expression over the child context
+}
+
+export interface ParentRunLink {
+  runId: UUID;
+  nodeId: UUID;
+  mode: InvocationMode;
+}
+
+export const MAX_INVOCATION_DEPTH = 5;
+
+export class SubWorkflowInvoker {
+  constructor(private contextManager: ExecutionContextManager) {}
+
+  /**
+   * Validate and normalise the resolved input of a workflow.invoke node
+   */
+  resolveParams(input: Record<string, any>): InvokeParams {
+    if (typeof input.workflowId !== 'string' || input.workflowId.trim().length === 0) {
+      throw new Error('workflow.invoke node requires a workflowId');
+    }
+
+    const mode: InvocationMode = input.mode || 'sync';
+    if (mode !== 'sync' && mode !== 'async') {
+      throw new Error(`Unsupported invocation mode: ${mode}`);
+    }
+
+    return {
+      workflowId: input.workflowId,
+      mode,
+      input: input.input || {},
+      outputMapping: input.outputMapping,
+    };
+  }
+
+  /**
+   * Build the child run context. The child shares the trigger event and system
+   * variables but not the parent's node outputs, which would collide with its own.
+   */
+  buildChildContext(
+    parentContext: ExecutionContext,
+    parentRunId: UUID,
+    parentNodeId: UUID,
+    params: InvokeParams
+  ): ExecutionContext {
+    const depth = (parentContext.variables['invocation.depth'] || 0) + 1;
+    if (depth > MAX_INVOCATION_DEPTH) {
+      throw new Error(`Sub-workflow nesting exceeds the maximum depth of ${MAX_INVOCATION_DEPTH}`);
+    }
+
+    const inheritedVariables = Object.fromEntries(
+      Object.entries(parentContext.variables).filter(
+        ([key]) => !key.startsWith('nodes.') && !key.startsWith('invocation.')
+      )
+    );
+
+    const childContext = this.contextManager.createChildContext(
+      { ...parentContext, variables: inheritedVariables },
+      {
+        'system.timestamp': new Date().toISOString(),
+        'invocation.input': params.input,
+        'invocation.parentRunId': parentRunId,
+        'invocation.parentNodeId': parentNodeId,
+        'invocation.depth': depth,
+      }
+    );
+
+    // Keep the serialized context flat; the parent is reachable through the run linkage
+    delete childContext.parentContext;
+    return childContext;
+  }
+
+  /**
+   * Output reported by a synchronous workflow.invoke node once its child completes.
+   * Without an outputMapping the outputs of the child's exit nodes are returned by name.
+   */
+  buildOutput(
+    childState: WorkflowState,
+    childWorkflow: ParsedWorkflow,
+    outputMapping?: Record<string, string>
+  ): Record<string, any> {
+    const outputs: Record<string, any> = {};
+
+    if (outputMapping && Object.keys(outputMapping).length > 0) {
+      for (const [key, expression] of Object.entries(outputMapping)) {
+        outputs[key] = ExpressionEngine.evaluate(expression, childState.context);
+      }
+    } else {
+      for (const node of childWorkflow.exitNodes) {
+        const output = childState.nodeOutputs?.[node.id];
+        if (output !== undefined) {
+          outputs[node.name] = output;
+        }
+      }
+    }
+
+    return {
+      childRunId: childState.runId,
+      workflowId: childState.workflowId,
+      status: childState.status,
+      outputs,
+    };
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Tenant-fair scheduling. Organizations share the engine and the node executor
+ * topics, so each gets a number of concurrent runs and node executions from its
+ * plan. Work beyond those limits waits: throttled runs in a per-organization
+ * queue in Redis, throttled node executions in per-organization queues of this
+ * instance, which are drained by weighted fair share of the engine-wide
+ * dispatch capacity.
+ */
+
+import { UUID, ExecutionQuota, OrganizationRepository } from '@officeflow/types';
+import { RedisStateManager } from '../state/redis-state-manager';
+
+export interface TenantSchedulerConfig {
+  maxConcurrentNodes?: number; // node executions in flight across all organizations
+  quotaCacheTtlMs?: number; // how long organization limits are cached
+  drainIntervalMs?: number; // how often queued node executions are retried
+  defaultNodeTimeoutMs?: number; // timeout of nodes without their own
+  slotGraceMs?: number; // a node slot outlives the node timeout by this much
+}
+
+// A node execution waiting for a slot; `send` returns false when it was dropped meanwhile
+export interface QueuedNodeDispatch {
+  slotId: string;
+  timeoutMs: number;
+  send: () => Promise<boolean>;
+}
+
+export interface TenantSchedulingMetrics {
+  maxConcurrentNodes: number;
+  inFlightNodes: number;
+  queuedNodes: number;
+  organizations: Array<{
+    organizationId: UUID;
+    plan: string;
+    quota: ExecutionQuota;
+    activeRuns: number;
+    queuedRuns: number;
+    inFlightNodes: number;
+    queuedNodes: number;
+    throttledRuns: number; // runs queued for a run slot since this instance started
+    throttledNodes: number; // node executions queued for a slot since this instance started
+  }>;
+}
+
+interface CachedQuota {
+  plan: string;
+  quota: ExecutionQuota;
+  loadedAt: number;
+}
+
+interface PendingNodeDispatch extends QueuedNodeDispatch {
+  queuedAt: number;
+}
+
+export const DEFAULT_PLAN_QUOTAS: Record<string, ExecutionQuota> = {
+  starter: { maxConcurrentRuns: 20, maxConcurrentNodes: 10, weight: 1 },
+  professional: { maxConcurrentRuns: 100, maxConcurrentNodes: 50, weight: 2 },
+  enterprise: { maxConcurrentRuns: 500, maxConcurrentNodes: 200, weight: 4 },
+};
+
+// Organizations on plans without their own limits get the smallest ones
+const FALLBACK_PLAN = 'starter';
+
+const DEFAULT_TENANT_SCHEDULER_CONFIG: Required<TenantSchedulerConfig> = {
+  maxConcurrentNodes: 500,
+  quotaCacheTtlMs: 60000,
+  drainIntervalMs: 1000,
+  defaultNodeTimeoutMs: 300000,
+  slotGraceMs: 60000,
+};
+
+export class TenantScheduler {
+  private config: Required<TenantSchedulerConfig>;
+  private quotas: Map<UUID, CachedQuota> = new Map();
+  private pendingNodes: Map<UUID, PendingNodeDispatch[]> = new Map();
+  private throttled: Map<UUID, { runs: number; nodes: number }> = new Map();
+  private draining: Promise<void> = Promise.resolve();
+  private drainTimer?: NodeJS.Timeout;
+
+  constructor(
+    config: TenantSchedulerConfig,
+    private organizationRepo: OrganizationRepository,
+    private stateManager: RedisStateManager
+  ) {
+    this.config = { ...DEFAULT_TENANT_SCHEDULER_CONFIG, ...config };
+  }
+
+  /**
+   * Start retrying queued node executions, whose slots may be freed by other instances
+   */
+  start(): void {
+    if (this.drainTimer) {
+      return;
+    }
+
+    this.drainTimer = setInterval(() => {
+      if (this.pendingNodes.size > 0) {
+        this.drain().catch((error) => console.error('Error draining node queues:', error));
+      }
+    }, this.config.drainIntervalMs);
+  }
+
+  stop(): void {
+    if (this.drainTimer) {
+      clearInterval(this.drainTimer);
+      this.drainTimer = undefined;
+    }
+  }
+
+  /**
+   * Get the limits of an organization: those of its plan, overridden by its settings
+   */
+  async getQuota(orgId: UUID): Promise<ExecutionQuota> {
+    return (await this.loadQuota(orgId)).quota;
+  }
+
+  /**
+   * Take a run slot for a new run, returning false when the organization is at its limit
+   */
+  async acquireRunSlot(orgId: UUID, runId: UUID): Promise<boolean> {
+    const { maxConcurrentRuns } = await this.getQuota(orgId);
+    const result = await this.stateManager.acquireTenantSlot(
+      'runs',
+      orgId,
+      runId,
+      maxConcurrentRuns,
+      null
+    );
+    return result === 'acquired';
+  }
+
+  /**
+   * Queue a run that didn't get a run slot, then start queued runs in case a
+   * slot was freed in the meantime
+   */
+  async queueRun(
+    orgId: UUID,
+    runId: UUID,
+    start: (runId: UUID) => Promise<boolean>
+  ): Promise<void> {
+    await this.stateManager.enqueueTenantRun(orgId, runId);
+    this.countThrottled(orgId, 'runs');
+    console.log(`Workflow run ${runId} queued until organization ${orgId} has a run slot`);
+
+    await this.startQueuedRuns(orgId, start);
+  }
+
+  /**
+   * Give back the run slot of a run that ended
+   */
+  async releaseRunSlot(orgId: UUID, runId: UUID): Promise<void> {
+    await this.stateManager.releaseTenantSlot('runs', orgId, runId);
+  }
+
+  /**
+   * Start queued runs of an organization, oldest first, while it has run slots.
+   * A run is started by the instance that takes it off the queue; `start`
+   * returns false for runs that are no longer waiting.
+   */
+  async startQueuedRuns(orgId: UUID, start: (runId: UUID) => Promise<boolean>): Promise<void> {
+    for (;;) {
+      const runId = await this.stateManager.peekTenantRun(orgId);
+      if (!runId || !(await this.acquireRunSlot(orgId, runId))) {
+        return;
+      }
+
+      if (await this.stateManager.removeTenantRun(orgId, runId)) {
+        try {
+          if (!(await start(runId))) {
+            await this.releaseRunSlot(orgId, runId);
+          }
+        } catch (error) {
+          await this.releaseRunSlot(orgId, runId);
+          console.error(`Failed to start queued workflow run ${runId}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Check whether a run waits for a run slot
+   */
+  async isRunQueued(orgId: UUID, runId: UUID): Promise<boolean> {
+    return this.stateManager.isTenantRunQueued(orgId, runId);
+  }
+
+  /**
+   * Drop a queued run, e.g. because it was cancelled
+   */
+  async removeQueuedRun(orgId: UUID, runId: UUID): Promise<void> {
+    await this.stateManager.removeTenantRun(orgId, runId);
+  }
+
+  /**
+   * Take a slot for a node execution to send right away. Fails when the
+   * organization or the engine is at its limit, or when node executions queued
+   * on this instance are waiting for a slot already.
+   */
+  async acquireNodeSlot(orgId: UUID, slotId: string, timeoutMs: number): Promise<boolean> {
+    if (this.pendingNodes.size > 0) {
+      return false;
+    }
+
+    const { maxConcurrentNodes } = await this.getQuota(orgId);
+    const result = await this.stateManager.acquireTenantSlot(
+      'nodes',
+      orgId,
+      slotId,
+      maxConcurrentNodes,
+      this.getNodeSlotExpiry(timeoutMs),
+      this.config.maxConcurrentNodes
+    );
+    return result === 'acquired';
+  }
+
+  /**
+   * Queue a node execution that didn't get a slot. It is sent once it gets one.
+   */
+  async queueNode(orgId: UUID, dispatch: QueuedNodeDispatch): Promise<void> {
+    const queue = this.pendingNodes.get(orgId) || [];
+    queue.push({ ...dispatch, queuedAt: Date.now() });
+    this.pendingNodes.set(orgId, queue);
+    this.countThrottled(orgId, 'nodes');
+
+    await this.drain();
+  }
+
+  /**
+   * Give back the slot of a node execution that ended, or drop it if it is
+   * still queued here, and send queued node executions that fit now
+   */
+  async releaseNodeSlot(orgId: UUID, slotId: string): Promise<void> {
+    const queue = this.pendingNodes.get(orgId);
+    if (queue) {
+      this.setPendingNodes(
+        orgId,
+        queue.filter((dispatch) => dispatch.slotId !== slotId)
+      );
+    }
+
+    await this.stateManager.releaseTenantSlot('nodes', orgId, slotId);
+    await this.drain();
+  }
+
+  /**
+   * Queue depths, in-flight work and throttling per organization known to this instance
+   */
+  async getMetrics(): Promise<TenantSchedulingMetrics> {
+    const orgIds = new Set([
+      ...this.quotas.keys(),
+      ...this.pendingNodes.keys(),
+      ...this.throttled.keys(),
+    ]);
+
+    const organizations: TenantSchedulingMetrics['organizations'] = [];
+    for (const orgId of orgIds) {
+      const { plan, quota } = await this.loadQuota(orgId);
+      const throttled = this.throttled.get(orgId);
+
+      organizations.push({
+        organizationId: orgId,
+        plan,
+        quota,
+        activeRuns: await this.stateManager.countTenantSlots('runs', orgId),
+        queuedRuns: await this.stateManager.countTenantQueuedRuns(orgId),
+        inFlightNodes: await this.stateManager.countTenantSlots('nodes', orgId),
+        queuedNodes: this.pendingNodes.get(orgId)?.length || 0,
+        throttledRuns: throttled?.runs || 0,
+        throttledNodes: throttled?.nodes || 0,
+      });
+    }
+
+    return {
+      maxConcurrentNodes: this.config.maxConcurrentNodes,
+      inFlightNodes: await this.stateManager.countTenantSlots('nodes'),
+      queuedNodes: organizations.reduce((total, org) => total + org.queuedNodes, 0),
+      organizations,
+    };
+  }
+
+  /**
+   * Send queued node executions while slots are free. Drains run one at a time,
+   * so a drain requested while another one runs happens after it.
+   */
+  private drain(): Promise<void> {
+    this.draining = this.draining.then(() =>
+      this.drainQueues().catch((error) => console.error('Error draining node queues:', error))
+    );
+    return this.draining;
+  }
+
+  private async drainQueues(): Promise<void> {
+    // Organizations at their own limit for the rest of this drain
+    const saturated = new Set<UUID>();
+
+    for (;;) {
+      const orgId = await this.pickNextOrganization(saturated);
+      if (!orgId) {
+        return;
+      }
+
+      const [dispatch] = this.pendingNodes.get(orgId)!;
+      const { maxConcurrentNodes } = await this.getQuota(orgId);
+      const result = await this.stateManager.acquireTenantSlot(
+        'nodes',
+        orgId,
+        dispatch.slotId,
+        maxConcurrentNodes,
+        this.getNodeSlotExpiry(dispatch.timeoutMs),
+        this.config.maxConcurrentNodes
+      );
+
+      if (result === 'engine_full') {
+        return;
+      }
+      if (result === 'tenant_full') {
+        saturated.add(orgId);
+        continue;
+      }
+
+      // Released while the slot was taken, e.g. because its run was cancelled
+      const queue = this.pendingNodes.get(orgId) || [];
+      if (queue[0] !== dispatch) {
+        await this.stateManager.releaseTenantSlot('nodes', orgId, dispatch.slotId);
+        continue;
+      }
+
+      this.setPendingNodes(orgId, queue.slice(1));
+      try {
+        if (!(await dispatch.send())) {
+          await this.stateManager.releaseTenantSlot('nodes', orgId, dispatch.slotId);
+        }
+      } catch (error) {
+        await this.stateManager.releaseTenantSlot('nodes', orgId, dispatch.slotId);
+        console.error(`Failed to send queued node execution ${dispatch.slotId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Weighted fair share: the organization with the fewest node executions in
+   * flight per unit of weight goes next, the longest waiting on a tie
+   */
+  private async pickNextOrganization(saturated: Set<UUID>): Promise<UUID | undefined> {
+    let next: { orgId: UUID; share: number; queuedAt: number } | undefined;
+
+    for (const [orgId, queue] of this.pendingNodes) {
+      if (saturated.has(orgId)) {
+        continue;
+      }
+
+      const { weight } = await this.getQuota(orgId);
+      const inFlight = await this.stateManager.countTenantSlots('nodes', orgId);
+      const share = inFlight / Math.max(weight, 1);
+      const queuedAt = queue[0].queuedAt;
+
+      if (!next || share < next.share || (share === next.share && queuedAt < next.queuedAt)) {
+        next = { orgId, share, queuedAt };
+      }
+    }
+
+    return next?.orgId;
+  }
+
+  // Slots of nodes whose results never arrive expire some time after the node timed out
+  private getNodeSlotExpiry(timeoutMs: number): number {
+    return Date.now() + (timeoutMs || this.config.defaultNodeTimeoutMs) + this.config.slotGraceMs;
+  }
+
+  private setPendingNodes(orgId: UUID, queue: PendingNodeDispatch[]): void {
+    if (queue.length > 0) {
+      this.pendingNodes.set(orgId, queue);
+    } else {
+      this.pendingNodes.delete(orgId);
+    }
+  }
+
+  private countThrottled(orgId: UUID, kind: 'runs' | 'nodes'): void {
+    const counts = this.throttled.get(orgId) || { runs: 0, nodes: 0 };
+    counts[kind]++;
+    this.throttled.set(orgId, counts);
+  }
+
+  private async loadQuota(orgId: UUID): Promise<CachedQuota> {
+    const cached = this.quotas.get(orgId);
+    if (cached && Date.now() - cached.loadedAt < this.config.quotaCacheTtlMs) {
+      return cached;
+    }
+
+    let plan = FALLBACK_PLAN;
+    let overrides: Partial<ExecutionQuota> = {};
+    try {
+      const organization = await this.organizationRepo.findById(orgId);
+      plan = organization?.plan || FALLBACK_PLAN;
+      overrides = organization?.settings?.executionQuota || {};
+    } catch (error) {
+      // Keep the limits we had rather than fall back to the smallest ones
+      if (cached) {
+        return cached;
+      }
+      console.error(`Failed to load execution quota of organization ${orgId}:`, error);
+    }
+
+    const quota: ExecutionQuota = {
+      ...(DEFAULT_PLAN_QUOTAS[plan] || DEFAULT_PLAN_QUOTAS[FALLBACK_PLAN]),
+      ...Object.fromEntries(
+        Object.entries(overrides).filter(([, value]) => typeof value === 'number' && value > 0)
+      ),
+    };
+
+    const loaded = { plan, quota, loadedAt: Date.now() };
+    this.quotas.set(orgId, loaded);
+    return loaded;
+  }
+}
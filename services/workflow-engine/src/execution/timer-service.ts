@@ -0,0 +1,226 @@
+/**
+ * Durable Redis-backed timers for delay nodes
+ */
+
+import { UUID, WorkflowNode, ExecutionContext } from '@officeflow/types';
+import { RedisStateManager } from '../state/redis-state-manager';
+import { ExecutionContextManager } from './context-manager';
+import { NodeStateMachine } from '../state/state-machine';
+import { NodeState } from '../types/workflow-state';
+import { ExpressionEngine, DURATION_UNITS_MS } from '../expressions';
+
+export type DelayUnit = 'milliseconds' | 'seconds' | 'minutes' | 'hours' | 'days' | 'weeks';
+
+export interface DelayParams {
+  duration?: number | string; // e.g. 3 (with unit) or '1d 12h'
+  unit?: DelayUnit;
+  until?: string; // absolute ISO timestamp
+  expression?: string; // e.g. 'startDate - 3d' or '${event.payload.startDate} + 9h'
+}
+
+export interface FiredTimer {
+  runId: UUID;
+  nodeId: UUID;
+  nodeState: NodeState;
+}
+
+// Units share the duration literals of workflow expressions, e.g. 3d or 90m
+const UNIT_MS: Record<DelayUnit, number> = {
+  milliseconds: DURATION_UNITS_MS.ms,
+  seconds: DURATION_UNITS_MS.s,
+  minutes: DURATION_UNITS_MS.m,
+  hours: DURATION_UNITS_MS.h,
+  days: DURATION_UNITS_MS.d,
+  weeks: DURATION_UNITS_MS.w,
+};
+
+export class TimerService {
+  private nodeStateMachine: NodeStateMachine;
+
+  constructor(
+    private stateManager: RedisStateManager,
+    private contextManager: ExecutionContextManager
+  ) {
+    this.nodeStateMachine = new NodeStateMachine();
+  }
+
+  /**
+   * Start a timer for a delay node and mark it RUNNING until it fires
+   */
+  async startTimer(
+    runId: UUID,
+    node: WorkflowNode,
+    input: Record<string, any>,
+    context: ExecutionContext,
+    attempt: number = 1
+  ): Promise<Date> {
+    const fireAt = this.resolveFireAt(input as DelayParams, context);
+
+    const nodeState: NodeState = {
+      nodeId: node.id,
+      runId,
+      status: 'RUNNING',
+      attempt,
+      input,
+      startedAt: new Date(),
+      wakeAt: fireAt,
+    };
+
+    await this.stateManager.setNodeState(nodeState);
+    await this.stateManager.scheduleTimer(runId, node.id, fireAt);
+
+    console.log(`Delay timer scheduled:`, {
+      runId,
+      nodeId: node.id,
+      fireAt: fireAt.toISOString(),
+    });
+
+    return fireAt;
+  }
+
+  /**
+   * Claim due timers for this instance, dropping timers whose node is no longer waiting
+   */
+  async claimDueTimers(claimHolder: string, limit: number = 50): Promise<FiredTimer[]> {
+    const dueTimers = await this.stateManager.getDueTimers(limit);
+    const claimed: FiredTimer[] = [];
+
+    for (const { runId, nodeId } of dueTimers) {
+      const isClaimed = await this.stateManager.claimTimer(runId, nodeId, claimHolder);
+      if (!isClaimed) {
+        continue;
+      }
+
+      const nodeState = await this.stateManager.getNodeState(runId, nodeId);
+      if (!nodeState || nodeState.status !== 'RUNNING') {
+        await this.stateManager.removeTimer(runId, nodeId);
+        continue;
+      }
+
+      claimed.push({ runId, nodeId, nodeState });
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Mark a fired timer's node as completed and remove the timer
+   */
+  async completeTimer(timer: FiredTimer, output: Record<string, any>): Promise<void> {
+    const completedState = this.nodeStateMachine.transitionNode(timer.nodeState, 'complete');
+
+    await this.stateManager.setNodeState({ ...completedState, output, wakeAt: undefined });
+    await this.stateManager.removeTimer(timer.runId, timer.nodeId);
+  }
+
+  /**
+   * Cancel a pending timer
+   */
+  async cancelTimer(runId: UUID, nodeId: UUID): Promise<void> {
+    await this.stateManager.removeTimer(runId, nodeId);
+  }
+
+  /**
+   * Build the output a delay node reports when its timer fires
+   */
+  buildTimerOutput(timer: FiredTimer): Record<string, any> {
+    return {
+      scheduledFor: timer.nodeState.wakeAt?.toISOString(),
+      firedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Resolve when a delay should fire from the resolved input of its node.
+   * Precedence: until, expression, duration. Times in the past fire on the
+   * next processor tick.
+   */
+  resolveFireAt(params: DelayParams, context: ExecutionContext, now: Date = new Date()): Date {
+    if (params.until) {
+      return this.toDate(params.until, 'until');
+    }
+
+    if (params.expression) {
+      return this.evaluateDateExpression(params.expression, context, now);
+    }
+
+    if (params.duration !== undefined && params.duration !== null) {
+      return new Date(now.getTime() + this.parseDuration(params.duration, params.unit));
+    }
+
+    throw new Error('Delay node requires one of: duration, until or expression');
+  }
+
+  /**
+   * Parse a duration into milliseconds. Numbers use `unit` (hours by default,
+   * matching the designer); strings accept compound forms like '1d 12h'.
+   */
+  parseDuration(duration: number | string, unit: DelayUnit = 'hours'): number {
+    if (typeof duration === 'number' || /^\d+(\.\d+)?$/.test(String(duration).trim())) {
+      const unitMs = UNIT_MS[unit];
+      if (unitMs === undefined) {
+        throw new Error(`Unsupported delay unit: ${unit}`);
+      }
+      return Number(duration) * unitMs;
+    }
+
+    const text = duration.replace(/\s+/g, '');
+    const pattern = new RegExp(
+      `(\\d+(?:\\.\\d+)?)(${Object.keys(DURATION_UNITS_MS).join('|')})`,
+      'g'
+    );
+    let total = 0;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      if (match.index !== consumed) {
+        break;
+      }
+      total += parseFloat(match[1]) * DURATION_UNITS_MS[match[2]];
+      consumed += match[0].length;
+    }
+
+    if (consumed === 0 || consumed !== text.length) {
+      throw new Error(`Invalid delay duration: ${duration}`);
+    }
+
+    return total;
+  }
+
+  /**
+   * Evaluate a date expression such as `startDate - 3d` or
+   * `${nodes.Provision Account.output.completedAt} + 1h`. Bare field names
+   * resolve against context variables, then the trigger payload.
+   */
+  private evaluateDateExpression(expression: string, context: ExecutionContext, now: Date): Date {
+    const payload = this.contextManager.getVariable(context, 'event.payload');
+    const variables = {
+      now, // `now` as well as `now()`, as delay expressions had it before the expression language
+      ...(payload && typeof payload === 'object' ? payload : {}),
+      ...context.variables,
+    };
+
+    for (const reference of ExpressionEngine.references(expression)) {
+      const value = ExpressionEngine.evaluate(`\${${reference}}`, variables);
+      if (value === undefined || value === null) {
+        throw new Error(`Delay reference '${reference}' did not resolve to a value`);
+      }
+    }
+
+    return this.toDate(ExpressionEngine.evaluate(expression, variables, { now }), expression);
+  }
+
+  private toDate(value: any, source: string): Date {
+    if (value === undefined || value === null) {
+      throw new Error(`Delay reference '${source}' did not resolve to a value`);
+    }
+
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Delay reference '${source}' is not a valid date: ${value}`);
+    }
+
+    return date;
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Bounded tree-walking evaluator for expression ASTs
+ */
+
+import { ExpressionEvaluationError } from './errors';
+import { BUILTIN_FUNCTIONS, FunctionRuntime } from './functions';
+import { BinaryOperator, ExpressionNode } from './parser';
+import {
+  Duration,
+  asDate,
+  compareValues,
+  getProperty,
+  isTruthy,
+  lookupPath,
+  requireNumber,
+  typeName,
+  valuesEqual,
+} from './values';
+
+export interface EvaluationLimits {
+  maxSteps: number;
+  maxStringLength: number;
+  maxArrayLength: number;
+}
+
+export interface EvaluationOptions {
+  scope: Record<string, any>;
+  now: Date;
+  limits: EvaluationLimits;
+}
+
+export function evaluate(node: ExpressionNode, options: EvaluationOptions): any {
+  return new Evaluator(options).evaluate(node);
+}
+
+class Evaluator {
+  private steps = 0;
+  private runtime: FunctionRuntime;
+
+  constructor(private options: EvaluationOptions) {
+    this.runtime = {
+      now: options.now,
+      charge: (cost: number) => this.charge(cost),
+      checkString: (value: string) => this.checkString(value),
+      checkArray: (value: any[]) => this.checkArray(value),
+    };
+  }
+
+  evaluate(node: ExpressionNode): any {
+    this.charge(1);
+
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'duration':
+        return new Duration(node.ms);
+
+      case 'reference':
+        return lookupPath(this.options.scope, node.path);
+
+      case 'identifier':
+        return getProperty(this.options.scope, node.name);
+
+      case 'member': {
+        const target = this.evaluate(node.object);
+        const key = this.evaluate(node.property);
+        if (target === null || target === undefined) {
+          if (node.optional) {
+            return undefined;
+          }
+          throw new ExpressionEvaluationError(
+            `Cannot read property '${String(key)}' of ${typeName(target)}; use '?.' for optional access`
+          );
+        }
+        return getProperty(target, key);
+      }
+
+      case 'call': {
+        const builtin = BUILTIN_FUNCTIONS[node.callee];
+        if (!builtin) {
+          throw new ExpressionEvaluationError(`Unknown function '${node.callee}'`);
+        }
+        const args = node.args.map((arg) => this.evaluate(arg));
+        return builtin.call(args, this.runtime);
+      }
+
+      case 'array':
+        return this.checkArray(node.elements.map((element) => this.evaluate(element)));
+
+      case 'unary': {
+        const value = this.evaluate(node.argument);
+        if (node.operator === '!') {
+          return !isTruthy(value);
+        }
+        if (value instanceof Duration) {
+          return new Duration(-value.ms);
+        }
+        return -requireNumber(value, "Unary '-'");
+      }
+
+      case 'logical': {
+        const left = this.evaluate(node.left);
+        switch (node.operator) {
+          case '&&':
+            return isTruthy(left) ? this.evaluate(node.right) : left;
+          case '||':
+            return isTruthy(left) ? left : this.evaluate(node.right);
+          default:
+            return left === null || left === undefined ? this.evaluate(node.right) : left;
+        }
+      }
+
+      case 'conditional':
+        return isTruthy(this.evaluate(node.test))
+          ? this.evaluate(node.consequent)
+          : this.evaluate(node.alternate);
+
+      case 'binary':
+        return this.evaluateBinary(
+          node.operator,
+          this.evaluate(node.left),
+          this.evaluate(node.right)
+        );
+    }
+  }
+
+  private evaluateBinary(operator: BinaryOperator, left: any, right: any): any {
+    switch (operator) {
+      case '==':
+        return valuesEqual(left, right, this.runtime.charge);
+      case '!=':
+        return !valuesEqual(left, right, this.runtime.charge);
+      case '<':
+        return compareValues(left, right, operator) < 0;
+      case '<=':
+        return compareValues(left, right, operator) <= 0;
+      case '>':
+        return compareValues(left, right, operator) > 0;
+      case '>=':
+        return compareValues(left, right, operator) >= 0;
+      case '+':
+        return this.add(left, right);
+      case '-':
+        return this.subtract(left, right);
+    }
+
+    const a = requireNumber(left, `Operator '${operator}'`);
+    const b = requireNumber(right, `Operator '${operator}'`);
+    if ((operator === '/' || operator === '%') && b === 0) {
+      throw new ExpressionEvaluationError('Division by zero');
+    }
+    return operator === '*' ? a * b : operator === '/' ? a / b : a % b;
+  }
+
+  private add(left: any, right: any): any {
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left + right;
+    }
+
+    if (left instanceof Duration && right instanceof Duration) {
+      return new Duration(left.ms + right.ms);
+    }
+
+    if (right instanceof Duration && asDate(left)) {
+      return new Date((asDate(left) as Date).getTime() + right.ms);
+    }
+
+    if (left instanceof Duration && asDate(right)) {
+      return new Date((asDate(right) as Date).getTime() + left.ms);
+    }
+
+    if (
+      typeof left === 'string' &&
+      (typeof right === 'string' || typeof right === 'number' || typeof right === 'boolean')
+    ) {
+      return this.checkString(left + String(right));
+    }
+
+    if (typeof right === 'string' && (typeof left === 'number' || typeof left === 'boolean')) {
+      return this.checkString(String(left) + right);
+    }
+
+    throw new ExpressionEvaluationError(
+      `Operator '+' is not defined for ${typeName(left)} and ${typeName(right)}`
+    );
+  }
+
+  private subtract(left: any, right: any): any {
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left - right;
+    }
+
+    if (left instanceof Duration && right instanceof Duration) {
+      return new Duration(left.ms - right.ms);
+    }
+
+    const leftDate = asDate(left);
+    if (leftDate && right instanceof Duration) {
+      return new Date(leftDate.getTime() - right.ms);
+    }
+
+    const rightDate = asDate(right);
+    if (leftDate && rightDate && (left instanceof Date || right instanceof Date)) {
+      return new Duration(leftDate.getTime() - rightDate.getTime());
+    }
+
+    throw new ExpressionEvaluationError(
+      `Operator '-' is not defined for ${typeName(left)} and ${typeName(right)}`
+    );
+  }
+
+  private charge(cost: number): void {
+    this.steps += cost;
+    if (this.steps > this.options.limits.maxSteps) {
+      throw new ExpressionEvaluationError(
+        `Expression exceeded the evaluation budget of ${this.options.limits.maxSteps} steps`
+      );
+    }
+  }
+
+  private checkString(value: string): string {
+    if (value.length > this.options.limits.maxStringLength) {
+      throw new ExpressionEvaluationError(
+        `Expression produced a string longer than ${this.options.limits.maxStringLength} characters`
+      );
+    }
+    return value;
+  }
+
+  private checkArray(value: any[]): any[] {
+    if (value.length > this.options.limits.maxArrayLength) {
+      throw new ExpressionEvaluationError(
+        `Expression produced an array longer than ${this.options.limits.maxArrayLength} items`
+      );
+    }
+    return value;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Whitelisted functions available to workflow expressions. All functions are
+ * pure: the current time comes from the evaluation, never the system clock.
+ */
+
+import { ExpressionEvaluationError } from './errors';
+import { DURATION_UNITS_MS } from './lexer';
+import {
+  Duration,
+  asDate,
+  requireArray,
+  requireDate,
+  requireNumber,
+  requireString,
+  typeName,
+  valuesEqual,
+} from './values';
+
+export interface FunctionRuntime {
+  now: Date;
+  charge(cost: number): void;
+  checkString(value: string): string;
+  checkArray(value: any[]): any[];
+}
+
+export interface BuiltinFunction {
+  minArgs: number;
+  maxArgs: number;
+  call: (args: any[], runtime: FunctionRuntime) => any;
+}
+
+const fn = (
+  minArgs: number,
+  maxArgs: number,
+  call: (args: any[], runtime: FunctionRuntime) => any
+): BuiltinFunction => ({ minArgs, maxArgs, call });
+
+function toText(value: any, runtime: FunctionRuntime): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Duration) return `${value.ms}ms`;
+  if (typeof value === 'object') {
+    const text = JSON.stringify(value);
+    runtime.charge(text.length);
+    return runtime.checkString(text);
+  }
+  return String(value);
+}
+
+function addToDate(args: any[], unitMs: number, name: string): Date {
+  const date = requireDate(args[0], `${name}()`);
+  const amount = requireNumber(args[1], `${name}()`);
+  return new Date(date.getTime() + amount * unitMs);
+}
+
+function diffDates(args: any[], unitMs: number, name: string): number {
+  const left = requireDate(args[0], `${name}()`);
+  const right = requireDate(args[1], `${name}()`);
+  return (left.getTime() - right.getTime()) / unitMs;
+}
+
+function numbersOf(args: any[], name: string, runtime: FunctionRuntime): number[] {
+  const values = requireArray(args[0], `${name}()`);
+  runtime.charge(values.length);
+  return values.map((value) => requireNumber(value, `${name}()`));
+}
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+function formatDate(date: Date, format: string): string {
+  // Longest tokens first; all fields are UTC so results do not depend on the host timezone
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => {
+    switch (token) {
+      case 'YYYY':
+        return pad(date.getUTCFullYear(), 4);
+      case 'MM':
+        return pad(date.getUTCMonth() + 1);
+      case 'DD':
+        return pad(date.getUTCDate());
+      case 'HH':
+        return pad(date.getUTCHours());
+      case 'mm':
+        return pad(date.getUTCMinutes());
+      default:
+        return pad(date.getUTCSeconds());
+    }
+  });
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export const BUILTIN_FUNCTIONS: Record<string, BuiltinFunction> = {
+  // Strings
+  lower: fn(1, 1, ([value]) => requireString(value, 'lower()').toLowerCase()),
+  upper: fn(1, 1, ([value]) => requireString(value, 'upper()').toUpperCase()),
+  trim: fn(1, 1, ([value]) => requireString(value, 'trim()').trim()),
+  startsWith: fn(2, 2, ([value, prefix]) =>
+    requireString(value, 'startsWith()').startsWith(requireString(prefix, 'startsWith()'))
+  ),
+  endsWith: fn(2, 2, ([value, suffix]) =>
+    requireString(value, 'endsWith()').endsWith(requireString(suffix, 'endsWith()'))
+  ),
+  replace: fn(3, 3, ([value, search, replacement], runtime) => {
+    const text = requireString(value, 'replace()');
+    const pattern = requireString(search, 'replace()');
+    if (pattern.length === 0) {
+      throw new ExpressionEvaluationError('replace() search string must not be empty');
+    }
+    runtime.charge(text.length);
+    // Literal replacement of every occurrence; no regular expressions
+    return runtime.checkString(text.split(pattern).join(requireString(replacement, 'replace()')));
+  }),
+  split: fn(2, 2, ([value, separator], runtime) => {
+    const text = requireString(value, 'split()');
+    runtime.charge(text.length);
+    return runtime.checkArray(text.split(requireString(separator, 'split()')));
+  }),
+  substring: fn(2, 3, ([value, start, end]) => {
+    const text = requireString(value, 'substring()');
+    return text.substring(
+      requireNumber(start, 'substring()'),
+      end === undefined ? text.length : requireNumber(end, 'substring()')
+    );
+  }),
+  concat: fn(1, Infinity, (args, runtime) => {
+    runtime.charge(args.length);
+    return runtime.checkString(args.map((value) => toText(value, runtime)).join(''));
+  }),
+
+  // Strings and arrays
+  length: fn(1, 1, ([value]) => {
+    if (value === null || value === undefined) return 0;
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (typeof value === 'object' && !(value instanceof Date) && !(value instanceof Duration)) {
+      return Object.keys(value).length;
+    }
+    throw new ExpressionEvaluationError(`length() is not defined for ${typeName(value)}`);
+  }),
+  contains: fn(2, 2, ([haystack, needle], runtime) => {
+    if (typeof haystack === 'string') {
+      return haystack.includes(requireString(needle, 'contains()'));
+    }
+    if (Array.isArray(haystack)) {
+      return haystack.some((item) => valuesEqual(item, needle, runtime.charge));
+    }
+    if (haystack === null || haystack === undefined) {
+      return false;
+    }
+    throw new ExpressionEvaluationError(`contains() is not defined for ${typeName(haystack)}`);
+  }),
+
+  // Arrays
+  first: fn(1, 1, ([value]) => requireArray(value, 'first()')[0]),
+  last: fn(1, 1, ([value]) => {
+    const items = requireArray(value, 'last()');
+    return items[items.length - 1];
+  }),
+  join: fn(1, 2, ([value, separator], runtime) => {
+    const items = requireArray(value, 'join()');
+    runtime.charge(items.length);
+    const glue = separator === undefined ? ',' : requireString(separator, 'join()');
+    return runtime.checkString(items.map((item) => toText(item, runtime)).join(glue));
+  }),
+  sum: fn(1, 1, (args, runtime) =>
+    numbersOf(args, 'sum', runtime).reduce((total, value) => total + value, 0)
+  ),
+  min: fn(1, 1, (args, runtime) => {
+    const values = numbersOf(args, 'min', runtime);
+    return values.length === 0 ? null : Math.min(...values);
+  }),
+  max: fn(1, 1, (args, runtime) => {
+    const values = numbersOf(args, 'max', runtime);
+    return values.length === 0 ? null : Math.max(...values);
+  }),
+  unique: fn(1, 1, ([value], runtime) => {
+    const items = requireArray(value, 'unique()');
+    const result: any[] = [];
+    for (const item of items) {
+      if (!result.some((existing) => valuesEqual(existing, item, runtime.charge))) {
+        result.push(item);
+      }
+    }
+    return result;
+  }),
+
+  // Null handling and conversion
+  isNull: fn(1, 1, ([value]) => value === null || value === undefined),
+  isEmpty: fn(1, 1, ([value]) => {
+    if (value === null || value === undefined) return true;
+    if (typeof value === 'string' || Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object' && !(value instanceof Date) && !(value instanceof Duration)) {
+      return Object.keys(value).length === 0;
+    }
+    return false;
+  }),
+  coalesce: fn(1, Infinity, (args) => {
+    const found = args.find((value) => value !== null && value !== undefined);
+    return found === undefined ? null : found;
+  }),
+  string: fn(1, 1, ([value], runtime) => toText(value, runtime)),
+  number: fn(1, 1, ([value]) => {
+    const result = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof result !== 'number' || !isFinite(result)) {
+      throw new ExpressionEvaluationError(`number() cannot convert ${typeName(value)} to a number`);
+    }
+    return result;
+  }),
+  boolean: fn(1, 1, ([value]) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return Boolean(value);
+  }),
+
+  // Numbers
+  abs: fn(1, 1, ([value]) => Math.abs(requireNumber(value, 'abs()'))),
+  floor: fn(1, 1, ([value]) => Math.floor(requireNumber(value, 'floor()'))),
+  ceil: fn(1, 1, ([value]) => Math.ceil(requireNumber(value, 'ceil()'))),
+  round: fn(1, 2, ([value, digits]) => {
+    const factor = Math.pow(10, digits === undefined ? 0 : requireNumber(digits, 'round()'));
+    return Math.round(requireNumber(value, 'round()') * factor) / factor;
+  }),
+
+  // Dates and durations
+  now: fn(0, 0, (_args, runtime) => runtime.now),
+  today: fn(0, 0, (_args, runtime) => startOfDay(runtime.now)),
+  date: fn(1, 1, ([value]) => {
+    const date = typeof value === 'number' ? new Date(value) : asDate(value);
+    if (!date || isNaN(date.getTime())) {
+      throw new ExpressionEvaluationError(`date() cannot convert ${typeName(value)} to a date`);
+    }
+    return date;
+  }),
+  addDays: fn(2, 2, (args) => addToDate(args, DURATION_UNITS_MS.d, 'addDays')),
+  addHours: fn(2, 2, (args) => addToDate(args, DURATION_UNITS_MS.h, 'addHours')),
+  addMinutes: fn(2, 2, (args) => addToDate(args, DURATION_UNITS_MS.m, 'addMinutes')),
+  diffDays: fn(2, 2, (args) => diffDates(args, DURATION_UNITS_MS.d, 'diffDays')),
+  diffHours: fn(2, 2, (args) => diffDates(args, DURATION_UNITS_MS.h, 'diffHours')),
+  diffMinutes: fn(2, 2, (args) => diffDates(args, DURATION_UNITS_MS.m, 'diffMinutes')),
+  startOfDay: fn(1, 1, ([value]) => startOfDay(requireDate(value, 'startOfDay()'))),
+  dayOfWeek: fn(1, 1, ([value]) => requireDate(value, 'dayOfWeek()').getUTCDay()),
+  formatDate: fn(1, 2, ([value, format]) =>
+    formatDate(
+      requireDate(value, 'formatDate()'),
+      format === undefined ? 'YYYY-MM-DD' : requireString(format, 'formatDate()')
+    )
+  ),
+  days: fn(1, 1, ([value]) => new Duration(requireNumber(value, 'days()') * DURATION_UNITS_MS.d)),
+  hours: fn(1, 1, ([value]) => new Duration(requireNumber(value, 'hours()') * DURATION_UNITS_MS.h)),
+  minutes: fn(
+    1,
+    1,
+    ([value]) => new Duration(requireNumber(value, 'minutes()') * DURATION_UNITS_MS.m)
+  ),
+};
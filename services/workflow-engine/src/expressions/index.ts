@@ -0,0 +1,231 @@
+/**
+ * Sandboxed expression language for edge conditions, execution conditions and
+ * parameter mappings.
+ *
+ * Expressions are parsed into an AST and interpreted; nothing is compiled to
+ * JavaScript. Only whitelisted functions can be called, property access is
+ * limited to own data properties, and every evaluation runs under a step budget
+ * so a workflow definition cannot stall the engine.
+ */
+
+import { evaluate, EvaluationLimits } from './evaluator';
+import { ExpressionSyntaxError } from './errors';
+import { ExpressionNode, parse, ParseLimits } from './parser';
+import { compareValues, isTruthy, toPlainValue, valuesEqual } from './values';
+
+export { ExpressionEvaluationError, ExpressionSyntaxError } from './errors';
+export { DURATION_UNITS_MS } from './lexer';
+export type { ExpressionNode } from './parser';
+
+export type ExpressionLimits = ParseLimits & EvaluationLimits;
+
+export interface ExpressionEvaluationOptions {
+  now?: Date; // value of now()/today(); pass a fixed time for reproducible results
+  limits?: Partial<ExpressionLimits>;
+}
+
+export class ExpressionEngine {
+  static readonly DEFAULT_LIMITS: ExpressionLimits = {
+    maxLength: 2000,
+    maxDepth: 32,
+    maxSteps: 10000,
+    maxStringLength: 10000,
+    maxArrayLength: 1000,
+  };
+
+  private static readonly CACHE_SIZE = 500;
+  private static readonly compiled = new Map<string, ExpressionNode>();
+
+  /**
+   * Parse an expression, caching the AST
+   */
+  static compile(source: string): ExpressionNode {
+    const cached = this.compiled.get(source);
+    if (cached) {
+      return cached;
+    }
+
+    const ast = parse(source, this.DEFAULT_LIMITS);
+
+    if (this.compiled.size >= this.CACHE_SIZE) {
+      this.compiled.delete(this.compiled.keys().next().value as string);
+    }
+    this.compiled.set(source, ast);
+
+    return ast;
+  }
+
+  /**
+   * Return a human-readable syntax error, or undefined if the expression is valid
+   */
+  static validate(source: string): string | undefined {
+    try {
+      this.compile(source);
+      return undefined;
+    } catch (error) {
+      if (error instanceof ExpressionSyntaxError) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Context paths an expression reads, such as 'event.payload.level' for both
+   * ${event.payload.level} and event.payload.level. Computed members end a path.
+   */
+  static references(source: string): string[] {
+    const references: string[] = [];
+    collectReads(this.compile(source), references, []);
+    return references;
+  }
+
+  /**
+   * Whether an expression reads neither the run context nor the clock, so its
+   * value is the same for every run
+   */
+  static isConstant(source: string): boolean {
+    const references: string[] = [];
+    const calls: string[] = [];
+    collectReads(this.compile(source), references, calls);
+    return references.length === 0 && !calls.some((callee) => CLOCK_FUNCTIONS.includes(callee));
+  }
+
+  /**
+   * Evaluate an expression against context variables. Dates in the result are
+   * returned as ISO strings and durations as milliseconds.
+   */
+  static evaluate(
+    source: string,
+    variables: Record<string, any>,
+    options: ExpressionEvaluationOptions = {}
+  ): any {
+    return toPlainValue(this.run(source, variables, options));
+  }
+
+  /**
+   * Evaluate an expression as a boolean condition
+   */
+  static evaluateBoolean(
+    source: string,
+    variables: Record<string, any>,
+    options: ExpressionEvaluationOptions = {}
+  ): boolean {
+    return isTruthy(this.run(source, variables, options));
+  }
+
+  /**
+   * Equality as defined by the `==` operator
+   */
+  static equals(left: any, right: any): boolean {
+    return valuesEqual(left, right, () => undefined);
+  }
+
+  /**
+   * Ordering as defined by the relational operators; throws for mismatched types
+   */
+  static compare(left: any, right: any, operator: string = 'compare'): number {
+    return compareValues(left, right, operator);
+  }
+
+  /**
+   * Expand flattened variable keys such as 'event.payload' into a nested scope
+   * so expressions can write event.payload.startDate
+   */
+  static buildScope(variables: Record<string, any>): Record<string, any> {
+    const scope: Record<string, any> = {};
+    const isRecord = (value: any) =>
+      value !== null && typeof value === 'object' && !Array.isArray(value);
+
+    // Shallow keys first so deeper keys merge into, rather than get replaced by, their parents
+    const keys = Object.keys(variables).sort((a, b) => a.split('.').length - b.split('.').length);
+
+    for (const key of keys) {
+      const segments = key.split('.');
+      const last = segments.pop() as string;
+      let target = scope;
+
+      for (const segment of segments) {
+        // Copy so merging never mutates a stored variable value
+        target[segment] = isRecord(target[segment]) ? { ...target[segment] } : {};
+        target = target[segment];
+      }
+
+      const value = variables[key];
+      target[last] =
+        isRecord(target[last]) && isRecord(value) ? { ...value, ...target[last] } : value;
+    }
+
+    return scope;
+  }
+
+  private static run(
+    source: string,
+    variables: Record<string, any>,
+    options: ExpressionEvaluationOptions
+  ): any {
+    return evaluate(this.compile(source), {
+      scope: this.buildScope(variables),
+      now: options.now || new Date(),
+      limits: { ...this.DEFAULT_LIMITS, ...options.limits },
+    });
+  }
+}
+
+const CLOCK_FUNCTIONS = ['now', 'today'];
+
+/**
+ * The dotted path a reference, identifier or chain of named members reads
+ */
+function pathOf(node: ExpressionNode): string | undefined {
+  switch (node.type) {
+    case 'reference':
+      return node.path;
+    case 'identifier':
+      return node.name;
+    case 'member': {
+      if (node.property.type !== 'literal' || typeof node.property.value !== 'string') {
+        return undefined;
+      }
+      const base = pathOf(node.object);
+      return base === undefined ? undefined : `${base}.${node.property.value}`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function collectReads(node: ExpressionNode, references: string[], calls: string[]): void {
+  const path = pathOf(node);
+  if (path !== undefined) {
+    references.push(path);
+    return;
+  }
+
+  switch (node.type) {
+    case 'member':
+      collectReads(node.object, references, calls);
+      collectReads(node.property, references, calls);
+      break;
+    case 'call':
+      calls.push(node.callee);
+      node.args.forEach((arg) => collectReads(arg, references, calls));
+      break;
+    case 'array':
+      node.elements.forEach((element) => collectReads(element, references, calls));
+      break;
+    case 'unary':
+      collectReads(node.argument, references, calls);
+      break;
+    case 'binary':
+    case 'logical':
+      collectReads(node.left, references, calls);
+      collectReads(node.right, references, calls);
+      break;
+    case 'conditional':
+      collectReads(node.test, references, calls);
+      collectReads(node.consequent, references, calls);
+      collectReads(node.alternate, references, calls);
+      break;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Tokenizer for the workflow expression language
+ */
+
+import { ExpressionSyntaxError } from './errors';
+
+export type TokenType =
+  'number' | 'duration' | 'string' | 'reference' | 'identifier' | 'keyword' | 'punctuator' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  numericValue?: number; // numbers and durations (milliseconds)
+}
+
+const KEYWORDS = new Set(['true', 'false', 'null']);
+
+// Longest punctuators first so `===` wins over `==` and `?.` over `?`
+const PUNCTUATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '??',
+  '?.',
+  '(',
+  ')',
+  '[',
+  ']',
+  ',',
+  '.',
+  '?',
+  ':',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '<',
+  '>',
+];
+
+export const DURATION_UNITS_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+};
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // ${path} references into the run context
+    if (source.startsWith('${', index)) {
+      const end = source.indexOf('}', index + 2);
+      if (end === -1) {
+        throw new ExpressionSyntaxError('Unterminated ${...} reference', index);
+      }
+      const path = source.slice(index + 2, end).trim();
+      if (path.length === 0) {
+        throw new ExpressionSyntaxError('Empty ${} reference', index);
+      }
+      tokens.push({ type: 'reference', value: path, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = source.slice(index).match(/^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)?(?![A-Za-z0-9_])/);
+      if (!match) {
+        throw new ExpressionSyntaxError(`Invalid number literal`, index);
+      }
+
+      const numericValue = parseFloat(match[1]);
+      if (match[2]) {
+        tokens.push({
+          type: 'duration',
+          value: match[0],
+          position: index,
+          numericValue: numericValue * DURATION_UNITS_MS[match[2]],
+        });
+      } else {
+        tokens.push({ type: 'number', value: match[0], position: index, numericValue });
+      }
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let cursor = index + 1;
+      let closed = false;
+
+      while (cursor < source.length) {
+        const current = source[cursor];
+        if (current === '\\') {
+          const escaped = source[cursor + 1];
+          if (escaped === undefined || STRING_ESCAPES[escaped] === undefined) {
+            throw new ExpressionSyntaxError(`Invalid escape sequence`, cursor);
+          }
+          value += STRING_ESCAPES[escaped];
+          cursor += 2;
+          continue;
+        }
+        if (current === char) {
+          closed = true;
+          break;
+        }
+        value += current;
+        cursor++;
+      }
+
+      if (!closed) {
+        throw new ExpressionSyntaxError('Unterminated string literal', index);
+      }
+
+      tokens.push({ type: 'string', value, position: index });
+      index = cursor + 1;
+      continue;
+    }
+
+    const identifier = source.slice(index).match(/^[A-Za-z_$][A-Za-z0-9_$]*/);
+    if (identifier) {
+      const value = identifier[0];
+      tokens.push({
+        type: KEYWORDS.has(value) ? 'keyword' : 'identifier',
+        value,
+        position: index,
+      });
+      index += value.length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((candidate) => source.startsWith(candidate, index));
+    if (punctuator) {
+      // `a ?.5 : b` is a conditional, not optional chaining
+      if (punctuator === '?.' && /[0-9]/.test(source[index + 2] || '')) {
+        tokens.push({ type: 'punctuator', value: '?', position: index });
+        index += 1;
+        continue;
+      }
+
+      tokens.push({ type: 'punctuator', value: punctuator, position: index });
+      index += punctuator.length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character '${char}'`, index);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
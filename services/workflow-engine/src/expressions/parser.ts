@@ -0,0 +1,373 @@
+/**
+ * Recursive-descent parser producing an expression AST
+ */
+
+import { ExpressionSyntaxError } from './errors';
+import { BUILTIN_FUNCTIONS } from './functions';
+import { Token, tokenize } from './lexer';
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type LogicalOperator = '&&' | '||' | '??';
+
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'duration'; ms: number }
+  | { type: 'reference'; path: string }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; optional: boolean }
+  | { type: 'call'; callee: string; args: ExpressionNode[] }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'unary'; operator: '!' | '-'; argument: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'logical'; operator: LogicalOperator; left: ExpressionNode; right: ExpressionNode }
+  | {
+      type: 'conditional';
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    };
+
+export interface ParseLimits {
+  maxLength: number;
+  maxDepth: number;
+}
+
+const EQUALITY_OPERATORS: Record<string, BinaryOperator> = {
+  '==': '==',
+  '===': '==',
+  '!=': '!=',
+  '!==': '!=',
+};
+
+export function parse(source: string, limits: ParseLimits): ExpressionNode {
+  if (typeof source !== 'string' || source.trim().length === 0) {
+    throw new ExpressionSyntaxError('Expression is empty', 0);
+  }
+
+  if (source.length > limits.maxLength) {
+    throw new ExpressionSyntaxError(
+      `Expression exceeds maximum length of ${limits.maxLength} characters`,
+      limits.maxLength
+    );
+  }
+
+  return new Parser(tokenize(source), limits.maxDepth).parseExpression();
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(
+    private tokens: Token[],
+    private maxDepth: number
+  ) {}
+
+  parseExpression(): ExpressionNode {
+    const expression = this.parseConditional();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionSyntaxError(`Unexpected token '${next.value}'`, next.position);
+    }
+    return expression;
+  }
+
+  private parseConditional(): ExpressionNode {
+    return this.nested(() => {
+      const test = this.parseNullish();
+      if (!this.matchPunctuator('?')) {
+        return test;
+      }
+
+      const consequent = this.parseConditional();
+      this.expectPunctuator(':');
+      const alternate = this.parseConditional();
+      return { type: 'conditional', test, consequent, alternate };
+    });
+  }
+
+  private parseNullish(): ExpressionNode {
+    let left = this.parseOr();
+    while (this.matchPunctuator('??')) {
+      left = { type: 'logical', operator: '??', left, right: this.parseOr() };
+    }
+    return left;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchPunctuator('||')) {
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseEquality();
+    while (this.matchPunctuator('&&')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    let left = this.parseRelational();
+    for (;;) {
+      const token = this.peek();
+      const operator = token.type === 'punctuator' ? EQUALITY_OPERATORS[token.value] : undefined;
+      if (!operator) {
+        return left;
+      }
+      this.index++;
+      left = { type: 'binary', operator, left, right: this.parseRelational() };
+    }
+  }
+
+  private parseRelational(): ExpressionNode {
+    let left = this.parseAdditive();
+    for (;;) {
+      const operator = this.matchAnyPunctuator(['<=', '>=', '<', '>']);
+      if (!operator) {
+        return left;
+      }
+      left = {
+        type: 'binary',
+        operator: operator as BinaryOperator,
+        left,
+        right: this.parseAdditive(),
+      };
+    }
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const operator = this.matchAnyPunctuator(['+', '-']);
+      if (!operator) {
+        return left;
+      }
+      left = {
+        type: 'binary',
+        operator: operator as BinaryOperator,
+        left,
+        right: this.parseMultiplicative(),
+      };
+    }
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const operator = this.matchAnyPunctuator(['*', '/', '%']);
+      if (!operator) {
+        return left;
+      }
+      left = {
+        type: 'binary',
+        operator: operator as BinaryOperator,
+        left,
+        right: this.parseUnary(),
+      };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const operator = this.matchAnyPunctuator(['!', '-']);
+    if (operator) {
+      return this.nested(() => ({
+        type: 'unary',
+        operator: operator as '!' | '-',
+        argument: this.parseUnary(),
+      }));
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let expression = this.parsePrimary();
+
+    for (;;) {
+      if (this.matchPunctuator('.')) {
+        expression = {
+          type: 'member',
+          object: expression,
+          property: this.parsePropertyName(),
+          optional: false,
+        };
+        continue;
+      }
+
+      if (this.matchPunctuator('?.')) {
+        if (this.matchPunctuator('[')) {
+          const property = this.parseConditional();
+          this.expectPunctuator(']');
+          expression = { type: 'member', object: expression, property, optional: true };
+        } else {
+          expression = {
+            type: 'member',
+            object: expression,
+            property: this.parsePropertyName(),
+            optional: true,
+          };
+        }
+        continue;
+      }
+
+      if (this.matchPunctuator('[')) {
+        const property = this.parseConditional();
+        this.expectPunctuator(']');
+        expression = { type: 'member', object: expression, property, optional: false };
+        continue;
+      }
+
+      return expression;
+    }
+  }
+
+  private parsePropertyName(): ExpressionNode {
+    const token = this.peek();
+    if (token.type !== 'identifier' && token.type !== 'keyword') {
+      throw new ExpressionSyntaxError('Expected property name', token.position);
+    }
+    this.index++;
+    return { type: 'literal', value: token.value };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.index++;
+        return { type: 'literal', value: token.numericValue as number };
+
+      case 'duration':
+        this.index++;
+        return { type: 'duration', ms: token.numericValue as number };
+
+      case 'string':
+        this.index++;
+        return { type: 'literal', value: token.value };
+
+      case 'reference':
+        this.index++;
+        return { type: 'reference', path: token.value };
+
+      case 'keyword':
+        this.index++;
+        return { type: 'literal', value: token.value === 'null' ? null : token.value === 'true' };
+
+      case 'identifier':
+        this.index++;
+        if (this.matchPunctuator('(')) {
+          return this.nested(() => this.parseCall(token));
+        }
+        return { type: 'identifier', name: token.value };
+
+      case 'punctuator':
+        if (token.value === '(') {
+          this.index++;
+          const expression = this.parseConditional();
+          this.expectPunctuator(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          this.index++;
+          return this.nested(() => ({ type: 'array', elements: this.parseList(']') }));
+        }
+        break;
+
+      case 'eof':
+        throw new ExpressionSyntaxError('Unexpected end of expression', token.position);
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected token '${token.value}'`, token.position);
+  }
+
+  /**
+   * Parse a call to a builtin function, checking the name and arity up front
+   */
+  private parseCall(callee: Token): ExpressionNode {
+    if (!Object.prototype.hasOwnProperty.call(BUILTIN_FUNCTIONS, callee.value)) {
+      throw new ExpressionSyntaxError(`Unknown function '${callee.value}'`, callee.position);
+    }
+
+    const args = this.parseList(')');
+    const { minArgs, maxArgs } = BUILTIN_FUNCTIONS[callee.value];
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected =
+        minArgs === maxArgs
+          ? `${minArgs}`
+          : maxArgs === Infinity
+            ? `at least ${minArgs}`
+            : `${minArgs} to ${maxArgs}`;
+      throw new ExpressionSyntaxError(
+        `Function '${callee.value}' expects ${expected} argument(s) but got ${args.length}`,
+        callee.position
+      );
+    }
+
+    return { type: 'call', callee: callee.value, args };
+  }
+
+  private parseList(closing: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.matchPunctuator(closing)) {
+      return items;
+    }
+
+    do {
+      items.push(this.parseConditional());
+    } while (this.matchPunctuator(','));
+
+    this.expectPunctuator(closing);
+    return items;
+  }
+
+  private nested<T>(parseFn: () => T): T {
+    this.depth++;
+    if (this.depth > this.maxDepth) {
+      throw new ExpressionSyntaxError(
+        `Expression exceeds maximum nesting depth of ${this.maxDepth}`,
+        this.peek().position
+      );
+    }
+
+    try {
+      return parseFn();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private matchPunctuator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchAnyPunctuator(values: string[]): string | undefined {
+    const token = this.peek();
+    if (token.type === 'punctuator' && values.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private expectPunctuator(value: string): void {
+    const token = this.peek();
+    if (!this.matchPunctuator(value)) {
+      const found = token.type === 'eof' ? 'end of expression' : `'${token.value}'`;
+      throw new ExpressionSyntaxError(`Expected '${value}' but found ${found}`, token.position);
+    }
+  }
+}
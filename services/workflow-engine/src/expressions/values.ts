@@ -0,0 +1,236 @@
+/**
+ * Runtime value helpers for the expression language
+ */
+
+import { ExpressionEvaluationError } from './errors';
+
+export class Duration {
+  constructor(public readonly ms: number) {}
+}
+
+// ISO-8601 dates, optionally with a time component
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+export function typeName(value: any): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (value instanceof Date) return 'date';
+  if (value instanceof Duration) return 'duration';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export function isIsoDateString(value: any): value is string {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Coerce a Date or ISO date string to a Date, or return undefined
+ */
+export function asDate(value: any): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (isIsoDateString(value)) {
+    return new Date(value);
+  }
+  return undefined;
+}
+
+export function requireDate(value: any, context: string): Date {
+  const date = asDate(value);
+  if (!date) {
+    throw new ExpressionEvaluationError(`${context} expects a date but got ${typeName(value)}`);
+  }
+  return date;
+}
+
+export function requireNumber(value: any, context: string): number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new ExpressionEvaluationError(`${context} expects a number but got ${typeName(value)}`);
+  }
+  return value;
+}
+
+export function requireString(value: any, context: string): string {
+  if (typeof value !== 'string') {
+    throw new ExpressionEvaluationError(`${context} expects a string but got ${typeName(value)}`);
+  }
+  return value;
+}
+
+export function requireArray(value: any, context: string): any[] {
+  if (!Array.isArray(value)) {
+    throw new ExpressionEvaluationError(`${context} expects an array but got ${typeName(value)}`);
+  }
+  return value;
+}
+
+export function isTruthy(value: any): boolean {
+  if (value instanceof Duration) {
+    return value.ms !== 0;
+  }
+  return Boolean(value);
+}
+
+/**
+ * Read a property without exposing prototypes or host objects
+ */
+export function getProperty(target: any, key: any): any {
+  if (typeof key !== 'string' && typeof key !== 'number') {
+    throw new ExpressionEvaluationError(
+      `Property key must be a string or number, got ${typeName(key)}`
+    );
+  }
+
+  const name = String(key);
+  if (BLOCKED_PROPERTIES.has(name)) {
+    throw new ExpressionEvaluationError(`Access to property '${name}' is not allowed`);
+  }
+
+  if (typeof target === 'string' || Array.isArray(target)) {
+    if (name === 'length') {
+      return target.length;
+    }
+    return /^\d+$/.test(name) ? target[Number(name)] : undefined;
+  }
+
+  if (
+    target !== null &&
+    typeof target === 'object' &&
+    !(target instanceof Date) &&
+    !(target instanceof Duration) &&
+    Object.prototype.hasOwnProperty.call(target, name)
+  ) {
+    return target[name];
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a dotted path. Keys containing dots (flattened context variables such as
+ * 'nodes.Send Welcome.output') are matched longest-prefix first at each level.
+ */
+export function lookupPath(root: any, path: string): any {
+  const segments = path.split('.').map((segment) => segment.trim());
+  let current = root;
+  let index = 0;
+
+  while (index < segments.length) {
+    if (current === undefined || current === null) {
+      return undefined;
+    }
+
+    let matched = false;
+    for (let end = segments.length; end > index; end--) {
+      const key = segments.slice(index, end).join('.');
+      const value = getProperty(current, key);
+      if (value !== undefined) {
+        current = value;
+        index = end;
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Structural equality. null and undefined are equal; dates and durations compare by value.
+ */
+export function valuesEqual(left: any, right: any, charge: (cost: number) => void): boolean {
+  charge(1);
+
+  if (left === undefined || left === null || right === undefined || right === null) {
+    return (left === undefined || left === null) && (right === undefined || right === null);
+  }
+
+  const leftDate = left instanceof Date ? left : undefined;
+  const rightDate = right instanceof Date ? right : undefined;
+  if (leftDate || rightDate) {
+    const a = asDate(left);
+    const b = asDate(right);
+    return !!a && !!b && a.getTime() === b.getTime();
+  }
+
+  if (left instanceof Duration || right instanceof Duration) {
+    return left instanceof Duration && right instanceof Duration && left.ms === right.ms;
+  }
+
+  if (Array.isArray(left) || Array.isArray(right)) {
+    if (!Array.isArray(left) || !Array.isArray(right) || left.length !== right.length) {
+      return false;
+    }
+    return left.every((item, i) => valuesEqual(item, right[i], charge));
+  }
+
+  if (typeof left === 'object' && typeof right === 'object') {
+    const leftKeys = Object.keys(left);
+    const rightKeys = Object.keys(right);
+    if (leftKeys.length !== rightKeys.length) {
+      return false;
+    }
+    return leftKeys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(right, key) &&
+        valuesEqual(left[key], right[key], charge)
+    );
+  }
+
+  return left === right;
+}
+
+/**
+ * Order two values of the same type. Dates may be given as ISO strings when
+ * the other side is a date.
+ */
+export function compareValues(left: any, right: any, operator: string): number {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+
+  if (left instanceof Duration && right instanceof Duration) {
+    return left.ms - right.ms;
+  }
+
+  if (left instanceof Date || right instanceof Date) {
+    const a = asDate(left);
+    const b = asDate(right);
+    if (a && b) {
+      return a.getTime() - b.getTime();
+    }
+  } else if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  throw new ExpressionEvaluationError(
+    `Operator '${operator}' cannot compare ${typeName(left)} with ${typeName(right)}`
+  );
+}
+
+/**
+ * Convert runtime values to JSON-friendly results: dates become ISO strings,
+ * durations become milliseconds
+ */
+export function toPlainValue(value: any): any {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Duration) {
+    return value.ms;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  return value;
+}
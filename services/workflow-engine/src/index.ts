@@ -9,7 +9,14 @@ import compression from 'compression';
 import {
   WorkflowRepositoryImpl,
   WorkflowRunRepositoryImpl,
+  NodeRunRepositoryImpl,
   EmployeeRepositoryImpl,
+  OrganizationRepositoryImpl,
+  WorkflowScheduleRepositoryImpl,
+  RunEventRepositoryImpl,
+  CompensationPlanRepositoryImpl,
+  SlaRecordRepositoryImpl,
+  OrganizationSecretRepositoryImpl,
   db,
 } from '@officeflow/database';
 import {
@@ -40,6 +47,13 @@ async function startWorkflowEngine() {
     const workflowRepo = new WorkflowRepositoryImpl();
     const workflowRunRepo = new WorkflowRunRepositoryImpl();
     const employeeRepo = new EmployeeRepositoryImpl();
+    const nodeRunRepo = new NodeRunRepositoryImpl();
+    const scheduleRepo = new WorkflowScheduleRepositoryImpl();
+    const organizationRepo = new OrganizationRepositoryImpl();
+    const runEventRepo = new RunEventRepositoryImpl();
+    const compensationPlanRepo = new CompensationPlanRepositoryImpl();
+    const slaRecordRepo = new SlaRecordRepositoryImpl();
+    const organizationSecretRepo = new OrganizationSecretRepositoryImpl();
 
     // Add health checks
     healthService.addCheck(
@@ -60,7 +74,14 @@ async function startWorkflowEngine() {
       config,
       workflowRepo,
       workflowRunRepo,
-      employeeRepo
+      employeeRepo,
+      nodeRunRepo,
+      scheduleRepo,
+      organizationRepo,
+      runEventRepo,
+      compensationPlanRepo,
+      slaRecordRepo,
+      organizationSecretRepo
     );
 
     // Start the engine service
@@ -0,0 +1,52 @@
+/**
+ * Node schemas by node type: the built-in ones, replaced by the schemas
+ * executor services serve at /schema where their endpoints are configured
+ */
+
+import { NodeSchema, NodeType } from '@officeflow/types';
+import { NODE_SCHEMAS } from './node-schemas';
+
+export class NodeSchemaRegistry {
+  private schemas: Map<NodeType, NodeSchema>;
+
+  constructor(schemas: Partial<Record<NodeType, NodeSchema>> = NODE_SCHEMAS) {
+    this.schemas = new Map(Object.entries(schemas) as Array<[NodeType, NodeSchema]>);
+  }
+
+  get(type: NodeType): NodeSchema | undefined {
+    return this.schemas.get(type);
+  }
+
+  /**
+   * Fetch executor schemas by node type. Executors that don't answer keep the
+   * built-in schema of their node type.
+   */
+  async loadExecutorSchemas(
+    endpoints: Partial<Record<NodeType, string>>,
+    timeoutMs: number = 5000
+  ): Promise<void> {
+    await Promise.all(
+      Object.entries(endpoints).map(async ([type, url]) => {
+        try {
+          const response = await fetch(url!, { signal: AbortSignal.timeout(timeoutMs) });
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+
+          const schema = (await response.json()) as NodeSchema;
+          if (!Array.isArray(schema?.parameters) || !Array.isArray(schema?.outputs)) {
+            throw new Error('Response is not a node schema');
+          }
+
+          // Executors name their schema after themselves, not after the node type
+          this.schemas.set(type as NodeType, { ...schema, type });
+        } catch (error) {
+          console.warn(
+            `Failed to load the ${type} schema from ${url}, keeping the built-in:`,
+            error
+          );
+        }
+      })
+    );
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Schemas of the node types, used to type-check workflows and to simulate node
+ * results. Executor schemas mirror what the executor services serve at
+ * /schema; engine node outputs are built by the orchestrator itself. An empty
+ * parameter list means the parameters are not described.
+ */
+
+import { NodeParameter, NodeSchema, NodeType } from '@officeflow/types';
+
+// Parameters of the identity service's executor
+const IDENTITY_PARAMETERS: NodeParameter[] = [
+  {
+    name: 'provider',
+    type: 'string',
+    description: 'Identity provider to use',
+    required: true,
+    validation: { enum: ['okta', 'google_workspace', 'office365', 'active_directory'] },
+  },
+  {
+    name: 'action',
+    type: 'string',
+    description: 'Action to perform',
+    required: true,
+    validation: { enum: ['provision', 'deprovision', 'update', 'assign_groups'] },
+  },
+  {
+    name: 'userEmail',
+    type: 'string',
+    description: 'User email address',
+    required: true,
+    validation: { pattern: '^[^@]+@[^@]+\\.[^@]+$' },
+  },
+  { name: 'firstName', type: 'string', description: 'First name', required: false },
+  { name: 'lastName', type: 'string', description: 'Last name', required: false },
+  { name: 'department', type: 'string', description: 'Department', required: false },
+  { name: 'title', type: 'string', description: 'Job title', required: false },
+  { name: 'manager', type: 'string', description: 'Manager email', required: false },
+  { name: 'groups', type: 'array', description: 'Groups to assign', required: false },
+  { name: 'permissions', type: 'array', description: 'Permissions to grant', required: false },
+  { name: 'licenses', type: 'array', description: 'Licenses to assign', required: false },
+];
+
+export const NODE_SCHEMAS: Partial<Record<NodeType, NodeSchema>> = {
+  'identity.provision': {
+    type: 'identity.provision',
+    name: 'Provision Identity',
+    description: 'Create or update a user account with the identity provider',
+    category: 'identity',
+    parameters: IDENTITY_PARAMETERS,
+    outputs: [
+      { name: 'userId', type: 'string', description: 'Created or updated user ID' },
+      { name: 'email', type: 'string', description: 'User email address' },
+    ],
+  },
+  'identity.deprovision': {
+    type: 'identity.deprovision',
+    name: 'Deprovision Identity',
+    description: 'Suspend or remove a user account with the identity provider',
+    category: 'identity',
+    parameters: IDENTITY_PARAMETERS,
+    outputs: [
+      { name: 'userId', type: 'string', description: 'Deprovisioned user ID' },
+      { name: 'email', type: 'string', description: 'User email address' },
+    ],
+  },
+  'email.send': {
+    type: 'email.send',
+    name: 'Send Email',
+    description: 'Send an email from a template',
+    category: 'communication',
+    parameters: [],
+    outputs: [
+      { name: 'messageId', type: 'string', description: 'Message ID assigned by the provider' },
+      { name: 'status', type: 'string', description: 'Delivery status' },
+    ],
+    examples: [
+      {
+        name: 'Sent',
+        description: 'Email accepted by the provider',
+        input: {},
+        expectedOutput: { messageId: 'simulated-message-id', status: 'sent' },
+      },
+    ],
+  },
+  'calendar.schedule': {
+    type: 'calendar.schedule',
+    name: 'Schedule Meeting',
+    description: 'Create a calendar event',
+    category: 'calendar',
+    parameters: [],
+    outputs: [
+      { name: 'eventId', type: 'string', description: 'Calendar event ID' },
+      { name: 'meetingLink', type: 'string', description: 'Conference link of the event' },
+    ],
+  },
+  'slack.message': {
+    type: 'slack.message',
+    name: 'Send Slack Message',
+    description: 'Post a message to a Slack channel or user',
+    category: 'communication',
+    parameters: [],
+    outputs: [
+      { name: 'channelId', type: 'string', description: 'Channel the message was posted to' },
+      { name: 'messageTs', type: 'string', description: 'Timestamp ID of the message' },
+    ],
+  },
+  'slack.channel_invite': {
+    type: 'slack.channel_invite',
+    name: 'Invite to Slack Channels',
+    description: 'Invite a user to Slack channels',
+    category: 'communication',
+    parameters: [],
+    outputs: [
+      { name: 'userId', type: 'string', description: 'Invited Slack user ID' },
+      { name: 'channels', type: 'array', description: 'Channels the user was invited to' },
+    ],
+  },
+  'document.distribute': {
+    type: 'document.distribute',
+    name: 'Distribute Documents',
+    description: 'Share documents with an employee',
+    category: 'documents',
+    parameters: [],
+    outputs: [
+      { name: 'documentIds', type: 'array', description: 'Distributed document IDs' },
+      { name: 'urls', type: 'array', description: 'Secure links to the documents' },
+    ],
+  },
+  'ai.generate_content': {
+    type: 'ai.generate_content',
+    name: 'Generate Content',
+    description: 'Generate content with an AI model',
+    category: 'ai',
+    parameters: [
+      {
+        name: 'provider',
+        type: 'string',
+        description: 'AI provider to use',
+        required: false,
+        defaultValue: 'openai',
+        validation: { enum: ['openai', 'anthropic', 'azure_openai'] },
+      },
+      { name: 'model', type: 'string', description: 'AI model to use', required: false },
+      {
+        name: 'prompt',
+        type: 'string',
+        description: 'Prompt template or custom prompt text',
+        required: true,
+        validation: { minLength: 10, maxLength: 10000 },
+      },
+      {
+        name: 'templateData',
+        type: 'object',
+        description: 'Data to substitute in the prompt template',
+        required: false,
+      },
+      {
+        name: 'maxTokens',
+        type: 'number',
+        description: 'Maximum tokens to generate',
+        required: false,
+        defaultValue: 2000,
+        validation: { min: 1, max: 8000 },
+      },
+      {
+        name: 'temperature',
+        type: 'number',
+        description: 'Creativity/randomness level (0.0 to 2.0)',
+        required: false,
+        defaultValue: 0.7,
+        validation: { min: 0, max: 2 },
+      },
+      {
+        name: 'outputFormat',
+        type: 'string',
+        description: 'Expected output format',
+        required: false,
+        defaultValue: 'text',
+        validation: { enum: ['text', 'json', 'markdown'] },
+      },
+      {
+        name: 'aiType',
+        type: 'string',
+        description: 'Type of AI content to generate',
+        required: false,
+        validation: {
+          enum: [
+            'welcome_message',
+            'role_specific_content',
+            'document_summary',
+            'sentiment_analysis',
+            'custom',
+          ],
+        },
+      },
+    ],
+    outputs: [
+      { name: 'content', type: 'string', description: 'Generated content' },
+      {
+        name: 'metadata',
+        type: 'object',
+        description: 'Generation metadata (model, tokens, etc.)',
+      },
+      { name: 'cost', type: 'object', description: 'Cost information and token usage' },
+    ],
+  },
+  'webhook.call': {
+    type: 'webhook.call',
+    name: 'Call Webhook',
+    description: 'Make an HTTP request; mapped response fields are added to the output',
+    category: 'integration',
+    parameters: [],
+    outputs: [
+      { name: 'statusCode', type: 'number', description: 'HTTP status code' },
+      { name: 'body', type: 'object', description: 'Response body' },
+    ],
+    examples: [
+      {
+        name: 'Success',
+        description: 'Endpoint accepted the request',
+        input: {},
+        expectedOutput: { statusCode: 200, body: {} },
+      },
+    ],
+  },
+  'workflow.invoke': {
+    type: 'workflow.invoke',
+    name: 'Invoke Workflow',
+    description: "Run another workflow; sync invocations output the child's mapped results",
+    category: 'control',
+    parameters: [],
+    outputs: [],
+  },
+  approval: {
+    type: 'approval',
+    name: 'Approval',
+    description: 'Wait for a human decision',
+    category: 'control',
+    parameters: [],
+    outputs: [
+      { name: 'decision', type: 'string', description: "'approved' or 'rejected'" },
+      { name: 'decidedBy', type: 'string', description: 'Approver who decided' },
+      { name: 'decidedAt', type: 'string', description: 'Time of the decision' },
+      { name: 'escalationLevel', type: 'number', description: 'Escalations before the decision' },
+    ],
+    examples: [
+      {
+        name: 'Approved',
+        description: 'First approver approves',
+        input: {},
+        expectedOutput: {
+          decision: 'approved',
+          decidedBy: 'approver@example.com',
+          decidedAt: '2024-01-01T09:00:00.000Z',
+          escalationLevel: 0,
+        },
+      },
+    ],
+  },
+  wait_for_event: {
+    type: 'wait_for_event',
+    name: 'Wait For Event',
+    description: 'Wait for an external signal, such as a laptop delivery',
+    category: 'control',
+    parameters: [],
+    outputs: [
+      { name: 'outcome', type: 'string', description: "'received' or 'timeout'" },
+      { name: 'signal', type: 'string', description: 'Name of the signal waited for' },
+      { name: 'signalId', type: 'string', description: 'ID of the signal received' },
+      { name: 'payload', type: 'object', description: 'Payload of the signal received' },
+      { name: 'receivedAt', type: 'string', description: 'Time the signal was received' },
+    ],
+    examples: [
+      {
+        name: 'Received',
+        description: 'Laptop delivery confirmed',
+        input: { signal: 'laptop.delivered' },
+        expectedOutput: {
+          outcome: 'received',
+          signal: 'laptop.delivered',
+          signalId: 'b7f1c2d4-5e6f-4a8b-9c0d-1e2f3a4b5c6d',
+          payload: { serialNumber: 'C02XK1' },
+          receivedAt: '2024-01-03T14:00:00.000Z',
+        },
+      },
+    ],
+  },
+  foreach: {
+    type: 'foreach',
+    name: 'For Each',
+    description: 'Run a node once per item',
+    category: 'control',
+    parameters: [],
+    outputs: [
+      { name: 'results', type: 'array', description: 'Iteration outputs in item order' },
+      { name: 'errors', type: 'array', description: 'Failed iterations' },
+      { name: 'total', type: 'number', description: 'Number of items' },
+      { name: 'succeeded', type: 'number', description: 'Successful iterations' },
+      { name: 'failed', type: 'number', description: 'Failed iterations' },
+    ],
+  },
+  delay: {
+    type: 'delay',
+    name: 'Delay',
+    description: 'Wait for a duration or until a point in time',
+    category: 'control',
+    parameters: [],
+    outputs: [
+      { name: 'scheduledFor', type: 'string', description: 'Time the delay was due' },
+      { name: 'firedAt', type: 'string', description: 'Time the delay fired' },
+    ],
+  },
+};
@@ -0,0 +1,95 @@
+/**
+ * Plans re-runs of failed workflow runs: which nodes run again and which
+ * completed outputs of the original run are reused
+ */
+
+import { UUID } from '@officeflow/types';
+import { WorkflowState } from '../types/workflow-state';
+import { WorkflowParser, ParsedWorkflow } from './workflow-parser';
+
+export class RerunError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOT_RERUNNABLE' | 'INVALID_NODE'
+  ) {
+    super(message);
+    this.name = 'RerunError';
+  }
+}
+
+export interface RerunPlan {
+  startNodeIds: UUID[];
+  completedNodes: Set<UUID>; // completed in the original run and not downstream of a start node
+  nodeOutputs: Record<UUID, Record<string, any>>;
+}
+
+export interface RerunLink {
+  runId: UUID; // the run being re-run
+  fromNodeId?: UUID;
+  plan: RerunPlan;
+}
+
+export class RerunPlanner {
+  /**
+   * Plan a re-run from a chosen node, or from every node that failed or never
+   * finished. Start nodes and everything downstream of them run again.
+   */
+  plan(parsedWorkflow: ParsedWorkflow, original: WorkflowState, fromNodeId?: UUID): RerunPlan {
+    const startNodeIds = fromNodeId
+      ? [this.validateStartNode(parsedWorkflow, original, fromNodeId)]
+      : [...original.failedNodes, ...original.currentNodes].filter((nodeId) =>
+          parsedWorkflow.nodeMap.has(nodeId)
+        );
+
+    if (startNodeIds.length === 0) {
+      throw new RerunError(
+        `Workflow run ${original.runId} has no failed nodes to re-run`,
+        'NOT_RERUNNABLE'
+      );
+    }
+
+    const rerunNodes = WorkflowParser.getDownstreamNodes(parsedWorkflow, startNodeIds);
+    const completedNodes = new Set(
+      [...original.completedNodes].filter((nodeId) => !rerunNodes.has(nodeId))
+    );
+
+    const nodeOutputs: Record<UUID, Record<string, any>> = {};
+    for (const nodeId of completedNodes) {
+      nodeOutputs[nodeId] = original.nodeOutputs?.[nodeId] || {};
+    }
+
+    return { startNodeIds, completedNodes, nodeOutputs };
+  }
+
+  /**
+   * A node can be re-run once every upstream node has settled in the original run
+   */
+  private validateStartNode(
+    parsedWorkflow: ParsedWorkflow,
+    original: WorkflowState,
+    nodeId: UUID
+  ): UUID {
+    const node = parsedWorkflow.nodeMap.get(nodeId);
+    if (!node) {
+      throw new RerunError(`Node ${nodeId} is not part of the workflow`, 'INVALID_NODE');
+    }
+
+    const incomingEdges = WorkflowParser.getIncomingEdges(parsedWorkflow, nodeId);
+    const upstreamSettled = incomingEdges.every(
+      (edge) =>
+        original.completedNodes.has(edge.fromNodeId) || original.skippedNodes.has(edge.fromNodeId)
+    );
+    const reached =
+      incomingEdges.length === 0 ||
+      incomingEdges.some((edge) => original.completedNodes.has(edge.fromNodeId));
+
+    if (!upstreamSettled || !reached) {
+      throw new RerunError(
+        `Node ${node.name} cannot be re-run because its upstream nodes did not complete`,
+        'INVALID_NODE'
+      );
+    }
+
+    return nodeId;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Run admission: dedupes run starts and applies a workflow's per-employee
+ * concurrency policy before a run is created
+ */
+
+import {
+  UUID,
+  ExecutionContext,
+  RunDedupePolicy,
+  WorkflowRunEntity,
+  WorkflowRunPolicy,
+  WorkflowRunRepository,
+  WorkflowRunStatus,
+} from '@officeflow/types';
+import { v4 as uuidv4 } from 'uuid';
+import { RedisStateManager } from '../state/redis-state-manager';
+import { ParsedWorkflow } from './workflow-parser';
+
+export class RunConflictError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'DUPLICATE_RUN' | 'CONCURRENT_RUN',
+    public readonly conflictingRunId: UUID
+  ) {
+    super(message);
+    this.name = 'RunConflictError';
+  }
+}
+
+export interface RunAdmissionDecision {
+  queue: boolean; // create the run queued, to start once the runs ahead of it end
+  cancelRunIds: UUID[]; // runs to cancel before the new run starts
+}
+
+// Runs that count against the concurrency policy, oldest first
+const IN_PROGRESS_STATUSES: WorkflowRunStatus[] = ['QUEUED', 'PENDING', 'RUNNING', 'PAUSED'];
+
+const DEFAULT_DEDUPE_WINDOW_SECONDS: Record<RunDedupePolicy['key'], number> = {
+  employee_event: 300, // 5 minutes
+  correlation_id: 86400, // 1 day
+};
+
+const ADMISSION_LOCK_TTL_SECONDS = 30;
+const ADMISSION_LOCK_RETRY_MS = 50;
+const ADMISSION_LOCK_ATTEMPTS = 100;
+
+export class RunAdmission {
+  constructor(
+    private stateManager: RedisStateManager,
+    private workflowRunRepo: WorkflowRunRepository,
+    private instanceId: string
+  ) {}
+
+  /**
+   * Admit a new run, then create it with `start`. Duplicate starts, and starts
+   * rejected by the concurrency policy, throw a RunConflictError. Starts for the
+   * same workflow and employee are decided one at a time.
+   */
+  async admit<T>(
+    parsedWorkflow: ParsedWorkflow,
+    context: ExecutionContext,
+    runId: UUID,
+    start: (decision: RunAdmissionDecision) => Promise<T>
+  ): Promise<T> {
+    const workflowId = parsedWorkflow.definition.id;
+    const policy: WorkflowRunPolicy =
+      parsedWorkflow.definition.definition.metadata?.runPolicy || {};
+    const dedupeKey = this.getDedupeKey(workflowId, context, policy.dedupe);
+
+    if (dedupeKey && policy.dedupe) {
+      const windowSeconds =
+        policy.dedupe.windowSeconds || DEFAULT_DEDUPE_WINDOW_SECONDS[policy.dedupe.key];
+      const existingRunId = await this.stateManager.claimDedupeKey(dedupeKey, runId, windowSeconds);
+
+      if (existingRunId) {
+        throw new RunConflictError(
+          `Duplicate start of workflow ${workflowId}: run ${existingRunId} was started for the same ${
+            policy.dedupe.key === 'correlation_id' ? 'correlation ID' : 'employee and event'
+          }`,
+          'DUPLICATE_RUN',
+          existingRunId
+        );
+      }
+    }
+
+    try {
+      if (!policy.concurrency || policy.concurrency === 'allow') {
+        return await start({ queue: false, cancelRunIds: [] });
+      }
+
+      return await this.withAdmissionLock(workflowId, context.employeeId, async () => {
+        const runs = await this.workflowRunRepo.findByWorkflowAndEmployee(
+          workflowId,
+          context.employeeId || undefined,
+          IN_PROGRESS_STATUSES
+        );
+
+        if (runs.length === 0) {
+          return start({ queue: false, cancelRunIds: [] });
+        }
+
+        switch (policy.concurrency) {
+          case 'queue':
+            return start({ queue: true, cancelRunIds: [] });
+          case 'cancel_previous':
+            // Queued runs go first, so cancelling the active run doesn't start one of them
+            return start({ queue: false, cancelRunIds: runs.map((run) => run.run_id).reverse() });
+          default:
+            throw new RunConflictError(
+              `Workflow ${workflowId} already has run ${runs[0].run_id} in progress for employee ${
+                context.employeeId || '(none)'
+              }`,
+              'CONCURRENT_RUN',
+              runs[0].run_id
+            );
+        }
+      });
+    } catch (error) {
+      // A start that didn't happen must not block a retry
+      if (dedupeKey) {
+        await this.stateManager.releaseDedupeKey(dedupeKey, runId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Start the oldest queued run of a workflow for an employee with `start`, once
+   * none of their runs is in progress anymore
+   */
+  async startNextQueued(
+    workflowId: UUID,
+    employeeId: UUID | undefined,
+    start: (run: WorkflowRunEntity) => Promise<void>
+  ): Promise<void> {
+    const queued = await this.workflowRunRepo.findByWorkflowAndEmployee(
+      workflowId,
+      employeeId || undefined,
+      ['QUEUED']
+    );
+    if (queued.length === 0) {
+      return;
+    }
+
+    await this.withAdmissionLock(workflowId, employeeId, async () => {
+      const runs = await this.workflowRunRepo.findByWorkflowAndEmployee(
+        workflowId,
+        employeeId || undefined,
+        IN_PROGRESS_STATUSES
+      );
+
+      if (runs.length > 0 && runs.every((run) => run.status === 'QUEUED')) {
+        await start(runs[0]);
+      }
+    });
+  }
+
+  private getDedupeKey(
+    workflowId: UUID,
+    context: ExecutionContext,
+    dedupe: RunDedupePolicy | undefined
+  ): string | undefined {
+    switch (dedupe?.key) {
+      case 'employee_event':
+        return `${workflowId}:${context.employeeId}:${context.triggerEvent?.type || 'manual'}`;
+      case 'correlation_id':
+        return `${workflowId}:${context.correlationId}`;
+      default:
+        return undefined;
+    }
+  }
+
+  private async withAdmissionLock<T>(
+    workflowId: UUID,
+    employeeId: UUID | undefined,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const key = `${workflowId}:${employeeId || ''}`;
+    const holder = `${this.instanceId}:${uuidv4()}`;
+
+    for (let attempt = 1; ; attempt++) {
+      if (await this.stateManager.acquireAdmissionLock(key, holder, ADMISSION_LOCK_TTL_SECONDS)) {
+        break;
+      }
+      if (attempt >= ADMISSION_LOCK_ATTEMPTS) {
+        throw new Error(`Timed out waiting to admit a run of workflow ${workflowId}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, ADMISSION_LOCK_RETRY_MS));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await this.stateManager.releaseAdmissionLock(key, holder);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Migration of in-flight runs to a newer version of their workflow
+ */
+
+import { UUID } from '@officeflow/types';
+import { WorkflowState } from '../types/workflow-state';
+import { WorkflowParser, ParsedWorkflow } from './workflow-parser';
+
+export class RunMigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOT_MIGRATABLE' | 'INVALID_MAPPING' | 'INCOMPATIBLE',
+    public readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'RunMigrationError';
+  }
+}
+
+export interface RunMigrationPlan {
+  nodeMapping: Record<UUID, UUID>; // source node -> target node, for every node that carries over
+  droppedNodes: UUID[]; // settled nodes that no longer exist in the target version
+}
+
+export interface RunMigrationResult extends RunMigrationPlan {
+  runId: UUID;
+  fromVersion?: number;
+  toVersion: number;
+  applied: boolean; // false for dry runs
+}
+
+export class RunMigrator {
+  /**
+   * Work out how a run's progress carries over to the target version. Nodes keep
+   * their ID unless the mapping renames them. Throws when the mapping is invalid
+   * or the run could not continue on the target version.
+   */
+  plan(
+    source: ParsedWorkflow,
+    target: ParsedWorkflow,
+    state: WorkflowState,
+    nodeMapping: Record<UUID, UUID> = {}
+  ): RunMigrationPlan {
+    this.validateMapping(source, target, nodeMapping);
+
+    const plan: RunMigrationPlan = { nodeMapping: {}, droppedNodes: [] };
+    const mappedTargets = new Set(Object.values(nodeMapping));
+    for (const nodeId of source.nodeMap.keys()) {
+      if (nodeMapping[nodeId]) {
+        plan.nodeMapping[nodeId] = nodeMapping[nodeId];
+      } else if (target.nodeMap.has(nodeId) && !mappedTargets.has(nodeId)) {
+        plan.nodeMapping[nodeId] = nodeId;
+      }
+    }
+
+    const issues: string[] = [];
+    const settledNodes = [...state.completedNodes, ...state.failedNodes, ...state.skippedNodes];
+
+    // Results, timers and approvals of in-flight nodes arrive under their current ID
+    for (const nodeId of this.getInFlightNodes(state)) {
+      const sourceNode = source.nodeMap.get(nodeId);
+      const targetNode = target.nodeMap.get(nodeId);
+      if (plan.nodeMapping[nodeId] !== nodeId || targetNode?.type !== sourceNode?.type) {
+        issues.push(`In-flight node ${sourceNode?.name || nodeId} must keep its ID and type`);
+      }
+    }
+
+    for (const nodeId of state.completedNodes) {
+      const sourceNode = source.nodeMap.get(nodeId);
+      const targetId = plan.nodeMapping[nodeId];
+      if (targetId && target.nodeMap.get(targetId)!.type !== sourceNode?.type) {
+        issues.push(`Completed node ${sourceNode?.name || nodeId} is mapped to another node type`);
+      }
+    }
+
+    for (const nodeId of settledNodes) {
+      if (!plan.nodeMapping[nodeId]) {
+        plan.droppedNodes.push(nodeId);
+      }
+    }
+
+    // A new node upstream of progress that already happened would never run
+    const reachedNodes = new Set(
+      [...settledNodes, ...state.currentNodes]
+        .map((nodeId) => plan.nodeMapping[nodeId])
+        .filter((nodeId): nodeId is UUID => nodeId !== undefined)
+    );
+    for (const node of target.executionOrder) {
+      if (reachedNodes.has(node.id)) {
+        continue;
+      }
+      const downstream = WorkflowParser.getDownstreamNodes(target, [node.id]);
+      const reachedDownstream = [...downstream].find((nodeId) => reachedNodes.has(nodeId));
+      if (reachedDownstream) {
+        const reachedName = target.nodeMap.get(reachedDownstream)!.name;
+        issues.push(`Node ${node.name} would have to run before ${reachedName}, which already ran`);
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new RunMigrationError(
+        `Workflow run ${state.runId} cannot be migrated to version ${target.definition.version}`,
+        'INCOMPATIBLE',
+        issues
+      );
+    }
+
+    return plan;
+  }
+
+  /**
+   * Move a run's node progress and outputs onto the target version's node IDs
+   */
+  apply(state: WorkflowState, plan: RunMigrationPlan, targetVersion: number): WorkflowState {
+    const remap = (nodeIds: Set<UUID>) =>
+      new Set(
+        [...nodeIds]
+          .map((nodeId) => plan.nodeMapping[nodeId])
+          .filter((nodeId): nodeId is UUID => nodeId !== undefined)
+      );
+
+    const nodeOutputs: Record<UUID, Record<string, any>> = {};
+    for (const [nodeId, output] of Object.entries(state.nodeOutputs || {})) {
+      if (plan.nodeMapping[nodeId]) {
+        nodeOutputs[plan.nodeMapping[nodeId]] = output;
+      }
+    }
+
+    return {
+      ...state,
+      workflowVersion: targetVersion,
+      currentNodes: remap(state.currentNodes),
+      completedNodes: remap(state.completedNodes),
+      failedNodes: remap(state.failedNodes),
+      skippedNodes: remap(state.skippedNodes),
+      nodeOutputs,
+      lastUpdatedAt: new Date(),
+    };
+  }
+
+  private validateMapping(
+    source: ParsedWorkflow,
+    target: ParsedWorkflow,
+    nodeMapping: Record<UUID, UUID>
+  ): void {
+    const issues: string[] = [];
+    const targetIds = new Set<UUID>();
+
+    for (const [sourceId, targetId] of Object.entries(nodeMapping)) {
+      if (!source.nodeMap.has(sourceId)) {
+        issues.push(`Node ${sourceId} is not part of the run's current version`);
+      }
+      if (!target.nodeMap.has(targetId)) {
+        issues.push(`Node ${targetId} is not part of the target version`);
+      }
+      if (targetIds.has(targetId)) {
+        issues.push(`Several nodes are mapped to node ${targetId}`);
+      }
+      targetIds.add(targetId);
+    }
+
+    if (issues.length > 0) {
+      throw new RunMigrationError('Invalid node mapping', 'INVALID_MAPPING', issues);
+    }
+  }
+
+  private getInFlightNodes(state: WorkflowState): Set<UUID> {
+    return new Set([
+      ...state.currentNodes,
+      ...Object.keys(state.pendingTimers || {}),
+      ...Object.keys(state.pendingApprovals || {}),
+      ...Object.keys(state.foreachRuns || {}),
+      ...Object.keys(state.childRuns || {}),
+    ]);
+  }
+}
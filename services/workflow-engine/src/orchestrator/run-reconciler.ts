@@ -0,0 +1,243 @@
+/**
+ * Crash recovery: finds runs whose engine instance went away and reconciles
+ * their Redis state with the run and node_run rows in Postgres
+ */
+
+import {
+  UUID,
+  NodeRunEntity,
+  WorkflowRunEntity,
+  WorkflowRunRepository,
+  NodeRunRepository,
+} from '@officeflow/types';
+import { RedisStateManager } from '../state/redis-state-manager';
+import { ExecutionContextManager } from '../execution/context-manager';
+import { iterationNodeId } from '../execution/foreach-coordinator';
+import { WorkflowState } from '../types/workflow-state';
+import { ParsedWorkflow } from './workflow-parser';
+
+export interface OrphanedRun {
+  run: WorkflowRunEntity;
+  previousHolder: string | null;
+}
+
+export interface ReconciledRun {
+  state: WorkflowState;
+  rebuilt: boolean; // Redis state was lost and rebuilt from node_runs
+  completedResults: Array<{ nodeId: UUID; output: Record<string, any> }>;
+  redispatch: Array<{ nodeId: UUID; attempt: number }>;
+}
+
+export class RunReconciler {
+  constructor(
+    private stateManager: RedisStateManager,
+    private workflowRunRepo: WorkflowRunRepository,
+    private nodeRunRepo: NodeRunRepository,
+    private contextManager: ExecutionContextManager,
+    private instanceId: string
+  ) {}
+
+  /**
+   * Mark this instance alive and extend the locks of the runs it is executing
+   */
+  async heartbeat(activeRunIds: UUID[], ttlSeconds: number): Promise<void> {
+    await this.stateManager.registerInstance(this.instanceId, ttlSeconds);
+
+    for (const runId of activeRunIds) {
+      await this.stateManager.renewLock(runId, this.instanceId);
+    }
+  }
+
+  /**
+   * Find running runs whose lock expired or is held by an instance without a
+   * heartbeat. On startup, runs still locked by this instance ID belong to a
+   * previous process and are orphaned too.
+   */
+  async findOrphanedRuns(
+    stalledAfterMinutes: number,
+    includeOwnLocks: boolean
+  ): Promise<OrphanedRun[]> {
+    const candidates = await this.workflowRunRepo.findStalledRuns(stalledAfterMinutes);
+    const orphaned: OrphanedRun[] = [];
+
+    for (const run of candidates) {
+      const holder = await this.stateManager.getLockHolder(run.run_id);
+
+      if (
+        !holder ||
+        (holder === this.instanceId
+          ? includeOwnLocks
+          : !(await this.stateManager.isInstanceAlive(holder)))
+      ) {
+        orphaned.push({ run, previousHolder: holder });
+      }
+    }
+
+    return orphaned;
+  }
+
+  /**
+   * Take over the lock of an orphaned run. Fails if another instance adopted it first.
+   */
+  async adopt(orphan: OrphanedRun): Promise<boolean> {
+    return this.stateManager.takeOverLock(
+      orphan.run.run_id,
+      orphan.previousHolder,
+      this.instanceId
+    );
+  }
+
+  /**
+   * Load or rebuild the state of an adopted run and work out which in-flight
+   * nodes lost their results
+   */
+  async reconcile(
+    run: WorkflowRunEntity,
+    parsedWorkflow: ParsedWorkflow,
+    staleNodeMs: number
+  ): Promise<ReconciledRun> {
+    const nodeRuns = await this.nodeRunRepo.findByWorkflowRun(run.run_id);
+    const existingState = await this.stateManager.getWorkflowState(run.run_id);
+    const state = existingState || this.rebuildState(run, parsedWorkflow, nodeRuns);
+
+    const reconciled: ReconciledRun = {
+      state,
+      rebuilt: !existingState,
+      completedResults: [],
+      redispatch: [],
+    };
+
+    const inFlight = [...state.currentNodes];
+    for (const [nodeId, progress] of Object.entries(state.foreachRuns || {})) {
+      inFlight.push(...progress.running.map((index) => iterationNodeId(nodeId, index)));
+    }
+
+    const staleBefore = Date.now() - staleNodeMs;
+    for (const nodeId of inFlight) {
+      const nodeState = await this.stateManager.getNodeState(run.run_id, nodeId);
+
+      if (!nodeState) {
+        // Dispatch never happened, or Redis lost it: send the last attempt again
+        const attempt = this.getLatestAttempt(run.run_id, nodeId, nodeRuns) || 1;
+        reconciled.redispatch.push({ nodeId, attempt });
+        continue;
+      }
+
+      if (nodeState.status !== 'RUNNING' && nodeState.status !== 'QUEUED') {
+        continue;
+      }
+      if (nodeState.startedAt && new Date(nodeState.startedAt).getTime() > staleBefore) {
+        continue;
+      }
+
+      const idempotencyKey = `${run.run_id}:${nodeId}:${nodeState.attempt}`;
+      const nodeRun = await this.nodeRunRepo.findByIdempotencyKey(idempotencyKey);
+      if (nodeRun?.status === 'COMPLETED') {
+        reconciled.completedResults.push({ nodeId, output: nodeRun.output || {} });
+      } else {
+        reconciled.redispatch.push({ nodeId, attempt: nodeState.attempt });
+      }
+    }
+
+    return reconciled;
+  }
+
+  /**
+   * Rebuild a run's state from its latest node run per node, replaying completed
+   * outputs into the context in the order they were recorded
+   */
+  rebuildState(
+    run: WorkflowRunEntity,
+    parsedWorkflow: ParsedWorkflow,
+    nodeRuns: NodeRunEntity[]
+  ): WorkflowState {
+    const state: WorkflowState = {
+      runId: run.run_id,
+      workflowId: run.workflow_id,
+      workflowVersion: run.workflow_version,
+      organizationId: run.org_id,
+      employeeId: run.employee_id || '',
+      status: 'RUNNING',
+      currentNodes: new Set(),
+      completedNodes: new Set(),
+      failedNodes: new Set(),
+      skippedNodes: new Set(),
+      context: run.context,
+      startedAt: run.started_at,
+      lastUpdatedAt: new Date(),
+      nodeOutputs: {},
+      parentRunId: run.parent_run_id,
+      parentNodeId: run.parent_node_id,
+      // Async parents don't wait, so only sync links need restoring
+      invocationMode: run.parent_run_id ? 'sync' : undefined,
+    };
+
+    let context = this.contextManager.deserializeContext(
+      JSON.stringify({
+        organizationId: run.org_id,
+        employeeId: run.employee_id || '',
+        triggerEvent: run.context['system.triggerEvent'],
+        variables: run.context,
+        correlationId: run.context.correlationId,
+      })
+    );
+
+    const latestRuns = new Map<UUID, NodeRunEntity>();
+    for (const nodeRun of nodeRuns) {
+      if (nodeRun.iteration_index === undefined || nodeRun.iteration_index === null) {
+        const latest = latestRuns.get(nodeRun.node_id);
+        if (!latest || nodeRun.attempt >= latest.attempt) {
+          latestRuns.set(nodeRun.node_id, nodeRun);
+        }
+      }
+    }
+
+    for (const nodeRun of latestRuns.values()) {
+      const node = parsedWorkflow.nodeMap.get(nodeRun.node_id);
+      if (!node) {
+        continue;
+      }
+
+      switch (nodeRun.status) {
+        case 'COMPLETED':
+          state.completedNodes.add(node.id);
+          state.nodeOutputs![node.id] = nodeRun.output || {};
+          context = this.contextManager.updateContextWithNodeOutput(
+            context,
+            node.id,
+            node.name,
+            nodeRun.output || {}
+          );
+          break;
+        case 'FAILED':
+        case 'CANCELLED':
+          state.failedNodes.add(node.id);
+          break;
+        case 'SKIPPED':
+          state.skippedNodes.add(node.id);
+          break;
+        default:
+          // Final failures overwrite TIMEOUT with FAILED, so a timed out node was retrying
+          state.currentNodes.add(node.id);
+      }
+    }
+
+    state.context = context.variables;
+    return state;
+  }
+
+  /**
+   * Latest recorded attempt of a node; iterations are matched by their idempotency key
+   */
+  private getLatestAttempt(
+    runId: UUID,
+    nodeId: UUID,
+    nodeRuns: NodeRunEntity[]
+  ): number | undefined {
+    const keyPrefix = `${runId}:${nodeId}:`;
+    const attempts = nodeRuns
+      .filter((nodeRun) => nodeRun.idempotency_key?.startsWith(keyPrefix))
+      .map((nodeRun) => nodeRun.attempt);
+    return attempts.length > 0 ? Math.max(...attempts) : undefined;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Trigger filters narrowing which lifecycle events start a workflow
+ */
+
+import {
+  EmployeeEntity,
+  LifecycleEventType,
+  TriggerFilter,
+  TriggerFilterOperator,
+} from '@officeflow/types';
+
+// Payload fields each lifecycle event type carries
+export const TRIGGER_EVENT_FIELDS: Record<LifecycleEventType, string[]> = {
+  'employee.onboard': [
+    'firstName',
+    'lastName',
+    'email',
+    'department',
+    'role',
+    'managerId',
+    'startDate',
+    'location',
+    'employeeType',
+  ],
+  'employee.exit': ['exitDate', 'exitType', 'reason', 'lastWorkingDay'],
+  'employee.transfer': [
+    'fromDepartment',
+    'toDepartment',
+    'fromRole',
+    'toRole',
+    'fromManagerId',
+    'toManagerId',
+    'effectiveDate',
+  ],
+  'employee.update': [],
+  'employee.role_change': [],
+  'employee.department_change': [],
+};
+
+// Employee record fields; `employee.profile_data.<key>` is accepted as well
+export const TRIGGER_EMPLOYEE_FIELDS = [
+  'employee_number',
+  'email',
+  'first_name',
+  'last_name',
+  'department',
+  'job_title',
+  'manager_id',
+  'hire_date',
+  'termination_date',
+  'status',
+];
+
+interface FilterField {
+  source: 'event' | 'employee';
+  path: string[];
+}
+
+/**
+ * Resolve a filter field against the fields known for an event type
+ */
+function resolveField(field: string, eventType: string): FilterField | undefined {
+  const [source, ...path] = typeof field === 'string' ? field.split('.') : [];
+
+  if (source === 'event' && path.length === 1) {
+    const eventFields: string[] | undefined = TRIGGER_EVENT_FIELDS[eventType as LifecycleEventType];
+    return eventFields?.includes(path[0]) ? { source, path } : undefined;
+  }
+
+  if (source === 'employee') {
+    const known =
+      (path.length === 1 && TRIGGER_EMPLOYEE_FIELDS.includes(path[0])) ||
+      (path.length === 2 && path[0] === 'profile_data' && path[1].length > 0);
+    return known ? { source, path } : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a filter against the event type it triggers on, returning the problem if invalid
+ */
+export function validateTriggerFilter(
+  filter: TriggerFilter,
+  eventType: string
+): string | undefined {
+  if (!filter || !resolveField(filter.field, eventType)) {
+    return `unknown field for ${eventType} events`;
+  }
+
+  return validateFilterValue(filter.operator, filter.value);
+}
+
+/**
+ * Check that a filter operator is supported and has the value it needs
+ */
+export function validateFilterValue(
+  operator: TriggerFilterOperator,
+  value: any
+): string | undefined {
+  switch (operator) {
+    case 'in':
+    case 'not_in':
+      return Array.isArray(value) ? undefined : `${operator} needs a list of values`;
+    case 'starts_with':
+      return typeof value === 'string' ? undefined : 'starts_with needs a string value';
+    case 'equals':
+    case 'not_equals':
+    case 'contains':
+      return value !== undefined ? undefined : `${operator} needs a value`;
+    case 'exists':
+    case 'not_exists':
+      return undefined;
+    default:
+      return `unsupported operator ${operator}`;
+  }
+}
+
+/**
+ * Whether any filter reads the employee record, which then has to be loaded
+ */
+export function usesEmployeeFields(filters: TriggerFilter[] = []): boolean {
+  return filters.some((filter) => filter.field.startsWith('employee.'));
+}
+
+/**
+ * Whether an event passes all filters. Filters on employee fields don't match
+ * when the employee record is missing.
+ */
+export function matchesTriggerFilters(
+  filters: TriggerFilter[] = [],
+  event: { type: string; payload?: Record<string, any> },
+  employee: EmployeeEntity | null
+): boolean {
+  return filters.every((filter) => {
+    const field = resolveField(filter.field, event.type);
+    if (!field) {
+      return false;
+    }
+
+    const root = field.source === 'event' ? event.payload : employee;
+    const actual = field.path.reduce<any>((value, key) => value?.[key], root);
+    return matchesOperator(filter.operator, normalize(actual), filter.value);
+  });
+}
+
+/**
+ * Whether a value passes a filter operator; callers normalize the actual value
+ */
+export function matchesOperator(
+  operator: TriggerFilterOperator,
+  actual: any,
+  expected: any
+): boolean {
+  switch (operator) {
+    case 'equals':
+      return actual === normalize(expected);
+    case 'not_equals':
+      return actual !== normalize(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some((value) => actual === normalize(value));
+    case 'not_in':
+      return Array.isArray(expected) && !expected.some((value) => actual === normalize(value));
+    case 'starts_with':
+      return typeof actual === 'string' && actual.startsWith(expected);
+    case 'contains':
+      return (
+        (typeof actual === 'string' && actual.includes(expected)) ||
+        (Array.isArray(actual) && actual.some((value) => normalize(value) === normalize(expected)))
+      );
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'not_exists':
+      return actual === undefined || actual === null;
+    default:
+      return false;
+  }
+}
+
+// Dates compare by their ISO timestamp
+function normalize(value: any): any {
+  return value instanceof Date ? value.toISOString() : value;
+}
@@ -0,0 +1,487 @@
+/**
+ * Workflow-as-code: a versioned YAML/JSON document format for workflow
+ * definitions, with nodes referenced by name instead of ID, and a semantic
+ * diff between two documents.
+ */
+
+import * as yaml from 'js-yaml';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  UUID,
+  WorkflowDAG,
+  WorkflowDefinition,
+  WorkflowEdge,
+  WorkflowNode,
+  ParameterMapping,
+} from '@officeflow/types';
+import { WorkflowParser, WorkflowValidationError } from './workflow-parser';
+
+export const WORKFLOW_DOCUMENT_API_VERSION = 'officeflow.io/v1';
+
+export type WorkflowDocumentFormat = 'yaml' | 'json';
+
+export class WorkflowDocumentError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'INVALID_DOCUMENT'
+      | 'UNSUPPORTED_VERSION'
+      | 'DUPLICATE_NODE_NAME'
+      | 'UNKNOWN_NODE'
+      | 'VALIDATION_FAILED'
+      | 'NOT_FOUND',
+    public readonly validationErrors: WorkflowValidationError[] = []
+  ) {
+    super(message);
+    this.name = 'WorkflowDocumentError';
+  }
+}
+
+export interface WorkflowDocument {
+  apiVersion: string;
+  kind: 'Workflow';
+  name: string;
+  description?: string;
+  eventTrigger: WorkflowDefinition['eventTrigger'];
+  metadata: WorkflowDAG['metadata'];
+  nodes: WorkflowDocumentNode[];
+  edges: WorkflowDocumentEdge[];
+}
+
+export interface WorkflowDocumentNode extends Omit<WorkflowNode, 'id' | 'parameterMappings'> {
+  parameterMappings?: WorkflowDocumentMapping[];
+}
+
+// node_output mappings name their source node in sourceNode; sourcePath is then the output path
+export interface WorkflowDocumentMapping extends Omit<ParameterMapping, 'sourcePath'> {
+  sourceNode?: string;
+  sourcePath?: string;
+}
+
+export interface WorkflowDocumentEdge {
+  from: string; // node name
+  to: string;
+  conditionExpression?: string;
+  label?: string;
+}
+
+export interface WorkflowImportTarget {
+  organizationId: UUID;
+  createdBy: UUID;
+  current?: WorkflowDefinition; // the workflow being updated, whose node and edge IDs are kept
+}
+
+export interface WorkflowFieldChange {
+  path: string;
+  before?: any;
+  after?: any;
+}
+
+export interface WorkflowEdgeRef {
+  from: string;
+  to: string;
+}
+
+export interface WorkflowDiff {
+  identical: boolean;
+  changes: WorkflowFieldChange[]; // workflow fields and metadata
+  nodes: {
+    added: string[];
+    removed: string[];
+    changed: Array<{ name: string; changes: WorkflowFieldChange[] }>;
+  };
+  edges: {
+    added: WorkflowEdgeRef[];
+    removed: WorkflowEdgeRef[];
+    changed: Array<WorkflowEdgeRef & { changes: WorkflowFieldChange[] }>;
+  };
+}
+
+/**
+ * Convert a workflow definition to a document. Node IDs are replaced by node
+ * names, so names must be unique.
+ */
+export function toWorkflowDocument(workflow: WorkflowDefinition): WorkflowDocument {
+  const dag = workflow.definition;
+  const namesById = new Map<UUID, string>();
+  const names = new Set<string>();
+
+  for (const node of dag.nodes) {
+    if (names.has(node.name)) {
+      throw new WorkflowDocumentError(
+        `Node name '${node.name}' is used more than once`,
+        'DUPLICATE_NODE_NAME'
+      );
+    }
+    names.add(node.name);
+    namesById.set(node.id, node.name);
+  }
+  // References already written by name stay as they are
+  const nameOf = (ref: string) => namesById.get(ref) ?? ref;
+
+  return compact({
+    apiVersion: WORKFLOW_DOCUMENT_API_VERSION,
+    kind: 'Workflow',
+    name: workflow.name,
+    description: workflow.description,
+    eventTrigger: workflow.eventTrigger,
+    metadata: dag.metadata,
+    nodes: dag.nodes.map((node) =>
+      compact({
+        name: node.name,
+        type: node.type,
+        description: node.description,
+        params: mapCompensatedNodes(node.params, nameOf),
+        retryPolicy: node.retryPolicy,
+        timeoutMs: node.timeoutMs,
+        sla: node.sla,
+        position: node.position,
+        conditions: node.conditions,
+        parameterMappings: node.parameterMappings?.map((mapping) => {
+          if (mapping.sourceType !== 'node_output' || typeof mapping.sourcePath !== 'string') {
+            return compact({ ...mapping });
+          }
+          const [nodeRef, ...pathParts] = mapping.sourcePath.split('.');
+          return compact({
+            ...mapping,
+            sourceNode: nameOf(nodeRef),
+            sourcePath: pathParts.length > 0 ? pathParts.join('.') : undefined,
+          });
+        }),
+      })
+    ),
+    edges: dag.edges.map((edge) =>
+      compact({
+        from: nameOf(edge.fromNodeId),
+        to: nameOf(edge.toNodeId),
+        conditionExpression: edge.conditionExpression,
+        label: edge.label,
+      })
+    ),
+  });
+}
+
+/**
+ * Convert a document to a workflow definition without validating it. When
+ * updating a workflow, nodes keep the IDs of the current nodes with the same name.
+ */
+export function toWorkflowDefinition(
+  document: WorkflowDocument,
+  target: WorkflowImportTarget
+): WorkflowDefinition {
+  const current = target.current;
+  const currentNodeIds = new Map(current?.definition.nodes.map((node) => [node.name, node.id]));
+  const idsByName = new Map<string, UUID>();
+
+  for (const node of document.nodes) {
+    if (idsByName.has(node.name)) {
+      throw new WorkflowDocumentError(
+        `Node name '${node.name}' is used more than once`,
+        'DUPLICATE_NODE_NAME'
+      );
+    }
+    idsByName.set(node.name, currentNodeIds.get(node.name) ?? uuidv4());
+  }
+  const idOf = (name: string, referencedBy: string): UUID => {
+    const id = idsByName.get(name);
+    if (!id) {
+      throw new WorkflowDocumentError(
+        `${referencedBy} references unknown node '${name}'`,
+        'UNKNOWN_NODE'
+      );
+    }
+    return id;
+  };
+
+  const nodes: WorkflowNode[] = document.nodes.map(({ parameterMappings, ...node }) =>
+    compact({
+      id: idsByName.get(node.name)!,
+      ...node,
+      params: mapCompensatedNodes(node.params, (name) => idOf(name, `Node ${node.name}`)),
+      parameterMappings: parameterMappings?.map(({ sourceNode, ...mapping }) => {
+        if (mapping.sourceType !== 'node_output' || sourceNode === undefined) {
+          return mapping as ParameterMapping;
+        }
+        const nodeId = idOf(sourceNode, `Node ${node.name}`);
+        return {
+          ...mapping,
+          sourcePath: mapping.sourcePath ? `${nodeId}.${mapping.sourcePath}` : nodeId,
+        };
+      }),
+    })
+  );
+
+  // Edges between the same nodes keep their ID
+  const currentEdges = [...(current?.definition.edges ?? [])];
+  const edges: WorkflowEdge[] = document.edges.map((edge) => {
+    const fromNodeId = idOf(edge.from, `Edge ${edge.from} -> ${edge.to}`);
+    const toNodeId = idOf(edge.to, `Edge ${edge.from} -> ${edge.to}`);
+    const index = currentEdges.findIndex(
+      (existing) => existing.fromNodeId === fromNodeId && existing.toNodeId === toNodeId
+    );
+    const id = index >= 0 ? currentEdges.splice(index, 1)[0].id : uuidv4();
+
+    return compact({
+      id,
+      fromNodeId,
+      toNodeId,
+      conditionExpression: edge.conditionExpression,
+      label: edge.label,
+    });
+  });
+
+  return {
+    id: current?.id ?? '', // assigned when a new workflow is saved
+    organizationId: current?.organizationId ?? target.organizationId,
+    name: document.name,
+    description: document.description,
+    eventTrigger: document.eventTrigger,
+    version: current?.version ?? 1,
+    isActive: current?.isActive ?? false,
+    definition: { nodes, edges, metadata: document.metadata },
+    createdBy: target.createdBy,
+    createdAt: current?.createdAt ?? new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Convert a document to a workflow definition and validate it
+ */
+export function fromWorkflowDocument(
+  document: WorkflowDocument,
+  target: WorkflowImportTarget
+): WorkflowDefinition {
+  const workflow = toWorkflowDefinition(document, target);
+  const errors = WorkflowParser.validateWorkflowDefinition(workflow);
+  if (errors.length > 0) {
+    throw new WorkflowDocumentError(
+      `Workflow validation failed: ${errors.map((e) => e.message).join(', ')}`,
+      'VALIDATION_FAILED',
+      errors
+    );
+  }
+
+  return workflow;
+}
+
+/**
+ * Serialize a workflow definition as a YAML or JSON document
+ */
+export function exportWorkflow(
+  workflow: WorkflowDefinition,
+  format: WorkflowDocumentFormat = 'yaml'
+): string {
+  const document = toWorkflowDocument(workflow);
+
+  if (format === 'json') {
+    return `${JSON.stringify(document, null, 2)}\n`;
+  }
+  // Strings that other YAML readers could take for dates or booleans are quoted
+  return yaml.dump(document, {
+    noRefs: true,
+    skipInvalid: true,
+    lineWidth: 100,
+  });
+}
+
+/**
+ * Read a YAML or JSON document, or an already parsed one, and check its structure
+ */
+export function parseWorkflowDocument(
+  source: string | Record<string, any>,
+  format: WorkflowDocumentFormat = 'yaml'
+): WorkflowDocument {
+  let document: any = source;
+
+  if (typeof source === 'string') {
+    try {
+      // The core schema keeps date-like strings as strings
+      document =
+        format === 'json' ? JSON.parse(source) : yaml.load(source, { schema: yaml.CORE_SCHEMA });
+    } catch (error) {
+      throw new WorkflowDocumentError(
+        `Invalid ${format.toUpperCase()}: ${error instanceof Error ? error.message : error}`,
+        'INVALID_DOCUMENT'
+      );
+    }
+  }
+
+  if (!isObject(document)) {
+    throw new WorkflowDocumentError('Workflow document must be an object', 'INVALID_DOCUMENT');
+  }
+  if (document.apiVersion !== WORKFLOW_DOCUMENT_API_VERSION) {
+    throw new WorkflowDocumentError(
+      document.apiVersion
+        ? `Unsupported apiVersion '${document.apiVersion}', expected '${WORKFLOW_DOCUMENT_API_VERSION}'`
+        : 'Workflow document apiVersion is required',
+      document.apiVersion ? 'UNSUPPORTED_VERSION' : 'INVALID_DOCUMENT'
+    );
+  }
+  if (document.kind !== 'Workflow') {
+    throw new WorkflowDocumentError(
+      "Workflow document kind must be 'Workflow'",
+      'INVALID_DOCUMENT'
+    );
+  }
+
+  const problems: string[] = [];
+  if (typeof document.name !== 'string' || document.name.trim().length === 0) {
+    problems.push('name is required');
+  }
+  if (typeof document.eventTrigger !== 'string') {
+    problems.push('eventTrigger is required');
+  }
+  if (!isObject(document.metadata)) {
+    problems.push('metadata must be an object');
+  }
+  if (!Array.isArray(document.nodes)) {
+    problems.push('nodes must be a list');
+  } else if (
+    !document.nodes.every((node: any) => isObject(node) && typeof node.name === 'string')
+  ) {
+    problems.push('every node needs a name');
+  }
+  if (document.edges !== undefined && !Array.isArray(document.edges)) {
+    problems.push('edges must be a list');
+  } else if (
+    !(document.edges ?? []).every(
+      (edge: any) => isObject(edge) && typeof edge.from === 'string' && typeof edge.to === 'string'
+    )
+  ) {
+    problems.push('every edge needs a from and a to node name');
+  }
+
+  if (problems.length > 0) {
+    throw new WorkflowDocumentError(
+      `Invalid workflow document: ${problems.join(', ')}`,
+      'INVALID_DOCUMENT'
+    );
+  }
+
+  return { ...document, edges: document.edges ?? [] } as WorkflowDocument;
+}
+
+/**
+ * Read a document and convert it to a validated workflow definition
+ */
+export function importWorkflow(
+  source: string | Record<string, any>,
+  format: WorkflowDocumentFormat,
+  target: WorkflowImportTarget
+): WorkflowDefinition {
+  return fromWorkflowDocument(parseWorkflowDocument(source, format), target);
+}
+
+/**
+ * Compare two documents by meaning: nodes are matched by name and edges by the
+ * nodes they connect, so changed IDs and reordered lists are not differences.
+ */
+export function diffWorkflowDocuments(
+  before: WorkflowDocument,
+  after: WorkflowDocument
+): WorkflowDiff {
+  const changes = diffFields(
+    omitKeys(before, ['apiVersion', 'kind', 'nodes', 'edges']),
+    omitKeys(after, ['apiVersion', 'kind', 'nodes', 'edges'])
+  );
+
+  const beforeNodes = new Map(before.nodes.map((node) => [node.name, node]));
+  const afterNodes = new Map(after.nodes.map((node) => [node.name, node]));
+  const nodes: WorkflowDiff['nodes'] = {
+    added: after.nodes.filter((node) => !beforeNodes.has(node.name)).map((node) => node.name),
+    removed: before.nodes.filter((node) => !afterNodes.has(node.name)).map((node) => node.name),
+    changed: [],
+  };
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.name);
+    const nodeChanges = previous ? diffFields(previous, node) : [];
+    if (nodeChanges.length > 0) {
+      nodes.changed.push({ name: node.name, changes: nodeChanges });
+    }
+  }
+
+  const edgeKey = (edge: WorkflowDocumentEdge) => JSON.stringify([edge.from, edge.to]);
+  const unmatched = [...before.edges];
+  const edges: WorkflowDiff['edges'] = { added: [], removed: [], changed: [] };
+  for (const edge of after.edges) {
+    const index = unmatched.findIndex((previous) => edgeKey(previous) === edgeKey(edge));
+    if (index < 0) {
+      edges.added.push({ from: edge.from, to: edge.to });
+      continue;
+    }
+    const edgeChanges = diffFields(unmatched.splice(index, 1)[0], edge);
+    if (edgeChanges.length > 0) {
+      edges.changed.push({ from: edge.from, to: edge.to, changes: edgeChanges });
+    }
+  }
+  edges.removed = unmatched.map((edge) => ({ from: edge.from, to: edge.to }));
+
+  return {
+    identical:
+      changes.length === 0 &&
+      [nodes.added, nodes.removed, nodes.changed].every((list) => list.length === 0) &&
+      [edges.added, edges.removed, edges.changed].every((list) => list.length === 0),
+    changes,
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * Compare two workflow definitions by meaning
+ */
+export function diffWorkflows(before: WorkflowDefinition, after: WorkflowDefinition): WorkflowDiff {
+  return diffWorkflowDocuments(toWorkflowDocument(before), toWorkflowDocument(after));
+}
+
+/**
+ * Rewrite the node references of a compensation node's compensatesFor list
+ */
+function mapCompensatedNodes(
+  params: Record<string, any>,
+  mapRef: (ref: string) => string
+): Record<string, any> {
+  if (!params || !Array.isArray(params.compensatesFor)) {
+    return params;
+  }
+  return { ...params, compensatesFor: params.compensatesFor.map(mapRef) };
+}
+
+/**
+ * Changed fields between two values; objects are compared field by field, other
+ * values (including lists) as a whole.
+ */
+function diffFields(before: any, after: any, path: string = ''): WorkflowFieldChange[] {
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) =>
+      diffFields(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+  return isEqual(before, after) ? [] : [compact({ path, before, after })];
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+  return a === b;
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function omitKeys(value: Record<string, any>, keys: string[]): Record<string, any> {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key)));
+}
+
+// Drop undefined fields, which YAML can't represent
+function compact<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
@@ -125,28 +125,41 @@ export class WorkflowLoader {
     return parsedWorkflows;
   }
 
+  /**
+   * Get the definition of a workflow, active or not, at its latest or a given
+   * version without parsing it
+   */
+  async getWorkflowDefinition(
+    workflowId: UUID,
+    version?: number
+  ): Promise<WorkflowDefinition | null> {
+    const workflowEntity = version
+      ? await this.loadWorkflowVersion(workflowId, version)
+      : await this.workflowRepo.findById(workflowId);
+
+    return workflowEntity ? mapWorkflowEntityToDefinition(workflowEntity) : null;
+  }
+
   /**
    * Get workflow version information
    */
   async getWorkflowVersionInfo(workflowId: UUID): Promise<WorkflowVersionInfo> {
-    // This would require a more sophisticated query to get all versions
-    // For now, we'll work with the current schema
     const workflow = await this.workflowRepo.findById(workflowId);
 
     if (!workflow) {
       throw new Error(`Workflow not found: ${workflowId}`);
     }
 
+    const versions = await this.workflowRepo.findVersions(workflowId);
+
     return {
       workflowId,
-      versions: [
-        {
-          version: workflow.version,
-          isActive: workflow.is_active,
-          createdAt: workflow.created_at,
-          createdBy: workflow.created_by,
-        },
-      ],
+      versions: versions.map((version) => ({
+        version: version.version,
+        isActive: workflow.is_active && version.version === workflow.version,
+        createdAt: version.created_at,
+        createdBy: version.created_by,
+      })),
       activeVersion: workflow.is_active ? workflow.version : undefined,
       latestVersion: workflow.version,
     };
@@ -235,23 +248,21 @@ export class WorkflowLoader {
       throw new Error(`Invalid workflow definition: ${errors.map((e) => e.message).join(', ')}`);
     }
 
-    // Create new version (increment version number)
-    const newVersion = baseWorkflow.version + 1;
-
-    const newWorkflowEntity: Omit<WorkflowEntity, 'created_at' | 'updated_at'> = {
-      workflow_id: baseWorkflowId, // Use the same ID for versioning
-      org_id: baseWorkflow.org_id,
+    // The repository snapshots a changed definition as the next version
+    const updatedEntity = await this.workflowRepo.update(baseWorkflowId, {
       name: updatedDefinition.name,
       description: updatedDefinition.description,
       event_trigger: updatedDefinition.eventTrigger,
-      version: newVersion,
-      is_active: false, // New versions start inactive
       definition: updatedDefinition.definition,
       created_by: createdBy,
-    };
+    });
+
+    if (!updatedEntity) {
+      throw new Error(`Base workflow not found: ${baseWorkflowId}`);
+    }
 
-    const createdEntity = await this.workflowRepo.create(newWorkflowEntity);
-    return mapWorkflowEntityToDefinition(createdEntity);
+    this.clearWorkflowCache(baseWorkflowId);
+    return mapWorkflowEntityToDefinition(updatedEntity);
   }
 
   /**
@@ -340,15 +351,25 @@ export class WorkflowLoader {
     workflowId: UUID,
     version: number
   ): Promise<WorkflowEntity | null> {
-    // In the current schema, we don't have version-specific queries
-    // This would need to be implemented based on your versioning strategy
-    const workflow = await this.workflowRepo.findById(workflowId);
+    const [workflow, snapshot] = await Promise.all([
+      this.workflowRepo.findById(workflowId),
+      this.workflowRepo.findVersion(workflowId, version),
+    ]);
 
-    if (workflow && workflow.version === version) {
-      return workflow;
+    if (!workflow || !snapshot) {
+      return null;
     }
 
-    return null;
+    return {
+      ...workflow,
+      name: snapshot.name,
+      description: snapshot.description,
+      event_trigger: snapshot.event_trigger,
+      version: snapshot.version,
+      definition: snapshot.definition,
+      created_by: snapshot.created_by,
+      created_at: snapshot.created_at,
+    };
   }
 
   /**
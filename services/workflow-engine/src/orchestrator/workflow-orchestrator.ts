@@ -5,35 +5,140 @@
 import {
   UUID,
   WorkflowRun,
+  WorkflowRunEntity,
   ExecutionContext,
   WorkflowNode,
   WorkflowRepository,
   WorkflowRunRepository,
+  NodeRunRepository,
+  EmployeeRepository,
+  NodeType,
+  NodeRunStatus,
+  WorkflowRunStatus,
+  RunEventActor,
+  CompensationPlanRepository,
+  RunCompensationPlan,
+  SlaRecordRepository,
 } from '@officeflow/types';
 import { mapWorkflowRunEntityToRun, mapWorkflowRunToEntity } from '../utils/entity-mappers';
 import { OfficeFlowProducer } from '@officeflow/kafka';
-import { WorkflowStateMachine } from '../state/state-machine';
+import { WorkflowStateMachine, NodeStateMachine } from '../state/state-machine';
 import { RedisStateManager } from '../state/redis-state-manager';
+import { RunEventLog, SYSTEM_ACTOR, triggerActor } from '../state/run-event-log';
 import { ExecutionContextManager } from '../execution/context-manager';
 import { NodeDispatcher } from '../execution/node-dispatcher';
-import { WorkflowState } from '../types/workflow-state';
+import { TenantScheduler } from '../execution/tenant-scheduler';
+import { NodeEvaluator } from '../execution/node-evaluator';
+import { TimerService } from '../execution/timer-service';
+import { SubWorkflowInvoker, ParentRunLink } from '../execution/sub-workflow-invoker';
+import {
+  ApprovalService,
+  ApprovalDecider,
+  ApprovalDecision,
+  ApprovalDecisionError,
+} from '../execution/approval-service';
+import { FiredTimer } from '../execution/timer-service';
+import {
+  SignalService,
+  SignalInput,
+  SignalDelivery,
+  PendingSignal,
+  WorkflowSignal,
+} from '../execution/signal-service';
+import {
+  RunDebugger,
+  RunDebugError,
+  DebugOptions,
+  RunDebugSession,
+} from '../execution/run-debugger';
+import {
+  SlaTracker,
+  SlaCheckpoint,
+  OrganizationSlaCompliance,
+  RUN_SLA_KEY,
+} from '../execution/sla-tracker';
+import {
+  ForeachCoordinator,
+  ForeachProgress,
+  IterationRef,
+  iterationNodeId,
+  parseIterationNodeId,
+} from '../execution/foreach-coordinator';
+import {
+  WorkflowState,
+  NodeState,
+  WorkflowTransition,
+  NodeTransition,
+} from '../types/workflow-state';
 import { WorkflowLoader } from './workflow-loader';
+import { RunReconciler, ReconciledRun } from './run-reconciler';
+import { RerunPlanner, RerunPlan, RerunLink, RerunError } from './rerun-planner';
+import { RunMigrator, RunMigrationError, RunMigrationResult } from './run-migrator';
+import { RunAdmission } from './run-admission';
 import { WorkflowParser, ParsedWorkflow } from './workflow-parser';
-import { ErrorHandler, ErrorHandlingConfig } from '../error-handling';
+import { ErrorHandler, ErrorHandlingConfig, CompensationError } from '../error-handling';
 import { v4 as uuidv4 } from 'uuid';
 
+// Node types the engine runs itself instead of dispatching to an executor service
+const ENGINE_NODE_TYPES: NodeType[] = [
+  'delay',
+  'workflow.invoke',
+  'approval',
+  'wait_for_event',
+  'foreach',
+];
+
+const RERUNNABLE_STATUSES: WorkflowRunStatus[] = ['FAILED', 'TIMEOUT'];
+
+// Runs are paused for migration so no node result is applied to a half-migrated state
+const MIGRATABLE_STATUSES: WorkflowRunStatus[] = ['PAUSED'];
+
+// Runs that can be compensated on request; failed and timed out runs are compensated as they end
+const COMPENSABLE_STATUSES: WorkflowRunStatus[] = ['COMPLETED'];
+
+const DEFAULT_RECONCILIATION: Required<ReconciliationConfig> = {
+  intervalMs: 60000,
+  heartbeatIntervalMs: 10000,
+  stalledAfterMinutes: 1,
+  staleNodeMs: 300000,
+};
+
+export interface ReconciliationConfig {
+  intervalMs?: number; // how often to look for orphaned runs after startup
+  heartbeatIntervalMs?: number; // instances missing three heartbeats are considered dead
+  stalledAfterMinutes?: number; // only runs started at least this long ago are checked
+  staleNodeMs?: number; // in-flight nodes older than this are re-dispatched
+}
+
 export interface WorkflowOrchestratorConfig {
   instanceId: string;
   maxConcurrentWorkflows: number;
   nodeExecutionTimeout: number;
   workflowExecutionTimeout: number;
   errorHandling: ErrorHandlingConfig;
+  reconciliation?: ReconciliationConfig;
+  allowDebugRuns?: boolean; // otherwise only workflows flagged with allowDebugRuns can be debugged
+  signalBufferTtlMs?: number; // how long signals nobody waits for yet are kept
 }
 
 export class WorkflowOrchestrator {
   private stateMachine: WorkflowStateMachine;
+  private nodeStateMachine: NodeStateMachine;
+  private nodeEvaluator: NodeEvaluator;
   private workflowLoader: WorkflowLoader;
   private errorHandler: ErrorHandler;
+  private timerService: TimerService;
+  private subWorkflowInvoker: SubWorkflowInvoker;
+  private approvalService: ApprovalService;
+  private signalService: SignalService;
+  private foreachCoordinator: ForeachCoordinator;
+  private runReconciler: RunReconciler;
+  private rerunPlanner: RerunPlanner;
+  private runMigrator: RunMigrator;
+  private runAdmission: RunAdmission;
+  private runDebugger: RunDebugger;
+  private slaTracker: SlaTracker;
+  private reconciliationConfig: Required<ReconciliationConfig>;
   private isRunning: boolean = false;
   private activeWorkflows: Map<UUID, WorkflowState> = new Map();
 
@@ -44,16 +149,58 @@ export class WorkflowOrchestrator {
     private stateManager: RedisStateManager,
     private contextManager: ExecutionContextManager,
     private nodeDispatcher: NodeDispatcher,
-    private producer: OfficeFlowProducer
+    private producer: OfficeFlowProducer,
+    private nodeRunRepo: NodeRunRepository,
+    private employeeRepo: EmployeeRepository,
+    private tenantScheduler: TenantScheduler,
+    private runEventLog: RunEventLog,
+    compensationPlanRepo: CompensationPlanRepository,
+    slaRecordRepo: SlaRecordRepository
   ) {
     this.stateMachine = new WorkflowStateMachine();
+    this.nodeStateMachine = new NodeStateMachine();
+    this.nodeEvaluator = new NodeEvaluator(contextManager);
     this.workflowLoader = new WorkflowLoader(workflowRepo);
     this.errorHandler = new ErrorHandler(
       config.errorHandling,
       stateManager,
       nodeDispatcher,
       contextManager,
-      producer
+      producer,
+      runEventLog,
+      compensationPlanRepo
+    );
+    this.timerService = new TimerService(stateManager, contextManager);
+    this.subWorkflowInvoker = new SubWorkflowInvoker(contextManager);
+    this.approvalService = new ApprovalService(
+      stateManager,
+      producer,
+      employeeRepo,
+      this.timerService
+    );
+    this.signalService = new SignalService(
+      stateManager,
+      this.timerService,
+      config.signalBufferTtlMs
+    );
+    this.foreachCoordinator = new ForeachCoordinator(nodeRunRepo);
+    this.runReconciler = new RunReconciler(
+      stateManager,
+      workflowRunRepo,
+      nodeRunRepo,
+      contextManager,
+      config.instanceId
+    );
+    this.reconciliationConfig = { ...DEFAULT_RECONCILIATION, ...config.reconciliation };
+    this.rerunPlanner = new RerunPlanner();
+    this.runMigrator = new RunMigrator();
+    this.runAdmission = new RunAdmission(stateManager, workflowRunRepo, config.instanceId);
+    this.runDebugger = new RunDebugger(config.allowDebugRuns ?? false);
+    this.slaTracker = new SlaTracker(
+      slaRecordRepo,
+      stateManager,
+      this.timerService,
+      this.errorHandler.errorLogger
     );
   }
 
@@ -68,9 +215,63 @@ export class WorkflowOrchestrator {
     this.isRunning = true;
     console.log(`Workflow orchestrator started: ${this.config.instanceId}`);
 
+    // Announce this instance before adopting runs, so peers don't adopt them back
+    await this.startHeartbeat();
+
+    // Recover runs left behind by a crashed instance, including an earlier process of this one
+    try {
+      await this.reconcileRuns(true);
+    } catch (error) {
+      console.error('Failed to reconcile in-flight runs on startup:', error);
+    }
+
     // Start background processes
     this.startRetryProcessor();
+    this.startTimerProcessor();
     this.startTimeoutMonitor();
+    this.startReconciliationProcessor();
+  }
+
+  /**
+   * Adopt orphaned runs and resume them from their reconciled state. Returns the
+   * IDs of the runs that were adopted.
+   */
+  async reconcileRuns(includeOwnLocks: boolean = false): Promise<UUID[]> {
+    const { stalledAfterMinutes, staleNodeMs } = this.reconciliationConfig;
+    const orphans = await this.runReconciler.findOrphanedRuns(stalledAfterMinutes, includeOwnLocks);
+    const adopted: UUID[] = [];
+
+    for (const orphan of orphans) {
+      const runId = orphan.run.run_id;
+      try {
+        if (!(await this.runReconciler.adopt(orphan))) {
+          continue;
+        }
+
+        const parsedWorkflow = await this.loadRunWorkflow({
+          workflowId: orphan.run.workflow_id,
+          workflowVersion: orphan.run.workflow_version,
+        });
+        const reconciled = await this.runReconciler.reconcile(
+          orphan.run,
+          parsedWorkflow,
+          staleNodeMs
+        );
+        await this.resumeReconciledRun(parsedWorkflow, orphan.run, reconciled);
+        adopted.push(runId);
+
+        console.log(`Adopted orphaned workflow run ${runId}`, {
+          previousHolder: orphan.previousHolder,
+          rebuilt: reconciled.rebuilt,
+          completed: reconciled.completedResults.length,
+          redispatched: reconciled.redispatch.length,
+        });
+      } catch (error) {
+        console.error(`Failed to reconcile workflow run ${runId}:`, error);
+      }
+    }
+
+    return adopted;
   }
 
   /**
@@ -82,240 +283,1060 @@ export class WorkflowOrchestrator {
   }
 
   /**
-   * Execute a workflow
+   * Execute a workflow, optionally as the child run of a workflow.invoke node.
+   * Other runs pass the workflow's dedupe and concurrency policy first, which may
+   * queue the run, cancel earlier runs or reject it with a RunConflictError.
    */
-  async executeWorkflow(workflowId: UUID, context: ExecutionContext): Promise<WorkflowRun> {
+  async executeWorkflow(
+    workflowId: UUID,
+    context: ExecutionContext,
+    parent?: ParentRunLink
+  ): Promise<WorkflowRun> {
     // Load and parse workflow definition
     const parsedWorkflow = await this.workflowLoader.loadWorkflow(workflowId);
+    const runId = uuidv4();
+
+    // Child runs are part of their parent run and always start
+    if (parent) {
+      return this.startRun(parsedWorkflow, runId, context, parent);
+    }
+
+    return this.runAdmission.admit(parsedWorkflow, context, runId, async (decision) => {
+      for (const previousRunId of decision.cancelRunIds) {
+        await this.cancelWorkflow(previousRunId);
+      }
+      return this.startRun(parsedWorkflow, runId, context, undefined, decision.queue);
+    });
+  }
+
+  /**
+   * Start a debug run, which pauses before its breakpoint nodes, or before every
+   * node while stepping. Debug runs skip the workflow's run policy, but can't be
+   * queued: they are rejected when the organization has no free run slot.
+   */
+  async debugWorkflow(
+    workflowId: UUID,
+    context: ExecutionContext,
+    options: DebugOptions = {}
+  ): Promise<WorkflowRun> {
+    const parsedWorkflow = await this.workflowLoader.loadWorkflow(workflowId);
+    if (parsedWorkflow.definition.organizationId !== context.organizationId) {
+      throw new RunDebugError(`Workflow ${workflowId} not found`, 'NOT_FOUND');
+    }
+    const debug = this.runDebugger.startSession(parsedWorkflow, options);
 
-    // Create workflow run record
     const runId = uuidv4();
+    if (!(await this.tenantScheduler.acquireRunSlot(context.organizationId, runId))) {
+      throw new RunDebugError(
+        `Organization ${context.organizationId} is at its limit of concurrent runs`,
+        'RUN_LIMIT_REACHED'
+      );
+    }
+
+    try {
+      return await this.startRun(parsedWorkflow, runId, context, undefined, false, debug);
+    } catch (error) {
+      await this.tenantScheduler.releaseRunSlot(context.organizationId, runId);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the run record of a new run and launch it, unless it is queued. Re-runs
+   * start with the outputs their plan reuses.
+   */
+  private async startRun(
+    parsedWorkflow: ParsedWorkflow,
+    runId: UUID,
+    context: ExecutionContext,
+    parent?: ParentRunLink,
+    queue: boolean = false,
+    debug?: WorkflowState['debug'],
+    rerun?: RerunLink
+  ): Promise<WorkflowRun> {
+    const workflowId = parsedWorkflow.definition.id;
+
+    // Child runs are part of their parent run and don't take a run slot of the
+    // organization; debug runs took theirs already
+    const throttled =
+      !queue &&
+      !parent &&
+      !debug &&
+      !(await this.tenantScheduler.acquireRunSlot(context.organizationId, runId));
+
+    // Create workflow run record
     const workflowRunEntity = mapWorkflowRunToEntity({
       id: runId,
       organizationId: context.organizationId,
       workflowId,
+      workflowVersion: parsedWorkflow.definition.version,
       employeeId: context.employeeId,
       triggerEvent: context.triggerEvent?.type || 'manual',
-      status: 'PENDING',
+      status: queue || throttled ? 'QUEUED' : 'PENDING',
       context,
       startedAt: new Date(),
       correlationId: context.correlationId,
+      parentRunId: parent?.runId,
+      parentNodeId: parent?.nodeId,
+      rerunOfRunId: rerun?.runId,
+      rerunFromNodeId: rerun?.fromNodeId,
     });
 
     const createdRunEntity = await this.workflowRunRepo.create(workflowRunEntity);
     const createdRun = mapWorkflowRunEntityToRun(createdRunEntity);
+    await this.runEventLog.record(runId, {
+      type: 'run.created',
+      toStatus: createdRun.status,
+      actor: parent ? SYSTEM_ACTOR : triggerActor(context.triggerEvent),
+      data: {
+        workflowId,
+        workflowVersion: parsedWorkflow.definition.version,
+        triggerEvent: workflowRunEntity.trigger_event,
+        parentRunId: parent?.runId,
+        rerunOfRunId: rerun?.runId,
+        rerunFromNodeId: rerun?.fromNodeId,
+        queuedFor: queue ? 'employee' : throttled ? 'organization' : undefined,
+        debug: debug ? true : undefined,
+      },
+    });
+
+    if (queue) {
+      console.log(`Workflow run ${runId} queued behind runs in progress for the employee`);
+      return createdRun;
+    }
+    if (throttled) {
+      await this.tenantScheduler.queueRun(context.organizationId, runId, (queuedRunId) =>
+        this.startThrottledRun(queuedRunId)
+      );
+      return createdRun;
+    }
 
     // Initialize workflow state
     const workflowState: WorkflowState = {
       runId,
       workflowId,
+      workflowVersion: parsedWorkflow.definition.version,
       organizationId: context.organizationId,
       employeeId: context.employeeId,
       status: 'PENDING',
       currentNodes: new Set(),
-      completedNodes: new Set(),
+      completedNodes: rerun?.plan.completedNodes || new Set(),
       failedNodes: new Set(),
       skippedNodes: new Set(),
       context: context.variables,
       startedAt: new Date(),
       lastUpdatedAt: new Date(),
+      nodeOutputs: rerun?.plan.nodeOutputs,
+      parentRunId: parent?.runId,
+      parentNodeId: parent?.nodeId,
+      invocationMode: parent?.mode,
+      debug,
     };
 
-    // Acquire execution lock
-    const lockAcquired = await this.stateManager.acquireLock(runId, this.config.instanceId);
+    await this.launchRun(parsedWorkflow, workflowState, context);
+    return createdRun;
+  }
 
-    if (!lockAcquired) {
-      throw new Error(`Failed to acquire execution lock for workflow: ${runId}`);
-    }
+  /**
+   * Start the runs waiting on a run that ended: the next queued run of the
+   * workflow for its employee, then runs of its organization waiting for a run slot
+   */
+  private async startQueuedRun(endedState: WorkflowState): Promise<void> {
+    const orgId = endedState.organizationId;
 
     try {
-      // Save initial state
-      await this.stateManager.setWorkflowState(workflowState);
-      this.activeWorkflows.set(runId, workflowState);
-
-      // Start workflow execution
-      await this.startWorkflowExecution(parsedWorkflow, workflowState, context);
+      await this.runAdmission.startNextQueued(
+        endedState.workflowId,
+        endedState.employeeId,
+        async (run) => {
+          // Already admitted, and waiting for a run slot
+          if (await this.tenantScheduler.isRunQueued(orgId, run.run_id)) {
+            return;
+          }
+          if (!(await this.tenantScheduler.acquireRunSlot(orgId, run.run_id))) {
+            await this.tenantScheduler.queueRun(orgId, run.run_id, (runId) =>
+              this.startThrottledRun(runId)
+            );
+            return;
+          }
 
-      return createdRun;
+          try {
+            await this.launchQueuedRun(run);
+          } catch (error) {
+            await this.tenantScheduler.releaseRunSlot(orgId, run.run_id);
+            throw error;
+          }
+        }
+      );
     } catch (error) {
-      // Release lock on error
-      await this.stateManager.releaseLock(runId, this.config.instanceId);
-      throw error;
+      console.error(`Failed to start queued run after workflow run ${endedState.runId}:`, error);
     }
+
+    await this.tenantScheduler.startQueuedRuns(orgId, (runId) => this.startThrottledRun(runId));
   }
 
   /**
-   * Pause workflow execution
+   * Start a run that got the run slot it was queued for, unless it was cancelled meanwhile
    */
-  async pauseWorkflow(runId: UUID): Promise<void> {
-    const state = await this.getWorkflowState(runId);
-    if (!state) {
-      throw new Error(`Workflow state not found: ${runId}`);
+  private async startThrottledRun(runId: UUID): Promise<boolean> {
+    const run = await this.workflowRunRepo.findById(runId);
+    if (run?.status !== 'QUEUED') {
+      return false;
     }
 
-    if (!this.stateMachine.canTransition(state.status, 'pause', state)) {
-      throw new Error(`Cannot pause workflow in status: ${state.status}`);
-    }
-
-    const pausedState = this.stateMachine.transitionWorkflow(state, 'pause');
-    await this.stateManager.setWorkflowState(pausedState);
-    await this.workflowRunRepo.updateStatus(runId, 'PAUSED');
-
-    // Send pause messages to running nodes
-    await this.pauseRunningNodes(runId);
-
-    console.log(`Workflow paused: ${runId}`);
+    await this.launchQueuedRun(run);
+    return true;
   }
 
   /**
-   * Resume workflow execution
+   * Launch a queued run from its run record
    */
-  async resumeWorkflow(runId: UUID): Promise<void> {
-    const state = await this.getWorkflowState(runId);
-    if (!state) {
-      throw new Error(`Workflow state not found: ${runId}`);
-    }
-
-    if (!this.stateMachine.canTransition(state.status, 'resume', state)) {
-      throw new Error(`Cannot resume workflow in status: ${state.status}`);
-    }
+  private async launchQueuedRun(run: WorkflowRunEntity): Promise<void> {
+    await this.workflowRunRepo.update(run.run_id, {
+      status: 'PENDING',
+      started_at: new Date(),
+    });
+    await this.runEventLog.record(run.run_id, {
+      type: 'run.status_changed',
+      fromStatus: 'QUEUED',
+      toStatus: 'PENDING',
+      data: { trigger: 'dequeue' },
+    });
 
-    const resumedState = this.stateMachine.transitionWorkflow(state, 'resume');
-    await this.stateManager.setWorkflowState(resumedState);
-    await this.workflowRunRepo.updateStatus(runId, 'RUNNING');
+    const workflowState: WorkflowState = {
+      runId: run.run_id,
+      workflowId: run.workflow_id,
+      workflowVersion: run.workflow_version,
+      organizationId: run.org_id,
+      employeeId: run.employee_id || '',
+      status: 'PENDING',
+      currentNodes: new Set(),
+      completedNodes: new Set(),
+      failedNodes: new Set(),
+      skippedNodes: new Set(),
+      context: run.context,
+      startedAt: new Date(),
+      lastUpdatedAt: new Date(),
+    };
 
-    // Continue execution from current state
     try {
-      const parsedWorkflow = await this.workflowLoader.loadWorkflow(state.workflowId);
-      const context = this.contextManager.deserializeContext(JSON.stringify(state.context));
-      await this.continueWorkflowExecution(parsedWorkflow, resumedState, context);
+      // A queued re-run plans again, from the original run as it is now
+      if (run.rerun_of_run_id) {
+        const originalRun = await this.workflowRunRepo.findById(run.rerun_of_run_id);
+        if (!originalRun) {
+          throw new Error(`Workflow run ${run.rerun_of_run_id} re-run by ${run.run_id} not found`);
+        }
+        const { plan } = await this.planRerun(originalRun, run.rerun_from_node_id);
+        workflowState.completedNodes = plan.completedNodes;
+        workflowState.nodeOutputs = plan.nodeOutputs;
+      }
+
+      const parsedWorkflow = await this.loadRunWorkflow(workflowState);
+      const context = this.restoreExecutionContext(workflowState);
+      // The SLA of a queued run counts the time it spent queued
+      await this.launchRun(parsedWorkflow, workflowState, context, run.created_at);
+      console.log(`Started queued workflow run ${run.run_id}`);
     } catch (error) {
-      console.error(`Failed to resume workflow ${runId}:`, error);
+      // Don't leave the run pending, which would hold up the runs queued behind it
+      const message = error instanceof Error ? error.message : String(error);
+      await this.workflowRunRepo.updateStatus(run.run_id, 'FAILED', { message });
+      await this.runEventLog.record(run.run_id, {
+        type: 'run.status_changed',
+        fromStatus: 'PENDING',
+        toStatus: 'FAILED',
+        data: { trigger: 'fail', error: message },
+      });
       throw error;
     }
-
-    console.log(`Workflow resumed: ${runId}`);
   }
 
   /**
-   * Cancel workflow execution
+   * Re-run a failed run as a new run, starting from a chosen node or from every
+   * node that failed. Outputs of upstream nodes that completed are reused, so
+   * their side effects are not repeated.
    */
-  async cancelWorkflow(runId: UUID): Promise<void> {
-    const state = await this.getWorkflowState(runId);
-    if (!state) {
-      throw new Error(`Workflow state not found: ${runId}`);
+  async rerunWorkflow(runId: UUID, fromNodeId?: UUID): Promise<WorkflowRun> {
+    const originalRun = await this.workflowRunRepo.findById(runId);
+    if (!originalRun) {
+      throw new RerunError(`Workflow run ${runId} not found`, 'NOT_FOUND');
     }
-
-    if (!this.stateMachine.canTransition(state.status, 'cancel', state)) {
-      throw new Error(`Cannot cancel workflow in status: ${state.status}`);
+    if (!RERUNNABLE_STATUSES.includes(originalRun.status)) {
+      throw new RerunError(
+        `Workflow run ${runId} is ${originalRun.status}; only failed runs can be re-run`,
+        'NOT_RERUNNABLE'
+      );
     }
 
-    const cancelledState = this.stateMachine.transitionWorkflow(state, 'cancel');
-    await this.stateManager.setWorkflowState(cancelledState);
-    await this.workflowRunRepo.updateStatus(runId, 'CANCELLED');
-
-    // Cancel all running nodes
-    await this.cancelRunningNodes(runId);
+    const { parsedWorkflow, plan, context } = await this.planRerun(originalRun, fromNodeId);
+    const rerun: RerunLink = { runId, fromNodeId, plan };
+    const newRunId = uuidv4();
 
-    // Clean up state
-    await this.cleanupWorkflowState(runId);
+    // Re-runs pass the same run policy and run limits as any other run
+    const createdRun = await this.runAdmission.admit(
+      parsedWorkflow,
+      context,
+      newRunId,
+      async (decision) => {
+        for (const previousRunId of decision.cancelRunIds) {
+          await this.cancelWorkflow(previousRunId);
+        }
+        return this.startRun(
+          parsedWorkflow,
+          newRunId,
+          context,
+          undefined,
+          decision.queue,
+          undefined,
+          rerun
+        );
+      }
+    );
 
-    console.log(`Workflow cancelled: ${runId}`);
+    console.log(`Workflow run ${runId} re-run as ${newRunId}`, {
+      startNodes: plan.startNodeIds,
+      reusedNodes: plan.completedNodes.size,
+    });
+    return createdRun;
   }
 
   /**
-   * Handle node execution completion
+   * Plan a re-run of a run, with the context of the original run's trigger and
+   * the outputs the re-run reuses replayed over it
    */
-  async handleNodeCompletion(
-    runId: UUID,
-    nodeId: UUID,
-    output: Record<string, any>
-  ): Promise<void> {
-    const state = await this.getWorkflowState(runId);
-    if (!state) {
-      console.warn(`Workflow state not found for node completion: ${runId}`);
-      return;
-    }
-
-    // Update workflow state
-    state.completedNodes.add(nodeId);
-    state.currentNodes.delete(nodeId);
-    state.lastUpdatedAt = new Date();
-
-    await this.stateManager.setWorkflowState(state);
-
-    // Update context with node output
-    try {
-      const parsedWorkflow = await this.workflowLoader.loadWorkflow(state.workflowId);
-      const node = parsedWorkflow.nodeMap.get(nodeId);
-      if (node) {
-        const context = this.contextManager.deserializeContext(JSON.stringify(state.context));
+  private async planRerun(
+    originalRun: WorkflowRunEntity,
+    fromNodeId?: UUID
+  ): Promise<{ parsedWorkflow: ParsedWorkflow; plan: RerunPlan; context: ExecutionContext }> {
+    const runId = originalRun.run_id;
+    const parsedWorkflow = await this.loadRunWorkflow({
+      workflowId: originalRun.workflow_id,
+      workflowVersion: originalRun.workflow_version,
+    });
+    const originalState =
+      (await this.stateManager.getWorkflowState(runId)) ||
+      this.runReconciler.rebuildState(
+        originalRun,
+        parsedWorkflow,
+        await this.nodeRunRepo.findByWorkflowRun(runId)
+      );
+    const plan = this.rerunPlanner.plan(parsedWorkflow, originalState, fromNodeId);
 
-        const updatedContext = this.contextManager.updateContextWithNodeOutput(
+    let context = this.restoreExecutionContext({
+      ...originalState,
+      context: originalRun.context,
+    });
+    for (const node of parsedWorkflow.executionOrder) {
+      if (plan.completedNodes.has(node.id)) {
+        context = this.contextManager.updateContextWithNodeOutput(
           context,
-          nodeId,
+          node.id,
           node.name,
-          output
+          plan.nodeOutputs[node.id]
         );
-
-        state.context = updatedContext.variables;
-        await this.stateManager.setWorkflowState(state);
-
-        // Continue workflow execution
-        await this.continueWorkflowExecution(parsedWorkflow, state, updatedContext);
       }
-    } catch (error) {
-      console.error(`Failed to handle node completion for ${runId}:`, error);
     }
+
+    return { parsedWorkflow, plan, context };
   }
 
   /**
-   * Handle node execution failure
+   * Move a paused run to another version of its workflow. Progress carries over
+   * by node ID, or through `nodeMapping` for nodes whose ID changed. A dry run
+   * only checks compatibility.
    */
-  async handleNodeFailure(runId: UUID, nodeId: UUID, error: any, attempt: number): Promise<void> {
+  async migrateRun(
+    runId: UUID,
+    toVersion: number,
+    nodeMapping: Record<UUID, UUID> = {},
+    dryRun: boolean = false
+  ): Promise<RunMigrationResult> {
     const state = await this.getWorkflowState(runId);
     if (!state) {
-      console.warn(`Workflow state not found for node failure: ${runId}`);
-      return;
+      throw new RunMigrationError(`Workflow run ${runId} not found`, 'NOT_FOUND');
+    }
+    if (!MIGRATABLE_STATUSES.includes(state.status)) {
+      throw new RunMigrationError(
+        `Workflow run ${runId} is ${state.status}; pause it before migrating`,
+        'NOT_MIGRATABLE'
+      );
     }
 
+    const source = await this.loadRunWorkflow(state);
+    let target: ParsedWorkflow;
     try {
-      const parsedWorkflow = await this.workflowLoader.loadWorkflow(state.workflowId);
-      const node = parsedWorkflow.nodeMap.get(nodeId);
-      if (!node) {
-        return;
-      }
-
-      // Use enhanced error handling
-      const errorHandlingResult = await this.errorHandler.handleNodeExecutionError(
-        {
-          runId,
-          nodeId,
-          nodeType: node.type,
-          error,
-          attempt,
-          context: {
-            organizationId: state.organizationId,
-            employeeId: state.employeeId,
-            correlationId: state.context.correlationId,
-          },
-        },
-        node
+      target = await this.workflowLoader.loadWorkflow(state.workflowId, {
+        version: toVersion,
+        includeInactive: true,
+      });
+    } catch (error) {
+      throw new RunMigrationError(
+        `Version ${toVersion} of workflow ${state.workflowId} cannot be loaded: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        'NOT_FOUND'
       );
+    }
 
-      if (errorHandlingResult.shouldRetry) {
-        console.log(
-          `Node ${nodeId} will be retried at ${errorHandlingResult.retryAt?.toISOString()}`
+    const plan = this.runMigrator.plan(source, target, state, nodeMapping);
+    const result: RunMigrationResult = {
+      ...plan,
+      runId,
+      fromVersion: state.workflowVersion,
+      toVersion,
+      applied: !dryRun,
+    };
+    if (dryRun) {
+      return result;
+    }
+
+    const migratedState = this.runMigrator.apply(state, plan, toVersion);
+
+    // Expose carried-over outputs under the target version's node IDs and names
+    let context = this.restoreExecutionContext(migratedState);
+    for (const node of target.executionOrder) {
+      if (migratedState.completedNodes.has(node.id)) {
+        context = this.contextManager.updateContextWithNodeOutput(
+          context,
+          node.id,
+          node.name,
+          migratedState.nodeOutputs?.[node.id] || {}
         );
-        return;
       }
+    }
+    migratedState.context = context.variables;
 
-      // Mark node as failed
-      state.failedNodes.add(nodeId);
-      state.currentNodes.delete(nodeId);
-      state.lastUpdatedAt = new Date();
+    await this.stateManager.setWorkflowState(migratedState);
+    if (this.activeWorkflows.has(runId)) {
+      this.activeWorkflows.set(runId, migratedState);
+    }
+    await this.workflowRunRepo.update(runId, { workflow_version: toVersion });
 
-      await this.stateManager.setWorkflowState(state);
+    console.log(`Migrated workflow run ${runId} to version ${toVersion}`, {
+      fromVersion: state.workflowVersion,
+      droppedNodes: plan.droppedNodes.length,
+    });
+    return result;
+  }
+
+  /**
+   * Get the compensation plan of a run, with the status of its steps
+   */
+  async getCompensationPlan(runId: UUID): Promise<RunCompensationPlan | null> {
+    return this.errorHandler.compensationManager.getCompensationPlan(runId);
+  }
+
+  /**
+   * Get SLA compliance per organization and workflow, for SLAs started since a time
+   */
+  async getSlaCompliance(since: Date, orgId?: UUID): Promise<OrganizationSlaCompliance[]> {
+    return this.slaTracker.getCompliance(since, orgId);
+  }
+
+  /**
+   * Compensate a completed run on request, for example when the employee change
+   * it carried out was rescinded. The run keeps its status; the plan records the
+   * outcome of every step.
+   */
+  async compensateRun(
+    runId: UUID,
+    reason: string,
+    actor?: RunEventActor
+  ): Promise<RunCompensationPlan> {
+    const { run, parsedWorkflow, state } = await this.loadCompensationTarget(runId);
+    if (!COMPENSABLE_STATUSES.includes(run.status)) {
+      throw new CompensationError(
+        `Workflow run ${runId} is ${run.status}; only completed runs can be compensated on request`,
+        'NOT_COMPENSABLE'
+      );
+    }
+
+    const compensationManager = this.errorHandler.compensationManager;
+    if (await compensationManager.getCompensationPlan(runId)) {
+      throw new CompensationError(
+        `Workflow run ${runId} already has a compensation plan`,
+        'ALREADY_COMPENSATED'
+      );
+    }
+
+    const plan = await compensationManager.createCompensationPlan(parsedWorkflow, state, 'manual', {
+      reason,
+      requestedBy: actor?.id,
+    });
+    if (!plan) {
+      throw new CompensationError(
+        `Workflow run ${runId} completed no node that has a compensation node`,
+        'NO_COMPENSATION'
+      );
+    }
+
+    return compensationManager.resumeCompensationPlan(plan, state, actor);
+  }
+
+  /**
+   * Retry a failed compensation step, then the steps that were waiting on it
+   */
+  async retryCompensationStep(
+    runId: UUID,
+    nodeId: UUID,
+    actor?: RunEventActor
+  ): Promise<RunCompensationPlan> {
+    const { parsedWorkflow, state } = await this.loadCompensationTarget(runId);
+    const compensationManager = this.errorHandler.compensationManager;
+    const plan = await compensationManager.loadCompensationPlan(parsedWorkflow, state);
+    if (!plan) {
+      throw new CompensationError(`Workflow run ${runId} has no compensation plan`, 'NOT_FOUND');
+    }
+
+    return compensationManager.retryStep(plan, nodeId, state, actor);
+  }
+
+  /**
+   * Skip a compensation step with a justification, then run the steps that were
+   * waiting on it
+   */
+  async skipCompensationStep(
+    runId: UUID,
+    nodeId: UUID,
+    justification: string,
+    actor?: RunEventActor
+  ): Promise<RunCompensationPlan> {
+    const { parsedWorkflow, state } = await this.loadCompensationTarget(runId);
+    const compensationManager = this.errorHandler.compensationManager;
+    const plan = await compensationManager.loadCompensationPlan(parsedWorkflow, state);
+    if (!plan) {
+      throw new CompensationError(`Workflow run ${runId} has no compensation plan`, 'NOT_FOUND');
+    }
+
+    return compensationManager.skipStep(plan, nodeId, justification, state, actor);
+  }
+
+  /**
+   * Load an ended run with the workflow version it ran and its last state
+   */
+  private async loadCompensationTarget(runId: UUID): Promise<{
+    run: WorkflowRunEntity;
+    parsedWorkflow: ParsedWorkflow;
+    state: WorkflowState;
+  }> {
+    const run = await this.workflowRunRepo.findById(runId);
+    if (!run) {
+      throw new CompensationError(`Workflow run ${runId} not found`, 'NOT_FOUND');
+    }
+
+    const parsedWorkflow = await this.loadRunWorkflow({
+      workflowId: run.workflow_id,
+      workflowVersion: run.workflow_version,
+    });
+    const state =
+      (await this.stateManager.getWorkflowState(runId)) ||
+      this.runReconciler.rebuildState(
+        run,
+        parsedWorkflow,
+        await this.nodeRunRepo.findByWorkflowRun(runId)
+      );
+
+    // The run returns to the status it ended with once compensation stops
+    return { run, parsedWorkflow, state: { ...state, status: run.status } };
+  }
+
+  /**
+   * Get the debug session of a debug run
+   */
+  async getDebugSession(runId: UUID): Promise<RunDebugSession> {
+    const { parsedWorkflow, state } = await this.loadDebugRun(runId);
+    return this.runDebugger.describe(state, parsedWorkflow);
+  }
+
+  /**
+   * Replace the breakpoints of a debug run; they apply to nodes that have not
+   * started yet
+   */
+  async setDebugBreakpoints(runId: UUID, nodeIds: UUID[]): Promise<RunDebugSession> {
+    const { parsedWorkflow, state } = await this.loadDebugRun(runId);
+    const breakpoints = this.runDebugger.checkBreakpoints(parsedWorkflow, nodeIds);
+
+    const nextState = { ...state, debug: { ...state.debug!, breakpoints } };
+    await this.saveDebugState(nextState);
+    return this.runDebugger.describe(nextState, parsedWorkflow);
+  }
+
+  /**
+   * Edit context variables of a paused debug run. The input of the nodes it
+   * paused before is resolved again with the new values.
+   */
+  async updateDebugVariables(
+    runId: UUID,
+    variables: Record<string, any>,
+    actor?: RunEventActor
+  ): Promise<RunDebugSession> {
+    const { parsedWorkflow, state } = await this.loadDebugRun(runId);
+    if (state.status !== 'PAUSED') {
+      throw new RunDebugError(
+        `Workflow run ${runId} is ${state.status}; variables can only be edited while it is paused`,
+        'NOT_PAUSED'
+      );
+    }
+    this.runDebugger.checkVariables(variables);
+
+    const nextState: WorkflowState = { ...state, context: { ...state.context, ...variables } };
+    const context = this.restoreExecutionContext(nextState);
+    const heldNodes = { ...state.debug!.heldNodes };
+    for (const nodeId of Object.keys(heldNodes)) {
+      const node = parsedWorkflow.nodeMap.get(nodeId);
+      try {
+        heldNodes[nodeId] = this.nodeEvaluator.prepareNodeInput(
+          parsedWorkflow,
+          node!,
+          context,
+          state.nodeOutputs
+        );
+      } catch (error) {
+        // Inputs that no longer resolve fail the node once the run goes on
+        console.warn(`Failed to resolve input for node ${nodeId} in workflow ${runId}:`, error);
+      }
+    }
+    nextState.debug = { ...state.debug!, heldNodes };
+
+    await this.saveDebugState(nextState);
+    await this.runEventLog.record(runId, {
+      type: 'run.variables_changed',
+      actor,
+      data: { variables: Object.keys(variables) },
+    });
+    return this.runDebugger.describe(nextState, parsedWorkflow);
+  }
+
+  /**
+   * Run the nodes a debug run paused before, then pause before the next nodes
+   */
+  async stepDebugRun(runId: UUID, actor?: RunEventActor): Promise<RunDebugSession> {
+    return this.releaseDebugRun(runId, true, actor);
+  }
+
+  /**
+   * Run the nodes a debug run paused before and go on until the next breakpoint
+   */
+  async continueDebugRun(runId: UUID, actor?: RunEventActor): Promise<RunDebugSession> {
+    return this.releaseDebugRun(runId, false, actor);
+  }
+
+  private async releaseDebugRun(
+    runId: UUID,
+    stepping: boolean,
+    actor?: RunEventActor
+  ): Promise<RunDebugSession> {
+    const { state } = await this.loadDebugRun(runId);
+    if (state.status !== 'PAUSED') {
+      throw new RunDebugError(
+        `Workflow run ${runId} is ${state.status}; only paused debug runs can step or continue`,
+        'NOT_PAUSED'
+      );
+    }
+
+    await this.saveDebugState({ ...state, debug: { ...state.debug!, stepping } });
+    await this.resumeWorkflow(runId, actor);
+    return this.getDebugSession(runId);
+  }
+
+  /**
+   * Load a debug run with the workflow version it runs and its state
+   */
+  private async loadDebugRun(
+    runId: UUID
+  ): Promise<{ parsedWorkflow: ParsedWorkflow; state: WorkflowState }> {
+    const state = await this.getWorkflowState(runId);
+    if (!state) {
+      throw new RunDebugError(`Workflow run ${runId} not found`, 'NOT_FOUND');
+    }
+    if (!state.debug) {
+      throw new RunDebugError(`Workflow run ${runId} is not a debug run`, 'NOT_DEBUG_RUN');
+    }
+
+    return { parsedWorkflow: await this.loadRunWorkflow(state), state };
+  }
+
+  private async saveDebugState(state: WorkflowState): Promise<void> {
+    state.lastUpdatedAt = new Date();
+    await this.stateManager.setWorkflowState(state);
+    if (this.activeWorkflows.has(state.runId)) {
+      this.activeWorkflows.set(state.runId, state);
+    }
+  }
+
+  /**
+   * Take the execution lock of a new run, save its state and start it
+   */
+  private async launchRun(
+    parsedWorkflow: ParsedWorkflow,
+    workflowState: WorkflowState,
+    context: ExecutionContext,
+    slaStartedAt?: Date
+  ): Promise<void> {
+    const { runId } = workflowState;
+
+    // Acquire execution lock
+    const lockAcquired = await this.stateManager.acquireLock(runId, this.config.instanceId);
+
+    if (!lockAcquired) {
+      throw new Error(`Failed to acquire execution lock for workflow: ${runId}`);
+    }
+
+    try {
+      await this.slaTracker.startRun(workflowState, parsedWorkflow, slaStartedAt);
+
+      // Save initial state
+      await this.stateManager.setWorkflowState(workflowState);
+      this.activeWorkflows.set(runId, workflowState);
+
+      // Start workflow execution
+      await this.startWorkflowExecution(parsedWorkflow, workflowState, context);
+    } catch (error) {
+      // Release lock on error
+      await this.stateManager.releaseLock(runId, this.config.instanceId);
+      throw error;
+    }
+  }
+
+  /**
+   * Pause workflow execution
+   */
+  async pauseWorkflow(runId: UUID, actor?: RunEventActor): Promise<void> {
+    const state = await this.getWorkflowState(runId);
+    if (!state) {
+      throw new Error(`Workflow state not found: ${runId}`);
+    }
+
+    if (!this.stateMachine.canTransition(state.status, 'pause', state)) {
+      throw new Error(`Cannot pause workflow in status: ${state.status}`);
+    }
+
+    const pausedState = await this.transitionRun(state, 'pause', actor);
+    await this.stateManager.setWorkflowState(pausedState);
+    if (this.activeWorkflows.has(runId)) {
+      this.activeWorkflows.set(runId, pausedState);
+    }
+    await this.workflowRunRepo.updateStatus(runId, 'PAUSED');
+
+    // Send pause messages to running nodes
+    await this.pauseRunningNodes(runId);
+
+    console.log(`Workflow paused: ${runId}`);
+  }
+
+  /**
+   * Resume workflow execution
+   */
+  async resumeWorkflow(runId: UUID, actor?: RunEventActor): Promise<void> {
+    const state = await this.getWorkflowState(runId);
+    if (!state) {
+      throw new Error(`Workflow state not found: ${runId}`);
+    }
+
+    if (!this.stateMachine.canTransition(state.status, 'resume', state)) {
+      throw new Error(`Cannot resume workflow in status: ${state.status}`);
+    }
+
+    const resumedState = await this.transitionRun(state, 'resume', actor);
+    const heldNodeIds = Object.keys(resumedState.debug?.heldNodes || {});
+    if (resumedState.debug) {
+      resumedState.debug = { ...resumedState.debug, heldNodes: {} };
+    }
+    await this.stateManager.setWorkflowState(resumedState);
+    if (this.activeWorkflows.has(runId)) {
+      this.activeWorkflows.set(runId, resumedState);
+    }
+    await this.workflowRunRepo.updateStatus(runId, 'RUNNING');
+
+    // Continue execution from current state
+    try {
+      const parsedWorkflow = await this.loadRunWorkflow(state);
+      const context = this.restoreExecutionContext(state);
+
+      // Debug runs first start the nodes they paused before
+      const heldNodes = heldNodeIds
+        .map((nodeId) => parsedWorkflow.nodeMap.get(nodeId))
+        .filter((node): node is WorkflowNode => !!node);
+      if (heldNodes.length > 0) {
+        await this.dispatchEligibleNodes(parsedWorkflow, resumedState, context, heldNodes, true);
+      }
+
+      await this.continueWorkflowExecution(parsedWorkflow, resumedState, context);
+    } catch (error) {
+      console.error(`Failed to resume workflow ${runId}:`, error);
+      throw error;
+    }
+
+    console.log(`Workflow resumed: ${runId}`);
+  }
+
+  /**
+   * Cancel workflow execution
+   */
+  async cancelWorkflow(runId: UUID, actor?: RunEventActor): Promise<void> {
+    const state = await this.getWorkflowState(runId);
+    if (!state) {
+      // Queued runs have no state until they start
+      const run = await this.workflowRunRepo.findById(runId);
+      if (run?.status === 'QUEUED') {
+        await this.tenantScheduler.removeQueuedRun(run.org_id, runId);
+        await this.workflowRunRepo.updateStatus(runId, 'CANCELLED');
+        await this.runEventLog.record(runId, {
+          type: 'run.status_changed',
+          fromStatus: 'QUEUED',
+          toStatus: 'CANCELLED',
+          actor,
+          data: { trigger: 'cancel' },
+        });
+        console.log(`Queued workflow run cancelled: ${runId}`);
+        return;
+      }
+      throw new Error(`Workflow state not found: ${runId}`);
+    }
+
+    if (!this.stateMachine.canTransition(state.status, 'cancel', state)) {
+      throw new Error(`Cannot cancel workflow in status: ${state.status}`);
+    }
+
+    const cancelledState = await this.transitionRun(state, 'cancel', actor);
+    await this.stateManager.setWorkflowState(cancelledState);
+    await this.workflowRunRepo.updateStatus(runId, 'CANCELLED');
+
+    // Cancel all running nodes
+    await this.cancelRunningNodes(runId);
+
+    // Clean up state
+    await this.finishRun(cancelledState);
+
+    console.log(`Workflow cancelled: ${runId}`);
+  }
+
+  /**
+   * Record an approver's decision on a waiting approval node and resume the run
+   */
+  async submitApprovalDecision(
+    runId: UUID,
+    nodeId: UUID,
+    decision: ApprovalDecision,
+    decider: ApprovalDecider,
+    comment?: string
+  ): Promise<Record<string, any>> {
+    const state = await this.getWorkflowState(runId);
+    if (!state || state.organizationId !== decider.orgId) {
+      throw new ApprovalDecisionError(`Workflow run not found: ${runId}`, 'NOT_FOUND');
+    }
+
+    const pending = state.pendingApprovals?.[nodeId];
+    const nodeState = await this.stateManager.getNodeState(runId, nodeId);
+    if (
+      !pending ||
+      !nodeState ||
+      nodeState.status !== 'RUNNING' ||
+      !['RUNNING', 'PAUSED'].includes(state.status)
+    ) {
+      throw new ApprovalDecisionError(
+        `Node ${nodeId} in run ${runId} is not awaiting approval`,
+        'NOT_PENDING'
+      );
+    }
+
+    const identities = await this.approvalService.resolveIdentities(decider);
+    const output = this.approvalService.buildDecisionOutput(pending, decision, identities, comment);
+    await this.completeApproval(runId, nodeState, output, { type: 'user', id: decider.userId });
+
+    console.log(`Approval ${decision}:`, { runId, nodeId, decidedBy: output.decidedBy });
+    return output;
+  }
+
+  /**
+   * Deliver an external signal to the wait_for_event nodes waiting for it, or
+   * buffer it until a node starts waiting
+   */
+  async receiveSignal(input: SignalInput): Promise<SignalDelivery> {
+    const signal = this.signalService.normalizeSignal(input);
+    const deliveredTo: SignalDelivery['deliveredTo'] = [];
+
+    for (const waiter of await this.signalService.getWaiters(signal)) {
+      if (await this.deliverSignal(waiter.runId, waiter.nodeId, signal)) {
+        deliveredTo.push(waiter);
+      }
+    }
+
+    const buffered = deliveredTo.length === 0;
+    if (buffered) {
+      await this.signalService.bufferSignal(signal);
+    }
+
+    console.log(`Signal received:`, {
+      signalId: signal.id,
+      name: signal.name,
+      correlationKey: signal.correlationKey,
+      delivered: deliveredTo.length,
+    });
+    return { signalId: signal.id, deliveredTo, buffered };
+  }
+
+  /**
+   * Handle node execution completion. Results of executors pass their attempt:
+   * they only count while that attempt of the node is still running.
+   */
+  async handleNodeCompletion(
+    runId: UUID,
+    nodeId: UUID,
+    output: Record<string, any>,
+    attempt?: number
+  ): Promise<void> {
+    if (attempt !== undefined) {
+      const current = await this.stateManager.getNodeState(runId, nodeId);
+      if (current?.status !== 'RUNNING' || current.attempt !== attempt) {
+        console.warn(`Ignoring stale result for node ${runId}:${nodeId} (attempt ${attempt})`);
+        return;
+      }
+    }
+
+    const iteration = parseIterationNodeId(nodeId);
+    if (iteration) {
+      await this.handleIterationOutcome(runId, iteration, { output });
+      return;
+    }
+
+    const state = await this.getWorkflowState(runId);
+    if (!state) {
+      console.warn(`Workflow state not found for node completion: ${runId}`);
+      return;
+    }
+
+    // Persist the result first, so it survives a crash before the run moves on
+    const nodeState = await this.stateManager.getNodeState(runId, nodeId);
+    await this.recordNodeRun(
+      { nodeId, runId, status: 'COMPLETED', attempt: 1, ...nodeState, endedAt: new Date() },
+      'COMPLETED',
+      { output }
+    );
+
+    // Update workflow state
+    state.completedNodes.add(nodeId);
+    state.currentNodes.delete(nodeId);
+    if (state.pendingTimers) {
+      delete state.pendingTimers[nodeId];
+    }
+    if (state.childRuns) {
+      delete state.childRuns[nodeId];
+    }
+    if (state.pendingApprovals) {
+      delete state.pendingApprovals[nodeId];
+    }
+    if (state.pendingSignals) {
+      delete state.pendingSignals[nodeId];
+    }
+    await this.slaTracker.finish(state, nodeId);
+    state.nodeOutputs = { ...state.nodeOutputs, [nodeId]: output };
+    state.lastUpdatedAt = new Date();
+
+    await this.stateManager.setWorkflowState(state);
+    await this.stateManager.removeNodeTimeout(runId, nodeId);
+
+    // Update context with node output
+    try {
+      const parsedWorkflow = await this.loadRunWorkflow(state);
+      const node = parsedWorkflow.nodeMap.get(nodeId);
+      if (node) {
+        const context = this.restoreExecutionContext(state);
+
+        const updatedContext = this.contextManager.updateContextWithNodeOutput(
+          context,
+          nodeId,
+          node.name,
+          output
+        );
+
+        state.context = updatedContext.variables;
+        await this.stateManager.setWorkflowState(state);
+
+        // Continue workflow execution
+        await this.continueWorkflowExecution(parsedWorkflow, state, updatedContext);
+      }
+    } catch (error) {
+      console.error(`Failed to handle node completion for ${runId}:`, error);
+    }
+  }
+
+  /**
+   * Handle node execution failure
+   */
+  async handleNodeFailure(runId: UUID, nodeId: UUID, error: any, attempt: number): Promise<void> {
+    const state = await this.getWorkflowState(runId);
+    if (!state) {
+      console.warn(`Workflow state not found for node failure: ${runId}`);
+      return;
+    }
+
+    try {
+      await this.stateManager.removeNodeTimeout(runId, nodeId);
+
+      const parsedWorkflow = await this.loadRunWorkflow(state);
+      const node = this.resolveNode(parsedWorkflow, nodeId);
+      if (!node) {
+        return;
+      }
+
+      // Use enhanced error handling
+      const errorHandlingResult = await this.errorHandler.handleNodeExecutionError(
+        {
+          runId,
+          nodeId,
+          nodeType: node.type,
+          error,
+          attempt,
+          context: {
+            organizationId: state.organizationId,
+            employeeId: state.employeeId,
+            correlationId: state.context.correlationId,
+          },
+        },
+        node
+      );
+
+      if (errorHandlingResult.shouldRetry) {
+        await this.runEventLog.record(runId, {
+          type: 'node.retry_scheduled',
+          nodeId,
+          attempt,
+          data: { retryAt: errorHandlingResult.retryAt?.toISOString(), error },
+        });
+        console.log(
+          `Node ${nodeId} will be retried at ${errorHandlingResult.retryAt?.toISOString()}`
+        );
+        return;
+      }
+
+      // A failed iteration is settled by its foreach node
+      const iteration = parseIterationNodeId(nodeId);
+      if (iteration) {
+        await this.handleIterationOutcome(runId, iteration, { error });
+        return;
+      }
+
+      await this.recordNodeRun(
+        { nodeId, runId, status: 'FAILED', attempt, endedAt: new Date() },
+        'FAILED',
+        { error }
+      );
+
+      // Mark node as failed
+      state.failedNodes.add(nodeId);
+      state.currentNodes.delete(nodeId);
+      if (state.childRuns) {
+        delete state.childRuns[nodeId];
+      }
+      if (state.pendingApprovals) {
+        delete state.pendingApprovals[nodeId];
+      }
+      if (state.pendingSignals) {
+        delete state.pendingSignals[nodeId];
+      }
+      state.lastUpdatedAt = new Date();
+
+      await this.stateManager.setWorkflowState(state);
 
       // Check if workflow should fail or continue
       if (errorHandlingResult.shouldFailWorkflow) {
@@ -331,101 +1352,972 @@ export class WorkflowOrchestrator {
   }
 
   /**
-   * Start workflow execution
+   * Resume an adopted run: apply results that were recorded but never processed,
+   * re-dispatch nodes whose results were lost and dispatch whatever became eligible.
+   * Re-dispatches reuse the lost attempt, so executors see the same idempotency key.
+   */
+  private async resumeReconciledRun(
+    parsedWorkflow: ParsedWorkflow,
+    run: WorkflowRunEntity,
+    reconciled: ReconciledRun
+  ): Promise<void> {
+    const { state } = reconciled;
+    this.activeWorkflows.set(state.runId, state);
+
+    if (reconciled.rebuilt) {
+      await this.stateManager.setWorkflowState(state);
+      const workflowTimeoutMs =
+        parsedWorkflow.definition.definition.metadata?.timeout ||
+        this.config.workflowExecutionTimeout;
+      await this.stateManager.scheduleWorkflowTimeout(
+        state.runId,
+        new Date(new Date(run.started_at).getTime() + workflowTimeoutMs)
+      );
+    }
+
+    for (const { nodeId, output } of reconciled.completedResults) {
+      await this.handleNodeCompletion(state.runId, nodeId, output);
+    }
+
+    for (const { nodeId, attempt } of reconciled.redispatch) {
+      const node = this.resolveNode(parsedWorkflow, nodeId);
+      // Engine nodes keep their timers, approvals and child runs in Redis and
+      // only need restarting when that state was lost
+      if (!node || (ENGINE_NODE_TYPES.includes(node.type) && !reconciled.rebuilt)) {
+        continue;
+      }
+
+      try {
+        const context = this.restoreNodeContext(state, nodeId);
+        const input = this.nodeEvaluator.prepareNodeInput(
+          parsedWorkflow,
+          node,
+          context,
+          state.nodeOutputs
+        );
+        await this.startNode(state, node, input, context, attempt);
+      } catch (error) {
+        console.error(`Failed to re-dispatch node ${nodeId} of workflow ${state.runId}:`, error);
+      }
+    }
+
+    const current = await this.getWorkflowState(state.runId);
+    if (current) {
+      await this.continueWorkflowExecution(
+        parsedWorkflow,
+        current,
+        this.restoreExecutionContext(current)
+      );
+    }
+  }
+
+  /**
+   * Start workflow execution
+   */
+  private async startWorkflowExecution(
+    parsedWorkflow: ParsedWorkflow,
+    state: WorkflowState,
+    context: ExecutionContext
+  ): Promise<void> {
+    // Transition to RUNNING
+    const runningState = await this.transitionRun(state, 'start');
+    await this.stateManager.setWorkflowState(runningState);
+    await this.workflowRunRepo.updateStatus(state.runId, 'RUNNING');
+
+    // Register the run deadline so any instance can enforce it
+    const workflowTimeoutMs =
+      parsedWorkflow.definition.definition.metadata?.timeout ||
+      this.config.workflowExecutionTimeout;
+    await this.stateManager.scheduleWorkflowTimeout(
+      state.runId,
+      new Date(Date.now() + workflowTimeoutMs)
+    );
+
+    // Keep the cached state in step, so results of the first nodes see a running run
+    this.activeWorkflows.set(state.runId, runningState);
+
+    // Re-runs already have completed nodes and continue from the first nodes that did not
+    if (runningState.completedNodes.size > 0) {
+      await this.continueWorkflowExecution(parsedWorkflow, runningState, context);
+      return;
+    }
+
+    // Get entry nodes from parsed workflow
+    const entryNodes = parsedWorkflow.entryNodes;
+
+    if (entryNodes.length === 0) {
+      throw new Error('No entry nodes found in workflow');
+    }
+
+    // Dispatch entry nodes
+    await this.dispatchEligibleNodes(parsedWorkflow, runningState, context, entryNodes);
+  }
+
+  /**
+   * Continue workflow execution after node completion
+   */
+  private async continueWorkflowExecution(
+    parsedWorkflow: ParsedWorkflow,
+    state: WorkflowState,
+    context: ExecutionContext
+  ): Promise<void> {
+    if (state.status !== 'RUNNING') {
+      return;
+    }
+
+    // Find next eligible nodes, skipping branches whose edge conditions did not match
+    const eligibleNodes = await this.resolveNextNodes(parsedWorkflow, state, context);
+
+    if (eligibleNodes.length > 0) {
+      await this.dispatchEligibleNodes(parsedWorkflow, state, context, eligibleNodes);
+    } else if (state.currentNodes.size === 0) {
+      // No more nodes to execute, check if workflow is complete
+      await this.checkWorkflowCompletion(parsedWorkflow, state);
+    }
+  }
+
+  /**
+   * Resolve eligible nodes and move untaken or condition-gated nodes into skippedNodes
    */
-  private async startWorkflowExecution(
+  private async resolveNextNodes(
     parsedWorkflow: ParsedWorkflow,
     state: WorkflowState,
     context: ExecutionContext
+  ): Promise<WorkflowNode[]> {
+    const { eligible, skipped } = WorkflowParser.resolveBranches(
+      parsedWorkflow,
+      state.completedNodes,
+      state.failedNodes,
+      state.currentNodes,
+      state.skippedNodes,
+      (edge) => this.nodeEvaluator.isEdgeTaken(edge, context, state.nodeOutputs, parsedWorkflow),
+      (node) => this.nodeEvaluator.shouldRunNode(node, context)
+    );
+
+    if (skipped.length > 0) {
+      for (const node of skipped) {
+        state.skippedNodes.add(node.id);
+        await this.stateManager.setNodeState({
+          nodeId: node.id,
+          runId: state.runId,
+          status: 'SKIPPED',
+          attempt: 0,
+          endedAt: new Date(),
+        });
+      }
+
+      state.lastUpdatedAt = new Date();
+      await this.stateManager.setWorkflowState(state);
+
+      console.log(
+        `Skipped ${skipped.length} node(s) on untaken branches for workflow ${state.runId}`
+      );
+    }
+
+    return eligible;
+  }
+
+  /**
+   * Dispatch eligible nodes for execution
+   */
+  private async dispatchEligibleNodes(
+    parsedWorkflow: ParsedWorkflow,
+    state: WorkflowState,
+    context: ExecutionContext,
+    nodes: WorkflowNode[],
+    releasedFromBreakpoint: boolean = false
   ): Promise<void> {
-    // Transition to RUNNING
-    const runningState = this.stateMachine.transitionWorkflow(state, 'start');
-    await this.stateManager.setWorkflowState(runningState);
-    await this.workflowRunRepo.updateStatus(state.runId, 'RUNNING');
+    const nodeInputs = new Map<UUID, Record<string, any>>();
+    const unresolvedNodes = new Map<UUID, any>();
+
+    // Prepare input for each node
+    for (const node of nodes) {
+      try {
+        const input = this.nodeEvaluator.prepareNodeInput(
+          parsedWorkflow,
+          node,
+          context,
+          state.nodeOutputs
+        );
+        nodeInputs.set(node.id, input);
+      } catch (error) {
+        unresolvedNodes.set(node.id, error);
+      }
+
+      // Add to current nodes
+      state.currentNodes.add(node.id);
+      await this.slaTracker.startNode(state, node);
+    }
+
+    // Update state
+    state.lastUpdatedAt = new Date();
+    await this.stateManager.setWorkflowState(state);
+
+    // Debug runs pause before breakpoint nodes, which stay current until released
+    const heldNodes = releasedFromBreakpoint
+      ? []
+      : this.runDebugger.nodesToHold(
+          state,
+          nodes.filter((node) => !unresolvedNodes.has(node.id))
+        );
+    if (heldNodes.length > 0) {
+      await this.pauseAtBreakpoint(state, heldNodes, nodeInputs);
+    }
+
+    const readyNodes = nodes.filter(
+      (node) => !unresolvedNodes.has(node.id) && !heldNodes.includes(node)
+    );
+    const engineNodes = readyNodes.filter((node) => ENGINE_NODE_TYPES.includes(node.type));
+    const executorNodes = readyNodes.filter((node) => !ENGINE_NODE_TYPES.includes(node.type));
+
+    for (const node of engineNodes) {
+      await this.startNode(state, node, nodeInputs.get(node.id)!, context, 1);
+    }
+
+    // Dispatch nodes
+    if (executorNodes.length > 0) {
+      for (const node of executorNodes) {
+        await this.recordNodeRun(
+          {
+            nodeId: node.id,
+            runId: state.runId,
+            status: 'RUNNING',
+            attempt: 1,
+            input: nodeInputs.get(node.id),
+            startedAt: new Date(),
+          },
+          'RUNNING'
+        );
+      }
+
+      await this.nodeDispatcher.dispatchNodes(state.runId, executorNodes, nodeInputs, context);
+    }
+
+    // Nodes whose input mappings could not be resolved fail before dispatch
+    for (const [nodeId, error] of unresolvedNodes) {
+      console.error(
+        `Failed to resolve input for node ${nodeId} in workflow ${state.runId}:`,
+        error
+      );
+      await this.handleNodeFailure(
+        state.runId,
+        nodeId,
+        {
+          code: 'INPUT_RESOLUTION_FAILED',
+          message: error instanceof Error ? error.message : String(error),
+        },
+        1
+      );
+    }
+  }
+
+  /**
+   * Pause a debug run before nodes that are about to start, keeping their
+   * resolved input for the debugger. Nodes already running carry on.
+   */
+  private async pauseAtBreakpoint(
+    state: WorkflowState,
+    nodes: WorkflowNode[],
+    nodeInputs: Map<UUID, Record<string, any>>
+  ): Promise<void> {
+    const heldNodes = { ...state.debug!.heldNodes };
+    for (const node of nodes) {
+      heldNodes[node.id] = nodeInputs.get(node.id) || {};
+    }
+    state.debug = { ...state.debug!, heldNodes };
+
+    // The state is updated in place, as callers keep using it after dispatching
+    if (state.status === 'RUNNING') {
+      const pausedState = await this.transitionRun(state, 'pause', SYSTEM_ACTOR, {
+        breakpoint: nodes.map((node) => node.id),
+      });
+      state.status = pausedState.status;
+      await this.workflowRunRepo.updateStatus(state.runId, 'PAUSED');
+    }
+    state.lastUpdatedAt = new Date();
+    await this.stateManager.setWorkflowState(state);
+
+    console.log(
+      `Debug run ${state.runId} paused before:`,
+      nodes.map((node) => node.name)
+    );
+  }
+
+  /**
+   * Start a single node, running engine-handled node types in the engine and
+   * dispatching the rest to their executor
+   */
+  private async startNode(
+    state: WorkflowState,
+    node: WorkflowNode,
+    input: Record<string, any>,
+    context: ExecutionContext,
+    attempt: number
+  ): Promise<void> {
+    await this.recordNodeRun(
+      {
+        nodeId: node.id,
+        runId: state.runId,
+        status: 'RUNNING',
+        attempt,
+        input,
+        startedAt: new Date(),
+      },
+      'RUNNING'
+    );
+    // Executor nodes are logged when the dispatcher sends them
+    if (ENGINE_NODE_TYPES.includes(node.type)) {
+      await this.runEventLog.record(state.runId, {
+        type: 'node.status_changed',
+        nodeId: node.id,
+        attempt,
+        toStatus: 'RUNNING',
+        data: { trigger: 'start', nodeType: node.type },
+      });
+    }
+
+    switch (node.type) {
+      case 'delay':
+        return this.startDelayTimer(state, node, input, context, attempt);
+      case 'workflow.invoke':
+        return this.startSubWorkflow(state, node, input, context, attempt);
+      case 'approval':
+        return this.startApproval(state, node, input, context, attempt);
+      case 'wait_for_event':
+        return this.startSignalWait(state, node, input, context, attempt);
+      case 'foreach':
+        return this.startForeach(state, node, input, context, attempt);
+      default:
+        await this.nodeDispatcher.dispatchNode(state.runId, node, input, context, attempt);
+    }
+  }
+
+  /**
+   * Look up a workflow node, including the synthetic nodes of foreach iterations
+   */
+  private resolveNode(parsedWorkflow: ParsedWorkflow, nodeId: UUID): WorkflowNode | undefined {
+    const iteration = parseIterationNodeId(nodeId);
+    if (!iteration) {
+      return parsedWorkflow.nodeMap.get(nodeId);
+    }
+
+    const foreachNode = parsedWorkflow.nodeMap.get(iteration.nodeId);
+    return foreachNode?.type === 'foreach'
+      ? this.foreachCoordinator.buildIterationNode(foreachNode, iteration.index)
+      : undefined;
+  }
+
+  /**
+   * Start fanning a foreach node out over its items
+   */
+  private async startForeach(
+    state: WorkflowState,
+    node: WorkflowNode,
+    input: Record<string, any>,
+    _context: ExecutionContext,
+    attempt: number
+  ): Promise<void> {
+    try {
+      const params = this.foreachCoordinator.resolveParams(input);
+      await this.stateManager.setNodeState({
+        nodeId: node.id,
+        runId: state.runId,
+        status: 'RUNNING',
+        attempt,
+        input,
+        startedAt: new Date(),
+      });
+
+      const progress = await this.foreachCoordinator.startProgress(state.runId, node.id, params);
+      state.foreachRuns = { ...state.foreachRuns, [node.id]: progress };
+
+      console.log(`Foreach started:`, {
+        runId: state.runId,
+        nodeId: node.id,
+        items: params.items.length,
+        alreadyCompleted: params.items.length - progress.queued.length,
+      });
+
+      await this.advanceForeach(state, node.id);
+    } catch (error) {
+      console.error(`Failed to start foreach node ${node.id} in ${state.runId}:`, error);
+      await this.handleNodeFailure(
+        state.runId,
+        node.id,
+        {
+          code: 'FOREACH_START_FAILED',
+          message: error instanceof Error ? error.message : String(error),
+        },
+        attempt
+      );
+    }
+  }
+
+  /**
+   * Start queued iterations up to the parallelism limit, or settle the foreach
+   * node once every iteration has finished
+   */
+  private async advanceForeach(state: WorkflowState, nodeId: UUID): Promise<void> {
+    const progress = state.foreachRuns![nodeId];
+    if (this.foreachCoordinator.isFinished(progress)) {
+      await this.finishForeach(state, nodeId, progress);
+      return;
+    }
+
+    const batch = this.foreachCoordinator.takeNextBatch(progress);
+    state.lastUpdatedAt = new Date();
+    await this.stateManager.setWorkflowState(state);
+    if (batch.length === 0) {
+      return;
+    }
+
+    const parsedWorkflow = await this.loadRunWorkflow(state);
+    const foreachNode = parsedWorkflow.nodeMap.get(nodeId)!;
+    const context = this.restoreExecutionContext(state);
+
+    const unresolvedNodes = new Map<UUID, any>();
+    for (const index of batch) {
+      const node = this.foreachCoordinator.buildIterationNode(foreachNode, index);
+      const iterationContext = this.foreachCoordinator.buildIterationContext(
+        context,
+        progress,
+        index
+      );
+
+      let input: Record<string, any>;
+      try {
+        input = this.nodeEvaluator.prepareNodeInput(
+          parsedWorkflow,
+          node,
+          iterationContext,
+          state.nodeOutputs
+        );
+      } catch (error) {
+        unresolvedNodes.set(node.id, error);
+        continue;
+      }
+
+      await this.startNode(state, node, input, iterationContext, 1);
+    }
+
+    // Failures re-read the run state, so they are handled once the batch has started
+    for (const [iterationId, error] of unresolvedNodes) {
+      await this.handleNodeFailure(
+        state.runId,
+        iterationId,
+        {
+          code: 'INPUT_RESOLUTION_FAILED',
+          message: error instanceof Error ? error.message : String(error),
+        },
+        1
+      );
+    }
+  }
+
+  /**
+   * Record the final outcome of an iteration and move its foreach node along
+   */
+  private async handleIterationOutcome(
+    runId: UUID,
+    ref: IterationRef,
+    outcome: { output?: Record<string, any>; error?: any }
+  ): Promise<void> {
+    const nodeId = iterationNodeId(ref.nodeId, ref.index);
+    const state = await this.getWorkflowState(runId);
+    const progress = state?.foreachRuns?.[ref.nodeId];
+    if (!state || !progress) {
+      console.warn(`No running foreach node for iteration result: ${runId}:${nodeId}`);
+      return;
+    }
+
+    await this.stateManager.removeNodeTimeout(runId, nodeId);
+    if (!this.foreachCoordinator.recordOutcome(progress, ref.index, outcome)) {
+      return;
+    }
+
+    const iterationState = await this.stateManager.getNodeState(runId, nodeId);
+    await this.foreachCoordinator.recordIterationRun(runId, ref, iterationState?.attempt || 1, {
+      ...outcome,
+      input: iterationState?.input,
+    });
+
+    // Fail fast: stop the iterations still in flight
+    if (this.foreachCoordinator.hasFailed(progress)) {
+      for (const index of progress.running) {
+        const runningNodeId = iterationNodeId(ref.nodeId, index);
+        await this.stateManager.removeNodeTimeout(runId, runningNodeId);
+        await this.nodeDispatcher.cancelNode(runId, runningNodeId);
+      }
+      progress.running = [];
+    }
+
+    await this.advanceForeach(state, ref.nodeId);
+  }
+
+  /**
+   * Complete a foreach node with its aggregated outputs, or fail it
+   */
+  private async finishForeach(
+    state: WorkflowState,
+    nodeId: UUID,
+    progress: ForeachProgress
+  ): Promise<void> {
+    delete state.foreachRuns![nodeId];
+    state.lastUpdatedAt = new Date();
+    await this.stateManager.setWorkflowState(state);
+
+    const output = this.foreachCoordinator.buildOutput(progress);
+    const nodeState = await this.stateManager.getNodeState(state.runId, nodeId);
+    const isRunning = nodeState?.status === 'RUNNING';
+
+    if (this.foreachCoordinator.hasFailed(progress)) {
+      const error = {
+        code: 'FOREACH_ITERATION_FAILED',
+        message: `${output.failed} of ${output.total} iterations failed`,
+        details: { errors: output.errors },
+        timestamp: new Date(),
+      };
+      if (isRunning) {
+        const failedState = await this.transitionNode(nodeState!, 'fail');
+        await this.stateManager.setNodeState({ ...failedState, errorDetails: error });
+      }
+      await this.handleNodeFailure(state.runId, nodeId, error, nodeState?.attempt || 1);
+      return;
+    }
+
+    if (isRunning) {
+      const completedState = await this.transitionNode(nodeState!, 'complete');
+      await this.stateManager.setNodeState({ ...completedState, output });
+    }
+    await this.handleNodeCompletion(state.runId, nodeId, output);
+  }
+
+  /**
+   * Whether a node is still part of the run; iterations stop counting once their
+   * foreach node settles or fails fast
+   */
+  private isNodeActive(state: WorkflowState, nodeId: UUID): boolean {
+    const iteration = parseIterationNodeId(nodeId);
+    if (!iteration) {
+      return true;
+    }
+    return !!state.foreachRuns?.[iteration.nodeId]?.running.includes(iteration.index);
+  }
+
+  /**
+   * Restore the execution context a node runs with; iterations also see their item
+   */
+  private restoreNodeContext(state: WorkflowState, nodeId: UUID): ExecutionContext {
+    const context = this.restoreExecutionContext(state);
+    const iteration = parseIterationNodeId(nodeId);
+    const progress = iteration ? state.foreachRuns?.[iteration.nodeId] : undefined;
+
+    return progress
+      ? this.foreachCoordinator.buildIterationContext(context, progress, iteration!.index)
+      : context;
+  }
+
+  /**
+   * Start the durable timer for a delay node, failing the node if it cannot be scheduled
+   */
+  private async startDelayTimer(
+    state: WorkflowState,
+    node: WorkflowNode,
+    input: Record<string, any>,
+    context: ExecutionContext,
+    attempt: number
+  ): Promise<void> {
+    try {
+      const fireAt = await this.timerService.startTimer(state.runId, node, input, context, attempt);
+
+      state.pendingTimers = { ...state.pendingTimers, [node.id]: fireAt.toISOString() };
+      state.lastUpdatedAt = new Date();
+      await this.stateManager.setWorkflowState(state);
+    } catch (error) {
+      console.error(`Failed to schedule delay node ${node.id} for workflow ${state.runId}:`, error);
+      await this.handleNodeFailure(state.runId, node.id, error, attempt);
+    }
+  }
+
+  /**
+   * Request approval for an approval node, failing the node if the request is invalid
+   */
+  private async startApproval(
+    state: WorkflowState,
+    node: WorkflowNode,
+    input: Record<string, any>,
+    context: ExecutionContext,
+    attempt: number
+  ): Promise<void> {
+    try {
+      const pending = await this.approvalService.requestApproval(
+        state.runId,
+        node,
+        input,
+        context,
+        attempt
+      );
+
+      state.pendingApprovals = { ...state.pendingApprovals, [node.id]: pending };
+      state.lastUpdatedAt = new Date();
+      await this.stateManager.setWorkflowState(state);
+    } catch (error) {
+      console.error(`Failed to request approval for node ${node.id} in ${state.runId}:`, error);
+      await this.handleNodeFailure(
+        state.runId,
+        node.id,
+        {
+          code: 'APPROVAL_REQUEST_FAILED',
+          message: error instanceof Error ? error.message : String(error),
+        },
+        attempt
+      );
+    }
+  }
+
+  /**
+   * Complete a waiting approval node with its decision
+   */
+  private async completeApproval(
+    runId: UUID,
+    nodeState: NodeState,
+    output: Record<string, any>,
+    actor?: RunEventActor
+  ): Promise<void> {
+    await this.approvalService.clearDeadline(runId, nodeState.nodeId);
+
+    const completedState = await this.transitionNode(nodeState, 'complete', actor);
+    await this.stateManager.setNodeState({ ...completedState, output, wakeAt: undefined });
+    await this.handleNodeCompletion(runId, nodeState.nodeId, output);
+  }
+
+  /**
+   * Park a wait_for_event node until its signal arrives, taking a signal that
+   * arrived before the run reached the node
+   */
+  private async startSignalWait(
+    state: WorkflowState,
+    node: WorkflowNode,
+    input: Record<string, any>,
+    context: ExecutionContext,
+    attempt: number
+  ): Promise<void> {
+    try {
+      const pending = await this.signalService.startWaiting(
+        state.runId,
+        node,
+        input,
+        context,
+        attempt
+      );
+
+      state.pendingSignals = { ...state.pendingSignals, [node.id]: pending };
+      state.lastUpdatedAt = new Date();
+      await this.stateManager.setWorkflowState(state);
+
+      // Listen only once the run records the wait; signals arriving before that are
+      // buffered and picked up here
+      await this.signalService.listen(state.runId, node.id, state.organizationId, pending);
+      const buffered = await this.signalService.takeBufferedSignal(state.organizationId, pending);
+      if (buffered) {
+        await this.deliverSignal(state.runId, node.id, buffered);
+      }
+    } catch (error) {
+      console.error(`Failed to wait for signal on node ${node.id} in ${state.runId}:`, error);
+      await this.handleNodeFailure(
+        state.runId,
+        node.id,
+        {
+          code: 'SIGNAL_WAIT_FAILED',
+          message: error instanceof Error ? error.message : String(error),
+        },
+        attempt
+      );
+    }
+  }
+
+  /**
+   * Complete a waiting wait_for_event node with a signal that passes its filters.
+   * Nodes that no longer wait, e.g. because their run was cancelled, stop listening.
+   */
+  private async deliverSignal(runId: UUID, nodeId: UUID, signal: WorkflowSignal): Promise<boolean> {
+    const state = await this.getWorkflowState(runId);
+    const pending = state?.pendingSignals?.[nodeId];
+    const nodeState = await this.stateManager.getNodeState(runId, nodeId);
+    if (
+      !state ||
+      !pending ||
+      !nodeState ||
+      nodeState.status !== 'RUNNING' ||
+      !['RUNNING', 'PAUSED'].includes(state.status)
+    ) {
+      await this.signalService.stopWaiting(runId, nodeId, signal.organizationId, {
+        signal: signal.name,
+        correlationKey: signal.correlationKey,
+      });
+      return false;
+    }
+
+    if (!this.signalService.matches(pending, signal)) {
+      return false;
+    }
+
+    await this.completeSignalWait(
+      state,
+      nodeState,
+      pending,
+      this.signalService.buildSignalOutput(signal),
+      { type: 'event', id: signal.name }
+    );
+    return true;
+  }
+
+  /**
+   * Complete a waiting wait_for_event node with its signal or timeout outcome
+   */
+  private async completeSignalWait(
+    state: WorkflowState,
+    nodeState: NodeState,
+    pending: PendingSignal,
+    output: Record<string, any>,
+    actor?: RunEventActor
+  ): Promise<void> {
+    await this.signalService.stopWaiting(
+      state.runId,
+      nodeState.nodeId,
+      state.organizationId,
+      pending
+    );
 
-    // Get entry nodes from parsed workflow
-    const entryNodes = parsedWorkflow.entryNodes;
+    const completedState = await this.transitionNode(nodeState, 'complete', actor);
+    await this.stateManager.setNodeState({ ...completedState, output, wakeAt: undefined });
+    await this.handleNodeCompletion(state.runId, nodeState.nodeId, output);
+  }
 
-    if (entryNodes.length === 0) {
-      throw new Error('No entry nodes found in workflow');
+  /**
+   * Settle a wait_for_event node whose deadline passed: it follows its 'timeout'
+   * edge if it has one, and fails otherwise
+   */
+  private async handleSignalTimeout(timer: FiredTimer, state: WorkflowState): Promise<void> {
+    const pending = state.pendingSignals![timer.nodeId];
+    const parsedWorkflow = await this.loadRunWorkflow(state);
+    const hasTimeoutEdge = (parsedWorkflow.edgeMap.get(timer.nodeId) || []).some(
+      (edge) => edge.label?.trim().toLowerCase() === 'timeout'
+    );
+
+    if (hasTimeoutEdge) {
+      await this.completeSignalWait(
+        state,
+        timer.nodeState,
+        pending,
+        this.signalService.buildTimeoutOutput(pending)
+      );
+      return;
     }
 
-    // Dispatch entry nodes
-    await this.dispatchEligibleNodes(parsedWorkflow, runningState, context, entryNodes);
+    await this.signalService.stopWaiting(timer.runId, timer.nodeId, state.organizationId, pending);
+    const failedState = await this.transitionNode(timer.nodeState, 'timeout');
+    const error = {
+      code: 'SIGNAL_TIMEOUT',
+      message: `No ${pending.signal} signal arrived for ${pending.correlationKey} in time`,
+      timestamp: new Date(),
+    };
+    await this.stateManager.setNodeState({ ...failedState, errorDetails: error });
+    await this.handleNodeFailure(timer.runId, timer.nodeId, error, timer.nodeState.attempt);
   }
 
   /**
-   * Continue workflow execution after node completion
+   * Escalate an approval whose deadline passed, or settle it once escalation is exhausted
    */
-  private async continueWorkflowExecution(
-    parsedWorkflow: ParsedWorkflow,
-    state: WorkflowState,
-    context: ExecutionContext
-  ): Promise<void> {
-    if (state.status !== 'RUNNING') {
+  private async handleApprovalExpiry(timer: FiredTimer, state: WorkflowState): Promise<void> {
+    const pending = state.pendingApprovals![timer.nodeId];
+    const parsedWorkflow = await this.loadRunWorkflow(state);
+    const node = this.resolveNode(parsedWorkflow, timer.nodeId);
+    if (!node) {
+      await this.approvalService.clearDeadline(timer.runId, timer.nodeId);
       return;
     }
 
-    // Find next eligible nodes using parsed workflow
-    const eligibleNodes = WorkflowParser.getEligibleNodes(
-      parsedWorkflow,
-      state.completedNodes,
-      state.failedNodes,
-      state.currentNodes
+    const context = this.restoreNodeContext(state, timer.nodeId);
+    const escalated = await this.approvalService.escalate(
+      timer.runId,
+      node,
+      state.employeeId,
+      pending,
+      context
     );
 
-    if (eligibleNodes.length > 0) {
-      await this.dispatchEligibleNodes(parsedWorkflow, state, context, eligibleNodes);
-    } else if (state.currentNodes.size === 0) {
-      // No more nodes to execute, check if workflow is complete
-      await this.checkWorkflowCompletion(parsedWorkflow, state);
+    if (escalated) {
+      state.pendingApprovals = { ...state.pendingApprovals, [node.id]: escalated };
+      state.lastUpdatedAt = new Date();
+      await this.stateManager.setWorkflowState(state);
+      return;
+    }
+
+    if (node.params.escalation?.onExhausted === 'fail') {
+      await this.approvalService.clearDeadline(timer.runId, timer.nodeId);
+      const failedState = await this.transitionNode(timer.nodeState, 'timeout');
+      const error = {
+        code: 'APPROVAL_EXPIRED',
+        message: `Approval for node ${node.name} expired without a decision`,
+        timestamp: new Date(),
+      };
+      await this.stateManager.setNodeState({ ...failedState, errorDetails: error });
+      await this.handleNodeFailure(timer.runId, node.id, error, timer.nodeState.attempt);
+      return;
     }
+
+    await this.completeApproval(
+      timer.runId,
+      timer.nodeState,
+      this.approvalService.buildExpiredOutput(pending)
+    );
   }
 
   /**
-   * Dispatch eligible nodes for execution
+   * Start the child run of a workflow.invoke node. Async invocations complete
+   * immediately; sync invocations complete when the child run finishes.
    */
-  private async dispatchEligibleNodes(
-    parsedWorkflow: ParsedWorkflow,
+  private async startSubWorkflow(
     state: WorkflowState,
+    node: WorkflowNode,
+    input: Record<string, any>,
     context: ExecutionContext,
-    nodes: WorkflowNode[]
+    attempt: number
   ): Promise<void> {
-    const nodeInputs = new Map<UUID, Record<string, any>>();
+    try {
+      const params = this.subWorkflowInvoker.resolveParams(input);
+      const childContext = this.subWorkflowInvoker.buildChildContext(
+        context,
+        state.runId,
+        node.id,
+        params
+      );
 
-    // Prepare input for each node
-    for (const node of nodes) {
-      const input = this.prepareNodeInput(node, context, state);
-      nodeInputs.set(node.id, input);
+      const nodeState: NodeState = {
+        nodeId: node.id,
+        runId: state.runId,
+        status: 'RUNNING',
+        attempt,
+        input,
+        startedAt: new Date(),
+      };
+      await this.stateManager.setNodeState(nodeState);
+
+      const childRun = await this.executeWorkflow(params.workflowId, childContext, {
+        runId: state.runId,
+        nodeId: node.id,
+        mode: params.mode || 'sync',
+      });
+
+      console.log(`Sub-workflow started:`, {
+        runId: state.runId,
+        nodeId: node.id,
+        childRunId: childRun.id,
+        mode: params.mode,
+      });
+
+      if (params.mode === 'async') {
+        const output = {
+          childRunId: childRun.id,
+          workflowId: params.workflowId,
+          status: 'STARTED',
+        };
+        const completedState = await this.transitionNode(nodeState, 'complete');
+        await this.stateManager.setNodeState({ ...completedState, output });
+        await this.handleNodeCompletion(state.runId, node.id, output);
+        return;
+      }
 
-      // Add to current nodes
-      state.currentNodes.add(node.id);
+      // A short child run may already have finished and reported back
+      if (state.currentNodes.has(node.id)) {
+        state.childRuns = { ...state.childRuns, [node.id]: childRun.id };
+        state.lastUpdatedAt = new Date();
+        await this.stateManager.setWorkflowState(state);
+      }
+    } catch (error) {
+      console.error(`Failed to start sub-workflow for node ${node.id} in ${state.runId}:`, error);
+      await this.handleNodeFailure(
+        state.runId,
+        node.id,
+        {
+          code: 'SUB_WORKFLOW_START_FAILED',
+          message: error instanceof Error ? error.message : String(error),
+        },
+        attempt
+      );
     }
-
-    // Update state
-    state.lastUpdatedAt = new Date();
-    await this.stateManager.setWorkflowState(state);
-
-    // Dispatch nodes
-    await this.nodeDispatcher.dispatchNodes(state.runId, nodes, nodeInputs, context);
   }
 
   /**
-   * Prepare input for node execution
+   * Report a finished child run to the synchronous workflow.invoke node waiting on it
    */
-  private prepareNodeInput(
-    node: WorkflowNode,
-    context: ExecutionContext,
-    state: WorkflowState
-  ): Record<string, any> {
-    // This is a simplified implementation
-    // In practice, you'd resolve parameter mappings from the node configuration
-    return {
-      ...node.params,
-      context: context.variables,
-      organizationId: context.organizationId,
-      employeeId: context.employeeId,
-    };
+  private async notifyParentRun(childState: WorkflowState): Promise<void> {
+    const { parentRunId, parentNodeId } = childState;
+    if (!parentRunId || !parentNodeId || childState.invocationMode !== 'sync') {
+      return;
+    }
+
+    try {
+      const parentState = await this.getWorkflowState(parentRunId);
+      const parentNodeState = await this.stateManager.getNodeState(parentRunId, parentNodeId);
+      if (
+        !parentState ||
+        !['RUNNING', 'PAUSED'].includes(parentState.status) ||
+        !parentNodeState ||
+        parentNodeState.status !== 'RUNNING'
+      ) {
+        return;
+      }
+
+      // Ignore runs the parent no longer waits on, e.g. superseded by a retry
+      const awaitedRunId = parentState.childRuns?.[parentNodeId];
+      if (awaitedRunId && awaitedRunId !== childState.runId) {
+        return;
+      }
+
+      if (childState.status === 'COMPLETED') {
+        let output: Record<string, any>;
+        try {
+          const parentWorkflow = await this.loadRunWorkflow(parentState);
+          const childWorkflow = await this.loadRunWorkflow(childState);
+          output = this.subWorkflowInvoker.buildOutput(
+            childState,
+            childWorkflow,
+            this.resolveNode(parentWorkflow, parentNodeId)?.params.outputMapping
+          );
+        } catch (error) {
+          await this.handleNodeFailure(
+            parentRunId,
+            parentNodeId,
+            {
+              code: 'SUB_WORKFLOW_OUTPUT_FAILED',
+              message: error instanceof Error ? error.message : String(error),
+              details: { childRunId: childState.runId },
+            },
+            parentNodeState.attempt
+          );
+          return;
+        }
+
+        const completedState = await this.transitionNode(parentNodeState, 'complete');
+        await this.stateManager.setNodeState({ ...completedState, output });
+        await this.handleNodeCompletion(parentRunId, parentNodeId, output);
+        return;
+      }
+
+      const childError = {
+        code: 'SUB_WORKFLOW_FAILED',
+        message: `Sub-workflow run ${childState.runId} ended with status ${childState.status}`,
+        details: { childRunId: childState.runId, childError: childState.errorDetails },
+        timestamp: new Date(),
+      };
+      const failedState = await this.transitionNode(parentNodeState, 'fail');
+      await this.stateManager.setNodeState({ ...failedState, errorDetails: childError });
+      await this.handleNodeFailure(parentRunId, parentNodeId, childError, parentNodeState.attempt);
+    } catch (error) {
+      console.error(`Failed to notify parent run ${parentRunId} of ${childState.runId}:`, error);
+    }
   }
 
   /**
@@ -443,7 +2335,7 @@ export class WorkflowOrchestrator {
     );
 
     if (completionStatus.isComplete) {
-      const completedState = this.stateMachine.transitionWorkflow(
+      const completedState = await this.transitionRun(
         state,
         completionStatus.status === 'COMPLETED' ? 'complete' : 'fail'
       );
@@ -452,12 +2344,83 @@ export class WorkflowOrchestrator {
       await this.workflowRunRepo.updateStatus(state.runId, completionStatus.status);
 
       // Clean up state
-      await this.cleanupWorkflowState(state.runId);
+      await this.finishRun(completedState);
 
       console.log(`Workflow ${completionStatus.status.toLowerCase()}: ${state.runId}`);
     }
   }
 
+  /**
+   * Transition a run and record the status change in its event log
+   */
+  private async transitionRun(
+    state: WorkflowState,
+    trigger: WorkflowTransition['trigger'],
+    actor?: RunEventActor,
+    data: Record<string, any> = {}
+  ): Promise<WorkflowState> {
+    const nextState = this.stateMachine.transitionWorkflow(state, trigger);
+    await this.runEventLog.record(state.runId, {
+      type: 'run.status_changed',
+      fromStatus: state.status,
+      toStatus: nextState.status,
+      actor,
+      data: { trigger, ...data },
+    });
+    return nextState;
+  }
+
+  /**
+   * Transition a node attempt and record the status change in its run's event log
+   */
+  private async transitionNode(
+    nodeState: NodeState,
+    trigger: NodeTransition['trigger'],
+    actor?: RunEventActor
+  ): Promise<NodeState> {
+    const nextState = this.nodeStateMachine.transitionNode(nodeState, trigger);
+    await this.runEventLog.record(nodeState.runId, {
+      type: 'node.status_changed',
+      nodeId: nodeState.nodeId,
+      attempt: nodeState.attempt,
+      fromStatus: nodeState.status,
+      toStatus: nextState.status,
+      actor,
+      data: { trigger },
+    });
+    return nextState;
+  }
+
+  /**
+   * Rebuild the execution context from persisted workflow state
+   */
+  private restoreExecutionContext(state: WorkflowState): ExecutionContext {
+    return this.contextManager.deserializeContext(
+      JSON.stringify({
+        organizationId: state.organizationId,
+        employeeId: state.employeeId,
+        triggerEvent: state.context['system.triggerEvent'],
+        variables: state.context,
+        correlationId: state.context.correlationId,
+      })
+    );
+  }
+
+  /**
+   * Load the workflow version a run executes. Runs from before version pinning
+   * follow the active version.
+   */
+  private async loadRunWorkflow(
+    run: Pick<WorkflowState, 'workflowId' | 'workflowVersion'>
+  ): Promise<ParsedWorkflow> {
+    return run.workflowVersion
+      ? this.workflowLoader.loadWorkflow(run.workflowId, {
+          version: run.workflowVersion,
+          includeInactive: true,
+        })
+      : this.workflowLoader.loadWorkflow(run.workflowId);
+  }
+
   /**
    * Get workflow state (from cache or Redis)
    */
@@ -499,7 +2462,51 @@ export class WorkflowOrchestrator {
 
     for (const nodeState of activeNodes) {
       await this.nodeDispatcher.cancelNode(runId, nodeState.nodeId);
+
+      if (nodeState.wakeAt) {
+        await this.timerService.cancelTimer(runId, nodeState.nodeId);
+      }
+    }
+
+    await this.cancelChildRuns(runId);
+  }
+
+  /**
+   * Cancel active child runs so cancellation cascades down the run tree
+   */
+  private async cancelChildRuns(runId: UUID): Promise<void> {
+    const childRuns = await this.workflowRunRepo.findChildRuns(runId);
+    const activeChildRuns = childRuns.filter((run) =>
+      ['PENDING', 'RUNNING', 'PAUSED'].includes(run.status)
+    );
+
+    for (const childRun of activeChildRuns) {
+      try {
+        await this.cancelWorkflow(childRun.run_id);
+      } catch (error) {
+        console.error(`Failed to cancel child run ${childRun.run_id} of ${runId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Release a run that reached a final status and hand over to the runs waiting on it
+   */
+  private async finishRun(state: WorkflowState): Promise<void> {
+    // SLAs of runs that failed or timed out stay open until their deadline passes
+    if (state.status === 'COMPLETED' || state.status === 'CANCELLED') {
+      if (state.status === 'COMPLETED') {
+        await this.slaTracker.finish(state, RUN_SLA_KEY);
+      } else {
+        await this.slaTracker.cancel(state);
+      }
+      await this.stateManager.setWorkflowState(state);
     }
+
+    await this.cleanupWorkflowState(state.runId);
+    await this.notifyParentRun(state);
+    await this.tenantScheduler.releaseRunSlot(state.organizationId, state.runId);
+    await this.startQueuedRun(state);
   }
 
   /**
@@ -507,6 +2514,7 @@ export class WorkflowOrchestrator {
    */
   private async cleanupWorkflowState(runId: UUID): Promise<void> {
     this.activeWorkflows.delete(runId);
+    await this.stateManager.removeWorkflowTimeout(runId);
     await this.stateManager.releaseLock(runId, this.config.instanceId);
 
     // Optionally delete state from Redis after some time
@@ -542,20 +2550,20 @@ export class WorkflowOrchestrator {
       }
 
       // Mark workflow as failed
-      const failedState = this.stateMachine.transitionWorkflow(state, 'fail');
+      const failedState = await this.transitionRun(state, 'fail');
       await this.stateManager.setWorkflowState(failedState);
       await this.workflowRunRepo.updateStatus(state.runId, 'FAILED');
 
-      await this.cleanupWorkflowState(state.runId);
+      await this.finishRun(failedState);
     } catch (compensationError) {
       console.error(`Compensation failed for workflow ${state.runId}:`, compensationError);
 
       // Still mark workflow as failed even if compensation fails
-      const failedState = this.stateMachine.transitionWorkflow(state, 'fail');
+      const failedState = await this.transitionRun(state, 'fail');
       await this.stateManager.setWorkflowState(failedState);
       await this.workflowRunRepo.updateStatus(state.runId, 'FAILED');
 
-      await this.cleanupWorkflowState(state.runId);
+      await this.finishRun(failedState);
     }
   }
 
@@ -568,12 +2576,8 @@ export class WorkflowOrchestrator {
   ): Promise<void> {
     if (state.currentNodes.size === 0) {
       // No more nodes running, check if workflow can continue
-      const eligibleNodes = WorkflowParser.getEligibleNodes(
-        parsedWorkflow,
-        state.completedNodes,
-        state.failedNodes,
-        state.currentNodes
-      );
+      const context = this.restoreExecutionContext(state);
+      const eligibleNodes = await this.resolveNextNodes(parsedWorkflow, state, context);
 
       if (eligibleNodes.length === 0) {
         // No more nodes to execute, workflow failed
@@ -584,7 +2588,6 @@ export class WorkflowOrchestrator {
         );
       } else {
         // Continue with remaining nodes
-        const context = this.contextManager.deserializeContext(JSON.stringify(state.context));
         await this.dispatchEligibleNodes(parsedWorkflow, state, context, eligibleNodes);
       }
     }
@@ -607,24 +2610,19 @@ export class WorkflowOrchestrator {
             const workflowState = await this.getWorkflowState(runId);
             if (workflowState) {
               try {
-                const parsedWorkflow = await this.workflowLoader.loadWorkflow(
-                  workflowState.workflowId
-                );
-                const node = parsedWorkflow.nodeMap.get(nodeId);
-
-                if (node) {
-                  const context = this.contextManager.deserializeContext(
-                    JSON.stringify(workflowState.context)
-                  );
+                const parsedWorkflow = await this.loadRunWorkflow(workflowState);
+                const node = this.resolveNode(parsedWorkflow, nodeId);
 
-                  const input = this.prepareNodeInput(node, context, workflowState);
-                  await this.nodeDispatcher.dispatchNode(
-                    runId,
+                if (node && this.isNodeActive(workflowState, nodeId)) {
+                  const context = this.restoreNodeContext(workflowState, nodeId);
+
+                  const input = this.nodeEvaluator.prepareNodeInput(
+                    parsedWorkflow,
                     node,
-                    input,
                     context,
-                    nodeState.attempt
+                    workflowState.nodeOutputs
                   );
+                  await this.startNode(workflowState, node, input, context, nodeState.attempt);
                 }
               } catch (error) {
                 console.error(`Failed to retry node ${nodeId} for workflow ${runId}:`, error);
@@ -646,6 +2644,64 @@ export class WorkflowOrchestrator {
     processRetries();
   }
 
+  /**
+   * Start timer processor (background task) that fires due delay nodes and the deadlines
+   * of approvals and signal waits
+   */
+  private startTimerProcessor(): void {
+    const processTimers = async () => {
+      if (!this.isRunning) return;
+
+      try {
+        const firedTimers = await this.timerService.claimDueTimers(this.config.instanceId, 50);
+
+        for (const timer of firedTimers) {
+          try {
+            const workflowState = await this.getWorkflowState(timer.runId);
+            if (!workflowState || workflowState.completedNodes.has(timer.nodeId)) {
+              await this.timerService.cancelTimer(timer.runId, timer.nodeId);
+              continue;
+            }
+
+            if (workflowState.pendingApprovals?.[timer.nodeId]) {
+              await this.handleApprovalExpiry(timer, workflowState);
+              continue;
+            }
+
+            if (workflowState.pendingSignals?.[timer.nodeId]) {
+              await this.handleSignalTimeout(timer, workflowState);
+              continue;
+            }
+
+            const output = this.timerService.buildTimerOutput(timer);
+            await this.runEventLog.record(timer.runId, {
+              type: 'node.status_changed',
+              nodeId: timer.nodeId,
+              attempt: timer.nodeState.attempt,
+              fromStatus: timer.nodeState.status,
+              toStatus: 'COMPLETED',
+              data: { trigger: 'complete' },
+            });
+            await this.handleNodeCompletion(timer.runId, timer.nodeId, output);
+            await this.timerService.completeTimer(timer, output);
+          } catch (error) {
+            console.error(
+              `Failed to fire timer for node ${timer.nodeId} in workflow ${timer.runId}:`,
+              error
+            );
+          }
+        }
+      } catch (error) {
+        console.error('Error processing timers:', error);
+      }
+
+      // Schedule next run
+      setTimeout(processTimers, 1000); // Check every second
+    };
+
+    processTimers();
+  }
+
   /**
    * Start timeout monitor (background task)
    */
@@ -654,20 +2710,271 @@ export class WorkflowOrchestrator {
       if (!this.isRunning) return;
 
       try {
-        // Check for timed out workflows and nodes
-        // This is a simplified implementation
-        console.log('Checking for timeouts...');
+        const timedOutNodes = await this.stateManager.getTimedOutNodes(50);
+        for (const { runId, nodeId } of timedOutNodes) {
+          const claimed = await this.stateManager.claimTimeoutCheck(
+            `node:${runId}:${nodeId}`,
+            this.config.instanceId
+          );
+          if (claimed) {
+            await this.handleNodeTimeout(runId, nodeId);
+          }
+        }
+
+        const timedOutRuns = await this.stateManager.getTimedOutWorkflows(50);
+        for (const runId of timedOutRuns) {
+          const claimed = await this.stateManager.claimTimeoutCheck(
+            `workflow:${runId}`,
+            this.config.instanceId
+          );
+          if (claimed) {
+            await this.handleWorkflowTimeout(runId);
+          }
+        }
+
+        const slaCheckpoints = await this.stateManager.getDueSlaCheckpoints(50);
+        for (const { slaId, checkpoint } of slaCheckpoints) {
+          const claimed = await this.stateManager.claimTimeoutCheck(
+            `sla:${slaId}:${checkpoint}`,
+            this.config.instanceId
+          );
+          if (claimed) {
+            await this.slaTracker.handleCheckpoint(slaId, checkpoint as SlaCheckpoint);
+          }
+        }
       } catch (error) {
         console.error('Error checking timeouts:', error);
       }
 
       // Schedule next run
-      setTimeout(checkTimeouts, 30000); // Check every 30 seconds
+      setTimeout(checkTimeouts, 5000); // Check every 5 seconds
     };
 
     checkTimeouts();
   }
 
+  /**
+   * Start heartbeat (background task) that keeps this instance registered and
+   * the locks of its runs from expiring
+   */
+  private async startHeartbeat(): Promise<void> {
+    const { heartbeatIntervalMs } = this.reconciliationConfig;
+    const ttlSeconds = Math.ceil((heartbeatIntervalMs * 3) / 1000);
+
+    const sendHeartbeat = async () => {
+      if (!this.isRunning) return;
+
+      try {
+        await this.runReconciler.heartbeat([...this.activeWorkflows.keys()], ttlSeconds);
+      } catch (error) {
+        console.error('Error sending heartbeat:', error);
+      }
+
+      // Schedule next run
+      setTimeout(sendHeartbeat, heartbeatIntervalMs);
+    };
+
+    await sendHeartbeat();
+  }
+
+  /**
+   * Start reconciliation processor (background task) that adopts runs of
+   * instances that stopped sending heartbeats
+   */
+  private startReconciliationProcessor(): void {
+    const reconcile = async () => {
+      if (!this.isRunning) return;
+
+      try {
+        await this.reconcileRuns();
+      } catch (error) {
+        console.error('Error reconciling runs:', error);
+      }
+
+      // Schedule next run
+      setTimeout(reconcile, this.reconciliationConfig.intervalMs);
+    };
+
+    setTimeout(reconcile, this.reconciliationConfig.intervalMs);
+  }
+
+  /**
+   * Time out a node that exceeded its deadline and hand it to error handling
+   */
+  private async handleNodeTimeout(runId: UUID, nodeId: UUID): Promise<void> {
+    try {
+      await this.stateManager.removeNodeTimeout(runId, nodeId);
+
+      const nodeState = await this.stateManager.getNodeState(runId, nodeId);
+      if (!nodeState || nodeState.status !== 'RUNNING') {
+        return;
+      }
+
+      const state = await this.getWorkflowState(runId);
+      if (!state) {
+        return;
+      }
+
+      const parsedWorkflow = await this.loadRunWorkflow(state);
+      const node = this.resolveNode(parsedWorkflow, nodeId);
+      if (!node) {
+        return;
+      }
+
+      const timeoutMs = node.timeoutMs || this.config.nodeExecutionTimeout;
+      const timeoutError = {
+        code: 'NODE_TIMEOUT',
+        message: `Node ${node.name} timed out after ${timeoutMs}ms`,
+        details: { timeoutMs, attempt: nodeState.attempt },
+        timestamp: new Date(),
+      };
+
+      const timedOutState = await this.transitionNode(nodeState, 'timeout');
+      await this.stateManager.setNodeState({ ...timedOutState, errorDetails: timeoutError });
+      await this.recordNodeRun(timedOutState, 'TIMEOUT', { error: timeoutError });
+
+      console.warn(`Node timed out: ${runId}:${nodeId} after ${timeoutMs}ms`);
+
+      // Retry or fail (with compensation) through the regular failure path
+      await this.handleNodeFailure(runId, nodeId, timeoutError, nodeState.attempt);
+    } catch (error) {
+      console.error(`Failed to handle timeout for node ${nodeId} in workflow ${runId}:`, error);
+      await this.logSystemError('workflow-orchestrator', error);
+    }
+  }
+
+  /**
+   * Record a node attempt in node_runs, keyed by the dispatch idempotency key.
+   * Crash recovery rebuilds lost run state from these rows.
+   */
+  private async recordNodeRun(
+    nodeState: NodeState,
+    status: NodeRunStatus,
+    outcome: { output?: Record<string, any>; error?: any } = {}
+  ): Promise<void> {
+    const idempotencyKey = `${nodeState.runId}:${nodeState.nodeId}:${nodeState.attempt}`;
+
+    try {
+      const existing = await this.nodeRunRepo.findByIdempotencyKey(idempotencyKey);
+
+      if (existing) {
+        await this.nodeRunRepo.updateStatus(
+          existing.node_run_id,
+          status,
+          outcome.output,
+          outcome.error
+        );
+      } else {
+        // Iterations are recorded against their foreach node
+        const iteration = parseIterationNodeId(nodeState.nodeId);
+        await this.nodeRunRepo.create({
+          node_run_id: uuidv4(),
+          run_id: nodeState.runId,
+          node_id: iteration ? iteration.nodeId : nodeState.nodeId,
+          iteration_index: iteration?.index,
+          attempt: nodeState.attempt,
+          status,
+          input: nodeState.input,
+          output: outcome.output,
+          error_details: outcome.error,
+          idempotency_key: idempotencyKey,
+          started_at: nodeState.startedAt,
+          ended_at: status === 'RUNNING' ? undefined : nodeState.endedAt || new Date(),
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to record node run ${idempotencyKey} as ${status}:`, error);
+    }
+  }
+
+  /**
+   * Time out a workflow run that exceeded its deadline, compensating completed work
+   */
+  private async handleWorkflowTimeout(runId: UUID): Promise<void> {
+    try {
+      await this.stateManager.removeWorkflowTimeout(runId);
+
+      const state = await this.getWorkflowState(runId);
+      if (!state) {
+        return;
+      }
+
+      // Paused runs keep their deadline and are re-checked later
+      if (state.status === 'PAUSED') {
+        await this.stateManager.scheduleWorkflowTimeout(runId, new Date(Date.now() + 60000));
+        return;
+      }
+
+      if (!this.stateMachine.canTransition(state.status, 'timeout', state)) {
+        return;
+      }
+
+      const parsedWorkflow = await this.loadRunWorkflow(state);
+      const explicitTimeout = parsedWorkflow.definition.definition.metadata?.timeout;
+      const pendingTimerTimes = [
+        ...Object.values(state.pendingTimers || {}),
+        ...Object.values(state.pendingApprovals || {}).map((approval) => approval.expiresAt),
+        ...Object.values(state.pendingSignals || {}).map((signal) => signal.expiresAt),
+      ].map((fireAt) => new Date(fireAt).getTime());
+
+      // Without an explicit workflow timeout, waiting on delay, approval and signal nodes does
+      // not count against the default execution budget
+      if (!explicitTimeout && pendingTimerTimes.length > 0) {
+        await this.stateManager.scheduleWorkflowTimeout(
+          runId,
+          new Date(Math.max(...pendingTimerTimes) + this.config.workflowExecutionTimeout)
+        );
+        return;
+      }
+
+      const timeoutMs = explicitTimeout || this.config.workflowExecutionTimeout;
+      const timeoutError = {
+        code: 'WORKFLOW_TIMEOUT',
+        message: `Workflow run timed out after ${timeoutMs}ms`,
+        details: { timeoutMs, runningNodes: Array.from(state.currentNodes) },
+        timestamp: new Date(),
+      };
+
+      const timedOutState = await this.transitionRun(state, 'timeout');
+      timedOutState.errorDetails = timeoutError;
+      await this.stateManager.setWorkflowState(timedOutState);
+      await this.workflowRunRepo.updateStatus(runId, 'TIMEOUT', timeoutError);
+
+      console.warn(`Workflow timed out: ${runId} after ${timeoutMs}ms`);
+
+      await this.cancelRunningNodes(runId);
+
+      try {
+        const workflowErrorResult = await this.errorHandler.handleWorkflowExecutionError(
+          {
+            runId,
+            workflowId: state.workflowId,
+            error: timeoutError,
+            failedNodes: timedOutState.failedNodes,
+            completedNodes: timedOutState.completedNodes,
+            context: timedOutState.context,
+          },
+          parsedWorkflow,
+          timedOutState
+        );
+
+        if (workflowErrorResult.shouldExecuteCompensation && workflowErrorResult.compensationPlan) {
+          await this.errorHandler.executeCompensation(
+            workflowErrorResult.compensationPlan,
+            timedOutState
+          );
+        }
+      } catch (compensationError) {
+        console.error(`Compensation failed for timed out workflow ${runId}:`, compensationError);
+      }
+
+      await this.finishRun(timedOutState);
+    } catch (error) {
+      console.error(`Failed to handle timeout for workflow ${runId}:`, error);
+      await this.logSystemError('workflow-orchestrator', error);
+    }
+  }
+
   /**
    * Log system error through error handler
    */
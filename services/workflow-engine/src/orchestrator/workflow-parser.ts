@@ -9,8 +9,16 @@ import {
   WorkflowEdge,
   NodeType,
   UUID,
+  ParameterMapping,
+  ExecutionCondition,
+  RunConcurrencyPolicy,
+  WorkflowRunPolicy,
+  SlaTarget,
 } from '@officeflow/types';
 import { ValidationResult } from '@officeflow/types';
+import { ExpressionEngine } from '../expressions';
+import { MAX_FOREACH_ITEMS, MAX_FOREACH_PARALLELISM } from '../execution/foreach-coordinator';
+import { validateTriggerFilter, validateFilterValue } from './trigger-filters';
 
 export interface ParsedWorkflow {
   definition: WorkflowDefinition;
@@ -41,12 +49,39 @@ export class WorkflowParser {
     'document.distribute',
     'ai.generate_content',
     'webhook.call',
+    'workflow.invoke',
+    'approval',
+    'wait_for_event',
+    'foreach',
     'delay',
     'condition',
     'parallel',
     'compensation',
   ];
 
+  private static readonly PARAMETER_SOURCE_TYPES: ParameterMapping['sourceType'][] = [
+    'static',
+    'context',
+    'node_output',
+    'expression',
+  ];
+
+  private static readonly CONCURRENCY_POLICIES: RunConcurrencyPolicy[] = [
+    'allow',
+    'queue',
+    'reject',
+    'cancel_previous',
+  ];
+
+  private static readonly CONDITION_OPERATORS: ExecutionCondition['operator'][] = [
+    'equals',
+    'not_equals',
+    'contains',
+    'not_contains',
+    'greater_than',
+    'less_than',
+  ];
+
   /**
    * Parse and validate workflow definition
    */
@@ -123,6 +158,36 @@ export class WorkflowParser {
     // Validate DAG structure
     errors.push(...this.validateDAGStructure(dag.nodes, dag.edges || []));
 
+    // Validate parameter mappings against the graph
+    errors.push(...this.validateParameterMappings(dag.nodes, dag.edges || []));
+
+    // Validate sub-workflow invocations
+    errors.push(...this.validateInvokeNodes(workflow));
+
+    // Validate approval steps
+    errors.push(...this.validateApprovalNodes(dag.nodes));
+
+    // Validate waits for external signals
+    errors.push(...this.validateSignalNodes(dag.nodes));
+
+    // Validate foreach fan-outs
+    errors.push(...this.validateForeachNodes(dag.nodes));
+
+    // Validate outbound webhook calls
+    errors.push(...this.validateWebhookNodes(dag.nodes));
+
+    // Validate trigger filters against the fields of the trigger event
+    errors.push(...this.validateTriggerFilters(workflow));
+
+    // Validate run dedupe and concurrency settings
+    errors.push(...this.validateRunPolicy(dag.metadata?.runPolicy));
+
+    // Validate SLA targets of the run and its nodes
+    errors.push(...this.validateSla(dag.metadata?.sla, 'the run'));
+    for (const node of dag.nodes) {
+      errors.push(...this.validateSla(node.sla, `node ${node.name}`, node));
+    }
+
     return errors;
   }
 
@@ -190,6 +255,26 @@ export class WorkflowParser {
       });
     }
 
+    // Validate execution conditions
+    for (const condition of node.conditions || []) {
+      if (!this.CONDITION_OPERATORS.includes(condition.operator)) {
+        errors.push({
+          code: 'INVALID_EXECUTION_CONDITION',
+          message: `Unsupported condition operator: ${condition.operator}`,
+          nodeId: node.id,
+        });
+      }
+
+      const expressionError = this.validateExpression(condition.field);
+      if (expressionError) {
+        errors.push({
+          code: 'INVALID_EXPRESSION',
+          message: `Invalid condition field on node ${node.name}: ${expressionError}`,
+          nodeId: node.id,
+        });
+      }
+    }
+
     return errors;
   }
 
@@ -235,9 +320,30 @@ export class WorkflowParser {
       });
     }
 
+    if (edge.conditionExpression && edge.conditionExpression.trim().length > 0) {
+      const expressionError = this.validateExpression(edge.conditionExpression);
+      if (expressionError) {
+        errors.push({
+          code: 'INVALID_EXPRESSION',
+          message: `Invalid condition on edge ${edge.id}: ${expressionError}`,
+          edgeId: edge.id,
+        });
+      }
+    }
+
     return errors;
   }
 
+  /**
+   * Check that an expression parses, returning the syntax error if not
+   */
+  private static validateExpression(expression: any): string | undefined {
+    if (typeof expression !== 'string') {
+      return 'Expression must be a string';
+    }
+    return ExpressionEngine.validate(expression);
+  }
+
   /**
    * Validate DAG structure constraints
    */
@@ -293,6 +399,567 @@ export class WorkflowParser {
     return errors;
   }
 
+  /**
+   * Validate workflow.invoke nodes. The target workflow may come from params or a
+   * parameter mapping; a workflow may not invoke itself directly.
+   */
+  private static validateInvokeNodes(workflow: WorkflowDefinition): WorkflowValidationError[] {
+    const errors: WorkflowValidationError[] = [];
+
+    for (const node of workflow.definition.nodes) {
+      if (node.type !== 'workflow.invoke') {
+        continue;
+      }
+
+      const params = node.params || {};
+      const mapsWorkflowId = (node.parameterMappings || []).some(
+        (mapping) => mapping.targetPath === 'workflowId'
+      );
+
+      if (!mapsWorkflowId && (typeof params.workflowId !== 'string' || !params.workflowId)) {
+        errors.push({
+          code: 'INVALID_INVOKE_NODE',
+          message: `Node ${node.name} must specify the workflowId to invoke`,
+          nodeId: node.id,
+        });
+      } else if (workflow.id && params.workflowId === workflow.id) {
+        errors.push({
+          code: 'RECURSIVE_INVOCATION',
+          message: `Node ${node.name} invokes its own workflow`,
+          nodeId: node.id,
+        });
+      }
+
+      if (params.mode !== undefined && params.mode !== 'sync' && params.mode !== 'async') {
+        errors.push({
+          code: 'INVALID_INVOKE_NODE',
+          message: `Invocation mode of node ${node.name} must be 'sync' or 'async'`,
+          nodeId: node.id,
+        });
+      }
+
+      for (const [key, expression] of Object.entries(params.outputMapping || {})) {
+        const expressionError = this.validateExpression(expression);
+        if (expressionError) {
+          errors.push({
+            code: 'INVALID_EXPRESSION',
+            message: `Invalid output mapping '${key}' on node ${node.name}: ${expressionError}`,
+            nodeId: node.id,
+          });
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate approval nodes. Approvers may come from params or a parameter mapping.
+   */
+  private static validateApprovalNodes(nodes: WorkflowNode[]): WorkflowValidationError[] {
+    const errors: WorkflowValidationError[] = [];
+
+    for (const node of nodes) {
+      if (node.type !== 'approval') {
+        continue;
+      }
+
+      const params = node.params || {};
+      const mapsApprovers = (node.parameterMappings || []).some(
+        (mapping) => mapping.targetPath === 'approvers'
+      );
+      const approvers = Array.isArray(params.approvers) ? params.approvers : [params.approvers];
+      const hasApprovers = approvers.some(
+        (approver: any) => typeof approver === 'string' && approver.trim().length > 0
+      );
+
+      if (!mapsApprovers && !hasApprovers) {
+        errors.push({
+          code: 'INVALID_APPROVAL_NODE',
+          message: `Approval node ${node.name} must specify at least one approver`,
+          nodeId: node.id,
+        });
+      }
+
+      if (params.channel !== undefined && !['email', 'slack'].includes(params.channel)) {
+        errors.push({
+          code: 'INVALID_APPROVAL_NODE',
+          message: `Notification channel of node ${node.name} must be 'email' or 'slack'`,
+          nodeId: node.id,
+        });
+      }
+
+      const timeoutIsValid =
+        params.timeout === undefined ||
+        (typeof params.timeout === 'number' && params.timeout > 0) ||
+        (typeof params.timeout === 'string' && params.timeout.trim().length > 0);
+      if (!timeoutIsValid) {
+        errors.push({
+          code: 'INVALID_APPROVAL_NODE',
+          message: `Approval timeout of node ${node.name} must be a positive duration`,
+          nodeId: node.id,
+        });
+      }
+
+      const escalation = params.escalation || {};
+      if (
+        escalation.maxLevels !== undefined &&
+        (!Number.isInteger(escalation.maxLevels) ||
+          escalation.maxLevels < 0 ||
+          escalation.maxLevels > 5)
+      ) {
+        errors.push({
+          code: 'INVALID_APPROVAL_NODE',
+          message: `Escalation levels of node ${node.name} must be between 0 and 5`,
+          nodeId: node.id,
+        });
+      }
+
+      if (
+        escalation.onExhausted !== undefined &&
+        !['reject', 'fail'].includes(escalation.onExhausted)
+      ) {
+        errors.push({
+          code: 'INVALID_APPROVAL_NODE',
+          message: `Escalation outcome of node ${node.name} must be 'reject' or 'fail'`,
+          nodeId: node.id,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate wait_for_event nodes. The signal name may come from params or a parameter
+   * mapping; filters match fields of the signal payload.
+   */
+  private static validateSignalNodes(nodes: WorkflowNode[]): WorkflowValidationError[] {
+    const errors: WorkflowValidationError[] = [];
+
+    for (const node of nodes) {
+      if (node.type !== 'wait_for_event') {
+        continue;
+      }
+
+      const params = node.params || {};
+      const mapsSignal = (node.parameterMappings || []).some(
+        (mapping) => mapping.targetPath === 'signal'
+      );
+      if (!mapsSignal && !(typeof params.signal === 'string' && params.signal.trim().length > 0)) {
+        errors.push({
+          code: 'INVALID_SIGNAL_NODE',
+          message: `Node ${node.name} must name the signal it waits for`,
+          nodeId: node.id,
+        });
+      }
+
+      const filters = params.filters === undefined ? [] : params.filters;
+      if (!Array.isArray(filters)) {
+        errors.push({
+          code: 'INVALID_SIGNAL_NODE',
+          message: `Signal filters of node ${node.name} must be a list`,
+          nodeId: node.id,
+        });
+      } else {
+        filters.forEach((filter: any, index: number) => {
+          const problem =
+            typeof filter?.field !== 'string' || !/^payload\.\S+/.test(filter.field)
+              ? 'field must be a payload.<path>'
+              : validateFilterValue(filter.operator, filter.value);
+          if (problem) {
+            errors.push({
+              code: 'INVALID_SIGNAL_NODE',
+              message: `Signal filter ${index + 1} of node ${node.name} is invalid: ${problem}`,
+              nodeId: node.id,
+            });
+          }
+        });
+      }
+
+      const timeoutIsValid =
+        params.timeout === undefined ||
+        (typeof params.timeout === 'number' && params.timeout > 0) ||
+        (typeof params.timeout === 'string' && params.timeout.trim().length > 0);
+      if (!timeoutIsValid) {
+        errors.push({
+          code: 'INVALID_SIGNAL_NODE',
+          message: `Signal timeout of node ${node.name} must be a positive duration`,
+          nodeId: node.id,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate foreach nodes. Items may come from params or a parameter mapping; the
+   * body runs once per item and may not itself be a foreach.
+   */
+  private static validateForeachNodes(nodes: WorkflowNode[]): WorkflowValidationError[] {
+    const errors: WorkflowValidationError[] = [];
+
+    for (const node of nodes) {
+      if (node.type !== 'foreach') {
+        continue;
+      }
+
+      const params = node.params || {};
+      const mapsItems = (node.parameterMappings || []).some(
+        (mapping) => mapping.targetPath === 'items'
+      );
+
+      if (!mapsItems && !Array.isArray(params.items)) {
+        errors.push({
+          code: 'INVALID_FOREACH_NODE',
+          message: `Foreach node ${node.name} must specify an items array or map one`,
+          nodeId: node.id,
+        });
+      } else if (Array.isArray(params.items) && params.items.length > MAX_FOREACH_ITEMS) {
+        errors.push({
+          code: 'INVALID_FOREACH_NODE',
+          message: `Foreach node ${node.name} supports at most ${MAX_FOREACH_ITEMS} items`,
+          nodeId: node.id,
+        });
+      }
+
+      const bodyType = params.body?.type;
+      if (!this.SUPPORTED_NODE_TYPES.includes(bodyType) || bodyType === 'foreach') {
+        errors.push({
+          code: 'INVALID_FOREACH_NODE',
+          message: `Foreach node ${node.name} must specify a supported, non-foreach body type`,
+          nodeId: node.id,
+        });
+      }
+
+      if (
+        params.maxParallelism !== undefined &&
+        (!Number.isInteger(params.maxParallelism) ||
+          params.maxParallelism < 1 ||
+          params.maxParallelism > MAX_FOREACH_PARALLELISM)
+      ) {
+        errors.push({
+          code: 'INVALID_FOREACH_NODE',
+          message: `Parallelism of node ${node.name} must be 1 to ${MAX_FOREACH_PARALLELISM}`,
+          nodeId: node.id,
+        });
+      }
+
+      if (
+        params.failureMode !== undefined &&
+        !['fail_fast', 'collect'].includes(params.failureMode)
+      ) {
+        errors.push({
+          code: 'INVALID_FOREACH_NODE',
+          message: `Failure mode of node ${node.name} must be 'fail_fast' or 'collect'`,
+          nodeId: node.id,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate webhook.call nodes. The URL may come from params or a parameter mapping.
+   */
+  private static validateWebhookNodes(nodes: WorkflowNode[]): WorkflowValidationError[] {
+    const errors: WorkflowValidationError[] = [];
+    const methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+    const authTypes = ['none', 'bearer', 'basic', 'hmac', 'oauth2'];
+
+    for (const node of nodes) {
+      if (node.type !== 'webhook.call') {
+        continue;
+      }
+
+      const params = node.params || {};
+      const mapsUrl = (node.parameterMappings || []).some(
+        (mapping) => mapping.targetPath === 'url'
+      );
+
+      if (!mapsUrl && (typeof params.url !== 'string' || !/^https?:\/\//.test(params.url))) {
+        errors.push({
+          code: 'INVALID_WEBHOOK_NODE',
+          message: `Webhook node ${node.name} must specify an http(s) url`,
+          nodeId: node.id,
+        });
+      }
+
+      if (params.method !== undefined && !methods.includes(params.method)) {
+        errors.push({
+          code: 'INVALID_WEBHOOK_NODE',
+          message: `HTTP method of node ${node.name} must be one of ${methods.join(', ')}`,
+          nodeId: node.id,
+        });
+      }
+
+      if (params.auth !== undefined && !authTypes.includes(params.auth?.type)) {
+        errors.push({
+          code: 'INVALID_WEBHOOK_NODE',
+          message: `Auth type of node ${node.name} must be one of ${authTypes.join(', ')}`,
+          nodeId: node.id,
+        });
+      }
+
+      for (const [key, path] of Object.entries(params.responseMapping || {})) {
+        if (typeof path !== 'string' || !path.startsWith('$')) {
+          errors.push({
+            code: 'INVALID_WEBHOOK_NODE',
+            message: `Response mapping '${key}' of node ${node.name} must be a JSONPath`,
+            nodeId: node.id,
+          });
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate trigger filters, which may only reference fields the trigger event
+   * or the employee record carries
+   */
+  private static validateTriggerFilters(workflow: WorkflowDefinition): WorkflowValidationError[] {
+    const filters = workflow.definition.metadata?.triggerFilters;
+    if (filters === undefined) {
+      return [];
+    }
+
+    if (!Array.isArray(filters)) {
+      return [{ code: 'INVALID_TRIGGER_FILTER', message: 'Trigger filters must be a list' }];
+    }
+
+    const errors: WorkflowValidationError[] = [];
+    for (const filter of filters) {
+      const problem = validateTriggerFilter(filter, workflow.eventTrigger);
+      if (problem) {
+        errors.push({
+          code: 'INVALID_TRIGGER_FILTER',
+          message: `Invalid trigger filter on ${filter?.field}: ${problem}`,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the run dedupe and concurrency policy of a workflow
+   */
+  private static validateRunPolicy(
+    policy: WorkflowRunPolicy | undefined
+  ): WorkflowValidationError[] {
+    const errors: WorkflowValidationError[] = [];
+    if (policy === undefined) {
+      return errors;
+    }
+
+    if (
+      policy.concurrency !== undefined &&
+      !this.CONCURRENCY_POLICIES.includes(policy.concurrency)
+    ) {
+      errors.push({
+        code: 'INVALID_RUN_POLICY',
+        message: `Concurrency policy must be one of ${this.CONCURRENCY_POLICIES.join(', ')}`,
+      });
+    }
+
+    if (policy.dedupe !== undefined) {
+      if (!['employee_event', 'correlation_id'].includes(policy.dedupe?.key)) {
+        errors.push({
+          code: 'INVALID_RUN_POLICY',
+          message: 'Dedupe key must be employee_event or correlation_id',
+        });
+      }
+
+      const { windowSeconds } = policy.dedupe || {};
+      if (windowSeconds !== undefined && !(Number.isInteger(windowSeconds) && windowSeconds > 0)) {
+        errors.push({
+          code: 'INVALID_RUN_POLICY',
+          message: 'Dedupe window must be a positive number of seconds',
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate an SLA target: a positive number of hours or a duration such as
+   * '4h' or '1d 12h', warning at a fraction of it
+   */
+  private static validateSla(
+    sla: SlaTarget | undefined,
+    subject: string,
+    node?: WorkflowNode
+  ): WorkflowValidationError[] {
+    const errors: WorkflowValidationError[] = [];
+    if (sla === undefined) {
+      return errors;
+    }
+
+    const targetIsValid =
+      (typeof sla?.target === 'number' && sla.target > 0) ||
+      (typeof sla?.target === 'string' &&
+        /^(\d+(\.\d+)?(ms|s|m|h|d|w)\s*)+$/.test(sla.target.trim()));
+    if (!targetIsValid) {
+      errors.push({
+        code: 'INVALID_SLA',
+        message: `SLA target of ${subject} must be a positive number of hours or a duration`,
+        nodeId: node?.id,
+      });
+    }
+
+    if (sla?.warnAt !== undefined && !(sla.warnAt > 0 && sla.warnAt < 1)) {
+      errors.push({
+        code: 'INVALID_SLA',
+        message: `SLA warning of ${subject} must be a fraction of the target between 0 and 1`,
+        nodeId: node?.id,
+      });
+    }
+
+    if (sla?.from !== undefined && (!node || !['run', 'node'].includes(sla.from))) {
+      errors.push({
+        code: 'INVALID_SLA',
+        message: node
+          ? `SLA of ${subject} must be measured from the run or the node`
+          : 'SLA of the run is always measured from its start',
+        nodeId: node?.id,
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate node parameter mappings. node_output sources must reference an
+   * upstream node by ID or name so the output exists when the node runs.
+   */
+  private static validateParameterMappings(
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[]
+  ): WorkflowValidationError[] {
+    const errors: WorkflowValidationError[] = [];
+    const nodesByRef = new Map<string, WorkflowNode>();
+    for (const node of nodes) {
+      nodesByRef.set(node.id, node);
+      if (node.name) {
+        nodesByRef.set(node.name, node);
+      }
+    }
+
+    for (const node of nodes) {
+      if (!node.parameterMappings) {
+        continue;
+      }
+
+      if (!Array.isArray(node.parameterMappings)) {
+        errors.push({
+          code: 'INVALID_PARAMETER_MAPPING',
+          message: `Parameter mappings of node ${node.name} must be an array`,
+          nodeId: node.id,
+        });
+        continue;
+      }
+
+      const targetPaths = new Set<string>();
+      const ancestors = this.findAncestors(node.id, edges);
+
+      for (const mapping of node.parameterMappings) {
+        if (!this.PARAMETER_SOURCE_TYPES.includes(mapping.sourceType)) {
+          errors.push({
+            code: 'INVALID_PARAMETER_MAPPING',
+            message: `Unsupported mapping source type: ${mapping.sourceType}`,
+            nodeId: node.id,
+          });
+          continue;
+        }
+
+        if (typeof mapping.targetPath !== 'string' || mapping.targetPath.trim().length === 0) {
+          errors.push({
+            code: 'INVALID_PARAMETER_MAPPING',
+            message: 'Parameter mapping targetPath is required',
+            nodeId: node.id,
+          });
+          continue;
+        }
+
+        if (targetPaths.has(mapping.targetPath)) {
+          errors.push({
+            code: 'DUPLICATE_MAPPING_TARGET',
+            message: `Multiple mappings target '${mapping.targetPath}'`,
+            nodeId: node.id,
+          });
+        }
+        targetPaths.add(mapping.targetPath);
+
+        if (typeof mapping.sourcePath !== 'string' || mapping.sourcePath.trim().length === 0) {
+          errors.push({
+            code: 'INVALID_PARAMETER_MAPPING',
+            message: `Parameter mapping for '${mapping.targetPath}' requires a sourcePath`,
+            nodeId: node.id,
+          });
+          continue;
+        }
+
+        if (mapping.sourceType === 'expression') {
+          const expressionError = this.validateExpression(mapping.sourcePath);
+          if (expressionError) {
+            errors.push({
+              code: 'INVALID_EXPRESSION',
+              message: `Invalid expression for '${mapping.targetPath}': ${expressionError}`,
+              nodeId: node.id,
+            });
+          }
+        }
+
+        if (mapping.sourceType === 'node_output') {
+          const [nodeRef] = mapping.sourcePath.split('.');
+          const sourceNode = nodesByRef.get(nodeRef);
+
+          if (!sourceNode) {
+            errors.push({
+              code: 'UNKNOWN_MAPPING_SOURCE',
+              message: `Mapping for '${mapping.targetPath}' references unknown node: ${nodeRef}`,
+              nodeId: node.id,
+            });
+          } else if (!ancestors.has(sourceNode.id)) {
+            errors.push({
+              code: 'MAPPING_SOURCE_NOT_UPSTREAM',
+              message: `Mapping for '${mapping.targetPath}' references node ${sourceNode.name}, which does not run before ${node.name}`,
+              nodeId: node.id,
+            });
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Find all nodes that can reach the given node
+   */
+  static findAncestors(nodeId: UUID, edges: WorkflowEdge[]): Set<UUID> {
+    const ancestors = new Set<UUID>();
+    const queue: UUID[] = [nodeId];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of edges) {
+        if (edge.toNodeId === current && !ancestors.has(edge.fromNodeId)) {
+          ancestors.add(edge.fromNodeId);
+          queue.push(edge.fromNodeId);
+        }
+      }
+    }
+
+    ancestors.delete(nodeId);
+    return ancestors;
+  }
+
   /**
    * Detect cycles in the DAG using DFS
    */
@@ -466,26 +1133,119 @@ export class WorkflowParser {
     parsedWorkflow: ParsedWorkflow,
     completedNodes: Set<UUID>,
     failedNodes: Set<UUID>,
-    currentNodes: Set<UUID>
+    currentNodes: Set<UUID>,
+    skippedNodes: Set<UUID> = new Set(),
+    isEdgeTaken: (edge: WorkflowEdge) => boolean = () => true,
+    shouldRunNode: (node: WorkflowNode) => boolean = () => true
   ): WorkflowNode[] {
+    return this.resolveBranches(
+      parsedWorkflow,
+      completedNodes,
+      failedNodes,
+      currentNodes,
+      skippedNodes,
+      isEdgeTaken,
+      shouldRunNode
+    ).eligible;
+  }
+
+  /**
+   * Resolve which pending nodes can run and which sit on untaken branches.
+   *
+   * A node becomes eligible once every upstream node is completed or skipped and
+   * at least one incoming edge is taken. A node whose incoming edges are all
+   * resolved but none taken is skipped, as is a reachable node whose execution
+   * conditions (`shouldRunNode`) fail; skips propagate to descendants because
+   * nodes are visited in topological order.
+   */
+  static resolveBranches(
+    parsedWorkflow: ParsedWorkflow,
+    completedNodes: Set<UUID>,
+    failedNodes: Set<UUID>,
+    currentNodes: Set<UUID>,
+    skippedNodes: Set<UUID>,
+    isEdgeTaken: (edge: WorkflowEdge) => boolean,
+    shouldRunNode: (node: WorkflowNode) => boolean = () => true
+  ): { eligible: WorkflowNode[]; skipped: WorkflowNode[] } {
     const eligible: WorkflowNode[] = [];
+    const skipped: WorkflowNode[] = [];
+    const resolvedSkips = new Set(skippedNodes);
 
-    for (const node of parsedWorkflow.definition.definition.nodes) {
+    for (const node of parsedWorkflow.executionOrder) {
       // Skip if already processed or currently running
-      if (completedNodes.has(node.id) || failedNodes.has(node.id) || currentNodes.has(node.id)) {
+      if (
+        completedNodes.has(node.id) ||
+        failedNodes.has(node.id) ||
+        currentNodes.has(node.id) ||
+        resolvedSkips.has(node.id)
+      ) {
         continue;
       }
 
-      // Check if all dependencies are satisfied
-      const dependencies = parsedWorkflow.dependencyMap.get(node.id) || [];
-      const allDependenciesMet = dependencies.every((depId) => completedNodes.has(depId));
+      const incomingEdges = this.getIncomingEdges(parsedWorkflow, node.id);
+      if (incomingEdges.length === 0) {
+        if (shouldRunNode(node)) {
+          eligible.push(node);
+        } else {
+          resolvedSkips.add(node.id);
+          skipped.push(node);
+        }
+        continue;
+      }
 
-      if (allDependenciesMet) {
+      // Wait until every upstream node has settled
+      const allDependenciesResolved = incomingEdges.every(
+        (edge) => completedNodes.has(edge.fromNodeId) || resolvedSkips.has(edge.fromNodeId)
+      );
+      if (!allDependenciesResolved) {
+        continue;
+      }
+
+      const anyEdgeTaken = incomingEdges.some(
+        (edge) => completedNodes.has(edge.fromNodeId) && isEdgeTaken(edge)
+      );
+
+      if (anyEdgeTaken && shouldRunNode(node)) {
         eligible.push(node);
+      } else {
+        resolvedSkips.add(node.id);
+        skipped.push(node);
+      }
+    }
+
+    return { eligible, skipped };
+  }
+
+  /**
+   * Get edges pointing at a node
+   */
+  static getIncomingEdges(parsedWorkflow: ParsedWorkflow, nodeId: UUID): WorkflowEdge[] {
+    const dependencies = parsedWorkflow.dependencyMap.get(nodeId) || [];
+    const uniqueDependencies = Array.from(new Set(dependencies));
+
+    return uniqueDependencies.flatMap((depId) =>
+      (parsedWorkflow.edgeMap.get(depId) || []).filter((edge) => edge.toNodeId === nodeId)
+    );
+  }
+
+  /**
+   * Get the given nodes and every node reachable from them
+   */
+  static getDownstreamNodes(parsedWorkflow: ParsedWorkflow, nodeIds: UUID[]): Set<UUID> {
+    const downstream = new Set<UUID>(nodeIds);
+    const pending = [...nodeIds];
+
+    while (pending.length > 0) {
+      const nodeId = pending.pop()!;
+      for (const edge of parsedWorkflow.edgeMap.get(nodeId) || []) {
+        if (!downstream.has(edge.toNodeId)) {
+          downstream.add(edge.toNodeId);
+          pending.push(edge.toNodeId);
+        }
       }
     }
 
-    return eligible;
+    return downstream;
   }
 
   /**
@@ -0,0 +1,487 @@
+/**
+ * Static type-checking of workflow definitions against node schemas: node
+ * parameters, the outputs mappings and expressions read, producer/consumer
+ * types, and branches and nodes that can never run
+ */
+
+import {
+  NodeOutput,
+  NodeParameter,
+  NodeSchema,
+  UUID,
+  WorkflowDefinition,
+  WorkflowEdge,
+  WorkflowNode,
+} from '@officeflow/types';
+import { ExpressionEngine } from '../expressions';
+import { NodeSchemaRegistry } from './node-schema-registry';
+import { WorkflowParser } from './workflow-parser';
+
+export type WorkflowDiagnosticSeverity = 'error' | 'warning';
+
+export interface WorkflowDiagnostic {
+  severity: WorkflowDiagnosticSeverity;
+  code: string;
+  message: string;
+  nodeId?: UUID;
+  nodeName?: string;
+  edgeId?: UUID;
+  field?: string; // parameter or mapping target within the node
+}
+
+export interface WorkflowTypeCheckResult {
+  valid: boolean; // no errors; warnings don't make a workflow invalid
+  diagnostics: WorkflowDiagnostic[];
+}
+
+type ValueType = NodeParameter['type'];
+
+interface OutputDescription {
+  name: string;
+  type?: NodeOutput['type']; // unknown for outputs a node's params declare
+}
+
+export class WorkflowTypeChecker {
+  constructor(private schemas: NodeSchemaRegistry = new NodeSchemaRegistry()) {}
+
+  /**
+   * Check a workflow. Structural validation errors are reported on their own,
+   * since the deeper checks rely on a well-formed graph.
+   */
+  check(workflow: WorkflowDefinition): WorkflowTypeCheckResult {
+    const validationErrors = WorkflowParser.validateWorkflowDefinition(workflow);
+    if (validationErrors.length > 0) {
+      const nodes = workflow.definition?.nodes || [];
+      return {
+        valid: false,
+        diagnostics: validationErrors.map((error) => ({
+          severity: 'error',
+          code: error.code,
+          message: error.message,
+          nodeId: error.nodeId,
+          nodeName: nodes.find((node) => node.id === error.nodeId)?.name,
+          edgeId: error.edgeId,
+        })),
+      };
+    }
+
+    const { nodes, edges = [] } = workflow.definition;
+    const diagnostics: WorkflowDiagnostic[] = [];
+    const nodesByRef = new Map<string, WorkflowNode>();
+    for (const node of nodes) {
+      nodesByRef.set(node.id, node);
+      nodesByRef.set(node.name, node);
+    }
+
+    for (const node of nodes) {
+      const ancestors = WorkflowParser.findAncestors(node.id, edges);
+      diagnostics.push(...this.checkParams(node));
+      diagnostics.push(...this.checkMappings(node, nodesByRef, ancestors));
+
+      for (const condition of node.conditions || []) {
+        diagnostics.push(
+          ...this.checkExpression(condition.field, nodesByRef, ancestors, {
+            node,
+            field: 'conditions',
+          })
+        );
+      }
+    }
+
+    for (const edge of edges) {
+      if (!edge.conditionExpression) {
+        continue;
+      }
+      const ancestors = WorkflowParser.findAncestors(edge.fromNodeId, edges);
+      ancestors.add(edge.fromNodeId);
+      diagnostics.push(
+        ...this.checkExpression(edge.conditionExpression, nodesByRef, ancestors, {
+          node: nodesByRef.get(edge.fromNodeId)!,
+          edge,
+        })
+      );
+    }
+
+    diagnostics.push(...this.checkReachability(nodes, edges));
+
+    return {
+      valid: !diagnostics.some((diagnostic) => diagnostic.severity === 'error'),
+      diagnostics,
+    };
+  }
+
+  /**
+   * Check node params against the parameters of the node's schema. Schemas
+   * without parameters don't describe them, so their params aren't checked.
+   */
+  private checkParams(node: WorkflowNode): WorkflowDiagnostic[] {
+    const schema = this.schemas.get(node.type);
+    if (!schema || schema.parameters.length === 0) {
+      return [];
+    }
+
+    const diagnostics: WorkflowDiagnostic[] = [];
+    const params = node.params || {};
+    const mappedParams = new Set(
+      (node.parameterMappings || []).map((mapping) => mapping.targetPath.split('.')[0])
+    );
+    const report = (
+      code: string,
+      field: string,
+      message: string,
+      severity: WorkflowDiagnosticSeverity = 'error'
+    ) =>
+      diagnostics.push({
+        severity,
+        code,
+        message,
+        nodeId: node.id,
+        nodeName: node.name,
+        field,
+      });
+
+    for (const parameter of schema.parameters) {
+      const value = params[parameter.name];
+
+      if (value === undefined || value === null || value === '') {
+        if (
+          parameter.required &&
+          parameter.defaultValue === undefined &&
+          !mappedParams.has(parameter.name)
+        ) {
+          report(
+            'MISSING_PARAMETER',
+            parameter.name,
+            `Node ${node.name} requires parameter '${parameter.name}'`
+          );
+        }
+        continue;
+      }
+
+      // Templates are resolved at run time
+      if (isTemplate(value)) {
+        continue;
+      }
+
+      const type = typeOf(value);
+      if (type !== parameter.type) {
+        report(
+          'INVALID_PARAMETER_TYPE',
+          parameter.name,
+          `Parameter '${parameter.name}' of node ${node.name} must be ${article(parameter.type)} but is ${article(type)}`
+        );
+        continue;
+      }
+
+      const violation = validationViolation(value, parameter);
+      if (violation) {
+        report(
+          'INVALID_PARAMETER_VALUE',
+          parameter.name,
+          `Parameter '${parameter.name}' of node ${node.name} ${violation}`
+        );
+      }
+    }
+
+    for (const name of Object.keys(params)) {
+      if (!schema.parameters.some((parameter) => parameter.name === name)) {
+        report(
+          'UNKNOWN_PARAMETER',
+          name,
+          `Node type ${node.type} has no parameter '${name}'`,
+          'warning'
+        );
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Check that node_output mappings read declared outputs of a compatible type,
+   * and that expression mappings read outputs of upstream nodes
+   */
+  private checkMappings(
+    node: WorkflowNode,
+    nodesByRef: Map<string, WorkflowNode>,
+    ancestors: Set<UUID>
+  ): WorkflowDiagnostic[] {
+    const diagnostics: WorkflowDiagnostic[] = [];
+    const schema = this.schemas.get(node.type);
+
+    for (const mapping of node.parameterMappings || []) {
+      if (mapping.sourceType === 'expression') {
+        diagnostics.push(
+          ...this.checkExpression(mapping.sourcePath, nodesByRef, ancestors, {
+            node,
+            field: mapping.targetPath,
+          })
+        );
+        continue;
+      }
+
+      if (mapping.sourceType !== 'node_output') {
+        continue;
+      }
+
+      const [sourceRef, ...path] = mapping.sourcePath.split('.');
+      const source = nodesByRef.get(sourceRef)!;
+      const outputs = this.outputsOf(source);
+      if (!outputs) {
+        continue;
+      }
+
+      let producedType: ValueType | undefined = 'object';
+      if (path.length > 0) {
+        const output = outputs.find((candidate) => candidate.name === path[0]);
+        if (!output) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'UNKNOWN_OUTPUT',
+            message: `Mapping for '${mapping.targetPath}' reads output '${path[0]}', which node ${source.name} doesn't produce`,
+            nodeId: node.id,
+            nodeName: node.name,
+            field: mapping.targetPath,
+          });
+          continue;
+        }
+        // Nested paths read into an output whose shape isn't described
+        producedType = path.length === 1 ? output.type : undefined;
+      }
+
+      const parameter = schema?.parameters.find(
+        (candidate) => candidate.name === mapping.targetPath
+      );
+      if (parameter && producedType && producedType !== parameter.type) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'TYPE_MISMATCH',
+          message: `Parameter '${parameter.name}' of node ${node.name} expects ${article(parameter.type)} but output '${path.join('.') || sourceRef}' of node ${source.name} is ${article(producedType)}`,
+          nodeId: node.id,
+          nodeName: node.name,
+          field: mapping.targetPath,
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Check the node outputs an expression reads: the node must exist, run
+   * before the expression is evaluated and produce the output
+   */
+  private checkExpression(
+    expression: string,
+    nodesByRef: Map<string, WorkflowNode>,
+    upstream: Set<UUID>,
+    location: { node: WorkflowNode; edge?: WorkflowEdge; field?: string }
+  ): WorkflowDiagnostic[] {
+    const diagnostics: WorkflowDiagnostic[] = [];
+    const report = (code: string, message: string) =>
+      diagnostics.push({
+        severity: 'error',
+        code,
+        message,
+        nodeId: location.node.id,
+        nodeName: location.node.name,
+        edgeId: location.edge?.id,
+        field: location.field,
+      });
+    const where = location.edge
+      ? `Condition of the edge from ${location.node.name}`
+      : `Expression for '${location.field}' of node ${location.node.name}`;
+
+    for (const reference of ExpressionEngine.references(expression)) {
+      if (!reference.startsWith('nodes.')) {
+        continue;
+      }
+
+      // Node names may contain dots, so match the longest node reference
+      const rest = reference.slice('nodes.'.length);
+      const nodeRef = [...nodesByRef.keys()]
+        .filter((ref) => rest === ref || rest.startsWith(`${ref}.`))
+        .sort((a, b) => b.length - a.length)[0];
+
+      if (!nodeRef) {
+        report(
+          'UNKNOWN_NODE_REFERENCE',
+          `${where} reads ${reference}, but no node is ${rest.split('.')[0]}`
+        );
+        continue;
+      }
+
+      const source = nodesByRef.get(nodeRef)!;
+      if (!upstream.has(source.id)) {
+        report(
+          'REFERENCE_NOT_UPSTREAM',
+          `${where} reads node ${source.name}, which does not run before it`
+        );
+        continue;
+      }
+
+      const path = rest
+        .slice(nodeRef.length + 1)
+        .split('.')
+        .filter(Boolean);
+      const outputName = path[0] === 'output' ? path[1] : path[0];
+      const outputs = this.outputsOf(source);
+      if (outputName && outputs && !outputs.some((output) => output.name === outputName)) {
+        report(
+          'UNKNOWN_OUTPUT',
+          `${where} reads output '${outputName}', which node ${source.name} doesn't produce`
+        );
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Report edges whose condition is always false and the nodes that only
+   * they lead to, as well as nodes without any edges
+   */
+  private checkReachability(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowDiagnostic[] {
+    const diagnostics: WorkflowDiagnostic[] = [];
+    const deadEdges = new Set<UUID>();
+
+    for (const edge of edges) {
+      if (edge.conditionExpression && isAlwaysFalse(edge.conditionExpression)) {
+        const from = nodes.find((node) => node.id === edge.fromNodeId)!;
+        const to = nodes.find((node) => node.id === edge.toNodeId)!;
+        deadEdges.add(edge.id);
+        diagnostics.push({
+          severity: 'warning',
+          code: 'DEAD_BRANCH',
+          message: `The condition of the edge from ${from.name} to ${to.name} is always false`,
+          nodeId: from.id,
+          nodeName: from.name,
+          edgeId: edge.id,
+        });
+      }
+    }
+
+    const connected = new Set(edges.flatMap((edge) => [edge.fromNodeId, edge.toNodeId]));
+    const reachable = new Set(
+      nodes
+        .filter((node) => !edges.some((edge) => edge.toNodeId === node.id))
+        .map((node) => node.id)
+    );
+    const queue = [...reachable];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of edges) {
+        if (
+          edge.fromNodeId === current &&
+          !deadEdges.has(edge.id) &&
+          !reachable.has(edge.toNodeId)
+        ) {
+          reachable.add(edge.toNodeId);
+          queue.push(edge.toNodeId);
+        }
+      }
+    }
+
+    for (const node of nodes) {
+      if (!reachable.has(node.id)) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'UNREACHABLE_NODE',
+          message: `Node ${node.name} never runs: every path to it takes a branch that is never taken`,
+          nodeId: node.id,
+          nodeName: node.name,
+        });
+      } else if (nodes.length > 1 && !connected.has(node.id) && node.type !== 'compensation') {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'DISCONNECTED_NODE',
+          message: `Node ${node.name} is not connected to any other node and runs as soon as the workflow starts`,
+          nodeId: node.id,
+          nodeName: node.name,
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Outputs a node produces, or undefined when they aren't described
+   */
+  private outputsOf(node: WorkflowNode): OutputDescription[] | undefined {
+    const schema: NodeSchema | undefined = this.schemas.get(node.type);
+    const outputs: OutputDescription[] = [...(schema?.outputs || [])];
+
+    if (node.type === 'webhook.call') {
+      outputs.push(...Object.keys(node.params?.responseMapping || {}).map((name) => ({ name })));
+    }
+    if (node.type === 'workflow.invoke') {
+      // Without an outputMapping the outputs of the child's exit nodes are returned
+      if (!node.params?.outputMapping) {
+        return undefined;
+      }
+      outputs.push(...Object.keys(node.params.outputMapping).map((name) => ({ name })));
+    }
+
+    return outputs.length > 0 ? outputs : undefined;
+  }
+}
+
+function typeOf(value: any): ValueType {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value as ValueType;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function isTemplate(value: any): boolean {
+  return typeof value === 'string' && (value.includes('${') || value.includes('{{'));
+}
+
+function validationViolation(value: any, parameter: NodeParameter): string | undefined {
+  const validation = parameter.validation;
+  if (!validation) {
+    return undefined;
+  }
+
+  if (validation.enum && !validation.enum.includes(value)) {
+    return `must be one of ${validation.enum.join(', ')}`;
+  }
+  if (typeof value === 'number') {
+    if (validation.min !== undefined && value < validation.min) {
+      return `must be at least ${validation.min}`;
+    }
+    if (validation.max !== undefined && value > validation.max) {
+      return `must be at most ${validation.max}`;
+    }
+  }
+  if (typeof value === 'string') {
+    if (validation.minLength !== undefined && value.length < validation.minLength) {
+      return `must be at least ${validation.minLength} characters long`;
+    }
+    if (validation.maxLength !== undefined && value.length > validation.maxLength) {
+      return `must be at most ${validation.maxLength} characters long`;
+    }
+    if (validation.pattern && !new RegExp(validation.pattern).test(value)) {
+      return `must match ${validation.pattern}`;
+    }
+  }
+
+  return undefined;
+}
+
+function isAlwaysFalse(expression: string): boolean {
+  if (!ExpressionEngine.isConstant(expression)) {
+    return false;
+  }
+  try {
+    return !ExpressionEngine.evaluateBoolean(expression, {});
+  } catch {
+    // Expressions that always fail are reported when the edge is evaluated
+    return false;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ * evaluated in an IANA time zone
+ */
+
+import { toInstant, toWallTime } from './time-zone';
+
+interface FieldRange {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: string[]; // names of the values from min upwards
+}
+
+interface CronField {
+  values: Set<number>;
+  restricted: boolean; // false when the field starts with '*'
+}
+
+const FIELD_RANGES: FieldRange[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    aliases: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  {
+    name: 'day of week',
+    min: 0,
+    max: 7,
+    aliases: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+  },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Expressions that match no date (e.g. 31 February) give up after this many years
+const MAX_SEARCH_YEARS = 5;
+
+export class CronExpression {
+  private constructor(
+    readonly source: string,
+    private minutes: CronField,
+    private hours: CronField,
+    private daysOfMonth: CronField,
+    private months: CronField,
+    private daysOfWeek: CronField
+  ) {}
+
+  /**
+   * Parse an expression. Fields accept '*', values, ranges, steps and lists,
+   * months and weekdays also their three-letter names; 7 is Sunday as well as 0.
+   */
+  static parse(expression: string): CronExpression {
+    const source = expression.trim();
+    const fields = (MACROS[source.toLowerCase()] || source).split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Cron expression must have 5 fields: ${expression}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+      CronExpression.parseField(field, FIELD_RANGES[index])
+    );
+
+    // Sunday is both 0 and 7
+    if (daysOfWeek.values.delete(7)) {
+      daysOfWeek.values.add(0);
+    }
+
+    return new CronExpression(source, minutes, hours, daysOfMonth, months, daysOfWeek);
+  }
+
+  /**
+   * First fire time strictly after the given instant
+   */
+  next(after: Date, timeZone: string = 'UTC'): Date {
+    const afterMs = after.getTime();
+    const startWall = toWallTime(afterMs, timeZone);
+    let wall = startWall - (startWall % MINUTE_MS) + MINUTE_MS;
+    const lastYear = new Date(wall).getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (new Date(wall).getUTCFullYear() <= lastYear) {
+      const date = new Date(wall);
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+      const day = date.getUTCDate();
+      const hour = date.getUTCHours();
+
+      if (!this.months.values.has(month + 1)) {
+        wall = Date.UTC(year, month + 1, 1);
+      } else if (!this.matchesDay(date)) {
+        wall = Date.UTC(year, month, day + 1);
+      } else if (!this.hours.values.has(hour)) {
+        wall = Date.UTC(year, month, day, hour + 1);
+      } else if (!this.minutes.values.has(date.getUTCMinutes())) {
+        wall += MINUTE_MS;
+      } else {
+        const instant = toInstant(wall, timeZone);
+        // Wall times repeated when clocks go back only fire the first time
+        if (instant > afterMs) {
+          return new Date(instant);
+        }
+        wall += MINUTE_MS;
+      }
+    }
+
+    throw new Error(`Cron expression never fires: ${this.source}`);
+  }
+
+  /**
+   * Like standard cron, a restricted day of month and day of week match when either does
+   */
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.values.has(date.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.values.has(date.getUTCDay());
+
+    if (this.daysOfMonth.restricted && this.daysOfWeek.restricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  private static parseField(field: string, range: FieldRange): CronField {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const match = part.match(/^(\*|[^-/]+)(?:-([^/]+))?(?:\/(\d+))?$/);
+      if (!match) {
+        throw new Error(`Invalid cron ${range.name} field: ${field}`);
+      }
+
+      const [, startText, endText, stepText] = match;
+      const start = startText === '*' ? range.min : CronExpression.parseValue(startText, range);
+      const end =
+        startText === '*' || (stepText && !endText)
+          ? range.max
+          : endText
+            ? CronExpression.parseValue(endText, range)
+            : start;
+      const step = stepText ? parseInt(stepText, 10) : 1;
+
+      if (start > end || step < 1) {
+        throw new Error(`Invalid cron ${range.name} field: ${field}`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return { values, restricted: !field.startsWith('*') };
+  }
+
+  private static parseValue(text: string, range: FieldRange): number {
+    const aliasIndex = range.aliases?.indexOf(text.toUpperCase()) ?? -1;
+    const value = aliasIndex >= 0 ? aliasIndex + range.min : /^\d+$/.test(text) ? +text : NaN;
+
+    if (isNaN(value) || value < range.min || value > range.max) {
+      throw new Error(`Invalid cron ${range.name} value: ${text}`);
+    }
+    return value;
+  }
+}
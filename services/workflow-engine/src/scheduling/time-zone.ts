@@ -0,0 +1,86 @@
+/**
+ * Wall-clock time in IANA time zones. Wall times are represented as epoch
+ * milliseconds whose UTC fields hold the local date and time.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local wall time of an instant
+ */
+export function toWallTime(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wall + (instant % 1000);
+}
+
+/**
+ * Instant of a local wall time. Ambiguous times (clocks going back) resolve to
+ * their first occurrence; skipped times (clocks going forward) to the same
+ * distance past the transition.
+ */
+export function toInstant(wall: number, timeZone: string): number {
+  const offsetBefore = toWallTime(wall - DAY_MS, timeZone) - (wall - DAY_MS);
+  const offsetAfter = toWallTime(wall + DAY_MS, timeZone) - (wall + DAY_MS);
+
+  const candidates = [wall - offsetBefore, wall - offsetAfter].filter(
+    (instant) => toWallTime(instant, timeZone) === wall
+  );
+  return candidates.length > 0 ? Math.min(...candidates) : wall - offsetBefore;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant
+ */
+export function toLocalDate(instant: Date, timeZone: string): string {
+  return new Date(toWallTime(instant.getTime(), timeZone)).toISOString().slice(0, 10);
+}
+
+/**
+ * Shift a calendar date (YYYY-MM-DD) by whole days
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
@@ -0,0 +1,408 @@
+/**
+ * Scheduled workflow triggers. One engine instance at a time leads the
+ * scheduler and starts the runs of due schedules: cron schedules start one run
+ * per fire, employee-date schedules one run per employee whose hire or
+ * termination date (shifted by the offset) falls on the day of the fire.
+ */
+
+import {
+  UUID,
+  WorkflowEngine,
+  WorkflowRepository,
+  EmployeeRepository,
+  WorkflowScheduleRepository,
+  WorkflowScheduleEntity,
+  WorkflowScheduler,
+  ScheduledWorkflow,
+  ScheduledWorkflowInput,
+} from '@officeflow/types';
+import { RedisStateManager } from '../state/redis-state-manager';
+import { ExecutionContextManager } from '../execution/context-manager';
+import { mapScheduleEntityToSchedule, mapScheduleToEntity } from '../utils/entity-mappers';
+import { CronExpression } from './cron-expression';
+import { isValidTimeZone, toLocalDate, addDays } from './time-zone';
+
+export class ScheduleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_SCHEDULE'
+  ) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+export interface SchedulerConfig {
+  pollIntervalMs?: number; // how often the leader looks for due schedules
+  leaderTtlSeconds?: number; // another instance takes over when the leader stops renewing
+  misfireThresholdMs?: number; // fires taken later than this are misfires
+}
+
+export interface ScheduleFire {
+  scheduleId: UUID;
+  scheduledFor: Date;
+  misfired: boolean;
+  runIds: UUID[];
+}
+
+const DEFAULT_SCHEDULER_CONFIG: Required<SchedulerConfig> = {
+  pollIntervalMs: 15000,
+  leaderTtlSeconds: 45,
+  misfireThresholdMs: 60000,
+};
+
+const LEADER_ROLE = 'scheduler';
+
+// Bounds catching up with a frequent schedule after a long outage
+const MAX_MISSED_FIRES = 100000;
+
+/**
+ * Drop unset fields so they don't override defaults or stored values
+ */
+function definedFields<T extends object>(fields: T): T {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as T;
+}
+
+export class WorkflowSchedulerService implements WorkflowScheduler {
+  private config: Required<SchedulerConfig>;
+  private isRunning: boolean = false;
+
+  constructor(
+    config: SchedulerConfig,
+    private instanceId: string,
+    private scheduleRepo: WorkflowScheduleRepository,
+    private workflowRepo: WorkflowRepository,
+    private employeeRepo: EmployeeRepository,
+    private stateManager: RedisStateManager,
+    private contextManager: ExecutionContextManager,
+    private engine: Pick<WorkflowEngine, 'executeWorkflow'>
+  ) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+  }
+
+  /**
+   * Start competing for leadership and firing due schedules while leading
+   */
+  start(): void {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    const poll = async () => {
+      if (!this.isRunning) return;
+
+      try {
+        const { leaderTtlSeconds } = this.config;
+        if (
+          await this.stateManager.acquireLeadership(LEADER_ROLE, this.instanceId, leaderTtlSeconds)
+        ) {
+          await this.fireDueSchedules();
+        }
+      } catch (error) {
+        console.error('Error firing due schedules:', error);
+      }
+
+      // Schedule next run
+      setTimeout(poll, this.config.pollIntervalMs);
+    };
+
+    poll();
+  }
+
+  /**
+   * Stop firing schedules and hand leadership to another instance
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false;
+    await this.stateManager.releaseLeadership(LEADER_ROLE, this.instanceId);
+  }
+
+  async createSchedule(input: ScheduledWorkflowInput): Promise<ScheduledWorkflow> {
+    const schedule = {
+      timezone: 'UTC',
+      misfirePolicy: 'fire_once' as const,
+      variables: {},
+      isActive: true,
+      ...definedFields(input),
+    };
+    if (schedule.type === 'employee_date') {
+      schedule.offsetDays = schedule.offsetDays ?? 0;
+    }
+
+    const cron = await this.validateSchedule(schedule);
+    const entity = await this.scheduleRepo.create({
+      ...definedFields(mapScheduleToEntity(schedule)),
+      next_run_at: schedule.isActive ? cron.next(new Date(), schedule.timezone) : undefined,
+    } as Omit<WorkflowScheduleEntity, 'created_at' | 'updated_at'>);
+
+    console.log('Workflow schedule created:', {
+      scheduleId: entity.schedule_id,
+      workflowId: entity.workflow_id,
+      nextRunAt: entity.next_run_at,
+    });
+
+    return mapScheduleEntityToSchedule(entity);
+  }
+
+  /**
+   * Update a schedule. Its next run is recomputed from now, so changing the
+   * timing or re-activating a schedule never fires missed runs.
+   */
+  async updateSchedule(
+    scheduleId: UUID,
+    updates: Partial<ScheduledWorkflowInput>
+  ): Promise<ScheduledWorkflow | null> {
+    const existing = await this.scheduleRepo.findById(scheduleId);
+    if (!existing) {
+      return null;
+    }
+
+    // A schedule stays with its organization
+    const { organizationId: _organizationId, ...changes } = definedFields(updates);
+    const schedule = { ...mapScheduleEntityToSchedule(existing), ...changes };
+    if (schedule.type === 'employee_date') {
+      schedule.offsetDays = schedule.offsetDays ?? 0;
+    }
+
+    const cron = await this.validateSchedule(schedule);
+    const entity = await this.scheduleRepo.update(
+      scheduleId,
+      definedFields(
+        mapScheduleToEntity({
+          ...changes,
+          offsetDays: schedule.offsetDays,
+          nextRunTime: schedule.isActive ? cron.next(new Date(), schedule.timezone) : undefined,
+        })
+      )
+    );
+
+    return entity ? mapScheduleEntityToSchedule(entity) : null;
+  }
+
+  async deleteSchedule(scheduleId: UUID): Promise<boolean> {
+    return this.scheduleRepo.delete(scheduleId);
+  }
+
+  async getSchedule(scheduleId: UUID): Promise<ScheduledWorkflow | null> {
+    const entity = await this.scheduleRepo.findById(scheduleId);
+    return entity ? mapScheduleEntityToSchedule(entity) : null;
+  }
+
+  async getScheduledWorkflows(organizationId: UUID): Promise<ScheduledWorkflow[]> {
+    const entities = await this.scheduleRepo.findByOrganization(organizationId);
+    return entities.map(mapScheduleEntityToSchedule);
+  }
+
+  /**
+   * Fire every schedule that is due. Each fire first moves the schedule on to
+   * its next run, so a fire is taken at most once even if two instances briefly
+   * both believe they lead.
+   */
+  async fireDueSchedules(now: Date = new Date()): Promise<ScheduleFire[]> {
+    const fires: ScheduleFire[] = [];
+
+    for (const schedule of await this.scheduleRepo.findDue(now)) {
+      try {
+        const fire = await this.fireSchedule(schedule, now);
+        if (fire) {
+          fires.push(fire);
+        }
+      } catch (error) {
+        console.error(`Failed to fire schedule ${schedule.schedule_id}:`, error);
+      }
+    }
+
+    return fires;
+  }
+
+  /**
+   * Fire a due schedule. All fire times missed since it was due are handled
+   * together: the latest one fires normally if it is on time; earlier (or late)
+   * ones fire once or are skipped according to the misfire policy.
+   */
+  private async fireSchedule(
+    schedule: WorkflowScheduleEntity,
+    now: Date
+  ): Promise<ScheduleFire | null> {
+    const cron = CronExpression.parse(schedule.cron_expression);
+    const dueAt = schedule.next_run_at!;
+    const dueFires = this.getFireTimes(cron, schedule.timezone, dueAt, now);
+    const lastFire = dueFires[dueFires.length - 1];
+    const onTime = now.getTime() - lastFire.getTime() <= this.config.misfireThresholdMs;
+    const misfired = dueFires.length > 1 || !onTime;
+
+    const nextRunAt = cron.next(now, schedule.timezone);
+    if (!(await this.scheduleRepo.advance(schedule.schedule_id, dueAt, nextRunAt, lastFire))) {
+      return null;
+    }
+
+    const fire: ScheduleFire = {
+      scheduleId: schedule.schedule_id,
+      scheduledFor: lastFire,
+      misfired,
+      runIds: [],
+    };
+    const fireMissed = schedule.misfire_policy === 'fire_once';
+
+    if (misfired) {
+      console.warn(`Schedule ${schedule.schedule_id} misfired`, {
+        missedFires: onTime ? dueFires.length - 1 : dueFires.length,
+        misfirePolicy: schedule.misfire_policy,
+      });
+    }
+
+    if (schedule.schedule_type === 'cron') {
+      if (onTime || fireMissed) {
+        fire.runIds.push(await this.startRun(schedule, fire, ''));
+      }
+      return fire;
+    }
+
+    // Fires cover the days since the previous fire; skipped misfires count as covered
+    const coveredFire =
+      fireMissed || !misfired
+        ? schedule.last_run_at
+        : onTime
+          ? dueFires[dueFires.length - 2]
+          : lastFire;
+    const firstDay = coveredFire
+      ? addDays(toLocalDate(coveredFire, schedule.timezone), 1)
+      : toLocalDate(dueAt, schedule.timezone);
+    const lastDay = toLocalDate(lastFire, schedule.timezone);
+
+    if (firstDay <= lastDay) {
+      fire.runIds = await this.startEmployeeRuns(schedule, fire, firstDay, lastDay);
+    }
+    return fire;
+  }
+
+  /**
+   * Start one run per employee whose date falls on one of the fire days
+   */
+  private async startEmployeeRuns(
+    schedule: WorkflowScheduleEntity,
+    fire: ScheduleFire,
+    firstDay: string,
+    lastDay: string
+  ): Promise<UUID[]> {
+    const offsetDays = schedule.offset_days || 0;
+    const dateField = schedule.date_field!;
+    const employees = await this.employeeRepo.findByDateRange(
+      schedule.org_id,
+      dateField,
+      addDays(firstDay, -offsetDays),
+      addDays(lastDay, -offsetDays)
+    );
+
+    const runIds: UUID[] = [];
+    for (const employee of employees) {
+      try {
+        runIds.push(
+          await this.startRun(schedule, fire, employee.employee_id, {
+            dateField,
+            date: employee[dateField],
+            offsetDays,
+          })
+        );
+      } catch (error) {
+        console.error(
+          `Failed to start scheduled run of ${schedule.schedule_id} for employee ${employee.employee_id}:`,
+          error
+        );
+      }
+    }
+
+    return runIds;
+  }
+
+  private async startRun(
+    schedule: WorkflowScheduleEntity,
+    fire: ScheduleFire,
+    employeeId: UUID,
+    payload: Record<string, any> = {}
+  ): Promise<UUID> {
+    const triggerEvent = {
+      type: `schedule.${schedule.schedule_type}`,
+      organizationId: schedule.org_id,
+      employeeId,
+      timestamp: new Date(),
+      payload: {
+        scheduleId: schedule.schedule_id,
+        scheduleName: schedule.name,
+        scheduledFor: fire.scheduledFor.toISOString(),
+        misfired: fire.misfired,
+        ...payload,
+      },
+    };
+
+    const context = this.contextManager.createInitialContext(
+      schedule.org_id,
+      employeeId,
+      triggerEvent,
+      schedule.variables
+    );
+    const run = await this.engine.executeWorkflow(schedule.workflow_id, context);
+    return run.id;
+  }
+
+  /**
+   * Fire times from the due one up to now
+   */
+  private getFireTimes(cron: CronExpression, timeZone: string, dueAt: Date, now: Date): Date[] {
+    const fireTimes = [dueAt];
+    for (let fireTime = cron.next(dueAt, timeZone); fireTime <= now;) {
+      fireTimes.push(fireTime);
+      if (fireTimes.length >= MAX_MISSED_FIRES) {
+        break;
+      }
+      fireTime = cron.next(fireTime, timeZone);
+    }
+    return fireTimes;
+  }
+
+  /**
+   * Check a schedule before saving it and return its parsed cron expression
+   */
+  private async validateSchedule(schedule: ScheduledWorkflowInput): Promise<CronExpression> {
+    const issues: string[] = [];
+
+    if (!schedule.name?.trim()) {
+      issues.push('name is required');
+    }
+    if (schedule.type !== 'cron' && schedule.type !== 'employee_date') {
+      issues.push("type must be 'cron' or 'employee_date'");
+    }
+    if (!isValidTimeZone(schedule.timezone || 'UTC')) {
+      issues.push(`unknown time zone ${schedule.timezone}`);
+    }
+    if (schedule.misfirePolicy && !['fire_once', 'skip'].includes(schedule.misfirePolicy)) {
+      issues.push("misfirePolicy must be 'fire_once' or 'skip'");
+    }
+    if (schedule.type === 'employee_date') {
+      if (schedule.dateField !== 'hire_date' && schedule.dateField !== 'termination_date') {
+        issues.push("dateField must be 'hire_date' or 'termination_date'");
+      }
+      if (!Number.isInteger(schedule.offsetDays)) {
+        issues.push('offsetDays must be a whole number of days');
+      }
+    }
+
+    let cron: CronExpression | undefined;
+    try {
+      cron = CronExpression.parse(schedule.cronExpression || '');
+    } catch (error) {
+      issues.push(error instanceof Error ? error.message : String(error));
+    }
+
+    const workflow = await this.workflowRepo.findById(schedule.workflowId);
+    if (!workflow || workflow.org_id !== schedule.organizationId) {
+      issues.push(`workflow ${schedule.workflowId} not found`);
+    }
+
+    if (issues.length > 0 || !cron) {
+      throw new ScheduleError(`Invalid schedule: ${issues.join('; ')}`, 'INVALID_SCHEDULE');
+    }
+    return cron;
+  }
+}
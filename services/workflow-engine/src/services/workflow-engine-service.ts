@@ -2,8 +2,31 @@
  * Main workflow engine service implementation
  */
 
-import { UUID, WorkflowEngine, WorkflowRun, ExecutionContext } from '@officeflow/types';
-import { WorkflowRepository, WorkflowRunRepository, EmployeeRepository } from '@officeflow/types';
+import {
+  UUID,
+  WorkflowEngine,
+  WorkflowRun,
+  ExecutionContext,
+  RunEventActor,
+  WorkflowDefinition,
+  WorkflowEntity,
+  NodeType,
+} from '@officeflow/types';
+import {
+  WorkflowRepository,
+  WorkflowRunRepository,
+  NodeRunRepository,
+  EmployeeRepository,
+  OrganizationRepository,
+  WorkflowScheduleRepository,
+  RunEventRepository,
+  CompensationPlanRepository,
+  SlaRecordRepository,
+  OrganizationSecretRepository,
+  RunCompensationPlan,
+  ScheduledWorkflow,
+  ScheduledWorkflowInput,
+} from '@officeflow/types';
 import { OfficeFlowProducer, OfficeFlowConsumer } from '@officeflow/kafka';
 import {
   WorkflowOrchestrator,
@@ -11,15 +34,76 @@ import {
 } from '../orchestrator/workflow-orchestrator';
 import { RedisStateManager, StateManagerConfig } from '../state/redis-state-manager';
 import { RedisClusterManager } from '../state/redis-cluster-manager';
+import { RunEventLog, RunEventPage } from '../state/run-event-log';
 import { ExecutionContextManager } from '../execution/context-manager';
 import { NodeDispatcher, NodeExecutionResult } from '../execution/node-dispatcher';
+import { DebugOptions, RunDebugSession } from '../execution/run-debugger';
+import {
+  TenantScheduler,
+  TenantSchedulerConfig,
+  TenantSchedulingMetrics,
+} from '../execution/tenant-scheduler';
 import { WorkflowLoader } from '../orchestrator/workflow-loader';
-import { mapWorkflowRunEntityToRun } from '../utils/entity-mappers';
+import { ParsedWorkflow } from '../orchestrator/workflow-parser';
+import { matchesTriggerFilters, usesEmployeeFields } from '../orchestrator/trigger-filters';
+import { RunConflictError } from '../orchestrator/run-admission';
+import { ApprovalDecider, ApprovalDecision } from '../execution/approval-service';
+import { SignalInput, SignalDelivery, SignalError } from '../execution/signal-service';
+import { OrganizationSlaCompliance } from '../execution/sla-tracker';
+import { SecretVault, SecretSummary } from '../execution/secret-vault';
+import { RunMigrationResult } from '../orchestrator/run-migrator';
+import {
+  WorkflowSimulator,
+  SimulationError,
+  SimulationOptions,
+  SimulationResult,
+} from '../simulation/workflow-simulator';
+import {
+  WorkflowDocument,
+  WorkflowDocumentError,
+  WorkflowDocumentFormat,
+  WorkflowDiff,
+  toWorkflowDocument,
+  exportWorkflow,
+  importWorkflow,
+  parseWorkflowDocument,
+  toWorkflowDefinition,
+  diffWorkflows,
+  diffWorkflowDocuments,
+} from '../orchestrator/workflow-document';
+import { NodeSchemaRegistry } from '../orchestrator/node-schema-registry';
+import {
+  WorkflowTypeChecker,
+  WorkflowTypeCheckResult,
+} from '../orchestrator/workflow-type-checker';
+import { WorkflowSchedulerService, SchedulerConfig } from '../scheduling/workflow-scheduler';
+import { mapWorkflowEntityToDefinition, mapWorkflowRunEntityToRun } from '../utils/entity-mappers';
+
+export interface WorkflowRunTree extends WorkflowRun {
+  children: WorkflowRunTree[];
+}
+
+export interface WorkflowImportResult {
+  workflow: WorkflowDefinition;
+  created: boolean;
+  diff: WorkflowDiff | null; // changes to the existing workflow, null for new workflows
+}
+
+// A stored workflow version (latest when omitted) or a document
+export type WorkflowSource =
+  | { workflowId: UUID; version?: number }
+  | { document: string | Record<string, any>; format?: WorkflowDocumentFormat };
 
 export interface WorkflowEngineConfig {
   instanceId?: string;
   orchestrator: WorkflowOrchestratorConfig;
   stateManager: StateManagerConfig;
+  scheduler?: SchedulerConfig;
+  tenantScheduler?: TenantSchedulerConfig;
+  nodeSchemaEndpoints?: Partial<Record<NodeType, string>>; // executor /schema URLs by node type
+  secrets?: {
+    encryptionKey?: string; // master key the key of each organization's secrets derives from
+  };
   kafka: {
     brokers: string[];
     clientId: string;
@@ -33,7 +117,14 @@ export class WorkflowEngineService implements WorkflowEngine {
   private clusterManager!: RedisClusterManager;
   private contextManager!: ExecutionContextManager;
   private nodeDispatcher!: NodeDispatcher;
+  private secretVault!: SecretVault;
+  private tenantScheduler!: TenantScheduler;
+  private runEventLog!: RunEventLog;
   private workflowLoader!: WorkflowLoader;
+  private workflowSimulator!: WorkflowSimulator;
+  private nodeSchemas!: NodeSchemaRegistry;
+  private typeChecker!: WorkflowTypeChecker;
+  private scheduler!: WorkflowSchedulerService;
   private producer!: OfficeFlowProducer;
   private consumer!: OfficeFlowConsumer;
   private isRunning: boolean = false;
@@ -42,7 +133,14 @@ export class WorkflowEngineService implements WorkflowEngine {
     private config: WorkflowEngineConfig,
     private workflowRepo: WorkflowRepository,
     private workflowRunRepo: WorkflowRunRepository,
-    private _employeeRepo: EmployeeRepository
+    private employeeRepo: EmployeeRepository,
+    private nodeRunRepo: NodeRunRepository,
+    private scheduleRepo: WorkflowScheduleRepository,
+    private organizationRepo: OrganizationRepository,
+    private runEventRepo: RunEventRepository,
+    private compensationPlanRepo: CompensationPlanRepository,
+    private slaRecordRepo: SlaRecordRepository,
+    private organizationSecretRepo: OrganizationSecretRepository
   ) {
     this.initializeComponents();
   }
@@ -60,17 +158,51 @@ export class WorkflowEngineService implements WorkflowEngine {
     // Initialize context manager
     this.contextManager = new ExecutionContextManager(this.stateManager);
 
+    // Initialize run event log, which records what happens to runs for their timelines
+    this.runEventLog = new RunEventLog(this.runEventRepo);
+
     // Initialize workflow loader
     this.workflowLoader = new WorkflowLoader(this.workflowRepo);
 
+    // Initialize workflow simulator
+    this.workflowSimulator = new WorkflowSimulator(this.contextManager);
+
+    // Initialize type checker with the built-in node schemas until executor schemas load
+    this.nodeSchemas = new NodeSchemaRegistry();
+    this.typeChecker = new WorkflowTypeChecker(this.nodeSchemas);
+
     // Initialize Kafka producer
     this.producer = new OfficeFlowProducer({
       clientId: this.config.kafka.clientId,
       brokers: this.config.kafka.brokers,
     });
 
+    // Initialize tenant scheduler, which limits runs and node executions per organization
+    this.tenantScheduler = new TenantScheduler(
+      {
+        defaultNodeTimeoutMs: this.config.orchestrator.nodeExecutionTimeout,
+        ...this.config.tenantScheduler,
+      },
+      this.organizationRepo,
+      this.stateManager
+    );
+
+    // Initialize secret vault, which resolves secret references of nodes as they are dispatched
+    this.secretVault = new SecretVault(
+      this.organizationSecretRepo,
+      this.config.secrets?.encryptionKey
+    );
+
     // Initialize node dispatcher
-    this.nodeDispatcher = new NodeDispatcher(this.producer, this.contextManager, this.stateManager);
+    this.nodeDispatcher = new NodeDispatcher(
+      this.producer,
+      this.contextManager,
+      this.stateManager,
+      this.tenantScheduler,
+      this.runEventLog,
+      this.secretVault,
+      this.config.orchestrator.nodeExecutionTimeout
+    );
 
     // Initialize orchestrator
     this.orchestrator = new WorkflowOrchestrator(
@@ -80,7 +212,25 @@ export class WorkflowEngineService implements WorkflowEngine {
       this.stateManager,
       this.contextManager,
       this.nodeDispatcher,
-      this.producer
+      this.producer,
+      this.nodeRunRepo,
+      this.employeeRepo,
+      this.tenantScheduler,
+      this.runEventLog,
+      this.compensationPlanRepo,
+      this.slaRecordRepo
+    );
+
+    // Initialize scheduler, which starts scheduled runs through this service
+    this.scheduler = new WorkflowSchedulerService(
+      this.config.scheduler || {},
+      this.config.orchestrator.instanceId,
+      this.scheduleRepo,
+      this.workflowRepo,
+      this.employeeRepo,
+      this.stateManager,
+      this.contextManager,
+      this
     );
 
     // Initialize Kafka consumer
@@ -119,6 +269,7 @@ export class WorkflowEngineService implements WorkflowEngine {
           'workflow.run.pause',
           'workflow.run.resume',
           'workflow.run.cancel',
+          'workflow.signal',
           'node.execute.result',
         ],
       });
@@ -126,12 +277,21 @@ export class WorkflowEngineService implements WorkflowEngine {
       // Start consumer
       await this.consumer.run();
 
+      // Load node schemas from the executors that serve them
+      await this.nodeSchemas.loadExecutorSchemas(this.config.nodeSchemaEndpoints || {});
+
       // Start orchestrator
       await this.orchestrator.start();
 
+      // Start retrying node executions throttled for their organization
+      this.tenantScheduler.start();
+
       // Start workflow loader cache cleanup
       this.workflowLoader.startCacheCleanup();
 
+      // Start firing scheduled workflows when this instance leads the scheduler
+      this.scheduler.start();
+
       this.isRunning = true;
       console.log('Workflow Engine Service started successfully');
     } catch (error) {
@@ -151,8 +311,12 @@ export class WorkflowEngineService implements WorkflowEngine {
     console.log('Stopping Workflow Engine Service...');
 
     try {
+      // Stop scheduler
+      await this.scheduler.stop();
+
       // Stop orchestrator
       await this.orchestrator.stop();
+      this.tenantScheduler.stop();
 
       // Disconnect from Kafka
       await this.consumer.disconnect();
@@ -170,9 +334,9 @@ export class WorkflowEngineService implements WorkflowEngine {
   }
 
   /**
-   * Process lifecycle event and trigger workflows
+   * Process lifecycle event and start a run of every workflow whose trigger filters match
    */
-  async processLifecycleEvent(event: any): Promise<WorkflowRun> {
+  async processLifecycleEvent(event: any): Promise<WorkflowRun[]> {
     console.log('Processing lifecycle event:', {
       type: event.type,
       organizationId: event.organizationId,
@@ -189,20 +353,52 @@ export class WorkflowEngineService implements WorkflowEngine {
       throw new Error(`No active workflows found for event type: ${event.type}`);
     }
 
-    // For now, execute the first workflow
-    // In production, you might want to execute all matching workflows
-    const workflow = parsedWorkflows[0].definition;
-
-    // Create execution context
-    const context = this.contextManager.createInitialContext(
-      event.organizationId,
-      event.employeeId,
-      event,
-      {} // Additional workflow variables
+    // Narrow down to the workflows whose trigger filters match the event
+    const filtersOf = (workflow: ParsedWorkflow) =>
+      workflow.definition.definition.metadata?.triggerFilters;
+    const employee = parsedWorkflows.some((workflow) => usesEmployeeFields(filtersOf(workflow)))
+      ? await this.employeeRepo.findById(event.employeeId)
+      : null;
+    const matchingWorkflows = parsedWorkflows.filter((workflow) =>
+      matchesTriggerFilters(filtersOf(workflow), event, employee)
     );
 
-    // Execute workflow
-    return this.executeWorkflow(workflow.id, context);
+    if (matchingWorkflows.length === 0) {
+      console.log(`No workflow trigger filters matched event type: ${event.type}`);
+      return [];
+    }
+
+    const runs: WorkflowRun[] = [];
+    let firstError: unknown;
+
+    for (const { definition: workflow } of matchingWorkflows) {
+      // Create execution context
+      const context = this.contextManager.createInitialContext(
+        event.organizationId,
+        event.employeeId,
+        event,
+        {} // Additional workflow variables
+      );
+
+      try {
+        runs.push(await this.executeWorkflow(workflow.id, context));
+      } catch (error) {
+        // Duplicate deliveries and runs held back by the concurrency policy are expected
+        if (error instanceof RunConflictError) {
+          console.log(`Skipped workflow ${workflow.id} for event ${event.type}: ${error.message}`);
+          continue;
+        }
+        console.error(`Failed to start workflow ${workflow.id} for event ${event.type}:`, error);
+        firstError = firstError || error;
+      }
+    }
+
+    // Only fail the event when no run started, so a redelivery doesn't duplicate runs
+    if (runs.length === 0 && firstError) {
+      throw firstError;
+    }
+
+    return runs;
   }
 
   /**
@@ -218,28 +414,342 @@ export class WorkflowEngineService implements WorkflowEngine {
     return this.orchestrator.executeWorkflow(workflowId, context);
   }
 
+  /**
+   * Start a debug run of a workflow, which pauses before its breakpoint nodes
+   */
+  async debugWorkflow(
+    workflowId: UUID,
+    context: ExecutionContext,
+    options: DebugOptions
+  ): Promise<WorkflowRun> {
+    console.log('Debugging workflow:', { workflowId, ...options });
+    return this.orchestrator.debugWorkflow(workflowId, context, options);
+  }
+
+  /**
+   * Get the debug session of a debug run
+   */
+  async getDebugSession(runId: UUID): Promise<RunDebugSession> {
+    return this.orchestrator.getDebugSession(runId);
+  }
+
+  /**
+   * Replace the breakpoints of a debug run
+   */
+  async setDebugBreakpoints(runId: UUID, nodeIds: UUID[]): Promise<RunDebugSession> {
+    return this.orchestrator.setDebugBreakpoints(runId, nodeIds);
+  }
+
+  /**
+   * Edit context variables of a paused debug run
+   */
+  async updateDebugVariables(
+    runId: UUID,
+    variables: Record<string, any>,
+    actor?: RunEventActor
+  ): Promise<RunDebugSession> {
+    console.log('Editing debug run variables:', { runId, variables: Object.keys(variables) });
+    return this.orchestrator.updateDebugVariables(runId, variables, actor);
+  }
+
+  /**
+   * Run the nodes a debug run paused before, then pause before the next nodes
+   */
+  async stepDebugRun(runId: UUID, actor?: RunEventActor): Promise<RunDebugSession> {
+    console.log('Stepping debug run:', runId);
+    return this.orchestrator.stepDebugRun(runId, actor);
+  }
+
+  /**
+   * Continue a debug run until its next breakpoint
+   */
+  async continueDebugRun(runId: UUID, actor?: RunEventActor): Promise<RunDebugSession> {
+    console.log('Continuing debug run:', runId);
+    return this.orchestrator.continueDebugRun(runId, actor);
+  }
+
   /**
    * Pause workflow execution
    */
-  async pauseWorkflow(runId: UUID): Promise<void> {
+  async pauseWorkflow(runId: UUID, actor?: RunEventActor): Promise<void> {
     console.log('Pausing workflow:', runId);
-    return this.orchestrator.pauseWorkflow(runId);
+    return this.orchestrator.pauseWorkflow(runId, actor);
   }
 
   /**
    * Resume workflow execution
    */
-  async resumeWorkflow(runId: UUID): Promise<void> {
+  async resumeWorkflow(runId: UUID, actor?: RunEventActor): Promise<void> {
     console.log('Resuming workflow:', runId);
-    return this.orchestrator.resumeWorkflow(runId);
+    return this.orchestrator.resumeWorkflow(runId, actor);
   }
 
   /**
    * Cancel workflow execution
    */
-  async cancelWorkflow(runId: UUID): Promise<void> {
+  async cancelWorkflow(runId: UUID, actor?: RunEventActor): Promise<void> {
     console.log('Cancelling workflow:', runId);
-    return this.orchestrator.cancelWorkflow(runId);
+    return this.orchestrator.cancelWorkflow(runId, actor);
+  }
+
+  /**
+   * Re-run a failed workflow run from a node, or from all of its failed nodes
+   */
+  async rerunWorkflow(runId: UUID, fromNodeId?: UUID): Promise<WorkflowRun> {
+    console.log('Re-running workflow run:', { runId, fromNodeId });
+    return this.orchestrator.rerunWorkflow(runId, fromNodeId);
+  }
+
+  /**
+   * Migrate a paused run to another version of its workflow
+   */
+  async migrateRun(
+    runId: UUID,
+    toVersion: number,
+    nodeMapping?: Record<UUID, UUID>,
+    dryRun?: boolean
+  ): Promise<RunMigrationResult> {
+    console.log('Migrating workflow run:', { runId, toVersion, dryRun });
+    return this.orchestrator.migrateRun(runId, toVersion, nodeMapping, dryRun);
+  }
+
+  /**
+   * Get the compensation plan of a run, with the status of its steps
+   */
+  async getCompensationPlan(runId: UUID): Promise<RunCompensationPlan | null> {
+    return this.orchestrator.getCompensationPlan(runId);
+  }
+
+  /**
+   * Compensate a completed run, for example when the change it made was rescinded
+   */
+  async compensateRun(
+    runId: UUID,
+    reason: string,
+    actor?: RunEventActor
+  ): Promise<RunCompensationPlan> {
+    console.log('Compensating workflow run:', { runId, reason });
+    return this.orchestrator.compensateRun(runId, reason, actor);
+  }
+
+  /**
+   * Retry a failed compensation step of a run
+   */
+  async retryCompensationStep(
+    runId: UUID,
+    nodeId: UUID,
+    actor?: RunEventActor
+  ): Promise<RunCompensationPlan> {
+    console.log('Retrying compensation step:', { runId, nodeId });
+    return this.orchestrator.retryCompensationStep(runId, nodeId, actor);
+  }
+
+  /**
+   * Skip a failed or pending compensation step of a run
+   */
+  async skipCompensationStep(
+    runId: UUID,
+    nodeId: UUID,
+    justification: string,
+    actor?: RunEventActor
+  ): Promise<RunCompensationPlan> {
+    console.log('Skipping compensation step:', { runId, nodeId, justification });
+    return this.orchestrator.skipCompensationStep(runId, nodeId, justification, actor);
+  }
+
+  /**
+   * Dry-run a workflow, active or not, against a sample event without executing any node
+   */
+  async simulateWorkflow(workflowId: UUID, options: SimulationOptions): Promise<SimulationResult> {
+    const entity = await this.workflowRepo.findById(workflowId);
+    if (!entity) {
+      throw new SimulationError(`Workflow not found: ${workflowId}`, 'NOT_FOUND');
+    }
+
+    console.log('Simulating workflow:', { workflowId, eventType: options.triggerEvent.type });
+    return this.workflowSimulator.simulate(mapWorkflowEntityToDefinition(entity), options);
+  }
+
+  /**
+   * Get a workflow, or one of its versions, as a workflow document
+   */
+  async getWorkflowDocument(workflowId: UUID, version?: number): Promise<WorkflowDocument> {
+    return toWorkflowDocument(await this.getWorkflowDefinition(workflowId, version));
+  }
+
+  /**
+   * Export a workflow, or one of its versions, as a YAML or JSON document
+   */
+  async exportWorkflow(
+    workflowId: UUID,
+    format: WorkflowDocumentFormat,
+    version?: number
+  ): Promise<string> {
+    return exportWorkflow(await this.getWorkflowDefinition(workflowId, version), format);
+  }
+
+  /**
+   * Create a workflow from a document, or update an existing one to match it.
+   * A document without changes doesn't create a new version.
+   */
+  async importWorkflow(
+    source: string | Record<string, any>,
+    format: WorkflowDocumentFormat,
+    target: { organizationId: UUID; createdBy?: UUID; workflowId?: UUID }
+  ): Promise<WorkflowImportResult> {
+    let current: WorkflowDefinition | undefined;
+    if (target.workflowId) {
+      current = await this.getWorkflowDefinition(target.workflowId);
+      // Workflows of other organizations are reported as not found
+      if (current.organizationId !== target.organizationId) {
+        throw new WorkflowDocumentError(`Workflow not found: ${target.workflowId}`, 'NOT_FOUND');
+      }
+    }
+
+    const imported = importWorkflow(source, format, {
+      organizationId: target.organizationId,
+      createdBy: target.createdBy || current?.createdBy || '',
+      current,
+    });
+
+    if (!current) {
+      const entity = await this.workflowRepo.create({
+        org_id: imported.organizationId,
+        name: imported.name,
+        description: imported.description,
+        event_trigger: imported.eventTrigger,
+        version: 1,
+        is_active: false,
+        definition: imported.definition,
+        created_by: target.createdBy,
+      } as Omit<WorkflowEntity, 'created_at' | 'updated_at'>);
+
+      console.log('Workflow imported:', { workflowId: entity.workflow_id });
+      return { workflow: mapWorkflowEntityToDefinition(entity), created: true, diff: null };
+    }
+
+    const diff = diffWorkflows(current, imported);
+    if (diff.identical) {
+      return { workflow: current, created: false, diff };
+    }
+
+    const workflow = await this.workflowLoader.createWorkflowVersion(
+      current.id,
+      imported,
+      target.createdBy
+    );
+    console.log('Workflow imported:', { workflowId: workflow.id, version: workflow.version });
+    return { workflow, created: false, diff };
+  }
+
+  /**
+   * Compare two workflow documents, stored workflow versions or one of each
+   */
+  async diffWorkflows(before: WorkflowSource, after: WorkflowSource): Promise<WorkflowDiff> {
+    const [beforeDocument, afterDocument] = await Promise.all(
+      [before, after].map((source) =>
+        'workflowId' in source
+          ? this.getWorkflowDocument(source.workflowId, source.version)
+          : parseWorkflowDocument(source.document, source.format)
+      )
+    );
+
+    return diffWorkflowDocuments(beforeDocument, afterDocument);
+  }
+
+  /**
+   * Type-check a stored workflow version or a document against the node schemas
+   */
+  async typeCheckWorkflow(source: WorkflowSource): Promise<WorkflowTypeCheckResult> {
+    const workflow =
+      'workflowId' in source
+        ? await this.getWorkflowDefinition(source.workflowId, source.version)
+        : toWorkflowDefinition(parseWorkflowDocument(source.document, source.format), {
+            organizationId: '',
+            createdBy: '',
+          });
+
+    return this.typeChecker.check(workflow);
+  }
+
+  private async getWorkflowDefinition(
+    workflowId: UUID,
+    version?: number
+  ): Promise<WorkflowDefinition> {
+    const workflow = await this.workflowLoader.getWorkflowDefinition(workflowId, version);
+    if (!workflow) {
+      throw new WorkflowDocumentError(
+        version
+          ? `Workflow version not found: ${workflowId} v${version}`
+          : `Workflow not found: ${workflowId}`,
+        'NOT_FOUND'
+      );
+    }
+
+    return workflow;
+  }
+
+  /**
+   * Create a cron or employee-date schedule for a workflow
+   */
+  async createSchedule(input: ScheduledWorkflowInput): Promise<ScheduledWorkflow> {
+    return this.scheduler.createSchedule(input);
+  }
+
+  /**
+   * Update a schedule
+   */
+  async updateSchedule(
+    scheduleId: UUID,
+    updates: Partial<ScheduledWorkflowInput>
+  ): Promise<ScheduledWorkflow | null> {
+    return this.scheduler.updateSchedule(scheduleId, updates);
+  }
+
+  /**
+   * Delete a schedule
+   */
+  async deleteSchedule(scheduleId: UUID): Promise<boolean> {
+    return this.scheduler.deleteSchedule(scheduleId);
+  }
+
+  /**
+   * Get a schedule
+   */
+  async getSchedule(scheduleId: UUID): Promise<ScheduledWorkflow | null> {
+    return this.scheduler.getSchedule(scheduleId);
+  }
+
+  /**
+   * Get the schedules of an organization
+   */
+  async getSchedules(organizationId: UUID): Promise<ScheduledWorkflow[]> {
+    return this.scheduler.getScheduledWorkflows(organizationId);
+  }
+
+  /**
+   * Approve or reject a waiting approval node
+   */
+  async submitApprovalDecision(
+    runId: UUID,
+    nodeId: UUID,
+    decision: ApprovalDecision,
+    decider: ApprovalDecider,
+    comment?: string
+  ): Promise<Record<string, any>> {
+    console.log(`Recording approval decision (${decision}):`, {
+      runId,
+      nodeId,
+      userId: decider.userId,
+    });
+    return this.orchestrator.submitApprovalDecision(runId, nodeId, decision, decider, comment);
+  }
+
+  /**
+   * Deliver an external signal to the wait_for_event nodes waiting for it
+   */
+  async receiveSignal(signal: SignalInput): Promise<SignalDelivery> {
+    return this.orchestrator.receiveSignal(signal);
   }
 
   /**
@@ -250,6 +760,32 @@ export class WorkflowEngineService implements WorkflowEngine {
     return entity ? mapWorkflowRunEntityToRun(entity) : null;
   }
 
+  /**
+   * Get a workflow run with its sub-workflow runs nested under their parents
+   */
+  async getWorkflowRunTree(runId: UUID): Promise<WorkflowRunTree | null> {
+    const entities = await this.workflowRunRepo.findRunTree(runId);
+    const nodes = new Map<UUID, WorkflowRunTree>();
+    for (const entity of entities) {
+      nodes.set(entity.run_id, { ...mapWorkflowRunEntityToRun(entity), children: [] });
+    }
+
+    for (const node of nodes.values()) {
+      if (node.id !== runId && node.parentRunId) {
+        nodes.get(node.parentRunId)?.children.push(node);
+      }
+    }
+
+    return nodes.get(runId) || null;
+  }
+
+  /**
+   * Get a page of a run's event log, oldest first
+   */
+  async getRunEvents(runId: UUID, after?: number, limit?: number): Promise<RunEventPage> {
+    return this.runEventLog.getEvents(runId, after, limit);
+  }
+
   /**
    * Get workflow run history
    */
@@ -330,17 +866,65 @@ export class WorkflowEngineService implements WorkflowEngine {
       }
     });
 
+    // Handle signals from outside OfficeFlow for waiting wait_for_event nodes
+    this.consumer.registerHandler('workflow.signal', async (message, _context) => {
+      try {
+        await this.receiveSignal(message.payload as SignalInput);
+      } catch (error) {
+        // Redelivering a malformed signal would fail the same way
+        if (error instanceof SignalError) {
+          console.warn(`Dropped invalid signal: ${error.message}`);
+          return;
+        }
+        console.error('Failed to receive signal:', error);
+        throw error;
+      }
+    });
+
     // Handle node execution results
     this.consumer.registerHandler('node.execute.result', async (message, _context) => {
       try {
-        const result = message.payload as NodeExecutionResult;
+        const received = message.payload as NodeExecutionResult;
+
+        // Free the slot of the attempt first, so the nodes it unblocks can take it
+        await this.nodeDispatcher.releaseNodeSlot(
+          received.runId,
+          received.nodeId,
+          received.metadata.attempt
+        );
+
+        // Secrets the executor echoed back never reach the state, logs or later nodes
+        const nodeState = await this.stateManager.getNodeState(received.runId, received.nodeId);
+        const result = await this.nodeDispatcher.redactResult(received, nodeState);
+
+        // Ignore results of attempts that are no longer running, e.g. timed out or cancelled
+        const isLate =
+          nodeState?.status !== 'RUNNING' || nodeState.attempt !== result.metadata.attempt;
+        await this.runEventLog.record(result.runId, {
+          type: 'node.result',
+          nodeId: result.nodeId,
+          attempt: result.metadata.attempt,
+          data: {
+            status: result.status,
+            error: result.error,
+            executionTimeMs: result.metadata.executionTimeMs,
+            ignored: isLate || undefined,
+          },
+        });
+        if (isLate) {
+          console.warn(
+            `Ignoring late result for node ${result.runId}:${result.nodeId} (attempt ${result.metadata.attempt})`
+          );
+          return;
+        }
 
         // Handle result based on status
         if (result.status === 'success') {
           await this.orchestrator.handleNodeCompletion(
             result.runId,
             result.nodeId,
-            result.output || {}
+            result.output || {},
+            result.metadata.attempt
           );
         } else {
           await this.orchestrator.handleNodeFailure(
@@ -392,6 +976,7 @@ export class WorkflowEngineService implements WorkflowEngine {
       const workflowStats = await this.stateManager.getWorkflowStats();
       metrics.activeWorkflows = workflowStats.totalActiveWorkflows;
       metrics.scheduledRetries = workflowStats.totalScheduledRetries;
+      metrics.scheduledTimers = workflowStats.totalScheduledTimers;
       metrics.queuedNodes = Object.values(workflowStats.nodeStatusCounts).reduce(
         (sum, count) => sum + count,
         0
@@ -475,6 +1060,46 @@ export class WorkflowEngineService implements WorkflowEngine {
     return this.clusterManager.getPerformanceMetrics();
   }
 
+  /**
+   * Get queue depths and throttling of the per-organization execution limits
+   */
+  async getSchedulingMetrics(): Promise<TenantSchedulingMetrics> {
+    return this.tenantScheduler.getMetrics();
+  }
+
+  /**
+   * Get SLA compliance per organization and workflow, for SLAs started since a time
+   */
+  async getSlaCompliance(since: Date, orgId?: UUID): Promise<OrganizationSlaCompliance[]> {
+    return this.orchestrator.getSlaCompliance(since, orgId);
+  }
+
+  /**
+   * List the secrets of an organization, without their values
+   */
+  async listSecrets(orgId: UUID): Promise<SecretSummary[]> {
+    return this.secretVault.listSecrets(orgId);
+  }
+
+  /**
+   * Store a secret of an organization for nodes to reference as {{secret:<name>}}
+   */
+  async setSecret(
+    orgId: UUID,
+    name: string,
+    value: string,
+    createdBy?: UUID
+  ): Promise<SecretSummary> {
+    return this.secretVault.setSecret(orgId, name, value, createdBy);
+  }
+
+  /**
+   * Delete a secret of an organization
+   */
+  async deleteSecret(orgId: UUID, name: string): Promise<void> {
+    await this.secretVault.deleteSecret(orgId, name);
+  }
+
   /**
    * Perform maintenance operations
    */
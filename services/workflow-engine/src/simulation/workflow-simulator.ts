@@ -0,0 +1,189 @@
+/**
+ * Dry runs of workflows against a sample lifecycle event. Branching, context
+ * resolution and conditions use the same code as real runs; node executors are
+ * replaced by simulated outputs.
+ */
+
+import { UUID, NodeType, WorkflowDefinition } from '@officeflow/types';
+import { ExecutionContextManager } from '../execution/context-manager';
+import { NodeEvaluator, NodeOutputs } from '../execution/node-evaluator';
+import {
+  WorkflowParser,
+  ParsedWorkflow,
+  WorkflowValidationError,
+} from '../orchestrator/workflow-parser';
+import { NodeSimulator, SimulatedOutputSource } from './node-simulator';
+
+export class SimulationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND'
+  ) {
+    super(message);
+    this.name = 'SimulationError';
+  }
+}
+
+export interface SimulationOptions {
+  organizationId: UUID;
+  employeeId: UUID;
+  triggerEvent: Record<string, any>;
+  variables?: Record<string, any>;
+  stubs?: Record<string, Record<string, any>>; // node ID or name -> output
+}
+
+export interface SimulatedNode {
+  nodeId: UUID;
+  name: string;
+  type: NodeType;
+  input: Record<string, any>;
+  output?: Record<string, any>;
+  outputSource?: SimulatedOutputSource;
+  error?: string;
+}
+
+export interface SimulationResult {
+  workflowId: UUID;
+  status: 'COMPLETED' | 'FAILED' | 'INVALID';
+  path: UUID[]; // nodes in the order they would run
+  nodes: SimulatedNode[];
+  skipped: Array<{ nodeId: UUID; name: string }>;
+  validationErrors: WorkflowValidationError[];
+}
+
+export class WorkflowSimulator {
+  private nodeEvaluator: NodeEvaluator;
+
+  constructor(
+    private contextManager: ExecutionContextManager,
+    private nodeSimulator: NodeSimulator = new NodeSimulator()
+  ) {
+    this.nodeEvaluator = new NodeEvaluator(contextManager);
+  }
+
+  /**
+   * Simulate a workflow. Invalid workflows are reported without running them;
+   * a node whose input cannot be resolved fails the simulation at that node.
+   */
+  simulate(workflow: WorkflowDefinition, options: SimulationOptions): SimulationResult {
+    const result: SimulationResult = {
+      workflowId: workflow.id,
+      status: 'COMPLETED',
+      path: [],
+      nodes: [],
+      skipped: [],
+      validationErrors: WorkflowParser.validateWorkflowDefinition(workflow),
+    };
+
+    let parsedWorkflow: ParsedWorkflow;
+    try {
+      parsedWorkflow = WorkflowParser.parseWorkflow(workflow);
+    } catch (error) {
+      if (result.validationErrors.length === 0) {
+        result.validationErrors.push({
+          code: 'INVALID_WORKFLOW',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      result.status = 'INVALID';
+      return result;
+    }
+
+    const stubs = options.stubs || {};
+    result.validationErrors.push(...this.validateStubs(parsedWorkflow, stubs));
+
+    let context = this.contextManager.createInitialContext(
+      options.organizationId,
+      options.employeeId,
+      options.triggerEvent,
+      options.variables
+    );
+    const completedNodes = new Set<UUID>();
+    const failedNodes = new Set<UUID>();
+    const skippedNodes = new Set<UUID>();
+    const nodeOutputs: NodeOutputs = {};
+
+    for (;;) {
+      const { eligible, skipped } = WorkflowParser.resolveBranches(
+        parsedWorkflow,
+        completedNodes,
+        failedNodes,
+        new Set(),
+        skippedNodes,
+        (edge) => this.nodeEvaluator.isEdgeTaken(edge, context, nodeOutputs, parsedWorkflow),
+        (node) => this.nodeEvaluator.shouldRunNode(node, context)
+      );
+
+      for (const node of skipped) {
+        skippedNodes.add(node.id);
+        result.skipped.push({ nodeId: node.id, name: node.name });
+      }
+
+      if (eligible.length === 0) {
+        break;
+      }
+
+      // Eligible nodes are dispatched together, so they all see the same context
+      const dispatchContext = context;
+      for (const node of eligible) {
+        const simulated: SimulatedNode = {
+          nodeId: node.id,
+          name: node.name,
+          type: node.type,
+          input: {},
+        };
+        result.path.push(node.id);
+        result.nodes.push(simulated);
+
+        try {
+          simulated.input = this.nodeEvaluator.prepareNodeInput(
+            parsedWorkflow,
+            node,
+            dispatchContext,
+            nodeOutputs
+          );
+        } catch (error) {
+          simulated.error = error instanceof Error ? error.message : String(error);
+          failedNodes.add(node.id);
+          continue;
+        }
+
+        const { output, source } = this.nodeSimulator.simulate(node, stubs);
+        simulated.output = output;
+        simulated.outputSource = source;
+        completedNodes.add(node.id);
+        nodeOutputs[node.id] = output;
+        context = this.contextManager.updateContextWithNodeOutput(
+          context,
+          node.id,
+          node.name,
+          output
+        );
+      }
+    }
+
+    result.status = failedNodes.size > 0 ? 'FAILED' : 'COMPLETED';
+    return result;
+  }
+
+  /**
+   * Stubs must name a node of the workflow, or they would silently never apply
+   */
+  private validateStubs(
+    parsedWorkflow: ParsedWorkflow,
+    stubs: Record<string, Record<string, any>>
+  ): WorkflowValidationError[] {
+    const nodeRefs = new Set<string>();
+    for (const node of parsedWorkflow.nodeMap.values()) {
+      nodeRefs.add(node.id);
+      nodeRefs.add(node.name);
+    }
+
+    return Object.keys(stubs)
+      .filter((ref) => !nodeRefs.has(ref))
+      .map((ref) => ({
+        code: 'UNKNOWN_STUB_NODE',
+        message: `Stub '${ref}' does not match any node ID or name`,
+      }));
+  }
+}
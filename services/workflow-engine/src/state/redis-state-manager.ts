@@ -5,6 +5,7 @@
 import Redis, { Cluster } from 'ioredis';
 import { UUID } from '@officeflow/types';
 import { WorkflowState, NodeState } from '../types/workflow-state';
+import type { WorkflowSignal } from '../execution/signal-service';
 // Local RedisError class to avoid import issues
 class RedisError extends Error {
   constructor(operation: string, reason: string) {
@@ -13,6 +14,10 @@ class RedisError extends Error {
   }
 }
 
+// Runs and node executions are limited per organization through slots
+export type TenantSlotKind = 'runs' | 'nodes';
+export type TenantSlotResult = 'acquired' | 'tenant_full' | 'engine_full';
+
 export interface StateManagerConfig {
   redis: {
     host: string;
@@ -142,7 +147,14 @@ export class RedisStateManager {
         skippedNodes: Array.from(state.skippedNodes),
       };
 
-      await this.redis.setex(key, this.ttl.workflowState, JSON.stringify(serializable));
+      const pendingTimerTimes = [
+        ...Object.values(state.pendingTimers || {}),
+        ...Object.values(state.pendingApprovals || {}).map((approval) => approval.expiresAt),
+        ...Object.values(state.pendingSignals || {}).map((signal) => signal.expiresAt),
+      ].map((fireAt) => new Date(fireAt).getTime());
+      const ttl = this.getTtlCoveringTimers(this.ttl.workflowState, pendingTimerTimes);
+
+      await this.redis.setex(key, ttl, JSON.stringify(serializable));
     } catch (error) {
       console.error('Failed to set workflow state:', error);
       throw error;
@@ -167,6 +179,7 @@ export class RedisStateManager {
         startedAt: parsed.startedAt ? new Date(parsed.startedAt) : undefined,
         endedAt: parsed.endedAt ? new Date(parsed.endedAt) : undefined,
         nextRetryAt: parsed.nextRetryAt ? new Date(parsed.nextRetryAt) : undefined,
+        wakeAt: parsed.wakeAt ? new Date(parsed.wakeAt) : undefined,
       };
     } catch (error) {
       console.error('Failed to get node state:', error);
@@ -181,7 +194,12 @@ export class RedisStateManager {
     try {
       const key = this.getNodeStateKey(state.runId, state.nodeId);
 
-      await this.redis.setex(key, this.ttl.nodeState, JSON.stringify(state));
+      const ttl = this.getTtlCoveringTimers(
+        this.ttl.nodeState,
+        state.wakeAt ? [new Date(state.wakeAt).getTime()] : []
+      );
+
+      await this.redis.setex(key, ttl, JSON.stringify(state));
     } catch (error) {
       console.error('Failed to set node state:', error);
       throw error;
@@ -214,6 +232,7 @@ export class RedisStateManager {
             startedAt: parsed.startedAt ? new Date(parsed.startedAt) : undefined,
             endedAt: parsed.endedAt ? new Date(parsed.endedAt) : undefined,
             nextRetryAt: parsed.nextRetryAt ? new Date(parsed.nextRetryAt) : undefined,
+            wakeAt: parsed.wakeAt ? new Date(parsed.wakeAt) : undefined,
           };
         });
     } catch (error) {
@@ -261,6 +280,366 @@ export class RedisStateManager {
     }
   }
 
+  /**
+   * Get the current holder of a workflow lock
+   */
+  async getLockHolder(runId: UUID): Promise<string | null> {
+    try {
+      return await this.redis.get(this.getLockKey(runId));
+    } catch (error) {
+      console.error('Failed to get lock holder:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Extend a workflow lock that is still held by the given holder
+   */
+  async renewLock(runId: UUID, lockHolder: string): Promise<boolean> {
+    try {
+      const script = `
+        if redis.call("GET", KEYS[1]) == ARGV[1] then
+          return redis.call("EXPIRE", KEYS[1], ARGV[2])
+        else
+          return 0
+        end
+      `;
+
+      const result = await this.redis.eval(
+        script,
+        1,
+        this.getLockKey(runId),
+        lockHolder,
+        this.ttl.lockTimeout
+      );
+      return result === 1;
+    } catch (error) {
+      console.error('Failed to renew lock:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Take over a workflow lock from a previous holder, or claim it when it has
+   * expired (previousHolder null). Fails if anyone else got there first.
+   */
+  async takeOverLock(
+    runId: UUID,
+    previousHolder: string | null,
+    lockHolder: string
+  ): Promise<boolean> {
+    try {
+      const script = `
+        local current = redis.call("GET", KEYS[1])
+        if (current == false and ARGV[1] == "") or current == ARGV[1] then
+          redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+          return 1
+        else
+          return 0
+        end
+      `;
+
+      const result = await this.redis.eval(
+        script,
+        1,
+        this.getLockKey(runId),
+        previousHolder || '',
+        lockHolder,
+        this.ttl.lockTimeout
+      );
+      return result === 1;
+    } catch (error) {
+      console.error('Failed to take over lock:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Become or stay the leader for a role. Leadership lapses unless the leader
+   * renews it within ttlSeconds.
+   */
+  async acquireLeadership(role: string, holder: string, ttlSeconds: number): Promise<boolean> {
+    try {
+      const script = `
+        if redis.call("GET", KEYS[1]) == ARGV[1] then
+          return redis.call("EXPIRE", KEYS[1], ARGV[2])
+        elseif redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[2], "NX") then
+          return 1
+        else
+          return 0
+        end
+      `;
+
+      const result = await this.redis.eval(script, 1, this.getLeaderKey(role), holder, ttlSeconds);
+      return result === 1;
+    } catch (error) {
+      console.error('Failed to acquire leadership:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Step down as leader for a role so another instance can take over right away
+   */
+  async releaseLeadership(role: string, holder: string): Promise<void> {
+    try {
+      const script = `
+        if redis.call("GET", KEYS[1]) == ARGV[1] then
+          return redis.call("DEL", KEYS[1])
+        else
+          return 0
+        end
+      `;
+
+      await this.redis.eval(script, 1, this.getLeaderKey(role), holder);
+    } catch (error) {
+      console.error('Failed to release leadership:', error);
+    }
+  }
+
+  /**
+   * Claim a run dedupe key for a run. Returns the run already holding the key,
+   * or null once the key is claimed.
+   */
+  async claimDedupeKey(key: string, runId: UUID, ttlSeconds: number): Promise<UUID | null> {
+    try {
+      const script = `
+        if redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[2], "NX") then
+          return false
+        else
+          return redis.call("GET", KEYS[1])
+        end
+      `;
+
+      const result = await this.redis.eval(script, 1, this.getDedupeKey(key), runId, ttlSeconds);
+      return (result as string | null) || null;
+    } catch (error) {
+      // Let the run start rather than drop it because of a Redis hiccup
+      console.error('Failed to claim dedupe key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Release a dedupe key claimed for a run that did not start
+   */
+  async releaseDedupeKey(key: string, runId: UUID): Promise<void> {
+    try {
+      const script = `
+        if redis.call("GET", KEYS[1]) == ARGV[1] then
+          return redis.call("DEL", KEYS[1])
+        else
+          return 0
+        end
+      `;
+
+      await this.redis.eval(script, 1, this.getDedupeKey(key), runId);
+    } catch (error) {
+      console.error('Failed to release dedupe key:', error);
+    }
+  }
+
+  /**
+   * Acquire the lock serializing run admission for a workflow and employee
+   */
+  async acquireAdmissionLock(key: string, holder: string, ttlSeconds: number): Promise<boolean> {
+    try {
+      const result = await this.redis.set(
+        this.getAdmissionLockKey(key),
+        holder,
+        'EX',
+        ttlSeconds,
+        'NX'
+      );
+      return result === 'OK';
+    } catch (error) {
+      console.error('Failed to acquire admission lock:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Release a run admission lock held by the given holder
+   */
+  async releaseAdmissionLock(key: string, holder: string): Promise<void> {
+    try {
+      const script = `
+        if redis.call("GET", KEYS[1]) == ARGV[1] then
+          return redis.call("DEL", KEYS[1])
+        else
+          return 0
+        end
+      `;
+
+      await this.redis.eval(script, 1, this.getAdmissionLockKey(key), holder);
+    } catch (error) {
+      console.error('Failed to release admission lock:', error);
+    }
+  }
+
+  /**
+   * Take a slot for an organization, unless it holds `limit` slots already or,
+   * with a global limit, all organizations together hold `globalLimit`. Slots
+   * past their expiry are dropped first, so slots of lost executions free up.
+   */
+  async acquireTenantSlot(
+    kind: TenantSlotKind,
+    orgId: UUID,
+    member: string,
+    limit: number,
+    expiresAt: number | null,
+    globalLimit: number = 0
+  ): Promise<TenantSlotResult> {
+    try {
+      const script = `
+        redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", ARGV[1])
+        redis.call("ZREMRANGEBYSCORE", KEYS[2], "-inf", ARGV[1])
+        if not redis.call("ZSCORE", KEYS[1], ARGV[2]) then
+          if redis.call("ZCARD", KEYS[1]) >= tonumber(ARGV[3]) then
+            return "tenant_full"
+          end
+          if tonumber(ARGV[5]) > 0 and redis.call("ZCARD", KEYS[2]) >= tonumber(ARGV[5]) then
+            return "engine_full"
+          end
+        end
+        redis.call("ZADD", KEYS[1], ARGV[4], ARGV[2])
+        redis.call("ZADD", KEYS[2], ARGV[4], ARGV[2])
+        return "acquired"
+      `;
+
+      const result = await this.redis.eval(
+        script,
+        2,
+        this.getTenantSlotKey(kind, orgId),
+        this.getTenantSlotKey(kind),
+        Date.now(),
+        member,
+        limit,
+        expiresAt === null ? '+inf' : expiresAt,
+        globalLimit
+      );
+      return result as TenantSlotResult;
+    } catch (error) {
+      // Don't hold up executions because of a Redis hiccup
+      console.error('Failed to acquire tenant slot:', error);
+      return 'acquired';
+    }
+  }
+
+  /**
+   * Give back a slot taken with acquireTenantSlot
+   */
+  async releaseTenantSlot(kind: TenantSlotKind, orgId: UUID, member: string): Promise<void> {
+    try {
+      await this.redis.zrem(this.getTenantSlotKey(kind, orgId), member);
+      await this.redis.zrem(this.getTenantSlotKey(kind), member);
+    } catch (error) {
+      console.error('Failed to release tenant slot:', error);
+    }
+  }
+
+  /**
+   * Count the unexpired slots of an organization, or of all organizations
+   */
+  async countTenantSlots(kind: TenantSlotKind, orgId?: UUID): Promise<number> {
+    try {
+      return await this.redis.zcount(this.getTenantSlotKey(kind, orgId), `(${Date.now()}`, '+inf');
+    } catch (error) {
+      console.error('Failed to count tenant slots:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Queue a run waiting for a run slot of its organization
+   */
+  async enqueueTenantRun(orgId: UUID, runId: UUID): Promise<void> {
+    try {
+      await this.redis.zadd(this.getTenantRunQueueKey(orgId), 'NX', Date.now(), runId);
+    } catch (error) {
+      console.error('Failed to queue run for tenant run slot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the run that has waited longest for a run slot of an organization
+   */
+  async peekTenantRun(orgId: UUID): Promise<UUID | null> {
+    try {
+      const [runId] = await this.redis.zrange(this.getTenantRunQueueKey(orgId), 0, 0);
+      return runId || null;
+    } catch (error) {
+      console.error('Failed to read tenant run queue:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Take a run off the queue of its organization, returning whether it was queued
+   */
+  async removeTenantRun(orgId: UUID, runId: UUID): Promise<boolean> {
+    try {
+      return (await this.redis.zrem(this.getTenantRunQueueKey(orgId), runId)) === 1;
+    } catch (error) {
+      console.error('Failed to remove run from tenant run queue:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a run is waiting for a run slot of its organization
+   */
+  async isTenantRunQueued(orgId: UUID, runId: UUID): Promise<boolean> {
+    try {
+      return (await this.redis.zscore(this.getTenantRunQueueKey(orgId), runId)) !== null;
+    } catch (error) {
+      console.error('Failed to check tenant run queue:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Count the runs waiting for a run slot of an organization
+   */
+  async countTenantQueuedRuns(orgId: UUID): Promise<number> {
+    try {
+      return await this.redis.zcard(this.getTenantRunQueueKey(orgId));
+    } catch (error) {
+      console.error('Failed to count tenant run queue:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Record that an engine instance is alive for the next ttlSeconds
+   */
+  async registerInstance(instanceId: string, ttlSeconds: number): Promise<void> {
+    try {
+      await this.redis.set(
+        this.getInstanceKey(instanceId),
+        new Date().toISOString(),
+        'EX',
+        ttlSeconds
+      );
+    } catch (error) {
+      console.error('Failed to register instance heartbeat:', error);
+    }
+  }
+
+  /**
+   * Check whether an engine instance has sent a recent heartbeat
+   */
+  async isInstanceAlive(instanceId: string): Promise<boolean> {
+    try {
+      return (await this.redis.exists(this.getInstanceKey(instanceId))) === 1;
+    } catch (error) {
+      console.error('Failed to check instance heartbeat:', error);
+      // Assume alive so a Redis hiccup never triggers a takeover
+      return true;
+    }
+  }
+
   /**
    * Schedule node retry using Redis sorted set
    */
@@ -311,6 +690,330 @@ export class RedisStateManager {
     }
   }
 
+  /**
+   * Schedule a durable timer using Redis sorted set
+   */
+  async scheduleTimer(runId: UUID, nodeId: UUID, fireAt: Date): Promise<void> {
+    try {
+      const key = this.getTimerScheduleKey();
+      const member = `${runId}:${nodeId}`;
+      const score = fireAt.getTime();
+
+      await this.redis.zadd(key, score, member);
+    } catch (error) {
+      console.error('Failed to schedule timer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get timers that are due to fire
+   */
+  async getDueTimers(limit: number = 100): Promise<Array<{ runId: UUID; nodeId: UUID }>> {
+    try {
+      const key = this.getTimerScheduleKey();
+      const now = Date.now();
+
+      const results = await this.redis.zrangebyscore(key, '-inf', now, 'LIMIT', 0, limit);
+
+      return results.map((result) => {
+        const [runId, nodeId] = result.split(':');
+        return { runId, nodeId };
+      });
+    } catch (error) {
+      console.error('Failed to get due timers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Claim a due timer so only one instance fires it
+   */
+  async claimTimer(
+    runId: UUID,
+    nodeId: UUID,
+    claimHolder: string,
+    claimTtlSeconds: number = 60
+  ): Promise<boolean> {
+    try {
+      const key = this.getTimerClaimKey(runId, nodeId);
+      const result = await this.redis.set(key, claimHolder, 'EX', claimTtlSeconds, 'NX');
+
+      return result === 'OK';
+    } catch (error) {
+      console.error('Failed to claim timer:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a timer and its claim
+   */
+  async removeTimer(runId: UUID, nodeId: UUID): Promise<void> {
+    try {
+      const key = this.getTimerScheduleKey();
+      const member = `${runId}:${nodeId}`;
+
+      await this.redis.zrem(key, member);
+      await this.redis.del(this.getTimerClaimKey(runId, nodeId));
+    } catch (error) {
+      console.error('Failed to remove timer:', error);
+    }
+  }
+
+  /**
+   * Register a node waiting for signals with a name and correlation key
+   */
+  async addSignalWaiter(signalKey: string, runId: UUID, nodeId: UUID): Promise<void> {
+    try {
+      await this.redis.sadd(this.getSignalWaitersKey(signalKey), `${runId}:${nodeId}`);
+    } catch (error) {
+      console.error('Failed to add signal waiter:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unregister a node that no longer waits for a signal
+   */
+  async removeSignalWaiter(signalKey: string, runId: UUID, nodeId: UUID): Promise<void> {
+    try {
+      await this.redis.srem(this.getSignalWaitersKey(signalKey), `${runId}:${nodeId}`);
+    } catch (error) {
+      console.error('Failed to remove signal waiter:', error);
+    }
+  }
+
+  /**
+   * Get the nodes waiting for signals with a name and correlation key
+   */
+  async getSignalWaiters(signalKey: string): Promise<Array<{ runId: UUID; nodeId: UUID }>> {
+    try {
+      const members = await this.redis.smembers(this.getSignalWaitersKey(signalKey));
+
+      return members.map((member) => {
+        const [runId, nodeId] = member.split(':');
+        return { runId, nodeId };
+      });
+    } catch (error) {
+      console.error('Failed to get signal waiters:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Buffer a signal that arrived before any node waited for it
+   */
+  async bufferSignal(signalKey: string, signal: WorkflowSignal, expiresAt: Date): Promise<void> {
+    try {
+      const key = this.getSignalBufferKey(signalKey);
+      const ttlSeconds = Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000));
+
+      await this.redis.zadd(key, expiresAt.getTime(), JSON.stringify(signal));
+      // The buffer lives as long as its newest signal
+      await this.redis.expire(key, ttlSeconds);
+    } catch (error) {
+      console.error('Failed to buffer signal:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the buffered signals that have not expired, oldest first
+   */
+  async getBufferedSignals(signalKey: string): Promise<WorkflowSignal[]> {
+    try {
+      const key = this.getSignalBufferKey(signalKey);
+      await this.redis.zremrangebyscore(key, '-inf', Date.now());
+
+      const members = await this.redis.zrange(key, 0, -1);
+      return members
+        .map((member) => JSON.parse(member) as WorkflowSignal)
+        .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+    } catch (error) {
+      console.error('Failed to get buffered signals:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Take a signal out of the buffer. Only one caller gets true for a signal.
+   */
+  async takeBufferedSignal(signalKey: string, signal: WorkflowSignal): Promise<boolean> {
+    try {
+      const removed = await this.redis.zrem(
+        this.getSignalBufferKey(signalKey),
+        JSON.stringify(signal)
+      );
+      return removed > 0;
+    } catch (error) {
+      console.error('Failed to take buffered signal:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Register the execution deadline of a running node
+   */
+  async scheduleNodeTimeout(runId: UUID, nodeId: UUID, deadline: Date): Promise<void> {
+    try {
+      await this.redis.zadd(this.getNodeTimeoutKey(), deadline.getTime(), `${runId}:${nodeId}`);
+    } catch (error) {
+      console.error('Failed to schedule node timeout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get running nodes whose deadline has passed
+   */
+  async getTimedOutNodes(limit: number = 100): Promise<Array<{ runId: UUID; nodeId: UUID }>> {
+    try {
+      const results = await this.redis.zrangebyscore(
+        this.getNodeTimeoutKey(),
+        '-inf',
+        Date.now(),
+        'LIMIT',
+        0,
+        limit
+      );
+
+      return results.map((result) => {
+        const [runId, nodeId] = result.split(':');
+        return { runId, nodeId };
+      });
+    } catch (error) {
+      console.error('Failed to get timed out nodes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove a node execution deadline
+   */
+  async removeNodeTimeout(runId: UUID, nodeId: UUID): Promise<void> {
+    try {
+      await this.redis.zrem(this.getNodeTimeoutKey(), `${runId}:${nodeId}`);
+    } catch (error) {
+      console.error('Failed to remove node timeout:', error);
+    }
+  }
+
+  /**
+   * Register the execution deadline of a workflow run
+   */
+  async scheduleWorkflowTimeout(runId: UUID, deadline: Date): Promise<void> {
+    try {
+      await this.redis.zadd(this.getWorkflowTimeoutKey(), deadline.getTime(), runId);
+    } catch (error) {
+      console.error('Failed to schedule workflow timeout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get workflow runs whose deadline has passed
+   */
+  async getTimedOutWorkflows(limit: number = 100): Promise<UUID[]> {
+    try {
+      return await this.redis.zrangebyscore(
+        this.getWorkflowTimeoutKey(),
+        '-inf',
+        Date.now(),
+        'LIMIT',
+        0,
+        limit
+      );
+    } catch (error) {
+      console.error('Failed to get timed out workflows:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove a workflow execution deadline
+   */
+  async removeWorkflowTimeout(runId: UUID): Promise<void> {
+    try {
+      await this.redis.zrem(this.getWorkflowTimeoutKey(), runId);
+    } catch (error) {
+      console.error('Failed to remove workflow timeout:', error);
+    }
+  }
+
+  /**
+   * Claim an expired deadline so only one instance handles it
+   */
+  async claimTimeoutCheck(
+    target: string,
+    claimHolder: string,
+    claimTtlSeconds: number = 60
+  ): Promise<boolean> {
+    try {
+      const result = await this.redis.set(
+        `timeout:claim:${target}`,
+        claimHolder,
+        'EX',
+        claimTtlSeconds,
+        'NX'
+      );
+
+      return result === 'OK';
+    } catch (error) {
+      console.error('Failed to claim timeout check:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Schedule an SLA checkpoint: the warning or the deadline of an SLA record
+   */
+  async scheduleSlaCheckpoint(slaId: UUID, checkpoint: string, at: Date): Promise<void> {
+    try {
+      await this.redis.zadd(this.getSlaCheckpointKey(), at.getTime(), `${slaId}:${checkpoint}`);
+    } catch (error) {
+      console.error('Failed to schedule SLA checkpoint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get SLA checkpoints that have passed
+   */
+  async getDueSlaCheckpoints(
+    limit: number = 100
+  ): Promise<Array<{ slaId: UUID; checkpoint: string }>> {
+    try {
+      const results = await this.redis.zrangebyscore(
+        this.getSlaCheckpointKey(),
+        '-inf',
+        Date.now(),
+        'LIMIT',
+        0,
+        limit
+      );
+
+      return results.map((result) => {
+        const [slaId, checkpoint] = result.split(':');
+        return { slaId, checkpoint };
+      });
+    } catch (error) {
+      console.error('Failed to get due SLA checkpoints:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove an SLA checkpoint
+   */
+  async removeSlaCheckpoint(slaId: UUID, checkpoint: string): Promise<void> {
+    try {
+      await this.redis.zrem(this.getSlaCheckpointKey(), `${slaId}:${checkpoint}`);
+    } catch (error) {
+      console.error('Failed to remove SLA checkpoint:', error);
+    }
+  }
+
   /**
    * Delete all state for a workflow run
    */
@@ -537,6 +1240,7 @@ export class RedisStateManager {
   async getWorkflowStats(organizationId?: UUID): Promise<{
     totalActiveWorkflows: number;
     totalScheduledRetries: number;
+    totalScheduledTimers: number;
     nodeStatusCounts: Record<string, number>;
     avgExecutionTime?: number;
   }> {
@@ -544,6 +1248,7 @@ export class RedisStateManager {
       const stats = {
         totalActiveWorkflows: 0,
         totalScheduledRetries: 0,
+        totalScheduledTimers: 0,
         nodeStatusCounts: {} as Record<string, number>,
       };
 
@@ -559,6 +1264,9 @@ export class RedisStateManager {
       const retryKey = this.getRetryScheduleKey();
       stats.totalScheduledRetries = await this.redis.zcard(retryKey);
 
+      // Count pending delay timers
+      stats.totalScheduledTimers = await this.redis.zcard(this.getTimerScheduleKey());
+
       // Count node statuses (simplified - would need better indexing in production)
       const nodePattern = organizationId
         ? `${this.keyPrefix}node:*:${organizationId}:*`
@@ -590,6 +1298,7 @@ export class RedisStateManager {
       return {
         totalActiveWorkflows: 0,
         totalScheduledRetries: 0,
+        totalScheduledTimers: 0,
         nodeStatusCounts: {},
       };
     }
@@ -640,10 +1349,75 @@ export class RedisStateManager {
     return `lock:workflow:${runId}`;
   }
 
+  private getInstanceKey(instanceId: string): string {
+    return `instance:${instanceId}`;
+  }
+
+  private getLeaderKey(role: string): string {
+    return `leader:${role}`;
+  }
+
+  private getDedupeKey(key: string): string {
+    return `dedupe:${key}`;
+  }
+
+  private getAdmissionLockKey(key: string): string {
+    return `lock:admission:${key}`;
+  }
+
+  // Organization and engine-wide slots share a hash slot, so scripts can update both
+  private getTenantSlotKey(kind: TenantSlotKind, orgId?: UUID): string {
+    return orgId ? `tenant:{slots}:${kind}:${orgId}` : `tenant:{slots}:${kind}`;
+  }
+
+  private getTenantRunQueueKey(orgId: UUID): string {
+    return `tenant:run-queue:${orgId}`;
+  }
+
   private getRetryScheduleKey(): string {
     return 'retry:schedule';
   }
 
+  private getNodeTimeoutKey(): string {
+    return 'timeout:nodes';
+  }
+
+  private getWorkflowTimeoutKey(): string {
+    return 'timeout:workflows';
+  }
+
+  private getTimerScheduleKey(): string {
+    return 'timer:schedule';
+  }
+
+  private getTimerClaimKey(runId: UUID, nodeId: UUID): string {
+    return `timer:claim:${runId}:${nodeId}`;
+  }
+
+  private getSlaCheckpointKey(): string {
+    return 'sla:checkpoints';
+  }
+
+  private getSignalWaitersKey(signalKey: string): string {
+    return `signal:waiters:${signalKey}`;
+  }
+
+  private getSignalBufferKey(signalKey: string): string {
+    return `signal:buffer:${signalKey}`;
+  }
+
+  /**
+   * Keep state alive until the latest pending timer has fired
+   */
+  private getTtlCoveringTimers(baseTtl: number, fireTimes: number[]): number {
+    if (fireTimes.length === 0) {
+      return baseTtl;
+    }
+
+    const secondsUntilLastTimer = Math.ceil((Math.max(...fireTimes) - Date.now()) / 1000);
+    return Math.max(baseTtl, secondsUntilLastTimer + baseTtl);
+  }
+
   /**
    * Circuit breaker operations
    */
@@ -846,6 +1620,18 @@ export class RedisStateManager {
     }
   }
 
+  /**
+   * Get scheduled timer count
+   */
+  async getScheduledTimerCount(): Promise<number> {
+    try {
+      return await this.redis.zcard(this.getTimerScheduleKey());
+    } catch (error) {
+      console.error('Failed to get scheduled timer count:', error);
+      return 0;
+    }
+  }
+
   /**
    * Get scheduled retry count
    */
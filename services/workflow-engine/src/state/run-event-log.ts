@@ -0,0 +1,103 @@
+/**
+ * Append-only event log of workflow runs, the source of run timelines
+ */
+
+import {
+  UUID,
+  RunEvent,
+  RunEventActor,
+  RunEventEntity,
+  RunEventRepository,
+  RunEventType,
+} from '@officeflow/types';
+
+export const SYSTEM_ACTOR: RunEventActor = { type: 'system' };
+
+export interface RunEventInput {
+  type: RunEventType;
+  nodeId?: string;
+  attempt?: number;
+  fromStatus?: string;
+  toStatus?: string;
+  actor?: RunEventActor; // defaults to the engine itself
+  data?: Record<string, any>;
+}
+
+export interface RunEventPage {
+  events: RunEvent[];
+  nextCursor: number | null; // sequence to pass as `after` for the next page
+}
+
+export class RunEventLog {
+  constructor(private runEventRepo: RunEventRepository) {}
+
+  /**
+   * Append an event to a run's log. Failures are logged, never thrown: losing a
+   * timeline entry must not fail the run it describes.
+   */
+  async record(runId: UUID, event: RunEventInput): Promise<void> {
+    const actor = event.actor || SYSTEM_ACTOR;
+    try {
+      await this.runEventRepo.append({
+        run_id: runId,
+        event_type: event.type,
+        node_id: event.nodeId,
+        attempt: event.attempt,
+        from_status: event.fromStatus,
+        to_status: event.toStatus,
+        actor_type: actor.type,
+        actor_id: actor.id,
+        data: event.data || {},
+      });
+    } catch (error) {
+      console.error(`Failed to record ${event.type} event for run ${runId}:`, error);
+    }
+  }
+
+  /**
+   * Page through a run's events in the order they happened
+   */
+  async getEvents(runId: UUID, after: number = 0, limit: number = 100): Promise<RunEventPage> {
+    // Fetch one extra event to know whether another page follows
+    const entities = await this.runEventRepo.findByRun(runId, after, limit + 1);
+    const events = entities.slice(0, limit).map(mapRunEventEntityToEvent);
+
+    return {
+      events,
+      nextCursor: entities.length > limit ? events[events.length - 1].sequence : null,
+    };
+  }
+}
+
+/**
+ * Who started a run, judged by its trigger event
+ */
+export function triggerActor(triggerEvent: any): RunEventActor {
+  const type: string = triggerEvent?.type || '';
+
+  if (type.startsWith('schedule.')) {
+    return { type: 'schedule', id: triggerEvent.payload?.scheduleId };
+  }
+  if (type === 'manual') {
+    return triggerEvent.triggeredBy ? { type: 'user', id: triggerEvent.triggeredBy } : SYSTEM_ACTOR;
+  }
+  return type ? { type: 'event', id: triggerEvent.id || type } : SYSTEM_ACTOR;
+}
+
+function mapRunEventEntityToEvent(entity: RunEventEntity): RunEvent {
+  return {
+    id: entity.event_id,
+    sequence: entity.sequence,
+    runId: entity.run_id,
+    type: entity.event_type,
+    nodeId: entity.node_id,
+    attempt: entity.attempt,
+    fromStatus: entity.from_status,
+    toStatus: entity.to_status,
+    actor: entity.actor_id
+      ? { type: entity.actor_type, id: entity.actor_id }
+      : { type: entity.actor_type },
+    data: entity.data || {},
+    createdAt: entity.created_at,
+  };
+}
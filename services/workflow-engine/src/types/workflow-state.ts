@@ -3,10 +3,16 @@
  */
 
 import { UUID, WorkflowRunStatus, NodeRunStatus } from '@officeflow/types';
+import { PendingApproval } from '../execution/approval-service';
+import { ForeachProgress } from '../execution/foreach-coordinator';
+import { RunDebugState } from '../execution/run-debugger';
+import { PendingSignal } from '../execution/signal-service';
+import { SlaClock } from '../execution/sla-tracker';
 
 export interface WorkflowState {
   runId: UUID;
   workflowId: UUID;
+  workflowVersion?: number; // unset for runs started before versions were pinned
   organizationId: UUID;
   employeeId: UUID;
   status: WorkflowRunStatus;
@@ -18,6 +24,17 @@ export interface WorkflowState {
   startedAt: Date;
   lastUpdatedAt: Date;
   errorDetails?: any;
+  pendingTimers?: Record<UUID, string>; // nodeId -> ISO fire time for waiting delay nodes
+  nodeOutputs?: Record<UUID, Record<string, any>>; // nodeId -> output of completed nodes
+  parentRunId?: UUID; // set on runs started by a workflow.invoke node
+  parentNodeId?: UUID;
+  invocationMode?: 'sync' | 'async';
+  childRuns?: Record<UUID, UUID>; // nodeId -> child runId for sync invocations in flight
+  pendingApprovals?: Record<UUID, PendingApproval>; // nodeId -> approval awaiting a decision
+  foreachRuns?: Record<UUID, ForeachProgress>; // nodeId -> progress of a running foreach node
+  debug?: RunDebugState; // set on runs started in debug mode
+  pendingSignals?: Record<UUID, PendingSignal>; // nodeId -> signal a wait_for_event node waits for
+  slaRecords?: Record<string, SlaClock>; // nodeId, or 'run' for the run's own -> SLA being measured
 }
 
 export interface NodeState {
@@ -31,6 +48,7 @@ export interface NodeState {
   startedAt?: Date;
   endedAt?: Date;
   nextRetryAt?: Date;
+  wakeAt?: Date;
 }
 
 export interface WorkflowTransition {
@@ -65,6 +83,7 @@ export const NODE_TRANSITIONS: NodeTransition[] = [
   { fromStatus: 'RUNNING', toStatus: 'COMPLETED', trigger: 'complete' },
   { fromStatus: 'RUNNING', toStatus: 'FAILED', trigger: 'fail' },
   { fromStatus: 'FAILED', toStatus: 'RETRYING', trigger: 'retry' },
+  { fromStatus: 'TIMEOUT', toStatus: 'RETRYING', trigger: 'retry' },
   { fromStatus: 'RETRYING', toStatus: 'QUEUED', trigger: 'queue' },
   { fromStatus: 'QUEUED', toStatus: 'SKIPPED', trigger: 'skip' },
   { fromStatus: 'RUNNING', toStatus: 'CANCELLED', trigger: 'cancel' },
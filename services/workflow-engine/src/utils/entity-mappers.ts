@@ -5,8 +5,12 @@
 import {
   WorkflowEntity,
   WorkflowRunEntity,
+  WorkflowScheduleEntity,
+  CompensationPlanEntity,
   WorkflowDefinition,
   WorkflowRun,
+  ScheduledWorkflow,
+  RunCompensationPlan,
 } from '@officeflow/types';
 
 /**
@@ -37,6 +41,7 @@ export function mapWorkflowRunEntityToRun(entity: WorkflowRunEntity): WorkflowRu
     id: entity.run_id,
     organizationId: entity.org_id,
     workflowId: entity.workflow_id,
+    workflowVersion: entity.workflow_version,
     employeeId: entity.employee_id || '',
     triggerEvent: entity.trigger_event as any,
     status: entity.status,
@@ -52,6 +57,10 @@ export function mapWorkflowRunEntityToRun(entity: WorkflowRunEntity): WorkflowRu
     endedAt: entity.ended_at,
     errorDetails: entity.error_details,
     correlationId: `${entity.run_id}`,
+    parentRunId: entity.parent_run_id,
+    parentNodeId: entity.parent_node_id,
+    rerunOfRunId: entity.rerun_of_run_id,
+    rerunFromNodeId: entity.rerun_from_node_id,
     createdAt: entity.created_at,
     updatedAt: entity.created_at, // Use created_at as fallback
   };
@@ -67,12 +76,86 @@ export function mapWorkflowRunToEntity(
     run_id: run.id || '',
     org_id: run.organizationId || '',
     workflow_id: run.workflowId || '',
-    employee_id: run.employeeId,
+    workflow_version: run.workflowVersion,
+    employee_id: run.employeeId || undefined, // scheduled runs may have no employee
     trigger_event: (run.triggerEvent as string) || 'manual',
     status: run.status || 'PENDING',
     context: run.context?.variables || {},
     error_details: run.errorDetails,
     started_at: run.startedAt || new Date(),
     ended_at: run.endedAt,
+    parent_run_id: run.parentRunId,
+    parent_node_id: run.parentNodeId,
+    rerun_of_run_id: run.rerunOfRunId,
+    rerun_from_node_id: run.rerunFromNodeId,
+  };
+}
+
+/**
+ * Map WorkflowScheduleEntity to ScheduledWorkflow
+ */
+export function mapScheduleEntityToSchedule(entity: WorkflowScheduleEntity): ScheduledWorkflow {
+  return {
+    id: entity.schedule_id,
+    workflowId: entity.workflow_id,
+    organizationId: entity.org_id,
+    name: entity.name,
+    type: entity.schedule_type,
+    cronExpression: entity.cron_expression,
+    timezone: entity.timezone,
+    dateField: entity.date_field,
+    offsetDays: entity.offset_days,
+    misfirePolicy: entity.misfire_policy,
+    variables: entity.variables || {},
+    nextRunTime: entity.next_run_at,
+    lastRunTime: entity.last_run_at,
+    isActive: entity.is_active,
+    createdBy: entity.created_by,
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+  };
+}
+
+/**
+ * Map ScheduledWorkflow fields to WorkflowScheduleEntity columns
+ */
+export function mapScheduleToEntity(
+  schedule: Partial<ScheduledWorkflow>
+): Partial<WorkflowScheduleEntity> {
+  return {
+    workflow_id: schedule.workflowId,
+    org_id: schedule.organizationId,
+    name: schedule.name,
+    schedule_type: schedule.type,
+    cron_expression: schedule.cronExpression,
+    timezone: schedule.timezone,
+    date_field: schedule.dateField,
+    offset_days: schedule.offsetDays,
+    misfire_policy: schedule.misfirePolicy,
+    variables: schedule.variables,
+    next_run_at: schedule.nextRunTime,
+    is_active: schedule.isActive,
+    created_by: schedule.createdBy,
+  };
+}
+
+/**
+ * Map CompensationPlanEntity to RunCompensationPlan
+ */
+export function mapCompensationPlanEntityToPlan(
+  entity: CompensationPlanEntity
+): RunCompensationPlan {
+  return {
+    id: entity.plan_id,
+    runId: entity.run_id,
+    workflowId: entity.workflow_id,
+    organizationId: entity.org_id,
+    trigger: entity.trigger_type,
+    status: entity.status,
+    reason: entity.reason,
+    requestedBy: entity.requested_by,
+    steps: entity.steps || [],
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
   };
 }